@@ -4,7 +4,11 @@ import { MedicalProvider, useMedical } from './context/MedicalContext';
 import AnalyzerView from './components/AnalyzerView';
 import HistoryView from './components/HistoryView';
 import ComparisonView from './components/ComparisonView';
+import TrendsView from './components/TrendsView';
+import SettingsView from './components/SettingsView';
+import UnlockScreen from './components/UnlockScreen';
 import { translations } from './utils/translations';
+import { describeProgress } from './services/analysisStream';
 import { Language } from './types';
 
 // --- About Page Component ---
@@ -34,7 +38,7 @@ const AboutPage: React.FC = () => (
 
 // --- Navbar Component ---
 const Navbar: React.FC = () => {
-  const { language, setLanguage, isAnalyzing, analysisData } = useMedical();
+  const { language, setLanguage, isAnalyzing, analysisData, vaultStatus, lock } = useMedical();
   const location = useLocation();
   const t = translations[language];
 
@@ -70,6 +74,18 @@ const Navbar: React.FC = () => {
             >
               {t.history}
             </Link>
+            <Link 
+              to="/trends" 
+              className={`text-sm font-medium transition-colors ${isActive('/trends') ? 'text-blue-600' : 'text-slate-600 hover:text-blue-600'}`}
+            >
+              {t.trends}
+            </Link>
+            <Link 
+              to="/settings" 
+              className={`text-sm font-medium transition-colors ${isActive('/settings') ? 'text-blue-600' : 'text-slate-600 hover:text-blue-600'}`}
+            >
+              {t.settings}
+            </Link>
             <Link 
               to="/about" 
               className={`text-sm font-medium transition-colors ${isActive('/about') ? 'text-blue-600' : 'text-slate-600 hover:text-blue-600'}`}
@@ -83,6 +99,26 @@ const Navbar: React.FC = () => {
            {/* Mobile Nav Link (simplified) */}
            <Link to="/history" className="md:hidden text-sm text-slate-600 font-medium">{t.history}</Link>
 
+           {vaultStatus === 'locked' && (
+             <span className="flex items-center gap-1.5 text-xs font-bold uppercase tracking-wider text-amber-700 bg-amber-50 border border-amber-200 px-2.5 py-1.5 rounded-lg">
+               <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-3.5 h-3.5">
+                 <path fillRule="evenodd" d="M10 1a4.5 4.5 0 00-4.5 4.5V9H5a2 2 0 00-2 2v6a2 2 0 002 2h10a2 2 0 002-2v-6a2 2 0 00-2-2h-.5V5.5A4.5 4.5 0 0010 1zm3 8V5.5a3 3 0 10-6 0V9h6z" clipRule="evenodd" />
+               </svg>
+               {t.locked}
+             </span>
+           )}
+           {vaultStatus === 'unlocked' && (
+             <button
+               onClick={() => lock()}
+               title={t.lockNow}
+               className="p-2 rounded-lg text-slate-500 hover:text-blue-600 hover:bg-slate-100 transition-colors"
+             >
+               <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-5 h-5">
+                 <path fillRule="evenodd" d="M10 1a4.5 4.5 0 00-4.5 4.5V9H5a2 2 0 00-2 2v6a2 2 0 002 2h10a2 2 0 002-2v-6a2 2 0 00-2-2h-.5V5.5A4.5 4.5 0 0010 1zm3 8V5.5a3 3 0 10-6 0V9h6z" clipRule="evenodd" />
+               </svg>
+             </button>
+           )}
+
            <div className="relative">
              <select
                value={language}
@@ -108,7 +144,7 @@ const Navbar: React.FC = () => {
 
 // --- Floating Status Component ---
 const FloatingStatus: React.FC = () => {
-  const { isAnalyzing, error, analysisData, language } = useMedical();
+  const { isAnalyzing, analysisProgress, cancelAnalysis, error, analysisData, language } = useMedical();
   const location = useLocation();
   const t = translations[language];
 
@@ -127,12 +163,27 @@ const FloatingStatus: React.FC = () => {
               {t.analyzing}
             </p>
             <p className="text-xs text-slate-500">
-              {language === 'en' ? 'You can keep browsing' : '...'}
+              {analysisProgress
+                ? describeProgress(analysisProgress, language)
+                : (language === 'en' ? 'You can keep browsing' : '...')}
             </p>
+            {analysisProgress && (
+              <div className="mt-2 h-1.5 w-40 bg-slate-100 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-blue-500 rounded-full transition-all duration-500 ease-out"
+                  style={{ width: `${analysisProgress.percent}%` }}
+                ></div>
+              </div>
+            )}
+          </div>
+          <div className="flex flex-col items-end gap-1">
+            <Link to="/" className="text-xs font-bold text-blue-600 hover:text-blue-800">
+              {t.view}
+            </Link>
+            <button onClick={cancelAnalysis} className="text-xs font-medium text-slate-500 hover:text-red-600">
+              {t.cancel}
+            </button>
           </div>
-          <Link to="/" className="text-xs font-bold text-blue-600 hover:text-blue-800">
-            {t.view}
-          </Link>
         </div>
       </div>
     );
@@ -187,18 +238,27 @@ const FloatingStatus: React.FC = () => {
 
 // --- Main App Layout ---
 const AppContent: React.FC = () => {
+  const { vaultStatus } = useMedical();
+  const isLocked = vaultStatus === 'locked';
+
   return (
     <div className="min-h-screen bg-slate-50 text-slate-900 pb-12 font-sans selection:bg-blue-100 selection:text-blue-900">
       <Navbar />
       <main className="max-w-5xl mx-auto px-4 py-8">
-        <Routes>
-          <Route path="/" element={<AnalyzerView />} />
-          <Route path="/history" element={<HistoryView />} />
-          <Route path="/compare" element={<ComparisonView />} />
-          <Route path="/about" element={<AboutPage />} />
-        </Routes>
+        {isLocked ? (
+          <UnlockScreen />
+        ) : (
+          <Routes>
+            <Route path="/" element={<AnalyzerView />} />
+            <Route path="/history" element={<HistoryView />} />
+            <Route path="/compare" element={<ComparisonView />} />
+            <Route path="/trends" element={<TrendsView />} />
+            <Route path="/settings" element={<SettingsView />} />
+            <Route path="/about" element={<AboutPage />} />
+          </Routes>
+        )}
       </main>
-      <FloatingStatus />
+      {!isLocked && <FloatingStatus />}
     </div>
   );
 };
@@ -1,11 +1,21 @@
-import React, { useState } from 'react';
-import { AnalysisData, Language, MedicalTestResult } from '../types';
+import React, { useState, useEffect, useMemo } from 'react';
+import { ActionItem, AnalysisData, Language, MedicalTestResult } from '../types';
 import { useMedical } from '../context/MedicalContext';
 import { translations } from '../utils/translations';
+import { convertResults } from '../utils/unitConversion';
+import { resultRowId } from '../utils/citations';
+import MedicationList from './MedicationList';
+import MedicationSchedule from './MedicationSchedule';
+import RadiologyReportView from './RadiologyReportView';
+import DischargeSummaryView from './DischargeSummaryView';
+import DrugInteractionPanel from './DrugInteractionPanel';
+import { checkInteractions, reportMedications } from '../services/drugInteractions';
+import { describeValidationWarning } from '../services/analysisValidator';
 
 interface AnalysisResultsProps {
   data: AnalysisData;
   language: Language;
+  isStreaming?: boolean; // Data is still arriving; hide parts that need the complete response
 }
 
 // --- Helper Components ---
@@ -89,11 +99,38 @@ const RangeVisualizer: React.FC<{ item: MedicalTestResult }> = ({ item }) => {
 
 // --- Main Component ---
 
-const AnalysisResults: React.FC<AnalysisResultsProps> = ({ data, language }) => {
-  const { setPrefilledMessage } = useMedical();
+const AnalysisResults: React.FC<AnalysisResultsProps> = ({ data, language, isStreaming = false }) => {
+  const { setPrefilledMessage, settings, highlightedResult, setHighlightedResult, history, fileData } = useMedical();
   const [viewMode, setViewMode] = useState<'simple' | 'technical'>('simple');
   const t = translations[language];
 
+  // Results in the user's preferred unit system (as printed by default)
+  const results = convertResults(data.results, settings.unitSystem);
+  // Prescriptions, imaging reports and discharge summaries have their own view instead of the lab table.
+  // Older analyses of these documents only have results, so they keep the table.
+  const structuredView = (() => {
+    switch (data.documentType) {
+      case 'Prescription': return data.medications?.length || results.length === 0 ? 'prescription' : null;
+      case 'Radiology Report': return data.radiology || results.length === 0 ? 'radiology' : null;
+      case 'Discharge Summary': return data.dischargeSummary || results.length === 0 ? 'discharge' : null;
+      default: return null;
+    }
+  })();
+
+  // Prescribed medications checked against each other and the ones still in use from earlier prescriptions
+  const interactions = useMemo(
+    () => isStreaming ? [] : checkInteractions(reportMedications(data), history, language, fileData?.documentId),
+    [data, history, language, fileData?.documentId, isStreaming]
+  );
+
+  // Bring a result cited in the chat into view and flash it
+  useEffect(() => {
+    if (highlightedResult === null) return;
+    document.getElementById(resultRowId(highlightedResult))?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    const timer = setTimeout(() => setHighlightedResult(null), 2500);
+    return () => clearTimeout(timer);
+  }, [highlightedResult]);
+
   // Helper function to download markdown report
   const downloadReport = () => {
     if (!data.printableReport) return;
@@ -123,12 +160,33 @@ const AnalysisResults: React.FC<AnalysisResultsProps> = ({ data, language }) =>
     critical: t.critRisk,
   }[data.overallRiskLevel];
 
-  // Check for critical 10x errors
-  const suspiciousValues = data.results.filter(r => r.notes?.includes('10x') || r.status === 'critical');
+  // Who the analysis was personalized for, as a short line under the risk level
+  const profile = data.patientProfile;
+  const personalizedFor = profile && [
+    profile.age !== undefined && t.profileYears.replace('{n}', String(profile.age)),
+    profile.sex && (profile.sex === 'female' ? t.profileFemale : t.profileMale),
+    profile.pregnancy && (profile.pregnancy === 'pregnant' ? t.profilePregnant : t.profileBreastfeeding),
+    ...(profile.conditions || []),
+    profile.medications?.length && `${t.profileMedications}: ${profile.medications.join(', ')}`,
+    profile.allergies?.length && `${t.profileAllergies}: ${profile.allergies.join(', ')}`,
+  ].filter(Boolean).join(' · ');
+
+  // Check for critical 10x errors and values the local rule engine flagged as bad data
+  const suspiciousValues = results.filter(r =>
+    r.notes?.includes('10x') ||
+    r.status === 'critical' ||
+    r.ruleOverride?.rule === 'impossible' ||
+    r.ruleOverride?.rule === 'unit'
+  );
 
-  // Group Action Plan
+  // Group Action Plan (interactions are added as medical steps)
+  const interactionActions: ActionItem[] = interactions.map(interaction => ({
+    category: 'Medical',
+    priority: interaction.severity === 'minor' ? 'Low' : interaction.severity === 'moderate' ? 'Medium' : 'High',
+    action: t.interactionAction.replace('{a}', interaction.medications[0]).replace('{b}', interaction.medications[1]),
+  }));
   const actionGroups = {
-    Medical: data.actionPlan?.filter(a => a.category === 'Medical') || [],
+    Medical: [...interactionActions, ...(data.actionPlan?.filter(a => a.category === 'Medical') || [])],
     Diet: data.actionPlan?.filter(a => a.category === 'Diet' || a.category === 'Lifestyle') || [], // Group Lifestyle with Diet usually
     Verification: data.actionPlan?.filter(a => a.category === 'Data Verification') || [],
     Other: data.actionPlan?.filter(a => a.category === 'Other') || [],
@@ -146,53 +204,61 @@ const AnalysisResults: React.FC<AnalysisResultsProps> = ({ data, language }) =>
     <div className="space-y-6 w-full">
       
       {/* 1. Overall Risk Meter & Toggle Header */}
-      <div className={`rounded-xl shadow-sm border p-6 flex flex-col md:flex-row md:items-center justify-between gap-4 animate-fade-in ${riskColor}`}>
-        <div>
-          <h2 className="text-xs font-bold uppercase tracking-wider opacity-70 mb-1">
-            {t.overallHealth}
-          </h2>
-          <div className="flex items-center gap-3">
-            <div className="text-2xl font-bold">{riskLabel}</div>
-            <div className="hidden sm:block h-6 w-px bg-current opacity-20"></div>
-            {/* Simple Score Gauge */}
-            <div className="flex items-center gap-2" title="Aggregate Health Score">
-              <div className="w-24 h-2.5 bg-white/50 rounded-full overflow-hidden border border-black/5">
-                <div 
-                  className="h-full bg-current transition-all duration-1000 ease-out" 
-                  style={{ width: `${Math.min(100, data.overallRiskScore)}%` }}
-                ></div>
+      {!isStreaming && (
+        <div className={`rounded-xl shadow-sm border p-6 flex flex-col md:flex-row md:items-center justify-between gap-4 animate-fade-in ${riskColor}`}>
+          <div>
+            <h2 className="text-xs font-bold uppercase tracking-wider opacity-70 mb-1">
+              {t.overallHealth}
+            </h2>
+            <div className="flex items-center gap-3">
+              <div className="text-2xl font-bold">{riskLabel}</div>
+              <div className="hidden sm:block h-6 w-px bg-current opacity-20"></div>
+              {/* Simple Score Gauge */}
+              <div className="flex items-center gap-2" title="Aggregate Health Score">
+                <div className="w-24 h-2.5 bg-white/50 rounded-full overflow-hidden border border-black/5">
+                  <div 
+                    className="h-full bg-current transition-all duration-1000 ease-out" 
+                    style={{ width: `${Math.min(100, data.overallRiskScore)}%` }}
+                  ></div>
+                </div>
+                <span className="text-sm font-bold">{data.overallRiskScore}/100</span>
               </div>
-              <span className="text-sm font-bold">{data.overallRiskScore}/100</span>
             </div>
+            {personalizedFor && (
+              <p className="text-xs mt-2 opacity-80 flex items-center gap-1.5">
+                <svg className="w-3.5 h-3.5 flex-shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z" /></svg>
+                <span><span className="font-bold">{t.personalizedFor}:</span> {personalizedFor}</span>
+              </p>
+            )}
           </div>
-        </div>
 
-        {/* View Mode & Download Actions */}
-        <div className="flex flex-wrap gap-2 self-start md:self-center">
-           <button
-             onClick={downloadReport}
-             className="px-3 py-1.5 text-xs font-bold rounded-md bg-white border border-slate-300 text-slate-600 hover:bg-slate-50 hover:text-slate-800 transition-all flex items-center gap-2"
-           >
-             <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" /></svg>
-             {t.exportReport}
-           </button>
-           
-           <div className="flex bg-white/50 p-1 rounded-lg border border-black/5">
-            <button
-              onClick={() => setViewMode('simple')}
-              className={`px-3 py-1.5 text-xs font-bold rounded-md transition-all ${viewMode === 'simple' ? 'bg-white shadow-sm text-blue-600' : 'text-slate-500 hover:text-slate-700'}`}
-            >
-              {t.patient}
-            </button>
-            <button
-              onClick={() => setViewMode('technical')}
-              className={`px-3 py-1.5 text-xs font-bold rounded-md transition-all ${viewMode === 'technical' ? 'bg-white shadow-sm text-blue-600' : 'text-slate-500 hover:text-slate-700'}`}
-            >
-              {t.doctor}
-            </button>
+          {/* View Mode & Download Actions */}
+          <div className="flex flex-wrap gap-2 self-start md:self-center">
+             <button
+               onClick={downloadReport}
+               className="px-3 py-1.5 text-xs font-bold rounded-md bg-white border border-slate-300 text-slate-600 hover:bg-slate-50 hover:text-slate-800 transition-all flex items-center gap-2"
+             >
+               <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" /></svg>
+               {t.exportReport}
+             </button>
+             
+             <div className="flex bg-white/50 p-1 rounded-lg border border-black/5">
+              <button
+                onClick={() => setViewMode('simple')}
+                className={`px-3 py-1.5 text-xs font-bold rounded-md transition-all ${viewMode === 'simple' ? 'bg-white shadow-sm text-blue-600' : 'text-slate-500 hover:text-slate-700'}`}
+              >
+                {t.patient}
+              </button>
+              <button
+                onClick={() => setViewMode('technical')}
+                className={`px-3 py-1.5 text-xs font-bold rounded-md transition-all ${viewMode === 'technical' ? 'bg-white shadow-sm text-blue-600' : 'text-slate-500 hover:text-slate-700'}`}
+              >
+                {t.doctor}
+              </button>
+            </div>
           </div>
         </div>
-      </div>
+      )}
 
       {/* 2. Verification Alert (Hackathon "Safety" Feature) */}
       {suspiciousValues.length > 0 && (
@@ -220,6 +286,27 @@ const AnalysisResults: React.FC<AnalysisResultsProps> = ({ data, language }) =>
         </div>
       )}
 
+      {interactions.length > 0 && <DrugInteractionPanel interactions={interactions} language={language} />}
+
+      {/* Validator Repairs */}
+      {data.validationWarnings && data.validationWarnings.length > 0 && (
+        <details className="bg-amber-50 border border-amber-200 rounded-xl p-4 animate-fade-in group">
+          <summary className="cursor-pointer list-none flex items-center justify-between gap-3">
+            <span className="font-bold text-amber-800 text-sm flex items-center gap-2">
+              <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20"><path fillRule="evenodd" d="M8.257 3.099c.765-1.36 2.722-1.36 3.486 0l5.58 9.92c.75 1.334-.213 2.98-1.742 2.98H4.42c-1.53 0-2.493-1.646-1.743-2.98l5.58-9.92zM11 13a1 1 0 11-2 0 1 1 0 012 0zm-1-8a1 1 0 00-1 1v3a1 1 0 002 0V6a1 1 0 00-1-1z" clipRule="evenodd" /></svg>
+              {t.autoCorrected} ({data.validationWarnings.length})
+            </span>
+            <svg className="w-4 h-4 text-amber-600 transition-transform group-open:rotate-180" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 9l-7 7-7-7"></path></svg>
+          </summary>
+          <p className="text-xs text-amber-700 mt-2 mb-2">{t.autoCorrectedMsg}</p>
+          <ul className="space-y-1">
+            {data.validationWarnings.map((w, i) => (
+              <li key={i} className="text-xs font-mono text-amber-900 bg-white/60 px-2 py-1 rounded border border-amber-100">{describeValidationWarning(w, language)}</li>
+            ))}
+          </ul>
+        </details>
+      )}
+
       {/* 3. Summary Section */}
       <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 animate-fade-in">
         <h2 className="text-lg font-bold text-slate-800 mb-3 flex items-center gap-2">
@@ -232,7 +319,7 @@ const AnalysisResults: React.FC<AnalysisResultsProps> = ({ data, language }) =>
       </div>
 
       {/* 4. Action Plan (New Feature) */}
-      {data.actionPlan && data.actionPlan.length > 0 && (
+      {((data.actionPlan && data.actionPlan.length > 0) || interactionActions.length > 0) && (
         <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden animate-fade-in">
           <div className="p-4 border-b border-slate-100 bg-emerald-50/50">
             <h2 className="font-bold text-emerald-900 flex items-center gap-2">
@@ -296,75 +383,109 @@ const AnalysisResults: React.FC<AnalysisResultsProps> = ({ data, language }) =>
       )}
 
       {/* 5. Detailed Results Grid with Charts */}
-      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden animate-fade-in" style={{ animationDelay: '0.1s' }}>
-        <div className="p-4 border-b border-slate-100 bg-slate-50">
-          <h2 className="font-bold text-slate-800">
-            {t.detailedAnalysis}
-          </h2>
-        </div>
-        <div className="divide-y divide-slate-100">
-          {data.results.map((item, index) => (
-            <div 
-              key={index} 
-              className="p-5 hover:bg-slate-50 transition-colors stagger-item group"
-              style={{ animationDelay: `${0.2 + (index * 0.05)}s` }}
-            >
-              <div className="flex flex-col md:flex-row gap-4 justify-between">
+      {structuredView === 'prescription' && (
+        <MedicationList medications={data.medications || []} language={language} isStreaming={isStreaming} />
+      )}
+      {structuredView === 'prescription' && !isStreaming && data.medications && data.medications.length > 0 && (
+        <MedicationSchedule medications={data.medications} language={language} documentId={fileData?.documentId} />
+      )}
+      {structuredView === 'radiology' && <RadiologyReportView report={data.radiology} language={language} isStreaming={isStreaming} />}
+      {structuredView === 'discharge' && (
+        <DischargeSummaryView summary={data.dischargeSummary} language={language} isStreaming={isStreaming} />
+      )}
+      {(!structuredView || results.length > 0) && (
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden animate-fade-in" style={{ animationDelay: '0.1s' }}>
+          <div className="p-4 border-b border-slate-100 bg-slate-50">
+            <h2 className="font-bold text-slate-800">
+              {t.detailedAnalysis}
+            </h2>
+          </div>
+          <div className="divide-y divide-slate-100">
+            {results.map((item, index) => (
+              <div 
+                key={index} 
+                id={resultRowId(index)}
+                className={`p-5 hover:bg-slate-50 transition-colors stagger-item group ${
+                  highlightedResult === index ? 'bg-blue-50 ring-2 ring-inset ring-blue-400' : ''
+                }`}
+                style={{ animationDelay: `${0.2 + (index * 0.05)}s` }}
+              >
+                <div className="flex flex-col md:flex-row gap-4 justify-between">
                 
-                {/* Left: Info */}
-                <div className="flex-1 space-y-2">
-                  <div className="flex items-center gap-2 flex-wrap">
-                    <h4 className="font-bold text-slate-900">{item.test}</h4>
-                    <SeverityBadge severity={item.severity} status={item.status} />
-                  </div>
+                  {/* Left: Info */}
+                  <div className="flex-1 space-y-2">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <h4 className="font-bold text-slate-900">{item.test}</h4>
+                      <SeverityBadge severity={item.severity} status={item.status} />
+                      {item.ruleOverride && (
+                        <span
+                          className="px-2 py-0.5 rounded text-[10px] font-bold uppercase tracking-wider border bg-indigo-50 text-indigo-700 border-indigo-200 whitespace-nowrap"
+                          title={item.ruleOverride.message}
+                        >
+                          {t.localCheck} · {t.aiSaid}: {item.ruleOverride.aiStatus}
+                        </span>
+                      )}
+                    </div>
+                  
+                    {/* Toggle Logic for Explanations */}
+                    <div className="text-sm leading-relaxed">
+                      {viewMode === 'simple' ? (
+                        <p className="text-slate-600">{item.explanation}</p>
+                      ) : (
+                        <div className="bg-blue-50/50 p-3 rounded-lg border border-blue-100 text-slate-700 text-xs font-medium">
+                          <span className="text-blue-600 font-bold block mb-1 uppercase tracking-wider text-[10px]">{t.clinicalContext}</span>
+                          {item.technicalExplanation || item.explanation}
+                        </div>
+                      )}
+                    </div>
                   
-                  {/* Toggle Logic for Explanations */}
-                  <div className="text-sm leading-relaxed">
-                    {viewMode === 'simple' ? (
-                      <p className="text-slate-600">{item.explanation}</p>
-                    ) : (
-                      <div className="bg-blue-50/50 p-3 rounded-lg border border-blue-100 text-slate-700 text-xs font-medium">
-                        <span className="text-blue-600 font-bold block mb-1 uppercase tracking-wider text-[10px]">{t.clinicalContext}</span>
-                        {item.technicalExplanation || item.explanation}
+                    {/* Warnings */}
+                    {item.notes && (
+                      <div className="text-xs font-medium text-amber-700 flex items-center gap-1 mt-1">
+                        <svg className="w-3 h-3" fill="currentColor" viewBox="0 0 20 20"><path fillRule="evenodd" d="M8.257 3.099c.765-1.36 2.722-1.36 3.486 0l5.58 9.92c.75 1.334-.213 2.98-1.742 2.98H4.42c-1.53 0-2.493-1.646-1.743-2.98l5.58-9.92zM11 13a1 1 0 11-2 0 1 1 0 012 0zm-1-8a1 1 0 00-1 1v3a1 1 0 002 0V6a1 1 0 00-1-1z" clipRule="evenodd" /></svg>
+                        {item.notes}
                       </div>
                     )}
                   </div>
-                  
-                  {/* Warnings */}
-                  {item.notes && (
-                    <div className="text-xs font-medium text-amber-700 flex items-center gap-1 mt-1">
-                      <svg className="w-3 h-3" fill="currentColor" viewBox="0 0 20 20"><path fillRule="evenodd" d="M8.257 3.099c.765-1.36 2.722-1.36 3.486 0l5.58 9.92c.75 1.334-.213 2.98-1.742 2.98H4.42c-1.53 0-2.493-1.646-1.743-2.98l5.58-9.92zM11 13a1 1 0 11-2 0 1 1 0 012 0zm-1-8a1 1 0 00-1 1v3a1 1 0 002 0V6a1 1 0 00-1-1z" clipRule="evenodd" /></svg>
-                      {item.notes}
-                    </div>
-                  )}
-                </div>
 
-                {/* Right: Value, Range & Chart */}
-                <div className="md:w-48 flex-shrink-0 bg-slate-50/50 p-3 rounded-lg border border-slate-100/50 md:bg-transparent md:border-0 md:p-0">
-                  <div className="flex justify-between md:flex-col md:items-end gap-1">
-                    <div>
-                      <span className="text-[10px] text-slate-400 uppercase tracking-wider block">{t.value}</span>
-                      <span className={`font-bold ${item.status !== 'normal' ? 'text-blue-700' : 'text-slate-800'}`}>
-                        {item.value} <span className="text-xs font-normal text-slate-500">{item.unit}</span>
-                      </span>
-                    </div>
-                    <div className="text-right">
-                       <span className="text-[10px] text-slate-400 uppercase tracking-wider block">{t.range}</span>
-                      <span className="text-xs text-slate-600 font-medium">
-                        {item.normalRange}
-                      </span>
+                  {/* Right: Value, Range & Chart */}
+                  <div className="md:w-48 flex-shrink-0 bg-slate-50/50 p-3 rounded-lg border border-slate-100/50 md:bg-transparent md:border-0 md:p-0">
+                    <div className="flex justify-between md:flex-col md:items-end gap-1">
+                      <div>
+                        <span className="text-[10px] text-slate-400 uppercase tracking-wider block">{t.value}</span>
+                        <span className={`font-bold ${item.status !== 'normal' ? 'text-blue-700' : 'text-slate-800'}`}>
+                          {item.value} <span className="text-xs font-normal text-slate-500">{item.unit}</span>
+                        </span>
+                      </div>
+                      <div className="text-right">
+                         <span className="text-[10px] text-slate-400 uppercase tracking-wider block">{t.range}</span>
+                        <span className="text-xs text-slate-600 font-medium">
+                          {item.normalRange}
+                        </span>
+                      </div>
                     </div>
-                  </div>
+                    {item.convertedFrom && (
+                      <p className="text-[10px] text-slate-400 mt-1 md:text-right" title={item.convertedFrom.normalRange}>
+                        {t.reportedAs}: {item.convertedFrom.value} {item.convertedFrom.unit}
+                      </p>
+                    )}
                   
-                  {/* The Chart (Hackathon feature) */}
-                  <RangeVisualizer item={item} />
-                </div>
+                    {/* The Chart (Hackathon feature) */}
+                    <RangeVisualizer item={item} />
+                  </div>
 
+                </div>
               </div>
-            </div>
-          ))}
+            ))}
+            {isStreaming && (
+              <div className="p-5 text-sm text-slate-400 flex items-center gap-2 animate-pulse">
+                <div className="w-2 h-2 bg-blue-400 rounded-full"></div>
+                {t.receivingResults}
+              </div>
+            )}
+          </div>
         </div>
-      </div>
+      )}
 
       {/* 6. Smart Glossary (New Feature) */}
       {data.glossary && data.glossary.length > 0 && (
@@ -384,23 +505,25 @@ const AnalysisResults: React.FC<AnalysisResultsProps> = ({ data, language }) =>
       )}
 
       {/* 7. Suggested Questions */}
-      <div className="bg-blue-50 rounded-xl shadow-sm border border-blue-100 p-6 animate-fade-in" style={{ animationDelay: '0.3s' }}>
-        <h3 className="font-bold text-blue-900 mb-3 flex items-center gap-2">
-          <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 10h.01M12 10h.01M16 10h.01M9 16H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-5l-5 5v-5z" /></svg>
-          {t.askDoctor}
-        </h3>
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-          {data.suggestedQuestions.map((q, idx) => (
-            <button 
-              key={idx} 
-              onClick={() => setPrefilledMessage(q)}
-              className="text-left text-sm text-blue-800 bg-white p-3 rounded-lg border border-blue-100 shadow-sm hover:shadow-md hover:bg-blue-50 transition-all"
-            >
-              {q}
-            </button>
-          ))}
+      {!isStreaming && (
+        <div className="bg-blue-50 rounded-xl shadow-sm border border-blue-100 p-6 animate-fade-in" style={{ animationDelay: '0.3s' }}>
+          <h3 className="font-bold text-blue-900 mb-3 flex items-center gap-2">
+            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 10h.01M12 10h.01M16 10h.01M9 16H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-5l-5 5v-5z" /></svg>
+            {t.askDoctor}
+          </h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            {data.suggestedQuestions.map((q, idx) => (
+              <button 
+                key={idx} 
+                onClick={() => setPrefilledMessage(q)}
+                className="text-left text-sm text-blue-800 bg-white p-3 rounded-lg border border-blue-100 shadow-sm hover:shadow-md hover:bg-blue-50 transition-all"
+              >
+                {q}
+              </button>
+            ))}
+          </div>
         </div>
-      </div>
+      )}
     </div>
   );
 };
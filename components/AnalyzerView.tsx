@@ -1,10 +1,12 @@
 import React from 'react';
 import { useMedical } from '../context/MedicalContext';
 import FileUpload from './FileUpload';
+import ReportDetails from './ReportDetails';
 import AnalysisResults from './AnalysisResults';
 import QAChat from './QAChat';
 import { translations } from '../utils/translations';
-import { Language } from '../types';
+import { describeProgress, withAnalysisDefaults } from '../services/analysisStream';
+import { AnalysisProgress, Language } from '../types';
 
 // --- Sub-components moved from App.tsx ---
 
@@ -82,6 +84,20 @@ const LoadingSkeleton: React.FC = () => (
   </div>
 );
 
+const ProgressBar: React.FC<{ progress: AnalysisProgress | null; language: Language }> = ({ progress, language }) => (
+  <div className="max-w-md mx-auto mt-4">
+    <div className="h-2 w-full bg-slate-100 rounded-full overflow-hidden">
+      <div
+        className="h-full bg-blue-500 rounded-full transition-all duration-500 ease-out"
+        style={{ width: `${progress?.percent ?? 2}%` }}
+      ></div>
+    </div>
+    {progress && (
+      <p className="text-xs text-slate-500 mt-2">{describeProgress(progress, language)}</p>
+    )}
+  </div>
+);
+
 const DisclaimerBanner: React.FC<{ language: Language }> = ({ language }) => {
   const t = translations[language];
   return (
@@ -108,9 +124,14 @@ const AnalyzerView: React.FC = () => {
     fileData, 
     analysisData, 
     isAnalyzing, 
+    partialAnalysis,
+    analysisProgress,
+    cancelAnalysis,
     error, 
     language, 
     handleFileUpload, 
+    pendingUpload,
+    resolvePendingUpload,
     resetApp, 
   } = useMedical();
   const t = translations[language];
@@ -120,8 +141,41 @@ const AnalyzerView: React.FC = () => {
       {/* Intro Section (only show if no file uploaded) */}
       {!fileData && <HeroSection language={language} />}
 
+      {/* Possible re-upload of a report already in history */}
+      {pendingUpload && (
+        <div className="max-w-2xl mx-auto mb-8 p-6 bg-blue-50 border border-blue-200 rounded-xl shadow-sm animate-fade-in">
+          <div className="flex items-start gap-4">
+            {pendingUpload.match.previewUrl && (
+              <img src={pendingUpload.match.previewUrl} alt="" className="w-16 h-16 object-cover rounded-lg border border-blue-200 flex-shrink-0" />
+            )}
+            <div className="flex-1">
+              <p className="font-bold text-blue-900">{t.nearDuplicateTitle}</p>
+              <p className="text-blue-800 text-sm mt-1">
+                {t.nearDuplicateSub
+                  .replace('{file}', pendingUpload.match.fileName)
+                  .replace('{date}', new Date(pendingUpload.match.date).toLocaleDateString())}
+              </p>
+              <div className="flex flex-wrap gap-3 mt-4">
+                <button
+                  onClick={() => resolvePendingUpload(true)}
+                  className="px-4 py-2 rounded-lg font-bold text-sm shadow-sm bg-blue-600 text-white hover:bg-blue-700 transition-all"
+                >
+                  {t.nearDuplicateOpen}
+                </button>
+                <button
+                  onClick={() => resolvePendingUpload(false)}
+                  className="px-4 py-2 rounded-lg font-bold text-sm border border-blue-300 text-blue-800 bg-white hover:bg-blue-50 transition-colors"
+                >
+                  {t.nearDuplicateAnalyze}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Upload Area */}
-      {!analysisData && !isAnalyzing && (
+      {!analysisData && !isAnalyzing && !pendingUpload && (
         <div className={`transition-all duration-500 ease-in-out transform ${fileData ? 'opacity-0 scale-95 pointer-events-none absolute' : 'opacity-100 scale-100'}`}>
             <FileUpload onFileUpload={handleFileUpload} disabled={!!fileData} />
         </div>
@@ -137,8 +191,22 @@ const AnalyzerView: React.FC = () => {
             <p className="text-slate-500">
               {t.analyzingSub}
             </p>
+            <ProgressBar progress={analysisProgress} language={language} />
+            <button
+              onClick={cancelAnalysis}
+              className="mt-4 px-4 py-1.5 text-sm font-medium rounded-lg bg-white border border-slate-300 text-slate-600 hover:bg-slate-50 hover:text-slate-800 transition-colors"
+            >
+              {t.cancel}
+            </button>
             </div>
-            <LoadingSkeleton />
+            {/* Render what has streamed in so far once there is something to read */}
+            {partialAnalysis?.summary ? (
+              <div className="max-w-5xl mx-auto">
+                <AnalysisResults data={withAnalysisDefaults(partialAnalysis)} language={language} isStreaming />
+              </div>
+            ) : (
+              <LoadingSkeleton />
+            )}
         </div>
       )}
 
@@ -177,6 +245,8 @@ const AnalyzerView: React.FC = () => {
             {/* Right Column: Original File Preview & Chat (1/3 width) */}
             <div className="lg:col-span-1 space-y-6">
               
+              <ReportDetails />
+
               {/* File Preview */}
               <div className="bg-white p-4 rounded-xl shadow-sm border border-slate-200 hover:shadow-md transition-shadow">
                 <div className="flex justify-between items-center mb-3">
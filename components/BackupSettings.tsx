@@ -0,0 +1,163 @@
+import React, { useRef, useState } from 'react';
+import { useMedical } from '../context/MedicalContext';
+import { translations } from '../utils/translations';
+import { BackupError, createBackup, readBackup } from '../services/historyBackup';
+
+// Export of the whole history to one file, and import from such a file (Settings page)
+const BackupSettings: React.FC = () => {
+  const { history, importHistory, language } = useMedical();
+  const t = translations[language];
+
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [exportPassphrase, setExportPassphrase] = useState('');
+  const [isExporting, setIsExporting] = useState(false);
+  // An encrypted backup waiting for its passphrase
+  const [pendingFile, setPendingFile] = useState<File | null>(null);
+  const [importPassphrase, setImportPassphrase] = useState('');
+  const [isImporting, setIsImporting] = useState(false);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setMessage(null);
+    try {
+      const blob = await createBackup(history, exportPassphrase || undefined);
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `MediClarify_Backup_${new Date().toISOString().slice(0,10)}.json`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+      setExportPassphrase('');
+    } catch (e) {
+      console.error(e);
+      setMessage({ text: t.backupExportFailed, isError: true });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const importFile = async (file: File, passphrase?: string) => {
+    setIsImporting(true);
+    setMessage(null);
+    try {
+      const contents = await readBackup(file, passphrase);
+      const { added, skipped } = await importHistory(contents);
+      setPendingFile(null);
+      setImportPassphrase('');
+      setMessage({
+        text: t.backupImported.replace('{added}', String(added)).replace('{skipped}', String(skipped)),
+        isError: false
+      });
+    } catch (e) {
+      if (e instanceof BackupError && e.reason === 'passphraseRequired') {
+        setPendingFile(file);
+        return;
+      }
+      console.error(e);
+      const reason = e instanceof BackupError ? e.reason : 'invalid';
+      setMessage({
+        text: {
+          invalid: t.backupInvalid,
+          unsupportedVersion: t.backupUnsupportedVersion,
+          wrongPassphrase: t.wrongPassphrase,
+          passphraseRequired: t.wrongPassphrase,
+        }[reason],
+        isError: true
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow picking the same file again
+    if (file) importFile(file);
+  };
+
+  const inputClass = "w-full px-3 py-2 rounded-lg border border-slate-300 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent";
+  const labelClass = "block text-xs font-bold uppercase tracking-wider text-slate-500 mb-1.5";
+  const buttonClass = "px-4 py-2 rounded-lg font-bold text-sm shadow-sm bg-blue-600 text-white hover:bg-blue-700 disabled:bg-slate-200 disabled:text-slate-400 disabled:cursor-not-allowed transition-all";
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 space-y-4">
+      <div>
+        <h3 className="font-bold text-slate-800">{t.backupTitle}</h3>
+        <p className="text-slate-500 text-sm">{t.backupSub}</p>
+      </div>
+
+      {/* Export */}
+      <div className="space-y-3">
+        <div>
+          <label className={labelClass} htmlFor="exportPassphrase">{t.backupPassphraseOptional}</label>
+          <input
+            id="exportPassphrase"
+            type="password"
+            autoComplete="new-password"
+            value={exportPassphrase}
+            onChange={(e) => setExportPassphrase(e.target.value)}
+            className={inputClass}
+          />
+          <p className="text-xs text-slate-400 mt-1">{t.backupPassphraseHint}</p>
+        </div>
+        <button type="button" onClick={handleExport} disabled={isExporting || history.length === 0} className={buttonClass}>
+          {isExporting ? t.encryptionWorking : t.backupExport}
+        </button>
+      </div>
+
+      {/* Import */}
+      <div className="space-y-3 pt-4 border-t border-slate-100">
+        <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleFileChange} className="hidden" />
+        {pendingFile ? (
+          <form
+            onSubmit={(e) => { e.preventDefault(); importFile(pendingFile, importPassphrase); }}
+            className="space-y-3"
+          >
+            <div>
+              <label className={labelClass} htmlFor="importPassphrase">{t.backupEncrypted}</label>
+              <input
+                id="importPassphrase"
+                type="password"
+                autoFocus
+                autoComplete="off"
+                value={importPassphrase}
+                onChange={(e) => setImportPassphrase(e.target.value)}
+                className={inputClass}
+              />
+            </div>
+            <div className="flex items-center gap-3">
+              <button type="submit" disabled={!importPassphrase || isImporting} className={buttonClass}>
+                {isImporting ? t.encryptionWorking : t.backupImport}
+              </button>
+              <button
+                type="button"
+                onClick={() => { setPendingFile(null); setImportPassphrase(''); }}
+                className="text-sm font-medium text-slate-500 hover:text-slate-700"
+              >
+                {t.cancel}
+              </button>
+            </div>
+          </form>
+        ) : (
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isImporting}
+            className="px-4 py-2 rounded-lg font-bold text-sm border border-slate-300 text-slate-700 hover:bg-slate-50 disabled:opacity-40 transition-colors"
+          >
+            {isImporting ? t.encryptionWorking : t.backupImport}
+          </button>
+        )}
+      </div>
+
+      {message && (
+        <p className={`text-sm font-medium ${message.isError ? 'text-red-600' : 'text-green-700'}`}>{message.text}</p>
+      )}
+    </div>
+  );
+};
+
+export default BackupSettings;
@@ -1,15 +1,59 @@
-import React from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { useMedical } from '../context/MedicalContext';
 import { useNavigate } from 'react-router-dom';
-import { MedicalTestResult } from '../types';
-import { translations } from '../utils/translations';
+import { HistoryItem, MedicalTestResult } from '../types';
+import { LOCALES, statusLabel, translations } from '../utils/translations';
+import { comparableResults, convertResults, convertToMatch } from '../utils/unitConversion';
+import { timelineDate } from '../utils/reportMetadata';
+import { analyteKey, keyedResults, normalizeTestName, separateAnalyteKey } from '../utils/analyteCatalog';
+import { trendItems } from '../services/trends';
+import { formatChange, trendAlerts, valueChange } from '../services/trendAlerts';
+import TrendAlertList from './TrendAlertList';
 
 const ComparisonView: React.FC = () => {
-  const { compareItems, language } = useMedical();
+  const {
+    compareItems, history, language, settings, updateSettings,
+    generateComparisonNarrative, loadHistoryItem, setPrefilledMessage
+  } = useMedical();
   const navigate = useNavigate();
   const t = translations[language];
 
-  if (compareItems.length !== 2) {
+  // Sort items by when the reports were taken: Oldest on Left (Before), Newest on Right (After)
+  const [oldItem, newItem] = compareItems.length === 2
+    ? [...compareItems].sort((a, b) => timelineDate(a) - timelineDate(b))
+    : [];
+  const narrative = oldItem && newItem?.comparisons?.[oldItem.id];
+  const [narrativeStatus, setNarrativeStatus] = useState<'idle' | 'loading' | 'failed'>('idle');
+  const narrativeControllerRef = useRef<AbortController | null>(null);
+
+  const requestNarrative = () => {
+    if (!oldItem || !newItem) return;
+    narrativeControllerRef.current?.abort();
+    const controller = new AbortController();
+    narrativeControllerRef.current = controller;
+    setNarrativeStatus('loading');
+    generateComparisonNarrative(oldItem, newItem, controller.signal)
+      .then(() => setNarrativeStatus('idle'))
+      .catch(() => {
+        if (!controller.signal.aborted) setNarrativeStatus('failed');
+      });
+  };
+
+  // The narrative is generated once per pair and saved with the newer report
+  useEffect(() => {
+    if (!narrative) requestNarrative();
+    return () => narrativeControllerRef.current?.abort();
+  }, [oldItem?.id, newItem?.id]);
+
+  // Continue in the newer report's chat, which has the comparison as context
+  const askInChat = async (question?: string) => {
+    if (!newItem) return;
+    await loadHistoryItem(newItem.id);
+    if (question) setPrefilledMessage(question);
+    navigate('/');
+  };
+
+  if (!oldItem || !newItem) {
     return (
       <div className="text-center py-20">
         <p className="text-slate-500">{t.selectCompare}</p>
@@ -23,22 +67,56 @@ const ComparisonView: React.FC = () => {
     );
   }
 
-  // Sort items by date: Oldest on Left (Before), Newest on Right (After)
-  const [oldItem, newItem] = [...compareItems].sort((a, b) => a.date - b.date);
+  // Results in the preferred display units
+  const oldResults = convertResults(oldItem.data.results, settings.unitSystem);
+  const newResults = convertResults(newItem.data.results, settings.unitSystem);
 
   // Merge Data for Table
-  // Create a map of all unique test names found in both documents
-  const allTestNames = Array.from(new Set([
-    ...oldItem.data.results.map(r => r.test),
-    ...newItem.data.results.map(r => r.test)
-  ]));
-
-  const getTestResult = (results: MedicalTestResult[], name: string) => {
-    return results.find(r => r.test === name);
+  // Results are joined by analyte (canonical code, or the user's own match), not by printed name,
+  // so "Hb" and "Hemoglobin" - or the same test in two languages - share a row.
+  // A report with several results for one analyte gets a row for each (see keyedResults).
+  const overrides = settings.analyteOverrides || {};
+  const keyedOld = keyedResults(oldResults, overrides);
+  const keyedNew = keyedResults(newResults, overrides);
+  const allKeys = Array.from(new Set([...keyedNew, ...keyedOld].map(k => k.key)));
+
+  // Alerts for the newer report against the older one; reports saved before the older one
+  // are included too, so steady drifts across three or more reports show up
+  const isCompared = (item: HistoryItem) =>
+    [oldItem, newItem].some(c => (c.documentId || c.id) === (item.documentId || item.id));
+  const earlierItems = trendItems(history, language)
+    .filter(item => !isCompared(item) && timelineDate(item) <= timelineDate(oldItem));
+  const alerts = trendAlerts([...earlierItems, oldItem, newItem], settings.unitSystem, overrides);
+
+  const rows = allKeys.map(key => {
+    const oldEntry = keyedOld.find(k => k.key === key);
+    const newEntry = keyedNew.find(k => k.key === key);
+    return { key, analyte: (newEntry || oldEntry)!.analyte, rawOldResult: oldEntry?.result, newResult: newEntry?.result };
+  });
+
+  const setOverrides = (next: Record<string, string>) => {
+    updateSettings({ ...settings, analyteOverrides: next });
+  };
+
+  // Treat the test printed as `testName` as the analyte of another row from now on
+  const mergeInto = (testName: string, key: string) => {
+    setOverrides({ ...overrides, [normalizeTestName(testName)]: key });
+  };
+
+  // Undo a wrong match: drop the user's own matches for both names, and keep the older
+  // report's name apart if the catalog still joins them
+  const split = (oldResult: MedicalTestResult, newResult: MedicalTestResult) => {
+    const next = { ...overrides };
+    delete next[normalizeTestName(oldResult.test)];
+    delete next[normalizeTestName(newResult.test)];
+    if (analyteKey(oldResult, next) === analyteKey(newResult, next)) {
+      next[normalizeTestName(oldResult.test)] = separateAnalyteKey(oldResult.test);
+    }
+    setOverrides(next);
   };
 
   const formatDate = (ts: number) => {
-    return new Date(ts).toLocaleDateString(language === 'en' ? 'en-US' : 'vi-VN', {
+    return new Date(ts).toLocaleDateString(LOCALES[language], {
       month: 'short', day: 'numeric', year: 'numeric'
     });
   };
@@ -70,8 +148,8 @@ const ComparisonView: React.FC = () => {
            <div className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">
              {t.previous}
            </div>
-           <h3 className="font-bold text-lg text-slate-800 mb-1">{formatDate(oldItem.date)}</h3>
-           <p className="text-xs text-slate-500 truncate mb-4">{oldItem.fileName}</p>
+           <h3 className="font-bold text-lg text-slate-800 mb-1">{formatDate(timelineDate(oldItem))}</h3>
+           <p className="text-xs text-slate-500 truncate mb-4">{[oldItem.fileName, oldItem.data.metadata?.labName].filter(Boolean).join(' · ')}</p>
            
            <div className="flex items-center gap-3">
              <div className="text-2xl font-bold text-slate-700">{oldItem.data.overallRiskScore}</div>
@@ -87,8 +165,8 @@ const ComparisonView: React.FC = () => {
            <div className="text-xs font-bold text-blue-600 uppercase tracking-wider mb-2">
              {t.current}
            </div>
-           <h3 className="font-bold text-lg text-slate-900 mb-1">{formatDate(newItem.date)}</h3>
-           <p className="text-xs text-slate-500 truncate mb-4">{newItem.fileName}</p>
+           <h3 className="font-bold text-lg text-slate-900 mb-1">{formatDate(timelineDate(newItem))}</h3>
+           <p className="text-xs text-slate-500 truncate mb-4">{[newItem.fileName, newItem.data.metadata?.labName].filter(Boolean).join(' · ')}</p>
            
            <div className="flex items-center gap-3">
              <div className={`text-2xl font-bold ${
@@ -105,6 +183,15 @@ const ComparisonView: React.FC = () => {
         </div>
       </div>
 
+      {/* Trend Alerts */}
+      {alerts.length > 0 && (
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-amber-200">
+          <h2 className="font-bold text-slate-800 mb-1">{t.alertsTitle}</h2>
+          <p className="text-xs text-slate-500 mb-3">{t.alertsSub}</p>
+          <TrendAlertList alerts={alerts} />
+        </div>
+      )}
+
       {/* Comparison Table */}
       <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
         <div className="overflow-x-auto">
@@ -112,28 +199,58 @@ const ComparisonView: React.FC = () => {
             <thead className="bg-slate-50 text-slate-500 font-medium border-b border-slate-200">
               <tr>
                 <th className="px-6 py-4 w-1/3">{t.testName}</th>
-                <th className="px-6 py-4 w-1/4">{formatDate(oldItem.date)}</th>
-                <th className="px-6 py-4 w-1/4 text-blue-700 font-bold">{formatDate(newItem.date)}</th>
+                <th className="px-6 py-4 w-1/4">{formatDate(timelineDate(oldItem))}</th>
+                <th className="px-6 py-4 w-1/4 text-blue-700 font-bold">{formatDate(timelineDate(newItem))}</th>
                 <th className="px-6 py-4 w-1/6">{t.status}</th>
               </tr>
             </thead>
             <tbody className="divide-y divide-slate-100">
-              {allTestNames.map((testName, idx) => {
-                const oldResult = getTestResult(oldItem.data.results, testName);
-                const newResult = getTestResult(newItem.data.results, testName);
+              {rows.map(({ key, rawOldResult, newResult }) => {
+                // Reports from different labs may use different units; compare in the newer report's units
+                const oldResult = rawOldResult && newResult ? convertToMatch(rawOldResult, newResult) : rawOldResult;
 
-                // Determine change direction if numeric
+                // Determine change direction if numeric, from the values in their canonical unit
+                const comparable = comparableResults(rawOldResult, newResult);
+                const change = comparable ? valueChange(oldResult!, newResult!) : null;
                 let changeIcon = null;
-                if (oldResult?.numericValue && newResult?.numericValue) {
-                   const diff = newResult.numericValue - oldResult.numericValue;
+                if (comparable) {
+                   const diff = newResult!.normalized!.numericValue - rawOldResult!.normalized!.numericValue;
                    if (diff > 0) changeIcon = <span className="text-red-400">↑</span>;
                    if (diff < 0) changeIcon = <span className="text-green-500">↓</span>;
                    if (diff === 0) changeIcon = <span className="text-slate-300">-</span>;
                 }
 
+                const testName = (newResult || rawOldResult)!.test;
+                const isRenamed = !!rawOldResult && !!newResult
+                  && normalizeTestName(rawOldResult.test) !== normalizeTestName(newResult.test);
+                // Rows found in one report only can be matched with a row found only in the other one
+                const candidates = rows.filter(row => row.key !== key && (newResult ? !row.newResult : !row.rawOldResult));
+
                 return (
-                  <tr key={idx} className="hover:bg-slate-50 transition-colors">
-                    <td className="px-6 py-4 font-medium text-slate-800">{testName}</td>
+                  <tr key={key} className="hover:bg-slate-50 transition-colors">
+                    <td className="px-6 py-4 font-medium text-slate-800">
+                      {testName}
+                      {isRenamed && (
+                        <span className="block text-xs font-normal text-slate-400">
+                          {t.matchedAs.replace('{name}', rawOldResult!.test)}
+                          <button onClick={() => split(rawOldResult!, newResult!)} className="ml-2 text-blue-600 hover:text-blue-800">
+                            {t.splitMatch}
+                          </button>
+                        </span>
+                      )}
+                      {(!rawOldResult || !newResult) && candidates.length > 0 && (
+                        <select
+                          value=""
+                          onChange={(e) => mergeInto(testName, e.target.value)}
+                          className="block mt-1 text-xs font-normal text-slate-500 bg-transparent border border-slate-200 rounded px-1 py-0.5"
+                        >
+                          <option value="" disabled>{t.mergeMatch}</option>
+                          {candidates.map(row => (
+                            <option key={row.key} value={row.analyte}>{(row.newResult || row.rawOldResult)!.test}</option>
+                          ))}
+                        </select>
+                      )}
+                    </td>
                     <td className="px-6 py-4 text-slate-500">
                       {oldResult ? (
                         <span>{oldResult.value} <span className="text-xs opacity-50">{oldResult.unit}</span></span>
@@ -144,6 +261,9 @@ const ComparisonView: React.FC = () => {
                         <>
                           <span>{newResult.value} <span className="text-xs opacity-50">{newResult.unit}</span></span>
                           {changeIcon}
+                          {change && change.delta !== 0 && (
+                            <span className="text-xs font-normal text-slate-400 whitespace-nowrap">{formatChange(change)}</span>
+                          )}
                         </>
                       ) : <span className="text-slate-300">-</span>}
                     </td>
@@ -154,7 +274,7 @@ const ComparisonView: React.FC = () => {
                             ? 'bg-green-100 text-green-700' 
                             : 'bg-red-100 text-red-700'
                         }`}>
-                          {newResult.status}
+                          {statusLabel(newResult.status, language)}
                         </span>
                       )}
                     </td>
@@ -164,18 +284,84 @@ const ComparisonView: React.FC = () => {
             </tbody>
           </table>
         </div>
+        {Object.keys(overrides).length > 0 && (
+          <div className="px-6 py-3 border-t border-slate-100 text-right">
+            <button onClick={() => setOverrides({})} className="text-xs font-medium text-slate-500 hover:text-slate-700">
+              {t.resetMatches}
+            </button>
+          </div>
+        )}
       </div>
       
-      <div className="bg-blue-50 p-6 rounded-xl border border-blue-100 text-center">
-        <h3 className="font-bold text-blue-800 mb-2">AI Summary of Changes</h3>
-        <p className="text-blue-700 text-sm">
-          {newItem.data.overallRiskScore < oldItem.data.overallRiskScore
-             ? t.better
-             : newItem.data.overallRiskScore > oldItem.data.overallRiskScore
-             ? t.worse
-             : t.stable
-          }
-        </p>
+      <div className="bg-blue-50 p-6 rounded-xl border border-blue-100 space-y-4">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h3 className="font-bold text-blue-800 mb-1">{t.changesTitle}</h3>
+            <p className="text-blue-700 text-sm">
+              {newItem.data.overallRiskScore < oldItem.data.overallRiskScore
+                 ? t.better
+                 : newItem.data.overallRiskScore > oldItem.data.overallRiskScore
+                 ? t.worse
+                 : t.stable
+              }
+            </p>
+          </div>
+          {narrative && narrativeStatus !== 'loading' && (
+            <button onClick={requestNarrative} className="text-xs font-medium text-blue-600 hover:text-blue-800 shrink-0">
+              {t.regenerate}
+            </button>
+          )}
+        </div>
+
+        {narrativeStatus === 'loading' ? (
+          <p className="text-sm text-blue-600 animate-pulse">{t.changesLoading}</p>
+        ) : narrativeStatus === 'failed' && !narrative ? (
+          <p className="text-sm text-red-600">
+            {t.changesFailed}
+            <button onClick={requestNarrative} className="ml-2 font-medium underline">{t.regenerate}</button>
+          </p>
+        ) : narrative ? (
+          <>
+            <p className="text-sm text-slate-700">{narrative.summary}</p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {([
+                [t.changesImproved, narrative.improved, 'text-green-700'],
+                [t.changesWorsened, narrative.worsened, 'text-red-700'],
+                [t.changesNew, narrative.newFindings, 'text-slate-700'],
+                [t.changesResolved, narrative.resolved, 'text-slate-700'],
+              ] as const).filter(([, items]) => items.length > 0).map(([label, items, color]) => (
+                <div key={label} className="bg-white rounded-lg p-3 border border-blue-100">
+                  <h4 className={`text-xs font-bold uppercase tracking-wide mb-1.5 ${color}`}>{label}</h4>
+                  <ul className="list-disc list-inside space-y-1 text-sm text-slate-700">
+                    {items.map((item, idx) => <li key={idx}>{item}</li>)}
+                  </ul>
+                </div>
+              ))}
+            </div>
+            {narrative.suggestedQuestions.length > 0 && (
+              <div>
+                <h4 className="text-xs font-bold uppercase tracking-wide text-blue-800 mb-2">{t.askDoctor}</h4>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                  {narrative.suggestedQuestions.map((q, idx) => (
+                    <button
+                      key={idx}
+                      onClick={() => askInChat(q)}
+                      className="text-left text-sm text-blue-800 bg-white p-3 rounded-lg border border-blue-100 shadow-sm hover:shadow-md hover:bg-blue-50 transition-all"
+                    >
+                      {q}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+            <button
+              onClick={() => askInChat()}
+              className="px-4 py-2 rounded-lg font-bold text-sm shadow-sm bg-blue-600 text-white hover:bg-blue-700 transition-all"
+            >
+              {t.changesDiscuss}
+            </button>
+          </>
+        ) : null}
       </div>
 
     </div>
@@ -0,0 +1,114 @@
+import React from 'react';
+import { DischargeSummary, Language } from '../types';
+import { LOCALES, translations } from '../utils/translations';
+import MedicationList from './MedicationList';
+
+interface DischargeSummaryViewProps {
+  summary?: DischargeSummary; // Missing while the response is still streaming
+  language: Language;
+  isStreaming?: boolean;
+}
+
+// Hospital stay at a glance: warning signs first, then diagnoses, procedures, follow-up and
+// discharge medications (shown instead of the lab table)
+const DischargeSummaryView: React.FC<DischargeSummaryViewProps> = ({ summary, language, isStreaming = false }) => {
+  const t = translations[language];
+  const diagnoses = summary?.diagnoses || [];
+  const procedures = summary?.procedures || [];
+  const followUps = summary?.followUps || [];
+  const warningSigns = summary?.warningSigns || [];
+  const medications = summary?.medications || [];
+
+  const formatDate = (date: string) =>
+    new Date(`${date}T00:00:00`).toLocaleDateString(LOCALES[language], { year: 'numeric', month: 'short', day: 'numeric' });
+  const stay = [
+    summary?.admissionDate && t.dischargeAdmitted.replace('{date}', formatDate(summary.admissionDate)),
+    summary?.dischargeDate && t.dischargeDischarged.replace('{date}', formatDate(summary.dischargeDate)),
+  ].filter(Boolean).join(' · ');
+
+  return (
+    <div className="space-y-6 animate-fade-in" style={{ animationDelay: '0.1s' }}>
+      {warningSigns.length > 0 && (
+        <div className="bg-red-50 border border-red-200 rounded-xl p-5">
+          <h3 className="font-bold text-red-800 mb-2">{t.dischargeWarningSigns}</h3>
+          <ul className="list-disc list-inside space-y-1 text-sm text-red-900">
+            {warningSigns.map((sign, idx) => <li key={idx}>{sign}</li>)}
+          </ul>
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="p-4 border-b border-slate-100 bg-slate-50">
+          <h2 className="font-bold text-slate-800">{t.dischargeTitle}</h2>
+          {stay && <p className="text-xs text-slate-500 mt-0.5">{stay}</p>}
+        </div>
+
+        {diagnoses.length > 0 && (
+          <div className="p-5 border-b border-slate-100">
+            <h3 className="text-[10px] font-bold uppercase tracking-wider text-slate-400 mb-3">{t.dischargeDiagnoses}</h3>
+            <ul className="space-y-3">
+              {diagnoses.map((diagnosis, idx) => (
+                <li key={idx}>
+                  <span className="font-semibold text-slate-900">{diagnosis.name}</span>
+                  {diagnosis.primary && (
+                    <span className="ml-2 px-2 py-0.5 rounded text-[10px] font-bold uppercase tracking-wider bg-blue-100 text-blue-700">
+                      {t.dischargePrimary}
+                    </span>
+                  )}
+                  {diagnosis.explanation && <p className="text-sm text-slate-600">{diagnosis.explanation}</p>}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {procedures.length > 0 && (
+          <div className="p-5 border-b border-slate-100">
+            <h3 className="text-[10px] font-bold uppercase tracking-wider text-slate-400 mb-3">{t.dischargeProcedures}</h3>
+            <ul className="space-y-3">
+              {procedures.map((procedure, idx) => (
+                <li key={idx}>
+                  <span className="font-semibold text-slate-900">{procedure.name}</span>
+                  {procedure.date && <span className="text-xs text-slate-500"> · {formatDate(procedure.date)}</span>}
+                  {procedure.explanation && <p className="text-sm text-slate-600">{procedure.explanation}</p>}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {followUps.length > 0 && (
+          <div className="p-5">
+            <h3 className="text-[10px] font-bold uppercase tracking-wider text-slate-400 mb-3">{t.dischargeFollowUps}</h3>
+            <ul className="space-y-2">
+              {followUps.map((followUp, idx) => (
+                <li key={idx} className="flex items-start gap-3 text-sm">
+                  <span className="mt-1.5 w-2 h-2 rounded-full bg-blue-500 flex-shrink-0" />
+                  <span className="text-slate-700">
+                    {followUp.description}
+                    {(followUp.with || followUp.when) && (
+                      <span className="block text-xs text-slate-500">{[followUp.with, followUp.when].filter(Boolean).join(' · ')}</span>
+                    )}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {isStreaming && (
+          <div className="p-5 text-sm text-slate-400 flex items-center gap-2 animate-pulse">
+            <div className="w-2 h-2 bg-blue-400 rounded-full"></div>
+            {t.receivingResults}
+          </div>
+        )}
+      </div>
+
+      {medications.length > 0 && (
+        <MedicationList medications={medications} language={language} title={t.dischargeMedications} />
+      )}
+    </div>
+  );
+};
+
+export default DischargeSummaryView;
@@ -0,0 +1,61 @@
+import React from 'react';
+import { Language } from '../types';
+import { DrugInteraction } from '../services/drugInteractions';
+import { InteractionSeverity } from '../utils/drugCatalog';
+import { translations } from '../utils/translations';
+
+interface DrugInteractionPanelProps {
+  interactions: DrugInteraction[];
+  language: Language;
+}
+
+const severityStyles: Record<InteractionSeverity, string> = {
+  minor: 'bg-slate-100 text-slate-600',
+  moderate: 'bg-amber-100 text-amber-800',
+  major: 'bg-red-100 text-red-700',
+  contraindicated: 'bg-red-600 text-white',
+};
+
+// Warning panel for interactions found in a new prescription or discharge summary (see services/drugInteractions)
+const DrugInteractionPanel: React.FC<DrugInteractionPanelProps> = ({ interactions, language }) => {
+  const t = translations[language];
+  const severityLabel: Record<InteractionSeverity, string> = {
+    minor: t.interactionMinor,
+    moderate: t.interactionModerate,
+    major: t.interactionMajor,
+    contraindicated: t.interactionContraindicated,
+  };
+  const serious = interactions.some(i => i.severity === 'major' || i.severity === 'contraindicated');
+
+  return (
+    <div className={`bg-white border-l-4 shadow-md p-4 rounded-r-lg animate-fade-in ${serious ? 'border-red-500' : 'border-amber-400'}`}>
+      <div className="flex items-start gap-3">
+        <svg xmlns="http://www.w3.org/2000/svg" className={`h-6 w-6 mt-0.5 flex-shrink-0 ${serious ? 'text-red-500' : 'text-amber-500'}`} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
+        </svg>
+        <div className="flex-1 min-w-0">
+          <h3 className={`font-bold ${serious ? 'text-red-800' : 'text-amber-800'}`}>{t.interactionsTitle}</h3>
+          <p className="text-sm text-slate-600 mb-3">{t.interactionsSub}</p>
+          <ul className="space-y-3">
+            {interactions.map(interaction => (
+              <li key={interaction.key} className="text-sm">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className={`px-2 py-0.5 rounded text-[10px] font-bold uppercase tracking-wider whitespace-nowrap ${severityStyles[interaction.severity]}`}>
+                    {severityLabel[interaction.severity]}
+                  </span>
+                  <span className="font-semibold text-slate-900">{interaction.medications.join(' + ')}</span>
+                  {interaction.source && (
+                    <span className="text-xs text-slate-400">{t.interactionFrom.replace('{file}', interaction.source)}</span>
+                  )}
+                </div>
+                <p className="text-slate-600 mt-1">{interaction.explanation}</p>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DrugInteractionPanel;
@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import { useMedical } from '../context/MedicalContext';
+import { translations } from '../utils/translations';
+
+const MIN_PASSPHRASE_LENGTH = 8;
+const AUTO_LOCK_OPTIONS = [0, 5, 15, 30, 60];
+
+// Turning encryption on and off, auto-lock and changing the passphrase (Settings page)
+const EncryptionSettings: React.FC = () => {
+  const { vaultStatus, autoLockMinutes, enableEncryption, changePassphrase, disableEncryption, updateAutoLock, language } = useMedical();
+  const t = translations[language];
+
+  const [current, setCurrent] = useState('');
+  const [next, setNext] = useState('');
+  const [confirmNext, setConfirmNext] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+  const isEnabled = vaultStatus !== 'disabled';
+
+  // Checks a new passphrase and its confirmation; returns the problem to show, if any
+  const validateNext = () => {
+    if (next.length < MIN_PASSPHRASE_LENGTH) return t.passphraseTooShort.replace('{n}', String(MIN_PASSPHRASE_LENGTH));
+    if (next !== confirmNext) return t.passphraseMismatch;
+    return null;
+  };
+
+  const run = async (step: () => Promise<boolean>, successText: string) => {
+    setIsWorking(true);
+    setMessage(null);
+    try {
+      const succeeded = await step();
+      setMessage(succeeded ? { text: successText, isError: false } : { text: t.wrongPassphrase, isError: true });
+      if (succeeded) {
+        setCurrent('');
+        setNext('');
+        setConfirmNext('');
+      }
+    } catch (e) {
+      console.error(e);
+      setMessage({ text: t.encryptionFailed, isError: true });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleEnable = (e: React.FormEvent) => {
+    e.preventDefault();
+    const problem = validateNext();
+    if (problem) return setMessage({ text: problem, isError: true });
+    run(async () => { await enableEncryption(next); return true; }, t.encryptionEnabled);
+  };
+
+  const handleChange = (e: React.FormEvent) => {
+    e.preventDefault();
+    const problem = validateNext();
+    if (problem) return setMessage({ text: problem, isError: true });
+    run(() => changePassphrase(current, next), t.passphraseChanged);
+  };
+
+  const handleDisable = () => {
+    if (!current) return setMessage({ text: t.wrongPassphrase, isError: true });
+    run(() => disableEncryption(current), t.encryptionDisabled);
+  };
+
+  const inputClass = "w-full px-3 py-2 rounded-lg border border-slate-300 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent";
+  const labelClass = "block text-xs font-bold uppercase tracking-wider text-slate-500 mb-1.5";
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 space-y-4">
+      <div>
+        <h3 className="font-bold text-slate-800">{t.encryptionTitle}</h3>
+        <p className="text-slate-500 text-sm">{isEnabled ? t.encryptionOnSub : t.encryptionOffSub}</p>
+      </div>
+
+      {isEnabled && (
+        <div>
+          <label className={labelClass} htmlFor="autoLock">{t.autoLock}</label>
+          <select
+            id="autoLock"
+            value={autoLockMinutes}
+            onChange={(e) => updateAutoLock(Number(e.target.value))}
+            className={inputClass}
+          >
+            {AUTO_LOCK_OPTIONS.map(minutes => (
+              <option key={minutes} value={minutes}>
+                {minutes ? t.autoLockAfter.replace('{n}', String(minutes)) : t.autoLockNever}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      <form onSubmit={isEnabled ? handleChange : handleEnable} className="space-y-3 pt-4 border-t border-slate-100">
+        {isEnabled && (
+          <div>
+            <label className={labelClass} htmlFor="currentPassphrase">{t.currentPassphrase}</label>
+            <input id="currentPassphrase" type="password" autoComplete="current-password" value={current} onChange={(e) => setCurrent(e.target.value)} className={inputClass} />
+          </div>
+        )}
+        <div>
+          <label className={labelClass} htmlFor="newPassphrase">{t.newPassphrase}</label>
+          <input id="newPassphrase" type="password" autoComplete="new-password" value={next} onChange={(e) => setNext(e.target.value)} className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass} htmlFor="confirmPassphrase">{t.confirmPassphrase}</label>
+          <input id="confirmPassphrase" type="password" autoComplete="new-password" value={confirmNext} onChange={(e) => setConfirmNext(e.target.value)} className={inputClass} />
+        </div>
+        <p className="text-xs text-slate-400">{t.passphraseNoRecovery}</p>
+
+        {message && (
+          <p className={`text-sm font-medium ${message.isError ? 'text-red-600' : 'text-green-700'}`}>{message.text}</p>
+        )}
+
+        <div className="flex flex-wrap items-center gap-3">
+          <button
+            type="submit"
+            disabled={isWorking}
+            className="px-4 py-2 rounded-lg font-bold text-sm shadow-sm bg-blue-600 text-white hover:bg-blue-700 disabled:bg-slate-200 disabled:text-slate-400 transition-all"
+          >
+            {isWorking ? t.encryptionWorking : isEnabled ? t.changePassphrase : t.enableEncryption}
+          </button>
+          {isEnabled && (
+            <button
+              type="button"
+              onClick={handleDisable}
+              disabled={isWorking}
+              className="px-4 py-2 rounded-lg font-bold text-sm border border-red-200 text-red-600 hover:bg-red-50 disabled:opacity-40 transition-colors"
+            >
+              {t.disableEncryption}
+            </button>
+          )}
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default EncryptionSettings;
@@ -1,6 +1,7 @@
 import React, { useState, useRef } from 'react';
 import { FileData } from '../types';
 import { fileToBase64 } from '../services/geminiService';
+import { documentIdFromBase64, perceptualHash } from '../utils/documentHash';
 
 interface FileUploadProps {
   onFileUpload: (data: FileData) => void;
@@ -99,6 +100,12 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileUpload, disabled }) => {
         result = { base64, previewUrl, mimeType: file.type };
       }
 
+      // Identify the document by content, so the same report is recognised however it is named
+      const documentId = await documentIdFromBase64(result.base64);
+      const imageHash = result.mimeType.startsWith('image/')
+        ? await perceptualHash(result.previewUrl).catch(() => undefined)
+        : undefined;
+
       clearInterval(interval);
       setUploadProgress(100);
 
@@ -107,7 +114,9 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileUpload, disabled }) => {
           file, // Keep original file object for reference/name
           base64: result.base64,
           previewUrl: result.previewUrl,
-          mimeType: result.mimeType
+          mimeType: result.mimeType,
+          documentId,
+          perceptualHash: imageHash
         });
         setIsProcessing(false);
         setUploadProgress(0);
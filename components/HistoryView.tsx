@@ -2,7 +2,11 @@ import React, { useMemo, useEffect } from 'react';
 import { useMedical } from '../context/MedicalContext';
 import { HistoryItem, Language } from '../types';
 import { useNavigate } from 'react-router-dom';
-import { translations } from '../utils/translations';
+import { LOCALES, translations } from '../utils/translations';
+import { hasReportDate, timelineDate } from '../utils/reportMetadata';
+import { trendItems } from '../services/trends';
+import { trendAlerts } from '../services/trendAlerts';
+import TrendAlertList from './TrendAlertList';
 
 const HistoryView: React.FC = () => {
   const { 
@@ -14,7 +18,13 @@ const HistoryView: React.FC = () => {
     language,
     prepareComparison,
     isAnalyzing,
-    resetApp
+    cancelAnalysis,
+    resetApp,
+    isHistoryLoading,
+    storageError,
+    storageUsage,
+    watchStorageUsage,
+    settings
   } = useMedical();
   
   const navigate = useNavigate();
@@ -35,32 +45,46 @@ const HistoryView: React.FC = () => {
     fr: "🇫🇷 FR"
   };
 
-  // Group History Items by Base64 (Source File)
+  // Group History Items by Source File
   const groupedHistory = useMemo(() => {
     const groups: Record<string, HistoryItem[]> = {};
     
     history.forEach(item => {
-      // Use base64 as unique identifier for the document content
-      // Fallback to fileName for legacy support (though base64 should exist)
-      const key = item.base64 || item.fileName;
+      // The content hash identifies the document; fallback to fileName for legacy support
+      const key = item.documentId || item.fileName;
       if (!groups[key]) {
         groups[key] = [];
       }
       groups[key].push(item);
     });
 
-    // Convert to array and sort by the date of the *latest* item in each group
+    // Convert to array and sort by when each report was taken (see timelineDate), newest first
     return Object.values(groups).sort((groupA, groupB) => {
-      const maxDateA = Math.max(...groupA.map(i => i.date));
-      const maxDateB = Math.max(...groupB.map(i => i.date));
+      const maxDateA = Math.max(...groupA.map(timelineDate));
+      const maxDateB = Math.max(...groupB.map(timelineDate));
       return maxDateB - maxDateA;
     });
   }, [history]);
 
+  // Trend alerts are shown on the card of the newest report only
+  const latestAlerts = useMemo(() => {
+    const items = trendItems(history, language);
+    const alerts = trendAlerts(items, settings.unitSystem, settings.analyteOverrides);
+    const latest = items.reduce<HistoryItem | null>((a, b) => !a || timelineDate(b) >= timelineDate(a) ? b : a, null);
+    return { documentId: latest && (latest.documentId || latest.id), alerts };
+  }, [history, language, settings.unitSystem, settings.analyteOverrides]);
+
+  // The item that represents a group: the latest original analysis, since translations
+  // share its date. Falls back to the latest item when only translations are left.
+  const primaryItem = (group: HistoryItem[]): HistoryItem => {
+    const sorted = [...group].sort((a, b) => b.date - a.date);
+    return sorted.find(i => !i.translatedFrom) || sorted[0];
+  };
+
   const toggleSelection = (group: HistoryItem[]) => {
-    // When selecting for comparison, we select the LATEST item from the group
+    // When selecting for comparison, we select the group's primary item
     // This allows the user to click the "Card" to toggle
-    const latestItem = group.sort((a, b) => b.date - a.date)[0];
+    const latestItem = primaryItem(group);
     const isSelected = compareItems.some(i => i.id === latestItem.id);
     
     if (isSelected) {
@@ -91,11 +115,17 @@ const HistoryView: React.FC = () => {
     }
   };
 
-  const handleViewDetails = (id: string) => {
-    loadHistoryItem(id);
+  const handleViewDetails = async (id: string) => {
+    await loadHistoryItem(id);
     navigate('/');
   };
 
+  useEffect(() => watchStorageUsage(), []);
+
+  // Warn before saving starts failing, not only after
+  const isStorageLow = !!storageUsage?.usedBytes && !!storageUsage.quotaBytes
+    && storageUsage.usedBytes / storageUsage.quotaBytes > 0.9;
+
   const handleDeleteGroup = (group: HistoryItem[]) => {
     // Delete all items in the group
     if (window.confirm("Are you sure you want to delete this document and all its translations?")) {
@@ -103,6 +133,12 @@ const HistoryView: React.FC = () => {
     }
   };
 
+  if (history.length === 0 && isHistoryLoading) {
+    return (
+      <div className="text-center py-20 text-slate-400 animate-pulse">{t.loadingHistory}</div>
+    );
+  }
+
   if (history.length === 0) {
     return (
       <div className="text-center py-20 animate-fade-in">
@@ -161,6 +197,21 @@ const HistoryView: React.FC = () => {
         </button>
       </div>
 
+      {(storageError || isStorageLow) && (
+        <div className="mb-6 bg-amber-50 border-l-4 border-amber-500 p-4 rounded-r-lg flex items-center gap-3 animate-fade-in">
+           <svg className="w-5 h-5 text-amber-500 flex-shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" /></svg>
+           <span className="text-amber-800 font-medium text-sm flex-1">
+             {storageError === 'quota' ? t.storageFull : storageError === 'failed' ? t.storageSaveFailed : t.storageLow}
+           </span>
+           <button
+             onClick={() => navigate('/settings')}
+             className="px-3 py-1.5 rounded-md text-xs font-bold text-amber-800 bg-white border border-amber-200 hover:bg-amber-100 transition-colors"
+           >
+             {t.storageFreeUp}
+           </button>
+        </div>
+      )}
+
       {isTypeMismatch && (
         <div className="mb-6 bg-red-50 border-l-4 border-red-500 p-4 rounded-r-lg flex items-center gap-3 animate-fade-in">
            <svg className="w-5 h-5 text-red-500" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" /></svg>
@@ -176,21 +227,27 @@ const HistoryView: React.FC = () => {
               <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
               <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
            </svg>
-           <span className="text-blue-700 font-medium text-sm">
+           <span className="text-blue-700 font-medium text-sm flex-1">
              {t.analyzingSub}
            </span>
+           <button
+             onClick={cancelAnalysis}
+             className="px-3 py-1 text-xs font-bold rounded-md bg-white border border-blue-200 text-blue-700 hover:bg-blue-100 transition-colors"
+           >
+             {t.cancel}
+           </button>
         </div>
       )}
 
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
         {groupedHistory.map((group) => {
-          // Identify the 'primary' item for this group (latest analysis)
+          // Identify the 'primary' item for this group (latest original analysis)
           // Sort descending by date
           const sortedGroupItems = [...group].sort((a, b) => b.date - a.date);
-          const latestItem = sortedGroupItems[0];
+          const latestItem = primaryItem(group);
           
           // Determine unique languages available
-          const availableLanguages = Array.from(new Set(sortedGroupItems.map(i => i.language || 'en')));
+          const availableLanguages = Array.from(new Set(sortedGroupItems.map(i => i.language)));
 
           const isSelected = compareItems.some(i => i.id === latestItem.id);
           const typeColor = {
@@ -202,7 +259,7 @@ const HistoryView: React.FC = () => {
 
           return (
             <div 
-              key={latestItem.base64 || latestItem.fileName}
+              key={latestItem.documentId || latestItem.id}
               onClick={() => toggleSelection(group)}
               className={`
                 relative p-4 rounded-xl border-2 cursor-pointer transition-all duration-200 group flex flex-col h-full
@@ -248,9 +305,13 @@ const HistoryView: React.FC = () => {
                     </div>
                     <h3 className="font-bold text-slate-800 truncate" title={latestItem.fileName}>{latestItem.fileName}</h3>
                     <p className="text-xs text-slate-500 mt-1">
-                      {new Date(latestItem.date).toLocaleDateString(language === 'en' ? 'en-US' : 'vi-VN', { 
-                        year: 'numeric', month: 'long', day: 'numeric', hour: '2-digit', minute: '2-digit'
-                      })}
+                      {hasReportDate(latestItem.data.metadata)
+                        ? t.collectedOn.replace('{date}', new Date(timelineDate(latestItem)).toLocaleDateString(LOCALES[language], {
+                            year: 'numeric', month: 'long', day: 'numeric'
+                          }))
+                        : new Date(latestItem.date).toLocaleDateString(LOCALES[language], { 
+                            year: 'numeric', month: 'long', day: 'numeric', hour: '2-digit', minute: '2-digit'
+                          })}
                     </p>
                     <div className="mt-2 flex items-center gap-2">
                        <div className="text-xs font-semibold text-slate-700 bg-slate-100 px-2 py-0.5 rounded">
@@ -263,6 +324,13 @@ const HistoryView: React.FC = () => {
                  </div>
               </div>
 
+              {latestAlerts.alerts.length > 0 && (latestItem.documentId || latestItem.id) === latestAlerts.documentId && (
+                <div className="bg-amber-50 rounded-lg p-2.5 mb-2 border border-amber-100">
+                  <span className="text-[10px] uppercase font-bold text-amber-700 block mb-1.5">{t.alertsTitle}</span>
+                  <TrendAlertList alerts={latestAlerts.alerts} limit={3} />
+                </div>
+              )}
+
               {/* Language Versions (New Feature) */}
               <div className="bg-slate-50 rounded-lg p-2.5 mb-2 mt-auto border border-slate-100">
                 <span className="text-[10px] uppercase font-bold text-slate-400 block mb-1.5">{t.availableLangs}</span>
@@ -270,8 +338,9 @@ const HistoryView: React.FC = () => {
                   {availableLanguages.map(lang => {
                     // Find specific ID for this language
                     // If multiple exist for same language, take the newest one
-                    const specificItem = sortedGroupItems.find(i => (i.language || 'en') === lang);
+                    const specificItem = sortedGroupItems.find(i => i.language === lang);
                     if (!specificItem) return null;
+                    const isTranslation = !!specificItem.translatedFrom;
 
                     return (
                       <button
@@ -280,7 +349,10 @@ const HistoryView: React.FC = () => {
                           e.stopPropagation();
                           handleViewDetails(specificItem.id);
                         }}
-                        className="px-2 py-1 bg-white border border-slate-200 rounded text-xs font-medium text-slate-700 hover:bg-blue-50 hover:text-blue-700 hover:border-blue-200 transition-colors shadow-sm"
+                        title={isTranslation ? t.translatedView : t.originalAnalysis}
+                        className={`px-2 py-1 bg-white border rounded text-xs text-slate-700 hover:bg-blue-50 hover:text-blue-700 hover:border-blue-200 transition-colors shadow-sm ${
+                          isTranslation ? 'border-slate-200 font-medium' : 'border-blue-300 font-bold'
+                        }`}
                       >
                         {langLabels[lang] || lang.toUpperCase()}
                       </button>
@@ -0,0 +1,82 @@
+import React from 'react';
+import { Language, Medication } from '../types';
+import { translations } from '../utils/translations';
+
+interface MedicationListProps {
+  medications: Medication[];
+  language: Language;
+  isStreaming?: boolean;
+  title?: string; // Defaults to "Medications"
+}
+
+// Prescribed medications as cards (prescriptions, and the discharge medications of discharge summaries)
+const MedicationList: React.FC<MedicationListProps> = ({ medications, language, isStreaming = false, title }) => {
+  const t = translations[language];
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden animate-fade-in" style={{ animationDelay: '0.1s' }}>
+      <div className="p-4 border-b border-slate-100 bg-slate-50">
+        <h2 className="font-bold text-slate-800">{title || t.medications}</h2>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 p-4">
+        {medications.map((med, index) => {
+          // The other name, when the printed one is the brand or the generic name
+          const otherNames = [med.genericName, med.brandName].filter(name => name && name !== med.name);
+          const details: [string, string | undefined][] = [
+            [t.medRoute, med.route],
+            [t.medFrequency, med.frequency],
+            [t.medDuration, med.duration],
+            [t.medQuantity, med.quantity],
+            [t.medRefills, med.refills !== undefined ? String(med.refills) : undefined],
+          ];
+
+          return (
+            <div
+              key={index}
+              className="rounded-xl border border-slate-200 p-4 space-y-3 stagger-item"
+              style={{ animationDelay: `${0.2 + (index * 0.05)}s` }}
+            >
+              <div>
+                <div className="flex items-baseline justify-between gap-2">
+                  <h4 className="font-bold text-slate-900">{med.name}</h4>
+                  {(med.strength || med.form) && (
+                    <span className="px-2 py-0.5 rounded text-[10px] font-bold uppercase tracking-wider bg-blue-50 text-blue-700 whitespace-nowrap">
+                      {[med.strength, med.form].filter(Boolean).join(' · ')}
+                    </span>
+                  )}
+                </div>
+                {otherNames.length > 0 && <p className="text-xs text-slate-500">{otherNames.join(' / ')}</p>}
+              </div>
+
+              {med.explanation && <p className="text-sm text-slate-600">{med.explanation}</p>}
+
+              <dl className="grid grid-cols-2 gap-x-3 gap-y-2 text-sm">
+                {details.filter(([, value]) => value).map(([label, value]) => (
+                  <div key={label} className="min-w-0">
+                    <dt className="text-[10px] font-bold uppercase tracking-wider text-slate-400">{label}</dt>
+                    <dd className="text-slate-700">{value}</dd>
+                  </div>
+                ))}
+              </dl>
+
+              {med.instructions && (
+                <div className="bg-amber-50 border border-amber-100 rounded-lg p-2.5 text-sm text-amber-900">
+                  <span className="block text-[10px] font-bold uppercase tracking-wider text-amber-700 mb-0.5">{t.medInstructions}</span>
+                  {med.instructions}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+      {isStreaming && (
+        <div className="p-5 text-sm text-slate-400 flex items-center gap-2 animate-pulse">
+          <div className="w-2 h-2 bg-blue-400 rounded-full"></div>
+          {t.receivingResults}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MedicationList;
@@ -0,0 +1,144 @@
+import React, { useMemo, useState } from 'react';
+import { Language, Medication } from '../types';
+import { LOCALES, translations } from '../utils/translations';
+import { addDays, buildCalendar, buildSchedule, isDoseDay, medicationLabel, pillChartHtml } from '../services/medicationSchedule';
+
+interface MedicationScheduleProps {
+  medications: Medication[];
+  language: Language;
+  documentId?: string; // Of the prescription, for calendar event UIDs
+}
+
+const today = () => {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+};
+
+// Dosing times for each prescribed medication, a week-at-a-glance chart to print, and reminders to add to a calendar
+const MedicationSchedule: React.FC<MedicationScheduleProps> = ({ medications, language, documentId }) => {
+  const t = translations[language];
+  const [start, setStart] = useState(today);
+  const schedules = useMemo(() => buildSchedule(medications, start), [medications, start]);
+  const days = Array.from({ length: 7 }, (_, i) => addDays(start, i));
+  const scheduled = schedules.filter(s => s.times.length > 0);
+
+  const formatDate = (date: string, options: Intl.DateTimeFormatOptions) =>
+    new Date(`${date}T00:00:00`).toLocaleDateString(LOCALES[language], options);
+
+  const printChart = () => {
+    const win = window.open('', '_blank');
+    if (!win) return;
+    win.document.write(pillChartHtml(schedules, start, language));
+    win.document.close();
+    win.focus();
+    win.print();
+  };
+
+  const exportCalendar = () => {
+    const blob = new Blob([buildCalendar(schedules, language, documentId)], { type: 'text/calendar' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `MediClarify_Medications_${start}.ics`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden animate-fade-in" style={{ animationDelay: '0.15s' }}>
+      <div className="p-4 border-b border-slate-100 bg-slate-50 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <div>
+          <h2 className="font-bold text-slate-800">{t.scheduleTitle}</h2>
+          <p className="text-xs text-slate-500 mt-0.5">{t.scheduleSub}</p>
+        </div>
+        <label className="flex items-center gap-2 text-xs font-medium text-slate-600">
+          {t.scheduleStart}
+          <input
+            type="date"
+            value={start}
+            onChange={e => e.target.value && setStart(e.target.value)}
+            className="px-2 py-1 rounded-md border border-slate-300 bg-white text-slate-700"
+          />
+        </label>
+      </div>
+
+      <ul className="divide-y divide-slate-100">
+        {schedules.map((schedule, index) => (
+          <li key={index} className="p-4 flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+            <div>
+              <span className="font-semibold text-slate-900">{medicationLabel(schedule.medication)}</span>
+              <p className="text-xs text-slate-500">
+                {[
+                  schedule.intervalDays === 7 && t.scheduleWeekly,
+                  schedule.meal === 'with' && t.scheduleWithFood,
+                  schedule.meal === 'without' && t.scheduleWithoutFood,
+                  schedule.times.length > 0 && (schedule.end
+                    ? t.scheduleUntil.replace('{date}', formatDate(schedule.end, { year: 'numeric', month: 'short', day: 'numeric' }))
+                    : t.scheduleOngoing),
+                ].filter(Boolean).join(' · ')}
+              </p>
+            </div>
+            <div className="flex flex-wrap gap-1.5">
+              {schedule.times.length > 0
+                ? schedule.times.map(time => (
+                    <span key={time} className="px-2 py-0.5 rounded bg-blue-50 text-blue-700 text-xs font-bold font-mono">{time}</span>
+                  ))
+                : <span className="text-xs text-slate-500 italic">{schedule.asNeeded ? t.scheduleAsNeeded : t.scheduleUnclear}</span>}
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      {scheduled.length > 0 && (
+        <>
+          <div className="overflow-x-auto border-t border-slate-100">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="bg-slate-50 text-slate-500">
+                  <th className="p-2 text-left font-semibold">{t.pillChartTitle}</th>
+                  {days.map(day => (
+                    <th key={day} className="p-2 font-semibold whitespace-nowrap">{formatDate(day, { weekday: 'short', day: 'numeric' })}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {scheduled.flatMap((schedule, index) => schedule.times.map(time => (
+                  <tr key={`${index}-${time}`}>
+                    <td className="p-2 text-slate-700">
+                      <span className="font-mono text-slate-400 mr-2">{time}</span>
+                      {medicationLabel(schedule.medication)}
+                    </td>
+                    {days.map(day => (
+                      <td key={day} className="p-2 text-center">
+                        {isDoseDay(schedule, day) && <span className="inline-block w-4 h-4 rounded border-2 border-slate-300" />}
+                      </td>
+                    ))}
+                  </tr>
+                )))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="p-4 border-t border-slate-100 flex flex-wrap gap-2">
+            <button
+              onClick={printChart}
+              className="px-3 py-1.5 text-xs font-bold rounded-md bg-white border border-slate-300 text-slate-600 hover:bg-slate-50 hover:text-slate-800 transition-all"
+            >
+              {t.schedulePrint}
+            </button>
+            <button
+              onClick={exportCalendar}
+              className="px-3 py-1.5 text-xs font-bold rounded-md bg-blue-600 text-white hover:bg-blue-700 transition-all"
+            >
+              {t.scheduleExport}
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default MedicationSchedule;
@@ -0,0 +1,135 @@
+import React, { useEffect, useState } from 'react';
+import { useMedical } from '../context/MedicalContext';
+import { PatientProfile } from '../types';
+import { translations } from '../utils/translations';
+
+interface PatientProfileFieldsProps {
+  profile?: PatientProfile;
+  onChange: (profile: PatientProfile) => void;
+  inputClass: string;
+  labelClass: string;
+}
+
+type ListField = 'conditions' | 'medications' | 'allergies';
+
+const LIST_FIELDS: ListField[] = ['conditions', 'medications', 'allergies'];
+
+const joinList = (items?: string[]) => (items || []).join('\n');
+const splitList = (text: string) => text.split('\n').map(item => item.trim()).filter(Boolean);
+
+// Patient profile section of the settings form (saved with the other settings)
+const PatientProfileFields: React.FC<PatientProfileFieldsProps> = ({ profile = {}, onChange, inputClass, labelClass }) => {
+  const { language } = useMedical();
+  const t = translations[language];
+
+  // Lists are edited as text and only split into items when the field is left, so blank lines can be typed
+  const [lists, setLists] = useState<Record<ListField, string>>({
+    conditions: joinList(profile.conditions),
+    medications: joinList(profile.medications),
+    allergies: joinList(profile.allergies),
+  });
+
+  useEffect(() => {
+    setLists({
+      conditions: joinList(profile.conditions),
+      medications: joinList(profile.medications),
+      allergies: joinList(profile.allergies),
+    });
+  }, [profile.conditions, profile.medications, profile.allergies]);
+
+  const setField = <K extends keyof PatientProfile>(field: K, value: PatientProfile[K]) => {
+    onChange({ ...profile, [field]: value });
+  };
+
+  const listLabels: Record<ListField, string> = {
+    conditions: t.profileConditions,
+    medications: t.profileMedications,
+    allergies: t.profileAllergies,
+  };
+
+  return (
+    <div className="pt-4 border-t border-slate-100 space-y-4">
+      <div>
+        <h3 className="font-bold text-slate-800">{t.profileTitle}</h3>
+        <p className="text-xs text-slate-400 mt-0.5">{t.profileSub}</p>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div>
+          <label className={labelClass} htmlFor="profileBirthDate">{t.profileBirthDate}</label>
+          <input
+            id="profileBirthDate"
+            type="date"
+            value={profile.birthDate || ''}
+            onChange={(e) => setField('birthDate', e.target.value || undefined)}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className={labelClass} htmlFor="profileAge">{t.profileAge}</label>
+          <input
+            id="profileAge"
+            type="number"
+            min={0}
+            max={130}
+            disabled={!!profile.birthDate}
+            value={profile.age ?? ''}
+            onChange={(e) => setField('age', e.target.value === '' ? undefined : Math.max(0, Math.round(Number(e.target.value))))}
+            className={`${inputClass} disabled:bg-slate-50 disabled:text-slate-400`}
+          />
+        </div>
+        <div>
+          <label className={labelClass} htmlFor="profileSex">{t.profileSex}</label>
+          <select
+            id="profileSex"
+            value={profile.sex || ''}
+            onChange={(e) => onChange({
+              ...profile,
+              sex: (e.target.value || undefined) as PatientProfile['sex'],
+              pregnancy: e.target.value === 'male' ? undefined : profile.pregnancy,
+            })}
+            className={inputClass}
+          >
+            <option value="">{t.profileNotSet}</option>
+            <option value="female">{t.profileFemale}</option>
+            <option value="male">{t.profileMale}</option>
+          </select>
+        </div>
+        {profile.sex !== 'male' && (
+          <div>
+            <label className={labelClass} htmlFor="profilePregnancy">{t.profilePregnancy}</label>
+            <select
+              id="profilePregnancy"
+              value={profile.pregnancy || ''}
+              onChange={(e) => setField('pregnancy', (e.target.value || undefined) as PatientProfile['pregnancy'])}
+              className={inputClass}
+            >
+              <option value="">{t.profileNotSet}</option>
+              <option value="pregnant">{t.profilePregnant}</option>
+              <option value="breastfeeding">{t.profileBreastfeeding}</option>
+            </select>
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        {LIST_FIELDS.map(field => (
+          <div key={field}>
+            <label className={labelClass} htmlFor={`profile-${field}`}>{listLabels[field]}</label>
+            <textarea
+              id={`profile-${field}`}
+              rows={3}
+              placeholder={t.profileListHint}
+              value={lists[field]}
+              onChange={(e) => setLists(prev => ({ ...prev, [field]: e.target.value }))}
+              onBlur={() => setField(field, splitList(lists[field]))}
+              className={inputClass}
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default PatientProfileFields;
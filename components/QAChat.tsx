@@ -1,9 +1,24 @@
 import React, { useState, useRef, useEffect } from 'react';
-import ReactMarkdown from 'react-markdown';
+import ReactMarkdown, { Components } from 'react-markdown';
 import { createPortal } from 'react-dom';
 import { Language, AnalysisData } from '../types';
 import { useMedical } from '../context/MedicalContext';
 import { translations } from '../utils/translations';
+import { linkResultCitations, parseResultAnchor } from '../utils/citations';
+
+// Shared by saved messages and the reply that is still streaming
+const markdownComponents: Components = {
+  ul: ({node, ...props}) => <ul className="list-disc pl-4 space-y-1" {...props} />,
+  ol: ({node, ...props}) => <ol className="list-decimal pl-4 space-y-1" {...props} />,
+  h1: ({node, ...props}) => <h1 className="text-base font-bold text-slate-900 mt-2 mb-1" {...props} />,
+  h2: ({node, ...props}) => <h2 className="text-sm font-bold text-slate-800 mt-2 mb-1" {...props} />,
+  h3: ({node, ...props}) => <h3 className="text-sm font-semibold text-slate-800 mt-2 mb-1" {...props} />,
+  strong: ({node, ...props}) => <strong className="font-semibold text-slate-900" {...props} />,
+  a: ({node, ...props}) => <a className="text-blue-600 hover:underline" target="_blank" rel="noopener noreferrer" {...props} />,
+  table: ({node, ...props}) => <div className="overflow-x-auto my-2"><table className="min-w-full divide-y divide-slate-200 border border-slate-200 text-xs" {...props} /></div>,
+  th: ({node, ...props}) => <th className="bg-slate-50 px-2 py-1 text-left font-semibold text-slate-700" {...props} />,
+  td: ({node, ...props}) => <td className="px-2 py-1 border-t border-slate-100" {...props} />,
+};
 
 interface QAChatProps {
   initialLanguage: Language;
@@ -16,11 +31,18 @@ const QAChat: React.FC<QAChatProps> = ({ initialLanguage, analysisData }) => {
     setPrefilledMessage,
     chatMessages,
     isChatLoading,
+    streamingReply,
     sendUserMessage,
-    addSystemMessage
+    stopChatReply,
+    regenerateLastReply,
+    editUserMessage,
+    addSystemMessage,
+    setHighlightedResult
   } = useMedical();
   
   const [input, setInput] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editText, setEditText] = useState('');
   const [isExpanded, setIsExpanded] = useState(false); // State for Dialog Mode
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const t = translations[initialLanguage];
@@ -34,7 +56,7 @@ const QAChat: React.FC<QAChatProps> = ({ initialLanguage, analysisData }) => {
 
   useEffect(() => {
     scrollToBottom();
-  }, [chatMessages, isChatLoading, isExpanded]);
+  }, [chatMessages, isChatLoading, streamingReply, isExpanded]);
 
   // Handle prefilled message coming from AnalysisResults click
   useEffect(() => {
@@ -64,6 +86,48 @@ const QAChat: React.FC<QAChatProps> = ({ initialLanguage, analysisData }) => {
     handleSend(input);
   };
 
+  const startEditing = (id: string, text: string) => {
+    setEditingId(id);
+    setEditText(text);
+  };
+
+  const submitEdit = async () => {
+    if (!editingId || !editText.trim()) return;
+    const id = editingId;
+    setEditingId(null);
+    await editUserMessage(id, editText);
+  };
+
+  // Result citations become chips that jump to the row in the results panel
+  const openCitation = (index: number) => {
+    setIsExpanded(false);
+    setHighlightedResult(index);
+  };
+
+  const modelMarkdownComponents: Components = {
+    ...markdownComponents,
+    a: ({ node, href, children, ...props }) => {
+      const index = parseResultAnchor(href);
+      if (index === null) {
+        return <a href={href} className="text-blue-600 hover:underline" target="_blank" rel="noopener noreferrer" {...props}>{children}</a>;
+      }
+      return (
+        <button
+          type="button"
+          onClick={() => openCitation(index)}
+          className="inline-flex items-center gap-1 px-1.5 py-0.5 mx-0.5 rounded-full bg-blue-50 border border-blue-200 text-[11px] font-semibold text-blue-700 hover:bg-blue-100 align-baseline"
+        >
+          <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 17v-2m3 2v-4m3 4v-6m2 10H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" /></svg>
+          {children}
+        </button>
+      );
+    },
+  };
+
+  // Regenerate is offered on the final reply, once there is a question it answered
+  const lastMessage = chatMessages[chatMessages.length - 1];
+  const canRegenerate = !isChatLoading && lastMessage?.role === 'model' && chatMessages.some(m => m.role === 'user');
+
   // Toggle Function
   const toggleExpand = () => setIsExpanded(!isExpanded);
 
@@ -115,41 +179,85 @@ const QAChat: React.FC<QAChatProps> = ({ initialLanguage, analysisData }) => {
         {chatMessages.map((msg) => (
           <div
             key={msg.id}
-            className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'} animate-fade-in`}
+            className={`group flex flex-col ${msg.role === 'user' ? 'items-end' : 'items-start'} animate-fade-in`}
           >
-            <div
-              className={`max-w-[85%] rounded-2xl px-4 py-3 shadow-sm text-sm leading-relaxed overflow-hidden ${
-                msg.role === 'user'
-                  ? 'bg-blue-600 text-white rounded-br-none'
-                  : 'bg-white text-slate-800 border border-slate-200 rounded-bl-none'
-              }`}
-            >
-              {msg.role === 'user' ? (
-                <p className="whitespace-pre-wrap">{msg.text}</p>
-              ) : (
-                <div className="prose prose-sm prose-slate max-w-none prose-p:my-1 prose-headings:my-2 prose-ul:my-1 prose-li:my-0">
-                  <ReactMarkdown
-                    components={{
-                      ul: ({node, ...props}) => <ul className="list-disc pl-4 space-y-1" {...props} />,
-                      ol: ({node, ...props}) => <ol className="list-decimal pl-4 space-y-1" {...props} />,
-                      h1: ({node, ...props}) => <h1 className="text-base font-bold text-slate-900 mt-2 mb-1" {...props} />,
-                      h2: ({node, ...props}) => <h2 className="text-sm font-bold text-slate-800 mt-2 mb-1" {...props} />,
-                      h3: ({node, ...props}) => <h3 className="text-sm font-semibold text-slate-800 mt-2 mb-1" {...props} />,
-                      strong: ({node, ...props}) => <strong className="font-semibold text-slate-900" {...props} />,
-                      a: ({node, ...props}) => <a className="text-blue-600 hover:underline" target="_blank" rel="noopener noreferrer" {...props} />,
-                      table: ({node, ...props}) => <div className="overflow-x-auto my-2"><table className="min-w-full divide-y divide-slate-200 border border-slate-200 text-xs" {...props} /></div>,
-                      th: ({node, ...props}) => <th className="bg-slate-50 px-2 py-1 text-left font-semibold text-slate-700" {...props} />,
-                      td: ({node, ...props}) => <td className="px-2 py-1 border-t border-slate-100" {...props} />,
-                    }}
+            {editingId === msg.id ? (
+              <div className="w-full max-w-[85%] bg-white border border-blue-300 rounded-2xl p-3 shadow-sm">
+                <textarea
+                  value={editText}
+                  onChange={(e) => setEditText(e.target.value)}
+                  rows={3}
+                  className="w-full text-sm text-slate-800 resize-none focus:outline-none"
+                  autoFocus
+                />
+                <div className="flex justify-end gap-2 mt-2">
+                  <button
+                    onClick={() => setEditingId(null)}
+                    className="px-3 py-1 text-xs font-medium rounded-md text-slate-500 hover:bg-slate-100"
+                  >
+                    {t.cancel}
+                  </button>
+                  <button
+                    onClick={submitEdit}
+                    disabled={!editText.trim()}
+                    className="px-3 py-1 text-xs font-bold rounded-md bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
                   >
-                    {msg.text}
-                  </ReactMarkdown>
+                    {t.saveAndResend}
+                  </button>
                 </div>
-              )}
-            </div>
+              </div>
+            ) : (
+              <div
+                className={`max-w-[85%] rounded-2xl px-4 py-3 shadow-sm text-sm leading-relaxed overflow-hidden ${
+                  msg.role === 'user'
+                    ? 'bg-blue-600 text-white rounded-br-none'
+                    : 'bg-white text-slate-800 border border-slate-200 rounded-bl-none'
+                }`}
+              >
+                {msg.role === 'user' ? (
+                  <p className="whitespace-pre-wrap">{msg.text}</p>
+                ) : (
+                  <div className="prose prose-sm prose-slate max-w-none prose-p:my-1 prose-headings:my-2 prose-ul:my-1 prose-li:my-0">
+                    <ReactMarkdown components={modelMarkdownComponents}>
+                      {linkResultCitations(msg.text, analysisData.results)}
+                    </ReactMarkdown>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* Message Actions */}
+            {msg.role === 'user' && editingId !== msg.id && !isChatLoading && (
+              <button
+                onClick={() => startEditing(msg.id, msg.text)}
+                className="mt-1 text-[11px] text-slate-400 hover:text-blue-600 opacity-0 group-hover:opacity-100 transition-opacity"
+              >
+                {t.editMessage}
+              </button>
+            )}
+            {msg.role === 'model' && (msg.stopped || (canRegenerate && msg === lastMessage)) && (
+              <div className="mt-1 flex items-center gap-3 text-[11px]">
+                {msg.stopped && <span className="text-amber-600 font-medium">{t.replyStopped}</span>}
+                {canRegenerate && msg === lastMessage && (
+                  <button onClick={regenerateLastReply} className="text-slate-400 hover:text-blue-600 font-medium">
+                    ↻ {t.regenerate}
+                  </button>
+                )}
+              </div>
+            )}
           </div>
         ))}
-        {isChatLoading && (
+        {streamingReply ? (
+          <div className="flex justify-start">
+            <div className="max-w-[85%] rounded-2xl rounded-bl-none px-4 py-3 shadow-sm text-sm leading-relaxed overflow-hidden bg-white text-slate-800 border border-slate-200">
+              <div className="prose prose-sm prose-slate max-w-none prose-p:my-1 prose-headings:my-2 prose-ul:my-1 prose-li:my-0">
+                <ReactMarkdown components={modelMarkdownComponents}>
+                  {linkResultCitations(streamingReply, analysisData.results)}
+                </ReactMarkdown>
+              </div>
+            </div>
+          </div>
+        ) : isChatLoading && (
           <div className="flex justify-start">
             <div className="bg-white border border-slate-200 rounded-2xl rounded-bl-none px-4 py-3 shadow-sm">
               <div className="flex space-x-2">
@@ -194,15 +302,28 @@ const QAChat: React.FC<QAChatProps> = ({ initialLanguage, analysisData }) => {
             className="w-full pl-4 pr-12 py-3 rounded-xl border border-slate-300 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all shadow-sm"
             disabled={isChatLoading}
           />
-          <button
-            type="submit"
-            disabled={!input.trim() || isChatLoading}
-            className="absolute right-2 top-1/2 transform -translate-y-1/2 p-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:hover:bg-blue-600 transition-colors"
-          >
-            <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-5 h-5">
-              <path d="M3.105 2.289a.75.75 0 00-.826.95l1.414 4.925A2.001 2.001 0 005.692 10H14a1 1 0 010 2H5.692a2.001 2.001 0 00-1.999 1.836l-1.414 4.925a.75.75 0 00.826.95 28.898 28.898 0 0011.17-7.468.75.75 0 000-1.157A28.89 28.89 0 003.105 2.289z" />
-            </svg>
-          </button>
+          {isChatLoading ? (
+            <button
+              type="button"
+              onClick={stopChatReply}
+              title={t.stopReply}
+              className="absolute right-2 top-1/2 transform -translate-y-1/2 p-2 bg-slate-700 text-white rounded-lg hover:bg-slate-900 transition-colors"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-5 h-5">
+                <rect x="5" y="5" width="10" height="10" rx="1.5" />
+              </svg>
+            </button>
+          ) : (
+            <button
+              type="submit"
+              disabled={!input.trim()}
+              className="absolute right-2 top-1/2 transform -translate-y-1/2 p-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:hover:bg-blue-600 transition-colors"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-5 h-5">
+                <path d="M3.105 2.289a.75.75 0 00-.826.95l1.414 4.925A2.001 2.001 0 005.692 10H14a1 1 0 010 2H5.692a2.001 2.001 0 00-1.999 1.836l-1.414 4.925a.75.75 0 00.826.95 28.898 28.898 0 0011.17-7.468.75.75 0 000-1.157A28.89 28.89 0 003.105 2.289z" />
+              </svg>
+            </button>
+          )}
         </div>
       </form>
     </div>
@@ -0,0 +1,84 @@
+import React from 'react';
+import { Language, RadiologyFinding, RadiologyReport } from '../types';
+import { translations } from '../utils/translations';
+
+interface RadiologyReportViewProps {
+  report?: RadiologyReport; // Missing while the response is still streaming
+  language: Language;
+  isStreaming?: boolean;
+}
+
+const significanceStyles: Record<NonNullable<RadiologyFinding['significance']>, string> = {
+  normal: 'bg-green-100 text-green-700',
+  minor: 'bg-slate-100 text-slate-600',
+  significant: 'bg-amber-100 text-amber-800',
+  urgent: 'bg-red-100 text-red-700',
+};
+
+// Imaging report: what was scanned, the impression in plain language, then each finding (shown instead of the lab table)
+const RadiologyReportView: React.FC<RadiologyReportViewProps> = ({ report, language, isStreaming = false }) => {
+  const t = translations[language];
+  const findings = report?.findings || [];
+  const recommendations = report?.recommendations || [];
+  const exam = [report?.modality, report?.bodyRegion, report?.technique].filter(Boolean).join(' · ');
+
+  const significanceLabel: Record<NonNullable<RadiologyFinding['significance']>, string> = {
+    normal: t.significanceNormal,
+    minor: t.significanceMinor,
+    significant: t.significanceSignificant,
+    urgent: t.significanceUrgent,
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden animate-fade-in" style={{ animationDelay: '0.1s' }}>
+      <div className="p-4 border-b border-slate-100 bg-slate-50">
+        <h2 className="font-bold text-slate-800">{t.radiologyTitle}</h2>
+        {exam && <p className="text-xs text-slate-500 mt-0.5">{exam}</p>}
+      </div>
+
+      {report?.impression && (
+        <div className="p-5 border-b border-slate-100 space-y-2">
+          <h3 className="text-[10px] font-bold uppercase tracking-wider text-slate-400">{t.radiologyImpression}</h3>
+          {report.impressionExplanation && <p className="text-slate-800">{report.impressionExplanation}</p>}
+          <p className="text-xs text-slate-500 italic">{report.impression}</p>
+        </div>
+      )}
+
+      <div className="divide-y divide-slate-100">
+        {findings.map((finding, index) => (
+          <div key={index} className="p-5 space-y-1 stagger-item" style={{ animationDelay: `${0.2 + (index * 0.05)}s` }}>
+            <div className="flex items-start justify-between gap-3">
+              <h4 className="font-semibold text-slate-900">
+                {finding.finding}
+                {finding.location && <span className="font-normal text-slate-500"> · {finding.location}</span>}
+              </h4>
+              {finding.significance && (
+                <span className={`px-2 py-0.5 rounded text-[10px] font-bold uppercase tracking-wider whitespace-nowrap ${significanceStyles[finding.significance]}`}>
+                  {significanceLabel[finding.significance]}
+                </span>
+              )}
+            </div>
+            {finding.explanation && <p className="text-sm text-slate-600">{finding.explanation}</p>}
+          </div>
+        ))}
+        {isStreaming && (
+          <div className="p-5 text-sm text-slate-400 flex items-center gap-2 animate-pulse">
+            <div className="w-2 h-2 bg-blue-400 rounded-full"></div>
+            {t.receivingResults}
+          </div>
+        )}
+      </div>
+
+      {recommendations.length > 0 && (
+        <div className="p-5 border-t border-slate-100 bg-blue-50/50">
+          <h3 className="text-[10px] font-bold uppercase tracking-wider text-blue-700 mb-2">{t.radiologyRecommendations}</h3>
+          <ul className="list-disc list-inside space-y-1 text-sm text-slate-700">
+            {recommendations.map((item, idx) => <li key={idx}>{item}</li>)}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RadiologyReportView;
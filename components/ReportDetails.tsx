@@ -0,0 +1,126 @@
+import React, { useEffect, useState } from 'react';
+import { useMedical } from '../context/MedicalContext';
+import { ReportMetadata } from '../types';
+import { LOCALES, translations } from '../utils/translations';
+import { hasReportDate } from '../utils/reportMetadata';
+
+type MetadataField = Exclude<keyof ReportMetadata, 'editedByUser'>;
+
+const FIELDS: { field: MetadataField; type: 'date' | 'text' }[] = [
+  { field: 'collectionDate', type: 'date' },
+  { field: 'reportDate', type: 'date' },
+  { field: 'labName', type: 'text' },
+  { field: 'orderingClinician', type: 'text' },
+  { field: 'patientName', type: 'text' },
+  { field: 'patientAge', type: 'text' },
+  { field: 'patientSex', type: 'text' },
+];
+
+// Details printed on the report (dates, lab, clinician, patient), with editing (Analyzer sidebar)
+const ReportDetails: React.FC = () => {
+  const { analysisData, updateReportMetadata, language } = useMedical();
+  const t = translations[language];
+  const metadata = analysisData?.metadata || {};
+
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState<ReportMetadata>(metadata);
+
+  // Another document (or language version) was opened
+  useEffect(() => {
+    setIsEditing(false);
+  }, [analysisData]);
+
+  const labels: Record<MetadataField, string> = {
+    collectionDate: t.metadataCollectionDate,
+    reportDate: t.metadataReportDate,
+    labName: t.metadataLab,
+    orderingClinician: t.metadataClinician,
+    patientName: t.metadataPatientName,
+    patientAge: t.metadataPatientAge,
+    patientSex: t.metadataPatientSex,
+  };
+
+  const startEditing = () => {
+    setDraft(metadata);
+    setIsEditing(true);
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    const cleaned: ReportMetadata = {};
+    FIELDS.forEach(({ field }) => {
+      const value = draft[field]?.trim();
+      if (value) cleaned[field] = value;
+    });
+    updateReportMetadata(cleaned);
+  };
+
+  const formatValue = (field: MetadataField, value: string) =>
+    field === 'collectionDate' || field === 'reportDate'
+      ? new Date(`${value}T00:00:00`).toLocaleDateString(LOCALES[language], { year: 'numeric', month: 'short', day: 'numeric' })
+      : value;
+
+  const filled = FIELDS.filter(({ field }) => metadata[field]);
+
+  return (
+    <div className="bg-white p-4 rounded-xl shadow-sm border border-slate-200">
+      <div className="flex justify-between items-center mb-3">
+        <h3 className="font-bold text-slate-800 text-sm uppercase tracking-wide">
+          {t.reportDetails}
+          {metadata.editedByUser && (
+            <span className="ml-2 text-[10px] font-semibold normal-case tracking-normal text-slate-400">{t.metadataEdited}</span>
+          )}
+        </h3>
+        {!isEditing && (
+          <button onClick={startEditing} className="text-xs font-medium text-blue-600 hover:text-blue-800">
+            {t.editMessage}
+          </button>
+        )}
+      </div>
+
+      {isEditing ? (
+        <form onSubmit={handleSave} className="space-y-2">
+          {FIELDS.map(({ field, type }) => (
+            <div key={field}>
+              <label htmlFor={`metadata-${field}`} className="block text-[10px] font-bold uppercase tracking-wider text-slate-500 mb-0.5">
+                {labels[field]}
+              </label>
+              <input
+                id={`metadata-${field}`}
+                type={type}
+                value={draft[field] || ''}
+                onChange={(e) => setDraft({ ...draft, [field]: e.target.value })}
+                className="w-full px-2 py-1.5 rounded-lg border border-slate-300 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+          ))}
+          <div className="flex items-center gap-3 pt-2">
+            <button type="submit" className="px-3 py-1.5 rounded-lg font-bold text-sm shadow-sm bg-blue-600 text-white hover:bg-blue-700 transition-all">
+              {t.metadataSave}
+            </button>
+            <button type="button" onClick={() => setIsEditing(false)} className="text-sm font-medium text-slate-500 hover:text-slate-700">
+              {t.cancel}
+            </button>
+          </div>
+        </form>
+      ) : filled.length > 0 ? (
+        <dl className="grid grid-cols-2 gap-x-3 gap-y-2 text-sm">
+          {filled.map(({ field }) => (
+            <div key={field} className="min-w-0">
+              <dt className="text-[10px] font-bold uppercase tracking-wider text-slate-400">{labels[field]}</dt>
+              <dd className="text-slate-700 truncate" title={metadata[field]}>{formatValue(field, metadata[field]!)}</dd>
+            </div>
+          ))}
+        </dl>
+      ) : (
+        <p className="text-sm text-slate-400">{t.metadataNone}</p>
+      )}
+
+      {!isEditing && !hasReportDate(metadata) && (
+        <p className="text-xs text-amber-700 mt-3">{t.metadataNoDate}</p>
+      )}
+    </div>
+  );
+};
+
+export default ReportDetails;
@@ -0,0 +1,268 @@
+import React, { useEffect, useState } from 'react';
+import { useMedical } from '../context/MedicalContext';
+import { AIProviderType, PruneStrategy, UserSettings } from '../types';
+import { translations } from '../utils/translations';
+import { DEFAULT_OPENAI_BASE_URL, DEFAULT_OPENAI_MODEL } from '../services/providers/openAICompatibleProvider';
+import { PRUNE_STRATEGIES } from '../services/historyPruning';
+import EncryptionSettings from './EncryptionSettings';
+import BackupSettings from './BackupSettings';
+import PatientProfileFields from './PatientProfileFields';
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+};
+
+const SettingsView: React.FC = () => {
+  const { settings, updateSettings, language, history, storageUsage, storageError, watchStorageUsage, pruneStoredHistory } = useMedical();
+  const t = translations[language];
+
+  useEffect(() => watchStorageUsage(), []);
+
+  // Edit a local draft so half-typed values don't hit storage on every keystroke
+  const [draft, setDraft] = useState<UserSettings>(settings);
+  const [saved, setSaved] = useState(false);
+
+  // Settings are loaded asynchronously (and only after unlocking when encrypted)
+  useEffect(() => {
+    setDraft(settings);
+  }, [settings]);
+
+  const provider: AIProviderType = draft.provider || 'gemini';
+
+  const setField = (field: keyof UserSettings, value: string) => {
+    setDraft(prev => ({ ...prev, [field]: value || undefined }));
+    setSaved(false);
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    updateSettings(draft);
+    setSaved(true);
+  };
+
+  const providerOptions: { value: AIProviderType; label: string }[] = [
+    { value: 'gemini', label: t.providerGemini },
+    { value: 'openai', label: t.providerOpenAI },
+    { value: 'mock', label: t.providerMock },
+  ];
+
+  const pruneOptions: Record<PruneStrategy, { label: string; hint: string }> = {
+    translations: { label: t.pruneTranslations, hint: t.pruneTranslationsHint },
+    documents: { label: t.pruneDocuments, hint: t.pruneDocumentsHint },
+    oldest: { label: t.pruneOldest, hint: t.pruneOldestHint },
+  };
+
+  const handlePrune = (strategy: PruneStrategy) => {
+    if (window.confirm(t.pruneConfirm)) {
+      pruneStoredHistory(strategy);
+    }
+  };
+
+  const usedPercent = storageUsage?.usedBytes && storageUsage.quotaBytes
+    ? Math.min(100, (storageUsage.usedBytes / storageUsage.quotaBytes) * 100)
+    : null;
+
+  const inputClass = "w-full px-3 py-2 rounded-lg border border-slate-300 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent";
+  const labelClass = "block text-xs font-bold uppercase tracking-wider text-slate-500 mb-1.5";
+
+  return (
+    <div className="animate-fade-in max-w-3xl mx-auto space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-slate-800">{t.settings}</h2>
+        <p className="text-slate-500 text-sm">{t.settingsSub}</p>
+      </div>
+
+      <form onSubmit={handleSave} className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 space-y-6">
+        {/* Provider Selection */}
+        <div>
+          <span className={labelClass}>{t.aiProvider}</span>
+          <div className="space-y-2">
+            {providerOptions.map(option => (
+              <label
+                key={option.value}
+                className={`flex items-center gap-3 p-3 rounded-lg border cursor-pointer transition-colors ${
+                  provider === option.value ? 'border-blue-500 bg-blue-50' : 'border-slate-200 hover:bg-slate-50'
+                }`}
+              >
+                <input
+                  type="radio"
+                  name="provider"
+                  value={option.value}
+                  checked={provider === option.value}
+                  onChange={() => setField('provider', option.value)}
+                  className="text-blue-600"
+                />
+                <span className="text-sm font-medium text-slate-700">{option.label}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+
+        {/* Provider-specific Fields */}
+        {provider === 'gemini' && (
+          <div>
+            <label className={labelClass} htmlFor="apiKey">{t.geminiApiKey}</label>
+            <input
+              id="apiKey"
+              type="password"
+              autoComplete="off"
+              value={draft.apiKey || ''}
+              onChange={(e) => setField('apiKey', e.target.value)}
+              className={inputClass}
+            />
+            <p className="text-xs text-slate-400 mt-1">{t.apiKeyHint}</p>
+          </div>
+        )}
+
+        {provider === 'openai' && (
+          <div className="space-y-4">
+            <div>
+              <label className={labelClass} htmlFor="openaiBaseUrl">{t.serverUrl}</label>
+              <input
+                id="openaiBaseUrl"
+                type="url"
+                placeholder={DEFAULT_OPENAI_BASE_URL}
+                value={draft.openaiBaseUrl || ''}
+                onChange={(e) => setField('openaiBaseUrl', e.target.value)}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass} htmlFor="openaiModel">{t.modelName}</label>
+              <input
+                id="openaiModel"
+                type="text"
+                placeholder={DEFAULT_OPENAI_MODEL}
+                value={draft.openaiModel || ''}
+                onChange={(e) => setField('openaiModel', e.target.value)}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass} htmlFor="openaiApiKey">{t.serverApiKey}</label>
+              <input
+                id="openaiApiKey"
+                type="password"
+                autoComplete="off"
+                value={draft.openaiApiKey || ''}
+                onChange={(e) => setField('openaiApiKey', e.target.value)}
+                className={inputClass}
+              />
+            </div>
+          </div>
+        )}
+
+        {provider === 'mock' && (
+          <div className="bg-amber-50 border-l-4 border-amber-400 p-3 rounded-r-lg text-sm text-amber-800">
+            {t.providerMockNote}
+          </div>
+        )}
+
+        {/* Display Units */}
+        <div className="pt-4 border-t border-slate-100">
+          <label className={labelClass} htmlFor="unitSystem">{t.displayUnits}</label>
+          <select
+            id="unitSystem"
+            value={draft.unitSystem || 'original'}
+            onChange={(e) => setField('unitSystem', e.target.value)}
+            className={inputClass}
+          >
+            <option value="original">{t.unitsOriginal}</option>
+            <option value="si">{t.unitsSI}</option>
+            <option value="conventional">{t.unitsConventional}</option>
+          </select>
+          <p className="text-xs text-slate-400 mt-1">{t.unitsHint}</p>
+        </div>
+
+        <PatientProfileFields
+          profile={draft.patientProfile}
+          onChange={(patientProfile) => {
+            setDraft(prev => ({ ...prev, patientProfile }));
+            setSaved(false);
+          }}
+          inputClass={inputClass}
+          labelClass={labelClass}
+        />
+
+        <div className="flex items-center gap-3 pt-2 border-t border-slate-100">
+          <button
+            type="submit"
+            className="px-6 py-2.5 rounded-lg font-bold shadow-sm bg-blue-600 text-white hover:bg-blue-700 hover:shadow-md active:scale-95 transition-all"
+          >
+            {t.saveSettings}
+          </button>
+          {saved && (
+            <span className="text-sm text-green-700 font-medium animate-fade-in">{t.settingsSaved}</span>
+          )}
+        </div>
+      </form>
+
+      <EncryptionSettings />
+
+      <BackupSettings />
+
+      {/* Storage */}
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 space-y-4">
+        <div>
+          <h3 className="font-bold text-slate-800">{t.storageTitle}</h3>
+          <p className="text-slate-500 text-sm">{t.storageSub}</p>
+        </div>
+
+        {storageError && (
+          <div className="bg-amber-50 border-l-4 border-amber-400 p-3 rounded-r-lg text-sm text-amber-800">
+            {storageError === 'quota' ? t.storageFull : t.storageSaveFailed}
+          </div>
+        )}
+
+        {storageUsage && (
+          <div className="space-y-2">
+            {usedPercent !== null && (
+              <>
+                <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+                  <div
+                    className={`h-full rounded-full ${usedPercent > 90 ? 'bg-red-500' : 'bg-blue-500'}`}
+                    style={{ width: `${usedPercent}%` }}
+                  />
+                </div>
+                <p className="text-sm text-slate-700">
+                  {t.storageUsed
+                    .replace('{used}', formatBytes(storageUsage.usedBytes || 0))
+                    .replace('{quota}', formatBytes(storageUsage.quotaBytes || 0))}
+                </p>
+              </>
+            )}
+            <p className="text-xs text-slate-500">
+              {t.storageDocuments.replace('{size}', formatBytes(storageUsage.documentBytes))}
+              {' · '}
+              {t.storageAnalyses.replace('{size}', formatBytes(storageUsage.analysisBytes))}
+            </p>
+          </div>
+        )}
+
+        <div className="space-y-2 pt-4 border-t border-slate-100">
+          {PRUNE_STRATEGIES.map(strategy => (
+            <div key={strategy} className="flex items-center justify-between gap-4 p-3 rounded-lg border border-slate-200">
+              <div>
+                <p className="text-sm font-medium text-slate-700">{pruneOptions[strategy].label}</p>
+                <p className="text-xs text-slate-400">{pruneOptions[strategy].hint}</p>
+              </div>
+              <button
+                type="button"
+                onClick={() => handlePrune(strategy)}
+                disabled={history.length === 0}
+                className="px-3 py-1.5 rounded-md text-xs font-bold border border-red-200 text-red-600 hover:bg-red-50 disabled:opacity-40 disabled:cursor-not-allowed transition-colors flex-shrink-0"
+              >
+                {t.pruneRun}
+              </button>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsView;
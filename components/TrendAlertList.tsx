@@ -0,0 +1,51 @@
+import React from 'react';
+import { useMedical } from '../context/MedicalContext';
+import { TrendAlert, formatChange } from '../services/trendAlerts';
+import { statusLabel, translations } from '../utils/translations';
+
+interface TrendAlertListProps {
+  alerts: TrendAlert[];
+  limit?: number; // Show the first `limit` alerts and a count of the rest
+}
+
+// Trend alerts as short sentences (Comparison page and the history card of the newest report)
+const TrendAlertList: React.FC<TrendAlertListProps> = ({ alerts, limit }) => {
+  const { language } = useMedical();
+  const t = translations[language];
+  const shown = limit ? alerts.slice(0, limit) : alerts;
+
+  const message = (alert: TrendAlert) => {
+    const template = {
+      rapidChange: alert.direction === 'up' ? t.alertRapidRise : t.alertRapidFall,
+      becameAbnormal: t.alertBecameAbnormal,
+      drift: alert.direction === 'up' ? t.alertDriftUp : t.alertDriftDown,
+    }[alert.kind];
+    return template
+      .replace('{test}', alert.test)
+      .replace('{n}', String(alert.readings.length))
+      .replace('{status}', statusLabel(alert.readings[alert.readings.length - 1].status, language));
+  };
+
+  return (
+    <ul className="space-y-1.5">
+      {shown.map(alert => (
+        <li key={alert.key} className="flex items-start gap-2 text-sm">
+          <span className={`mt-1.5 w-2 h-2 rounded-full flex-shrink-0 ${alert.severity === 'critical' ? 'bg-red-500' : 'bg-amber-400'}`} />
+          <span className="text-slate-700">
+            {message(alert)}
+            {alert.change && (
+              <span className="ml-1 text-xs text-slate-400 whitespace-nowrap">
+                {formatChange(alert.change, alert.readings[alert.readings.length - 1].unit)}
+              </span>
+            )}
+          </span>
+        </li>
+      ))}
+      {shown.length < alerts.length && (
+        <li className="text-xs text-slate-400">{t.alertsMore.replace('{n}', String(alerts.length - shown.length))}</li>
+      )}
+    </ul>
+  );
+};
+
+export default TrendAlertList;
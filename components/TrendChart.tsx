@@ -0,0 +1,94 @@
+import React from 'react';
+import { AnalyteTrend } from '../services/trends';
+
+const WIDTH = 640;
+const HEIGHT = 240;
+const PADDING = { top: 16, right: 24, bottom: 32, left: 48 };
+
+interface TrendChartProps {
+  trend: AnalyteTrend;
+  formatDate: (ts: number) => string;
+  referenceLabel: string;
+}
+
+// Values of one analyte over time (SVG), with the reference range as a shaded band and
+// out-of-range readings in red. Ranges may differ between labs, so the band follows each reading.
+const TrendChart: React.FC<TrendChartProps> = ({ trend, formatDate, referenceLabel }) => {
+  const points = trend.points.filter(p => p.plotted);
+  if (points.length === 0) return null;
+
+  const values = points.map(p => p.result.numericValue!);
+  const bounds = points.flatMap(p => [p.result.rangeLow, p.result.rangeHigh].filter((v): v is number => typeof v === 'number'));
+  let minY = Math.min(...values, ...bounds);
+  let maxY = Math.max(...values, ...bounds);
+  const spanY = maxY - minY || Math.abs(maxY) || 1;
+  minY -= spanY * 0.1;
+  maxY += spanY * 0.1;
+
+  const minX = points[0].date;
+  const maxX = points[points.length - 1].date;
+  const innerWidth = WIDTH - PADDING.left - PADDING.right;
+  const innerHeight = HEIGHT - PADDING.top - PADDING.bottom;
+
+  // A single date is drawn in the middle
+  const x = (date: number) => PADDING.left + (maxX === minX ? innerWidth / 2 : ((date - minX) / (maxX - minX)) * innerWidth);
+  const y = (value: number) => PADDING.top + (1 - (value - minY) / (maxY - minY)) * innerHeight;
+
+  // Reference band through the readings that have an upper limit (no lower limit means 0)
+  const ranged = points.filter(p => typeof p.result.rangeHigh === 'number');
+  let band: string | null = null;
+  if (ranged.length === 1) {
+    const { rangeLow = 0, rangeHigh } = ranged[0].result;
+    const [left, right] = [PADDING.left, WIDTH - PADDING.right];
+    band = `${left},${y(rangeHigh!)} ${right},${y(rangeHigh!)} ${right},${y(rangeLow)} ${left},${y(rangeLow)}`;
+  } else if (ranged.length > 1) {
+    const upper = ranged.map(p => `${x(p.date)},${y(p.result.rangeHigh!)}`);
+    const lower = [...ranged].reverse().map(p => `${x(p.date)},${y(p.result.rangeLow ?? 0)}`);
+    band = [...upper, ...lower].join(' ');
+  }
+
+  const line = points.map(p => `${x(p.date)},${y(p.result.numericValue!)}`).join(' ');
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label={trend.name}>
+      {/* Axes */}
+      <line x1={PADDING.left} y1={PADDING.top} x2={PADDING.left} y2={HEIGHT - PADDING.bottom} className="stroke-slate-200" />
+      <line x1={PADDING.left} y1={HEIGHT - PADDING.bottom} x2={WIDTH - PADDING.right} y2={HEIGHT - PADDING.bottom} className="stroke-slate-200" />
+      {[maxY, (minY + maxY) / 2, minY].map(value => (
+        <text key={value} x={PADDING.left - 6} y={y(value) + 4} textAnchor="end" className="fill-slate-400 text-[10px]">
+          {Number(value.toPrecision(3))}
+        </text>
+      ))}
+      <text x={x(minX)} y={HEIGHT - 10} textAnchor={maxX === minX ? 'middle' : 'start'} className="fill-slate-400 text-[10px]">
+        {formatDate(minX)}
+      </text>
+      {maxX !== minX && (
+        <text x={x(maxX)} y={HEIGHT - 10} textAnchor="end" className="fill-slate-400 text-[10px]">
+          {formatDate(maxX)}
+        </text>
+      )}
+
+      {band && (
+        <polygon points={band} className="fill-green-100 opacity-70">
+          <title>{referenceLabel}</title>
+        </polygon>
+      )}
+
+      <polyline points={line} fill="none" className="stroke-blue-400" strokeWidth={2} />
+      {points.map((p, index) => (
+        <circle
+          key={`${p.itemId}-${index}`}
+          cx={x(p.date)}
+          cy={y(p.result.numericValue!)}
+          r={5}
+          className={p.isAbnormal ? 'fill-red-500 stroke-white' : 'fill-blue-600 stroke-white'}
+          strokeWidth={2}
+        >
+          <title>{`${formatDate(p.date)}: ${p.result.value}${p.result.unit ? ` ${p.result.unit}` : ''}`}</title>
+        </circle>
+      ))}
+    </svg>
+  );
+};
+
+export default TrendChart;
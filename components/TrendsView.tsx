@@ -0,0 +1,199 @@
+import React, { useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useMedical } from '../context/MedicalContext';
+import { LOCALES, statusLabel, translations } from '../utils/translations';
+import { buildTrends, TrendPoint, trendItems } from '../services/trends';
+import { timelineDate } from '../utils/reportMetadata';
+import TrendChart from './TrendChart';
+
+type SortKey = 'date' | 'value' | 'status';
+
+// Every analyte across the saved reports, plotted over time (Trends page)
+const TrendsView: React.FC = () => {
+  const { history, language, settings, loadHistoryItem, isHistoryLoading } = useMedical();
+  const navigate = useNavigate();
+  const t = translations[language];
+
+  const reports = useMemo(
+    () => trendItems(history, language).sort((a, b) => timelineDate(b) - timelineDate(a)),
+    [history, language]
+  );
+  // Reports left out by the user; everything is included by default
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const [search, setSearch] = useState('');
+  const [sort, setSort] = useState<{ key: SortKey; descending: boolean }>({ key: 'date', descending: true });
+
+  const included = useMemo(() => reports.filter(item => !excluded.has(item.id)), [reports, excluded]);
+  const trends = useMemo(() => buildTrends(included, settings.unitSystem, settings.analyteOverrides),
+    [included, settings.unitSystem, settings.analyteOverrides]
+  );
+  const visibleTrends = trends.filter(trend => trend.name.toLowerCase().includes(search.trim().toLowerCase()));
+  const selected = trends.find(trend => trend.key === selectedKey) || visibleTrends[0];
+
+  const formatDate = (ts: number) =>
+    new Date(ts).toLocaleDateString(LOCALES[language], { month: 'short', day: 'numeric', year: 'numeric' });
+
+  const toggleReport = (id: string) => {
+    const next = new Set(excluded);
+    if (next.has(id)) next.delete(id); else next.add(id);
+    setExcluded(next);
+  };
+
+  const toggleSort = (key: SortKey) => {
+    setSort(prev => ({ key, descending: prev.key === key ? !prev.descending : key === 'date' }));
+  };
+
+  const sortedPoints = (points: TrendPoint[]) => {
+    const compare = (a: TrendPoint, b: TrendPoint) => {
+      if (sort.key === 'value') return (a.result.numericValue ?? -Infinity) - (b.result.numericValue ?? -Infinity);
+      if (sort.key === 'status') return Number(a.isAbnormal) - Number(b.isAbnormal) || a.result.status.localeCompare(b.result.status);
+      return a.date - b.date;
+    };
+    return [...points].sort((a, b) => sort.descending ? compare(b, a) : compare(a, b));
+  };
+
+  const openReport = async (id: string) => {
+    await loadHistoryItem(id);
+    navigate('/');
+  };
+
+  if (reports.length === 0) {
+    return (
+      <div className="text-center py-20">
+        <p className="text-slate-500">{isHistoryLoading ? t.loadingHistory : t.trendsEmpty}</p>
+      </div>
+    );
+  }
+
+  const sortHeader = (key: SortKey, label: string) => (
+    <th className="px-4 py-3">
+      <button onClick={() => toggleSort(key)} className="flex items-center gap-1 font-medium hover:text-slate-800">
+        {label}
+        {sort.key === key && <span className="text-[10px]">{sort.descending ? '▼' : '▲'}</span>}
+      </button>
+    </th>
+  );
+
+  return (
+    <div className="animate-fade-in max-w-5xl mx-auto space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-slate-800">{t.trendsTitle}</h1>
+        <p className="text-slate-500 text-sm">{t.trendsSub}</p>
+      </div>
+
+      {/* Reports included */}
+      <details className="bg-white rounded-xl border border-slate-200 shadow-sm p-4">
+        <summary className="cursor-pointer text-sm font-bold text-slate-700">
+          {t.trendsReports.replace('{n}', String(included.length)).replace('{total}', String(reports.length))}
+        </summary>
+        <div className="mt-3 grid grid-cols-1 md:grid-cols-2 gap-2">
+          {reports.map(item => (
+            <label key={item.id} className="flex items-center gap-2 text-sm text-slate-600 cursor-pointer">
+              <input type="checkbox" checked={!excluded.has(item.id)} onChange={() => toggleReport(item.id)} className="rounded" />
+              <span className="font-medium text-slate-700">{formatDate(timelineDate(item))}</span>
+              <span className="truncate">{item.fileName}</span>
+            </label>
+          ))}
+        </div>
+      </details>
+
+      {trends.length === 0 ? (
+        <p className="text-center text-slate-500 py-10">{t.trendsEmpty}</p>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Analytes */}
+          <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-4 space-y-3 lg:max-h-[640px] overflow-y-auto">
+            <input
+              type="search"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder={t.trendsSearch}
+              className="w-full px-3 py-2 rounded-lg border border-slate-300 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <ul className="space-y-1">
+              {visibleTrends.map(trend => (
+                <li key={trend.key}>
+                  <button
+                    onClick={() => setSelectedKey(trend.key)}
+                    className={`w-full text-left px-3 py-2 rounded-lg text-sm transition-colors ${
+                      selected?.key === trend.key ? 'bg-blue-50 text-blue-800' : 'hover:bg-slate-50 text-slate-700'
+                    }`}
+                  >
+                    <span className="font-medium block truncate">{trend.name}</span>
+                    <span className="text-xs text-slate-400">
+                      {t.trendsReadings.replace('{n}', String(trend.points.length))}
+                      {trend.abnormalCount > 0 && (
+                        <span className="text-red-500"> · {t.trendsAbnormal.replace('{n}', String(trend.abnormalCount))}</span>
+                      )}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          {/* Selected analyte */}
+          {selected && (
+            <div className="lg:col-span-2 space-y-4">
+              <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-4">
+                <div className="flex items-baseline justify-between mb-2">
+                  <h2 className="font-bold text-slate-800">{selected.name}</h2>
+                  {selected.unit && <span className="text-xs text-slate-400">{selected.unit}</span>}
+                </div>
+                <TrendChart trend={selected} formatDate={formatDate} referenceLabel={t.trendsReferenceBand} />
+                <div className="flex items-center gap-4 mt-2 text-xs text-slate-500">
+                  <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-sm bg-green-100 inline-block" /> {t.trendsReferenceBand}</span>
+                  <span className="flex items-center gap-1"><span className="w-2.5 h-2.5 rounded-full bg-red-500 inline-block" /> {t.trendsOutOfRange}</span>
+                </div>
+              </div>
+
+              <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden">
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm text-left">
+                    <thead className="bg-slate-50 text-slate-500 border-b border-slate-200">
+                      <tr>
+                        {sortHeader('date', t.trendsDate)}
+                        {sortHeader('value', t.trendsValue)}
+                        <th className="px-4 py-3 font-medium">{t.trendsRange}</th>
+                        {sortHeader('status', t.status)}
+                        <th className="px-4 py-3 font-medium">{t.trendsReport}</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-100">
+                      {sortedPoints(selected.points).map(point => (
+                        <tr key={`${point.itemId}-${point.result.test}`} className="hover:bg-slate-50 transition-colors">
+                          <td className="px-4 py-3 text-slate-700 whitespace-nowrap">{formatDate(point.date)}</td>
+                          <td className={`px-4 py-3 font-semibold ${point.isAbnormal ? 'text-red-600' : 'text-slate-900'}`}>
+                            {point.result.value} <span className="text-xs font-normal opacity-50">{point.result.unit}</span>
+                            {!point.plotted && <span className="block text-[10px] font-normal text-slate-400">{t.trendsNotPlotted}</span>}
+                          </td>
+                          <td className="px-4 py-3 text-slate-500">{point.result.normalRange || '-'}</td>
+                          <td className="px-4 py-3">
+                            <span className={`px-2 py-0.5 rounded text-[10px] font-bold uppercase ${
+                              point.isAbnormal ? 'bg-red-100 text-red-700'
+                                : point.result.status === 'normal' ? 'bg-green-100 text-green-700' : 'bg-slate-100 text-slate-600'
+                            }`}>
+                              {statusLabel(point.result.status, language)}
+                            </span>
+                          </td>
+                          <td className="px-4 py-3">
+                            <button onClick={() => openReport(point.itemId)} className="text-blue-600 hover:text-blue-800 truncate max-w-[10rem] block">
+                              {point.fileName}
+                            </button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TrendsView;
@@ -0,0 +1,65 @@
+import React, { useState } from 'react';
+import { useMedical } from '../context/MedicalContext';
+import { translations } from '../utils/translations';
+
+// Shown instead of the app while the encrypted history is locked
+const UnlockScreen: React.FC = () => {
+  const { unlock, language } = useMedical();
+  const t = translations[language];
+
+  const [passphrase, setPassphrase] = useState('');
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [failed, setFailed] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passphrase || isUnlocking) return;
+    setIsUnlocking(true);
+    setFailed(false);
+    const unlocked = await unlock(passphrase).catch(() => false);
+    setIsUnlocking(false);
+    if (!unlocked) {
+      setFailed(true);
+      setPassphrase('');
+    }
+  };
+
+  return (
+    <div className="animate-fade-in max-w-sm mx-auto py-16">
+      <form onSubmit={handleSubmit} className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 space-y-4 text-center">
+        <div className="w-14 h-14 bg-blue-50 text-blue-600 rounded-full flex items-center justify-center mx-auto">
+          <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-7 h-7">
+            <path strokeLinecap="round" strokeLinejoin="round" d="M16.5 10.5V6.75a4.5 4.5 0 10-9 0v3.75m-.75 11.25h10.5a2.25 2.25 0 002.25-2.25v-6.75a2.25 2.25 0 00-2.25-2.25H6.75a2.25 2.25 0 00-2.25 2.25v6.75a2.25 2.25 0 002.25 2.25z" />
+          </svg>
+        </div>
+        <div>
+          <h2 className="text-xl font-bold text-slate-800">{t.unlockTitle}</h2>
+          <p className="text-slate-500 text-sm mt-1">{t.unlockSub}</p>
+        </div>
+
+        <input
+          type="password"
+          autoFocus
+          autoComplete="current-password"
+          placeholder={t.passphrase}
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          className="w-full px-3 py-2 rounded-lg border border-slate-300 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+        {failed && (
+          <p className="text-sm text-red-600 font-medium">{t.wrongPassphrase}</p>
+        )}
+
+        <button
+          type="submit"
+          disabled={!passphrase || isUnlocking}
+          className="w-full py-2.5 rounded-lg font-bold shadow-sm bg-blue-600 text-white hover:bg-blue-700 disabled:bg-slate-200 disabled:text-slate-400 disabled:cursor-not-allowed transition-all"
+        >
+          {isUnlocking ? t.unlocking : t.unlock}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default UnlockScreen;
@@ -1,6 +1,16 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { AnalysisData, FileData, Language, UserSettings, HistoryItem, ChatMessage } from '../types';
-import { analyzeDocument, initializeChat, restoreChatSession, setCustomApiKey, sendChatMessage } from '../services/geminiService';
+import React, { createContext, useContext, useState, useEffect, useRef, ReactNode } from 'react';
+import { AnalysisData, AnalysisProgress, ComparisonContext, FileData, Language, UserSettings, HistoryItem, ChatMessage, PruneStrategy, ReportMetadata, StorageUsage } from '../types';
+import { analyzeDocument, translateAnalysis, compareReports, sendChatMessage, disposeChatSession, disposeAllChatSessions } from '../services/geminiService';
+import { AnalysisValidationError } from '../services/analysisValidator';
+import { forgetLoadedHistory, getStorageUsage, isQuotaError, loadDocument, loadHistory, resealHistory, saveHistory, whenHistorySaved } from '../services/historyStore';
+import { loadSettings, resealSettings, saveSettings } from '../services/settingsStore';
+import { changeVaultPassphrase, disableVault, enableVault, getAutoLockMinutes, isVaultEnabled, lockVault, setAutoLockMinutes, unlockVault } from '../services/vault';
+import { pruneHistory } from '../services/historyPruning';
+import { BackupContents, mergeBackup } from '../services/historyBackup';
+import { translations } from '../utils/translations';
+import { isNearDuplicate, isSameReportContent } from '../utils/documentHash';
+import { isAbortError, throwIfAborted } from '../utils/abort';
+import { sameProfile } from '../utils/patientProfile';
 
 interface MedicalContextType {
   language: Language;
@@ -8,31 +18,84 @@ interface MedicalContextType {
   fileData: FileData | null;
   analysisData: AnalysisData | null;
   isAnalyzing: boolean;
+  // Streaming state while an analysis is in flight
+  partialAnalysis: Partial<AnalysisData> | null;
+  analysisProgress: AnalysisProgress | null;
+  cancelAnalysis: () => void;
   error: string | null;
   handleFileUpload: (data: FileData) => void;
+  // An upload that looks like a report already in history (e.g. photographed again), waiting for
+  // the user to say whether it is the same report
+  pendingUpload: { fileData: FileData; match: HistoryItem } | null;
+  resolvePendingUpload: (isSameReport: boolean) => Promise<void>;
   resetApp: () => void;
   settings: UserSettings;
   updateSettings: (settings: UserSettings) => void;
   prefilledMessage: string;
   setPrefilledMessage: (msg: string) => void;
+  // Results row to scroll to and highlight (index into analysisData.results), set from chat citations
+  highlightedResult: number | null;
+  setHighlightedResult: (index: number | null) => void;
+  // Corrects the report details of the current document (all its language versions)
+  updateReportMetadata: (metadata: ReportMetadata) => void;
   
   // History & Comparison
   history: HistoryItem[];
+  isHistoryLoading: boolean;
   deleteHistoryItem: (id: string) => void;
+  // Storage: 'quota' when the last save did not fit, 'failed' for any other save error
+  storageError: 'quota' | 'failed' | null;
+  storageUsage: StorageUsage | null; // Only kept up to date while watched
+  watchStorageUsage: () => () => void; // Refreshes storageUsage now and after every save, until the returned function is called
+  pruneStoredHistory: (strategy: PruneStrategy) => void;
+  importHistory: (contents: BackupContents) => Promise<{ added: number; skipped: number }>;
+
+  // Encryption at rest (see services/vault.ts); nothing persisted is loaded while 'locked'
+  vaultStatus: 'disabled' | 'locked' | 'unlocked';
+  autoLockMinutes: number;
+  unlock: (passphrase: string) => Promise<boolean>;
+  lock: () => Promise<void>;
+  enableEncryption: (passphrase: string) => Promise<void>;
+  changePassphrase: (current: string, next: string) => Promise<boolean>;
+  disableEncryption: (passphrase: string) => Promise<boolean>;
+  updateAutoLock: (minutes: number) => void;
   compareItems: HistoryItem[]; // Max 2 items
   setCompareItems: (items: HistoryItem[]) => void;
-  loadHistoryItem: (id: string) => void; 
+  loadHistoryItem: (id: string) => Promise<void>;
   prepareComparison: (items: HistoryItem[], targetLang: Language) => Promise<boolean>;
+  // Asks the model what changed from `previous` to `current` and saves the narrative on `current`,
+  // where it also becomes context for that report's chat
+  generateComparisonNarrative: (previous: HistoryItem, current: HistoryItem, signal?: AbortSignal) => Promise<void>;
 
   // Global Chat State
   chatMessages: ChatMessage[];
   isChatLoading: boolean;
+  streamingReply: string | null; // Text of the reply being streamed for the current document
   sendUserMessage: (text: string) => Promise<void>;
+  stopChatReply: () => void;
+  regenerateLastReply: () => Promise<void>;
+  editUserMessage: (messageId: string, text: string) => Promise<void>;
   addSystemMessage: (text: string) => void;
 }
 
 const MedicalContext = createContext<MedicalContextType | undefined>(undefined);
 
+// Whether two history items (or an upload) show the same document, by content hash
+const isSameDocument = (a: { documentId?: string }, b: { documentId?: string }) =>
+  !!a.documentId && a.documentId === b.documentId;
+
+// The latest comparison of `item` with an earlier report that is still in history
+const comparisonContextFor = (item: HistoryItem, history: HistoryItem[]): ComparisonContext | undefined => {
+  let latest: ComparisonContext | undefined;
+  Object.entries(item.comparisons || {}).forEach(([previousId, narrative]) => {
+    const previous = history.find(h => h.id === previousId);
+    if (previous && (!latest || narrative.generatedAt > latest.narrative.generatedAt)) {
+      latest = { previous: previous.data, narrative };
+    }
+  });
+  return latest;
+};
+
 export const MedicalProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   const [language, setLanguage] = useState<Language>('en');
   const [fileData, setFileData] = useState<FileData | null>(null);
@@ -42,53 +105,236 @@ export const MedicalProvider: React.FC<{ children: ReactNode }> = ({ children })
   const [analysisCache, setAnalysisCache] = useState<Partial<Record<Language, AnalysisData>>>({});
   
   const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [partialAnalysis, setPartialAnalysis] = useState<Partial<AnalysisData> | null>(null);
+  const [analysisProgress, setAnalysisProgress] = useState<AnalysisProgress | null>(null);
+  const [pendingUpload, setPendingUpload] = useState<{ fileData: FileData; match: HistoryItem } | null>(null);
+
+  // The analysis or comparison preparation currently in flight (only one runs at a time).
+  // `fallbackLanguage` is the language whose analysis was on screen before, so cancelling can go back to it.
+  const activeTaskRef = useRef<{
+    kind: 'analysis' | 'comparison';
+    controller: AbortController;
+    fallbackLanguage?: Language;
+  } | null>(null);
+  // Language picked while a comparison was being prepared; applied once the current pass finishes
+  const queuedLanguageRef = useRef<Language | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [prefilledMessage, setPrefilledMessage] = useState('');
+  const [highlightedResult, setHighlightedResult] = useState<number | null>(null);
   
   // Chat State lifted to Context
   const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
-  const [isChatLoading, setIsChatLoading] = useState(false);
+  // History items with a chat reply still on its way (each document has its own session)
+  const [pendingChatIds, setPendingChatIds] = useState<string[]>([]);
+  // Partial reply text per history item; only the finished reply is written to chatMessages
+  const [streamingReplies, setStreamingReplies] = useState<Record<string, string>>({});
+  const chatAbortControllers = useRef(new Map<string, AbortController>());
   
   // Track active history item to autosave chat
   const [currentHistoryId, setCurrentHistoryId] = useState<string | null>(null);
-
-  const [settings, setSettingsState] = useState<UserSettings>(() => {
-    const stored = localStorage.getItem('userSettings');
-    return stored ? JSON.parse(stored) : {};
-  });
-
-  // History State
-  const [history, setHistory] = useState<HistoryItem[]>(() => {
-    const stored = localStorage.getItem('medicalHistory');
-    return stored ? JSON.parse(stored) : [];
-  });
+  // Read by chat replies that resolve after the user may have switched documents
+  const currentHistoryIdRef = useRef<string | null>(null);
+  currentHistoryIdRef.current = currentHistoryId;
+
+  const isChatLoading = !!currentHistoryId && pendingChatIds.includes(currentHistoryId);
+  const streamingReply = currentHistoryId ? streamingReplies[currentHistoryId] ?? null : null;
+
+  // Settings and history are loaded on mount, or once the vault is unlocked
+  const [vaultStatus, setVaultStatus] = useState<'disabled' | 'locked' | 'unlocked'>(() => isVaultEnabled() ? 'locked' : 'disabled');
+  const [autoLockMinutes, setAutoLockState] = useState(getAutoLockMinutes);
+  // Bumped when the vault locks, so loads still running stop filling in state
+  const loadGenerationRef = useRef(0);
+
+  const [settings, setSettingsState] = useState<UserSettings>({});
+
+  // History State (loaded from IndexedDB, documents follow in the background)
+  const [history, setHistory] = useState<HistoryItem[]>([]);
+  const [isHistoryLoading, setIsHistoryLoading] = useState(true);
+  // Set while stored data is re-encrypted; changes made meanwhile are saved afterwards
+  const [savesPaused, setSavesPaused] = useState(false);
+  const [storageError, setStorageError] = useState<'quota' | 'failed' | null>(null);
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+  const storageWatchersRef = useRef(0);
 
   // Comparison State
   const [compareItems, setCompareItems] = useState<HistoryItem[]>([]);
 
   const updateSettings = (newSettings: UserSettings) => {
     setSettingsState(newSettings);
-    localStorage.setItem('userSettings', JSON.stringify(newSettings));
-    if (newSettings.apiKey) {
-      setCustomApiKey(newSettings.apiKey);
+    saveSettings(newSettings).catch(e => console.warn("Error saving settings", e));
+    // Conversations move over to the newly selected provider (or start over with the new patient profile)
+    // the next time they are used
+    const sessionsOutdated = (['provider', 'apiKey', 'openaiBaseUrl', 'openaiModel', 'openaiApiKey'] as const)
+      .some(field => settings[field] !== newSettings[field])
+      || !sameProfile(settings.patientProfile, newSettings.patientProfile);
+    if (sessionsOutdated) {
+      disposeAllChatSessions();
     }
   };
 
+  const refreshStorageUsage = async () => {
+    try {
+      setStorageUsage(await getStorageUsage());
+    } catch (e) {
+      console.warn("Could not read storage usage", e);
+    }
+  };
+
+  // Views showing storage usage watch it while they are open
+  const watchStorageUsage = () => {
+    storageWatchersRef.current++;
+    refreshStorageUsage();
+    return () => { storageWatchersRef.current--; };
+  };
+
+  // Put a loaded document back on every history item that shows it
+  const attachDocument = (documentId: string, document: { base64: string; previewUrl?: string }) => {
+    setHistory(prev => prev.map(item => item.documentId === documentId && !item.base64
+      ? { ...item, base64: document.base64, previewUrl: document.previewUrl || item.previewUrl }
+      : item
+    ));
+  };
+
+  // Settings first, then the analyses so the history list shows right away, then the documents one by one
+  const restorePersistedState = async () => {
+    const generation = loadGenerationRef.current;
+    const isStale = () => loadGenerationRef.current !== generation;
+
+    try {
+      const storedSettings = await loadSettings();
+      if (isStale()) return;
+      setSettingsState(storedSettings);
+    } catch (e) {
+      console.warn("Could not load settings", e);
+    }
+
+    try {
+      const stored = await loadHistory();
+      if (isStale()) return;
+      // Keep anything analyzed while loading
+      setHistory(prev => [...prev, ...stored.filter(item => !prev.some(p => p.id === item.id))]);
+      setIsHistoryLoading(false);
+
+      // Only needed for previews; documents are matched by documentId and loaded on demand when opened
+      const documentIds = Array.from(new Set(
+        stored.filter(item => !item.documentDiscarded).map(item => item.documentId).filter(Boolean)
+      )) as string[];
+      for (const documentId of documentIds) {
+        const document = await loadDocument(documentId);
+        if (isStale()) return;
+        if (document) attachDocument(documentId, document);
+      }
+    } catch (e) {
+      console.warn("Could not load history", e);
+      setStorageError('failed');
+      setIsHistoryLoading(false);
+    }
+    if (storageWatchersRef.current > 0) refreshStorageUsage();
+  };
+
   useEffect(() => {
-    if (settings.apiKey) {
-      setCustomApiKey(settings.apiKey);
+    if (vaultStatus !== 'locked') {
+      restorePersistedState();
     }
+    return () => { loadGenerationRef.current++; };
   }, []);
 
-  // Save history to local storage whenever it changes
+  // Save history whenever it changes (only the difference is written)
+  useEffect(() => {
+    if (isHistoryLoading || savesPaused) return;
+    saveHistory(history)
+      .then(() => setStorageError(null))
+      .catch(e => {
+        console.warn("Error saving history", e);
+        setStorageError(isQuotaError(e) ? 'quota' : 'failed');
+      })
+      .finally(() => {
+        if (storageWatchersRef.current > 0) refreshStorageUsage();
+      });
+  }, [history, isHistoryLoading, savesPaused]);
+
+  // --- Encryption ---
+  const unlock = async (passphrase: string) => {
+    if (!(await unlockVault(passphrase))) return false;
+    setVaultStatus('unlocked');
+    await restorePersistedState();
+    return true;
+  };
+
+  // Drops everything decrypted from memory; pending saves are finished with the key first
+  const lock = async () => {
+    if (vaultStatus !== 'unlocked') return;
+    loadGenerationRef.current++;
+    const task = activeTaskRef.current;
+    task?.controller.abort();
+    endTask(task);
+    chatAbortControllers.current.forEach(controller => controller.abort());
+    disposeAllChatSessions();
+
+    setIsHistoryLoading(true); // Keeps the emptied history from being saved
+    setHistory([]);
+    setCompareItems([]);
+    setSettingsState({});
+    setStorageUsage(null);
+    resetApp();
+    setVaultStatus('locked');
+
+    await whenHistorySaved();
+    lockVault();
+    forgetLoadedHistory();
+  };
+
+  // Lock after a period without any user activity
   useEffect(() => {
+    if (vaultStatus !== 'unlocked' || !autoLockMinutes) return;
+    let timer: ReturnType<typeof setTimeout>;
+    const restart = () => {
+      clearTimeout(timer);
+      timer = setTimeout(lock, autoLockMinutes * 60 * 1000);
+    };
+    const events = ['mousedown', 'keydown', 'touchstart', 'scroll'];
+    events.forEach(event => window.addEventListener(event, restart, { passive: true }));
+    restart();
+    return () => {
+      clearTimeout(timer);
+      events.forEach(event => window.removeEventListener(event, restart));
+    };
+  }, [vaultStatus, autoLockMinutes]);
+
+  const reseal = async (from: CryptoKey | null, to: CryptoKey | null) => {
+    await resealHistory(from, to);
+    await resealSettings(from, to);
+  };
+
+  // Runs an enable / re-key / disable step with saving paused, so nothing is written with a stale key
+  const withSavesPaused = async <T,>(step: () => Promise<T>): Promise<T> => {
+    setSavesPaused(true);
     try {
-      localStorage.setItem('medicalHistory', JSON.stringify(history));
-    } catch (e) {
-      console.warn("LocalStorage quota exceeded or error saving history", e);
-      // Optional: Logic to trim old history if quota exceeded could go here
+      return await step();
+    } finally {
+      setSavesPaused(false);
     }
-  }, [history]);
+  };
+
+  const enableEncryption = (passphrase: string) => withSavesPaused(async () => {
+    await enableVault(passphrase, reseal);
+    setVaultStatus('unlocked');
+    setAutoLockState(getAutoLockMinutes());
+  });
+
+  const changePassphrase = (current: string, next: string) =>
+    withSavesPaused(() => changeVaultPassphrase(current, next, reseal));
+
+  const disableEncryption = (passphrase: string) => withSavesPaused(async () => {
+    const disabled = await disableVault(passphrase, reseal);
+    if (disabled) setVaultStatus('disabled');
+    return disabled;
+  });
+
+  const updateAutoLock = (minutes: number) => {
+    setAutoLockMinutes(minutes);
+    setAutoLockState(minutes);
+  };
 
   // Autosave chat to active history item
   useEffect(() => {
@@ -107,19 +353,23 @@ export const MedicalProvider: React.FC<{ children: ReactNode }> = ({ children })
   }, [chatMessages, currentHistoryId]);
 
   // Modified: Accepts explicit language to avoid closure staleness issues
-  const addToHistory = (fileData: FileData, data: AnalysisData, targetLanguage: Language) => {
+  // `source` is the original analysis when `data` is a translation of it
+  const addToHistory = (fileData: FileData, data: AnalysisData, targetLanguage: Language, source?: HistoryItem) => {
     // Check if duplicate already exists to prevent double-save
-    const exists = history.some(h => 
-      h.base64 === fileData.base64 && 
+    const existing = history.find(h => 
+      isSameDocument(h, fileData) && 
       (h.language === targetLanguage || (!h.language && targetLanguage === 'en'))
     );
     
-    if (exists) return;
+    if (existing) {
+      setCurrentHistoryId(existing.id);
+      return;
+    }
 
     const newId = Date.now().toString();
     const newItem: HistoryItem = {
       id: newId,
-      date: Date.now(),
+      date: source ? source.date : Date.now(), // A translation belongs to the same point in time as its original
       language: targetLanguage, // Use explicit argument
       fileName: fileData.file.name,
       previewUrl: fileData.previewUrl, 
@@ -127,7 +377,10 @@ export const MedicalProvider: React.FC<{ children: ReactNode }> = ({ children })
       documentType: data.documentType,
       base64: fileData.base64,
       mimeType: fileData.mimeType,
-      chatHistory: [] 
+      chatHistory: [],
+      translatedFrom: source?.id,
+      documentId: fileData.documentId,
+      perceptualHash: fileData.perceptualHash
     };
     
     // Set current active ID so future chats save to this item
@@ -135,37 +388,85 @@ export const MedicalProvider: React.FC<{ children: ReactNode }> = ({ children })
     setHistory(prev => [newItem, ...prev]);
   };
 
+  // The original analysis of a document (as opposed to a translation of it); new language versions
+  // are translated from it so every language shows the same numbers
+  const findOriginalAnalysis = (data: FileData): HistoryItem | undefined => {
+    const versions = history.filter(h => isSameDocument(h, data));
+    return versions.find(h => !h.translatedFrom) || versions[0];
+  };
+
+  const updateReportMetadata = (metadata: ReportMetadata) => {
+    const withMetadata = (data: AnalysisData): AnalysisData => ({ ...data, metadata: { ...metadata, editedByUser: true } });
+    const current = history.find(h => h.id === currentHistoryId);
+    const isCurrentDocument = (item: HistoryItem) =>
+      item.id === currentHistoryId || (!!current && isSameDocument(item, current));
+
+    setAnalysisData(prev => prev && withMetadata(prev));
+    setAnalysisCache(prev => Object.fromEntries(
+      Object.entries(prev).map(([lang, data]) => [lang, data && withMetadata(data)])
+    ));
+    setHistory(prev => prev.map(item => isCurrentDocument(item) ? { ...item, data: withMetadata(item.data) } : item));
+    setCompareItems(prev => prev.map(item => isCurrentDocument(item) ? { ...item, data: withMetadata(item.data) } : item));
+  };
+
   const deleteHistoryItem = (id: string) => {
     setHistory(prev => prev.filter(item => item.id !== id));
     setCompareItems(prev => prev.filter(item => item.id !== id));
     if (currentHistoryId === id) setCurrentHistoryId(null);
+    chatAbortControllers.current.get(id)?.abort();
+    disposeChatSession(id);
   };
 
-  const loadHistoryItem = (id: string) => {
-    const item = history.find(i => i.id === id);
+  const pruneStoredHistory = (strategy: PruneStrategy) => {
+    const remaining = pruneHistory(history, strategy);
+    history
+      .filter(item => !remaining.some(r => r.id === item.id))
+      .forEach(item => deleteHistoryItem(item.id));
+    // Items that were kept but changed (e.g. lost their document) are swapped in as well
+    setHistory(prev => prev.map(item => remaining.find(r => r.id === item.id) || item));
+  };
+
+  // Adds the items of a backup that are not in history yet
+  const importHistory = async (contents: BackupContents) => {
+    const { items, skipped } = await mergeBackup(history, contents);
+    if (items.length > 0) {
+      setHistory(prev => [...prev, ...items].sort((a, b) => b.date - a.date));
+    }
+    return { added: items.length, skipped };
+  };
+
+  const loadHistoryItem = async (id: string) => {
+    let item = history.find(i => i.id === id);
     if (!item) return;
 
+    // The document may not have been loaded from storage yet
+    if (!item.base64 && item.documentId && !item.documentDiscarded) {
+      const document = await loadDocument(item.documentId).catch(() => null);
+      if (document) {
+        attachDocument(item.documentId, document);
+        item = { ...item, base64: document.base64, previewUrl: document.previewUrl || item.previewUrl };
+      }
+    }
+
     setCurrentHistoryId(item.id);
-    const itemLang = item.language || 'en';
+    const itemLang = item.language;
     setLanguage(itemLang);
 
     // Restore Analysis Data
     setAnalysisData(item.data);
     
-    // Attempt to reconstruct File Data state
-    const isDataUrl = item.previewUrl && item.previewUrl.startsWith('data:');
-    // Ensure we use the stored base64 if available, otherwise try to extract from preview if it's a data URL
-    const base64 = item.base64 || (isDataUrl ? item.previewUrl.split(',')[1] : '');
-    
+    // Reconstruct File Data state (older item shapes were upgraded on load, see schemaMigrations.ts)
     setFileData({
       file: new File([], item.fileName), // Dummy file object
       previewUrl: item.previewUrl,
-      base64: base64,
-      mimeType: item.mimeType || (item.previewUrl.startsWith('data:image') ? 'image/jpeg' : 'application/pdf')
+      base64: item.base64 || '',
+      mimeType: item.mimeType,
+      documentId: item.documentId || '',
+      perceptualHash: item.perceptualHash
     });
     
     // SMART CACHE POPULATION
-    // Find ALL history items that share this base64 and populate the cache. 
+    // Find ALL history items that share this document and populate the cache. 
     // This ensures switching languages uses cached/history data instantly without re-api calls.
     const newCache: Partial<Record<Language, AnalysisData>> = {};
     
@@ -173,10 +474,10 @@ export const MedicalProvider: React.FC<{ children: ReactNode }> = ({ children })
     newCache[itemLang] = item.data;
 
     // Search for other language versions of this document in history
-    if (base64) {
-      const relatedItems = history.filter(h => h.base64 === base64 && h.id !== item.id);
+    if (item.documentId) {
+      const relatedItems = history.filter(h => isSameDocument(h, item) && h.id !== item.id);
       relatedItems.forEach(related => {
-         const lang = related.language || 'en'; 
+         const lang = related.language;
          // Only add if not already present (current item takes precedence)
          if (!newCache[lang]) {
             newCache[lang] = related.data;
@@ -188,25 +489,41 @@ export const MedicalProvider: React.FC<{ children: ReactNode }> = ({ children })
     setError(null);
     setPrefilledMessage('');
     
-    // Restore Chat
-    if (item.chatHistory && item.chatHistory.length > 0) {
-      setChatMessages(item.chatHistory);
-      
-      // Restore Gemini Session if base64 is available
-      if (item.base64 && item.mimeType) {
-        restoreChatSession(
-          item.base64, 
-          item.mimeType, 
-          itemLang, 
-          item.chatHistory, 
-          settings.apiKey
-        );
-      }
-    } else {
-      setChatMessages([]); 
-      // Initialize fresh chat if no history exists yet
-      if (item.base64 && item.mimeType) {
-        initializeChat(item.base64, item.mimeType, itemLang, settings.apiKey);
+    // Restore Chat (the provider session itself is restored on the next message)
+    setChatMessages(item.chatHistory || []);
+  };
+
+  // --- Cancellation ---
+  const beginTask = (kind: 'analysis' | 'comparison', fallbackLanguage?: Language) => {
+    activeTaskRef.current?.controller.abort();
+    const task = { kind, controller: new AbortController(), fallbackLanguage };
+    activeTaskRef.current = task;
+    return task;
+  };
+
+  // Clears the loading state unless a newer task has already taken over
+  const endTask = (task: typeof activeTaskRef.current) => {
+    if (activeTaskRef.current !== task) return;
+    activeTaskRef.current = null;
+    setIsAnalyzing(false);
+    setPartialAnalysis(null);
+    setAnalysisProgress(null);
+  };
+
+  const cancelAnalysis = () => {
+    const task = activeTaskRef.current;
+    if (!task) return;
+    task.controller.abort();
+    endTask(task);
+    queuedLanguageRef.current = null;
+
+    if (task.kind === 'analysis') {
+      if (fileData && task.fallbackLanguage) {
+        // Go back to the analysis that was showing before the language switch
+        setLanguage(task.fallbackLanguage);
+        performAnalysis(fileData, task.fallbackLanguage);
+      } else {
+        resetApp();
       }
     }
   };
@@ -218,51 +535,52 @@ export const MedicalProvider: React.FC<{ children: ReactNode }> = ({ children })
     // If no items, abort
     if (items.length === 0) return false;
 
+    const task = beginTask('comparison');
+    const { signal } = task.controller;
+    queuedLanguageRef.current = null;
     setIsAnalyzing(true);
     setError(null);
     const newCompareItems: HistoryItem[] = [];
     
     // Keep track of base64s processed in this session to handle collision if multiple items have same content
-    const processedBase64s: Record<string, HistoryItem> = {};
+    const processedDocuments: Record<string, HistoryItem> = {};
 
     try {
       for (const item of items) {
-        // Skip invalid items (legacy data without base64) - keep them as is (best effort)
-        if (!item.base64 || !item.mimeType) {
-           newCompareItems.push(item);
-           continue; 
-        }
+        throwIfAborted(signal);
 
-        const itemLang = item.language || 'en';
+        // Only the analysis text is translated, so items whose document isn't loaded or was discarded work too
+        const itemLang = item.language;
 
         // 1. Is it already in target lang?
         if (itemLang === targetLang) {
           newCompareItems.push(item);
-          processedBase64s[item.base64] = item;
+          processedDocuments[item.documentId || item.id] = item;
           continue;
         }
 
         // 2. Check if we just analyzed/added this specific document in this loop
-        if (processedBase64s[item.base64]) {
-             newCompareItems.push(processedBase64s[item.base64]);
+        if (processedDocuments[item.documentId || item.id]) {
+             newCompareItems.push(processedDocuments[item.documentId || item.id]);
              continue;
         }
 
         // 3. Check existing history for a version in targetLang (Cache check)
         const cached = history.find(h => 
-          h.base64 === item.base64 && 
-          (h.language || 'en') === targetLang
+          isSameDocument(h, item) && 
+          h.language === targetLang
         );
         
         if (cached) {
           newCompareItems.push(cached);
-          processedBase64s[item.base64] = cached;
+          processedDocuments[item.documentId || item.id] = cached;
           continue;
         }
 
-        // 4. Not found? Analyze it now.
+        // 4. Not found? Translate the original analysis now (text only, the document is not re-read).
         // We use the item's existing date to preserve the "Before/After" timeline in comparison view
-        const result = await analyzeDocument(item.base64, item.mimeType, targetLang, settings.apiKey);
+        const source = history.find(h => h.id === item.translatedFrom) || item;
+        const result = await translateAnalysis(source.data, targetLang, settings, signal);
         
         const newItem: HistoryItem = {
            ...item,
@@ -270,44 +588,96 @@ export const MedicalProvider: React.FC<{ children: ReactNode }> = ({ children })
            language: targetLang,
            data: result,
            chatHistory: [], // Clear chat for new language version
-           date: item.date // CRITICAL: Preserve original date for comparison sorting
+           date: item.date, // CRITICAL: Preserve original date for comparison sorting
+           translatedFrom: source.id
         };
 
         // Important: Update history state immediately
         setHistory(prev => [newItem, ...prev]);
         newCompareItems.push(newItem);
-        processedBase64s[item.base64] = newItem;
+        processedDocuments[item.documentId || item.id] = newItem;
+      }
+
+      // The language changed while we were working: prepare the reports again in the new one
+      const queued = queuedLanguageRef.current;
+      if (queued && queued !== targetLang) {
+        return prepareComparison(newCompareItems, queued);
       }
 
       setCompareItems(newCompareItems);
-      setIsAnalyzing(false);
       return true;
 
     } catch (e) {
+      if (isAbortError(e)) return false;
       console.error("Comparison Prep Error", e);
       setError("Failed to translate reports for comparison. Please try again.");
-      setIsAnalyzing(false);
       return false;
+    } finally {
+      endTask(task);
     }
   };
 
+  const generateComparisonNarrative = async (previous: HistoryItem, current: HistoryItem, signal?: AbortSignal) => {
+    const narrative = await compareReports(previous.data, current.data, current.language, settings, signal);
+    const withNarrative = (item: HistoryItem): HistoryItem => item.id === current.id
+      ? { ...item, comparisons: { ...item.comparisons, [previous.id]: narrative } }
+      : item;
+    setHistory(prev => prev.map(withNarrative));
+    setCompareItems(prev => prev.map(withNarrative));
+    // Rebuilt with the comparison as context on its next message
+    disposeChatSession(current.id);
+  };
+
   // --- Chat Logic ---
-  const sendUserMessage = async (textInput: string) => {
-    if (!textInput.trim() || isChatLoading) return;
+  // Replies go to the document they were asked about, even if the user has switched documents meanwhile
+  const appendChatMessage = (historyId: string, message: ChatMessage) => {
+    if (currentHistoryIdRef.current === historyId) {
+      setChatMessages(prev => [...prev, message]);
+    } else {
+      setHistory(prev => prev.map(item =>
+        item.id === historyId ? { ...item, chatHistory: [...(item.chatHistory || []), message] } : item
+      ));
+    }
+  };
+
+  // Sends `text` as a new user turn following `previousMessages` and streams the reply.
+  // Regenerate and edit pass a shortened history, so the document's session is rebuilt from it first.
+  const runChatTurn = async (text: string, previousMessages: ChatMessage[], rewind: boolean) => {
+    const sessionId = currentHistoryId;
+    if (!text.trim() || !sessionId || !fileData || isChatLoading) return;
 
     // 1. Add User Message
     const userMsg: ChatMessage = {
       id: Date.now().toString(),
       role: 'user',
-      text: textInput,
+      text,
       timestamp: Date.now()
     };
-    setChatMessages(prev => [...prev, userMsg]);
-    setIsChatLoading(true);
+    const currentItem = history.find(h => h.id === sessionId);
+    const source = {
+      base64Data: fileData.base64,
+      mimeType: fileData.mimeType,
+      language,
+      history: previousMessages,
+      analysis: analysisData || undefined,
+      comparison: currentItem && comparisonContextFor(currentItem, history),
+    };
+    if (rewind) {
+      disposeChatSession(sessionId);
+    }
+    setChatMessages([...previousMessages, userMsg]);
+    setPendingChatIds(prev => [...prev, sessionId]);
+
+    const controller = new AbortController();
+    chatAbortControllers.current.set(sessionId, controller);
+    let partialText = '';
 
     try {
-      // 2. Call API 
-      const responseText = await sendChatMessage(textInput);
+      // 2. Call API on this document's own session, streaming into the reply bubble
+      const responseText = await sendChatMessage(sessionId, text, source, settings, (textSoFar) => {
+        partialText = textSoFar;
+        setStreamingReplies(prev => ({ ...prev, [sessionId]: textSoFar }));
+      }, controller.signal);
       
       const botMsg: ChatMessage = {
         id: (Date.now() + 1).toString(),
@@ -315,8 +685,22 @@ export const MedicalProvider: React.FC<{ children: ReactNode }> = ({ children })
         text: responseText,
         timestamp: Date.now()
       };
-      setChatMessages(prev => [...prev, botMsg]);
+      appendChatMessage(sessionId, botMsg);
     } catch (error) {
+      if (isAbortError(error)) {
+        // Keep what arrived; the session may hold a half turn, so rebuild it from history next time
+        disposeChatSession(sessionId);
+        if (partialText) {
+          appendChatMessage(sessionId, {
+            id: (Date.now() + 1).toString(),
+            role: 'model',
+            text: partialText,
+            timestamp: Date.now(),
+            stopped: true
+          });
+        }
+        return;
+      }
       console.error(error);
       const errorMsg: ChatMessage = {
         id: (Date.now() + 1).toString(),
@@ -324,12 +708,42 @@ export const MedicalProvider: React.FC<{ children: ReactNode }> = ({ children })
         text: language === 'en' ? "Sorry, I encountered an issue. Please try again." : "Xin lỗi, đã có lỗi xảy ra. Vui lòng thử lại.",
         timestamp: Date.now()
       };
-      setChatMessages(prev => [...prev, errorMsg]);
+      appendChatMessage(sessionId, errorMsg);
     } finally {
-      setIsChatLoading(false);
+      chatAbortControllers.current.delete(sessionId);
+      setPendingChatIds(prev => prev.filter(id => id !== sessionId));
+      setStreamingReplies(prev => {
+        const { [sessionId]: _, ...rest } = prev;
+        return rest;
+      });
     }
   };
 
+  const sendUserMessage = (textInput: string) => runChatTurn(textInput, chatMessages, false);
+
+  const stopChatReply = () => {
+    if (currentHistoryId) {
+      chatAbortControllers.current.get(currentHistoryId)?.abort();
+    }
+  };
+
+  // Ask the last question again, replacing the reply it got
+  const regenerateLastReply = async () => {
+    let lastUserIndex = -1;
+    chatMessages.forEach((msg, i) => {
+      if (msg.role === 'user') lastUserIndex = i;
+    });
+    if (lastUserIndex === -1) return;
+    await runChatTurn(chatMessages[lastUserIndex].text, chatMessages.slice(0, lastUserIndex), true);
+  };
+
+  // Replace a user message and continue the conversation from there; later messages are dropped
+  const editUserMessage = async (messageId: string, text: string) => {
+    const index = chatMessages.findIndex(msg => msg.id === messageId && msg.role === 'user');
+    if (index === -1) return;
+    await runChatTurn(text, chatMessages.slice(0, index), true);
+  };
+
   const addSystemMessage = (text: string) => {
     // Only add if chat is empty
     if (chatMessages.length === 0) {
@@ -342,89 +756,141 @@ export const MedicalProvider: React.FC<{ children: ReactNode }> = ({ children })
     }
   };
 
-  const performAnalysis = async (data: FileData, lang: Language) => {
-    // 1. Check Cache first
-    if (analysisCache[lang]) {
-      setAnalysisData(analysisCache[lang]!);
-      initializeChat(data.base64, data.mimeType, lang, settings.apiKey);
-      return;
+  const performAnalysis = async (data: FileData, lang: Language, fallbackLanguage?: Language) => {
+    // Starting over supersedes whatever analysis was still running
+    const previous = activeTaskRef.current;
+    if (previous?.kind === 'analysis') {
+      previous.controller.abort();
+      endTask(previous);
     }
 
-    // 2. Check History for same file + target language (Cache Hit from History)
-    // This acts as a fallback if cache wasn't pre-populated
+    // 1. Check History for same file + target language; its saved chat comes along with it
     const historyMatch = history.find(h => 
-      h.base64 === data.base64 && 
+      isSameDocument(h, data) && 
       (h.language === lang || (!h.language && lang === 'en'))
     );
 
     if (historyMatch) {
-      setAnalysisData(historyMatch.data);
-      setAnalysisCache(prev => ({ ...prev, [lang]: historyMatch.data }));
+      setAnalysisData(analysisCache[lang] || historyMatch.data);
+      setAnalysisCache(prev => ({ ...prev, [lang]: prev[lang] || historyMatch.data }));
       setCurrentHistoryId(historyMatch.id);
+      setChatMessages(historyMatch.chatHistory || []);
+      return;
+    }
 
-      if (historyMatch.chatHistory && historyMatch.chatHistory.length > 0) {
-        setChatMessages(historyMatch.chatHistory);
-        restoreChatSession(data.base64, data.mimeType, lang, historyMatch.chatHistory, settings.apiKey);
-      } else {
-        setChatMessages([]);
-        initializeChat(data.base64, data.mimeType, lang, settings.apiKey);
-      }
+    // 2. Cached in this session but no longer in history (e.g. deleted): save it again for a fresh chat
+    if (analysisCache[lang]) {
+      setAnalysisData(analysisCache[lang]!);
+      setChatMessages([]);
+      addToHistory(data, analysisCache[lang]!, lang);
       return;
     }
 
-    // 3. If not in cache, call API
+    // 3. If not in cache, translate an existing analysis of this document or call the API
     // Reset chat when analyzing a new file/language combination not in cache
     setChatMessages([]); 
     setCurrentHistoryId(null); 
     
     setAnalysisData(null); 
+    const task = beginTask('analysis', fallbackLanguage ?? previous?.fallbackLanguage);
     setIsAnalyzing(true);
     setError(null);
+    setPartialAnalysis(null);
+    setAnalysisProgress(null);
+
+    const source = findOriginalAnalysis(data);
 
     try {
-      const result = await analyzeDocument(data.base64, data.mimeType, lang, settings.apiKey);
+      let result: AnalysisData;
+      if (source) {
+        setAnalysisProgress({ stage: 'translating', resultsCount: source.data.results.length, percent: 50 });
+        result = await translateAnalysis(source.data, lang, settings, task.controller.signal);
+      } else {
+        result = await analyzeDocument(data.base64, data.mimeType, lang, settings, (partial, progress) => {
+          if (activeTaskRef.current !== task) return;
+          setPartialAnalysis(partial);
+          setAnalysisProgress(progress);
+        }, task.controller.signal);
+      }
       
       setAnalysisData(result);
       setAnalysisCache(prev => ({ ...prev, [lang]: result }));
       
       // Auto-save to history, explicitely passing 'lang' to avoid state closure staleness
-      addToHistory(data, result, lang);
-
-      initializeChat(data.base64, data.mimeType, lang, settings.apiKey);
+      addToHistory(data, result, lang, source);
+
+      // A re-photographed report gets a new documentId. When both the picture and what was read from it
+      // match a report in history, the user is asked whether it is the same one (see resolvePendingUpload).
+      const similar = !source && data.perceptualHash
+        ? history.find(h => !h.translatedFrom && h.perceptualHash
+          && isNearDuplicate(h.perceptualHash, data.perceptualHash!) && isSameReportContent(h.data, result))
+        : undefined;
+      if (similar) setPendingUpload({ fileData: data, match: similar });
     } catch (err) {
+      if (isAbortError(err)) return;
       console.error(err);
-      setError(
-        lang === 'en' 
-          ? "Failed to analyze document. Please ensure it is a clear medical image or PDF." 
-          : "Không thể phân tích tài liệu. Vui lòng đảm bảo hình ảnh hoặc PDF rõ ràng."
-      );
+      if (err instanceof AnalysisValidationError) {
+        setError(translations[lang].analysisInvalid);
+      } else {
+        setError(
+          lang === 'en' 
+            ? "Failed to analyze document. Please ensure it is a clear medical image or PDF." 
+            : "Không thể phân tích tài liệu. Vui lòng đảm bảo hình ảnh hoặc PDF rõ ràng."
+        );
+      }
     } finally {
-      setIsAnalyzing(false);
+      endTask(task);
     }
   };
 
+  // An exact copy is picked up from history by performAnalysis
   const handleFileUpload = (data: FileData) => {
+    setPendingUpload(null);
     setFileData(data);
     setAnalysisData(null);
     setAnalysisCache({}); 
     performAnalysis(data, language);
   };
 
+  // The answer to whether a new upload is the same report as one in history. If it is, the new
+  // analysis is dropped and the existing one opened in the current language if there is one, else the original.
+  const resolvePendingUpload = async (isSameReport: boolean) => {
+    if (!pendingUpload) return;
+    const { fileData: data, match } = pendingUpload;
+    setPendingUpload(null);
+    if (!isSameReport) return;
+
+    history.filter(h => isSameDocument(h, data)).forEach(h => deleteHistoryItem(h.id));
+    const versions = history.filter(h => isSameDocument(h, match));
+    const item = versions.find(h => h.language === language)
+      || versions.find(h => !h.translatedFrom)
+      || match;
+    await loadHistoryItem(item.id);
+  };
+
+  // Switching language mid-analysis cancels the running analysis and starts over in the new language.
+  // A comparison being prepared is not thrown away; the new language is queued and applied after it.
   const updateLanguage = (newLang: Language) => {
+    const previousLang = language;
     setLanguage(newLang);
-    if (fileData && !isAnalyzing) {
-      performAnalysis(fileData, newLang);
+
+    if (activeTaskRef.current?.kind === 'comparison') {
+      queuedLanguageRef.current = newLang;
+      return;
+    }
+    if (fileData) {
+      performAnalysis(fileData, newLang, analysisData ? previousLang : undefined);
     }
   };
 
   const resetApp = () => {
+    setPendingUpload(null);
     setFileData(null);
     setAnalysisData(null);
     setAnalysisCache({}); 
     setError(null);
     setPrefilledMessage('');
     setChatMessages([]); 
-    setIsChatLoading(false);
     setCurrentHistoryId(null);
   };
 
@@ -435,23 +901,50 @@ export const MedicalProvider: React.FC<{ children: ReactNode }> = ({ children })
       fileData,
       analysisData,
       isAnalyzing,
+      partialAnalysis,
+      analysisProgress,
+      cancelAnalysis,
       error,
       handleFileUpload,
+      pendingUpload,
+      resolvePendingUpload,
       resetApp,
       settings,
       updateSettings,
       prefilledMessage,
       setPrefilledMessage,
+      highlightedResult,
+      updateReportMetadata,
+      setHighlightedResult,
       history,
+      isHistoryLoading,
       deleteHistoryItem,
+      storageError,
+      storageUsage,
+      watchStorageUsage,
+      pruneStoredHistory,
+      importHistory,
+      vaultStatus,
+      autoLockMinutes,
+      unlock,
+      lock,
+      enableEncryption,
+      changePassphrase,
+      disableEncryption,
+      updateAutoLock,
       compareItems,
       setCompareItems,
       loadHistoryItem,
       prepareComparison,
+      generateComparisonNarrative,
       // Chat
       chatMessages,
       isChatLoading,
+      streamingReply,
       sendUserMessage,
+      stopChatReply,
+      regenerateLastReply,
+      editUserMessage,
       addSystemMessage
     }}>
       {children}
@@ -0,0 +1,247 @@
+import { Type, Schema } from "@google/genai";
+
+// One prescribed medication (prescriptions and discharge summaries)
+const medicationSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    name: { type: Type.STRING, description: "Medication name exactly as printed." },
+    genericName: { type: Type.STRING, description: "Generic (active ingredient) name." },
+    brandName: { type: Type.STRING, description: "Brand name, if printed." },
+    strength: { type: Type.STRING, description: "Strength per unit, e.g. '500 mg'." },
+    form: { type: Type.STRING, description: "Dosage form, e.g. tablet, capsule, syrup." },
+    route: { type: Type.STRING, description: "How it is taken, e.g. by mouth, on the skin." },
+    frequency: { type: Type.STRING, description: "How often, e.g. 'twice daily'." },
+    duration: { type: Type.STRING, description: "For how long, e.g. '7 days'." },
+    quantity: { type: Type.STRING, description: "Quantity dispensed, as printed." },
+    refills: { type: Type.INTEGER, description: "Number of refills allowed. Omit if not printed.", minimum: 0 },
+    instructions: { type: Type.STRING, description: "Prescriber's instructions, e.g. 'take after meals'." },
+    explanation: { type: Type.STRING, description: "Simple explanation of what this medication is usually for." },
+  },
+  required: ["name"],
+};
+
+// Schema for the structured analysis output
+export const analysisSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    documentType: {
+      type: Type.STRING,
+      enum: ["Blood Test", "Urinalysis", "Prescription", "Radiology Report", "Discharge Summary", "Other"],
+      description: "Classify the type of medical document.",
+    },
+    metadata: {
+      type: Type.OBJECT,
+      properties: {
+        collectionDate: { type: Type.STRING, description: "Date the specimen was collected, as YYYY-MM-DD. Omit if not printed." },
+        reportDate: { type: Type.STRING, description: "Date the report was issued, as YYYY-MM-DD. Omit if not printed." },
+        labName: { type: Type.STRING, description: "Name of the laboratory or facility, as printed." },
+        orderingClinician: { type: Type.STRING, description: "Ordering physician or clinician, as printed." },
+        patientName: { type: Type.STRING, description: "Patient name, as printed." },
+        patientAge: { type: Type.STRING, description: "Patient age, as printed (e.g. '54 y')." },
+        patientSex: { type: Type.STRING, description: "Patient sex, as printed." },
+      },
+      description: "Details printed on the report. Only include what is actually on the document.",
+    },
+    summary: {
+      type: Type.STRING,
+      description: "High-level summary (2-4 sentences) explaining the overall health picture in simple language.",
+    },
+    overallRiskLevel: {
+      type: Type.STRING,
+      enum: ["low", "moderate", "high", "critical"],
+      description: "Overall health risk assessment based on the aggregate of abnormal findings.",
+    },
+    overallRiskScore: {
+      type: Type.NUMBER,
+      description: "A calculated risk score from 0 (Perfect health) to 100 (Critical condition).",
+      minimum: 0,
+      maximum: 100,
+    },
+    results: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          test: { type: Type.STRING, description: "The name of the test or measurement." },
+          value: { type: Type.STRING, description: "The raw value string found in document." },
+          normalRange: { type: Type.STRING, description: "The reference range string provided." },
+          status: { 
+            type: Type.STRING, 
+            enum: ["normal", "high", "low", "abnormal", "borderline", "unknown", "critical"],
+            description: "The status based strictly on the reference range." 
+          },
+          severity: {
+            type: Type.STRING,
+            enum: ["none", "mild", "moderate", "concerning", "critical"],
+            description: "Severity of the abnormality. 'none' if normal.",
+          },
+          confidence: {
+            type: Type.NUMBER,
+            description: "Confidence score (0-100) regarding the extraction accuracy.",
+            minimum: 0,
+            maximum: 100,
+          },
+          explanation: { type: Type.STRING, description: "Simple explanation (EL5) for the patient." },
+          technicalExplanation: { type: Type.STRING, description: "Detailed medical explanation for a doctor." },
+          notes: { type: Type.STRING, description: "Specific data warnings (e.g., 'Unit mismatch', 'Impossible value >10x')." },
+          
+          // Numeric fields for visualization
+          numericValue: { type: Type.NUMBER, description: "Parsed numeric value of the result. Null if non-numeric." },
+          rangeLow: { type: Type.NUMBER, description: "Lower bound of the reference range. 0 if not specified." },
+          rangeHigh: { type: Type.NUMBER, description: "Upper bound of the reference range." },
+          unit: { type: Type.STRING, description: "Unit of measurement (e.g., mg/dL)." },
+        },
+        required: ["test", "value", "status", "explanation", "confidence"],
+      },
+    },
+    medications: {
+      type: Type.ARRAY,
+      items: medicationSchema,
+      description: "Prescriptions only: one entry per prescribed medication.",
+    },
+    radiology: {
+      type: Type.OBJECT,
+      properties: {
+        modality: { type: Type.STRING, description: "Imaging type, e.g. X-ray, CT, MRI, ultrasound." },
+        bodyRegion: { type: Type.STRING, description: "Body region examined, e.g. chest, left knee." },
+        technique: { type: Type.STRING, description: "Technique notes, e.g. 'with contrast'." },
+        findings: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              finding: { type: Type.STRING, description: "One finding as described in the report." },
+              location: { type: Type.STRING, description: "Where the finding is." },
+              significance: { type: Type.STRING, enum: ["normal", "minor", "significant", "urgent"], description: "How much attention the finding needs." },
+              explanation: { type: Type.STRING, description: "Simple explanation for the patient." },
+            },
+            required: ["finding"],
+          },
+        },
+        impression: { type: Type.STRING, description: "The radiologist's impression/conclusion, as written." },
+        impressionExplanation: { type: Type.STRING, description: "The impression in simple language." },
+        recommendations: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Follow-up recommended by the radiologist." },
+      },
+      required: ["findings", "recommendations"],
+      description: "Radiology reports only.",
+    },
+    dischargeSummary: {
+      type: Type.OBJECT,
+      properties: {
+        admissionDate: { type: Type.STRING, description: "Admission date as YYYY-MM-DD. Omit if not printed." },
+        dischargeDate: { type: Type.STRING, description: "Discharge date as YYYY-MM-DD. Omit if not printed." },
+        diagnoses: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              name: { type: Type.STRING, description: "Diagnosis as written." },
+              primary: { type: Type.BOOLEAN, description: "True for the main reason for admission." },
+              explanation: { type: Type.STRING, description: "Simple explanation for the patient." },
+            },
+            required: ["name"],
+          },
+        },
+        procedures: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              name: { type: Type.STRING, description: "Procedure or surgery as written." },
+              date: { type: Type.STRING, description: "Date as YYYY-MM-DD, if printed." },
+              explanation: { type: Type.STRING, description: "Simple explanation for the patient." },
+            },
+            required: ["name"],
+          },
+        },
+        medications: { type: Type.ARRAY, items: medicationSchema, description: "Medications to take after discharge." },
+        followUps: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              description: { type: Type.STRING, description: "What the follow-up is (appointment, test...)." },
+              when: { type: Type.STRING, description: "When, as written (e.g. 'in 2 weeks')." },
+              with: { type: Type.STRING, description: "Clinician or department." },
+            },
+            required: ["description"],
+          },
+        },
+        warningSigns: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Symptoms that mean the patient should seek care." },
+      },
+      required: ["diagnoses", "procedures", "medications", "followUps", "warningSigns"],
+      description: "Discharge summaries only.",
+    },
+    abnormalFindings: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description: "List of abnormal values that need attention.",
+    },
+    suggestedQuestions: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description: "3-5 questions the patient should ask their doctor.",
+    },
+    errorsDetected: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description: "List of general range mistakes, unit mismatches, or unreadable fields.",
+    },
+    // New Features
+    actionPlan: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          category: { 
+            type: Type.STRING, 
+            enum: ['Medical', 'Diet', 'Lifestyle', 'Data Verification', 'Other'],
+            description: "Category of the action."
+          },
+          priority: { 
+            type: Type.STRING, 
+            enum: ['High', 'Medium', 'Low'],
+            description: "Urgency of the action."
+          },
+          action: { type: Type.STRING, description: "Short, clear action step (max 15 words)." }
+        },
+        required: ["category", "priority", "action"]
+      },
+      description: "A consolidated list of recommended actions."
+    },
+    glossary: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          term: { type: Type.STRING, description: "The medical term." },
+          definition: { type: Type.STRING, description: "Simple 1-sentence definition." }
+        },
+        required: ["term", "definition"]
+      },
+      description: "Definitions for complex terms found in the document."
+    },
+    printableReport: {
+      type: Type.STRING,
+      description: "A professionally formatted Markdown string containing Summary, Risk Score, List of Abnormalities, and Action Plan. Ready for export."
+    }
+  },
+  required: ["documentType", "summary", "results", "abnormalFindings", "suggestedQuestions", "overallRiskLevel", "overallRiskScore", "actionPlan", "glossary", "printableReport"],
+  // Generation order matters for streaming: summary first, then results, then the action plan
+  propertyOrdering: ["documentType", "metadata", "summary", "overallRiskLevel", "overallRiskScore", "results", "medications", "radiology", "dischargeSummary", "abnormalFindings", "errorsDetected", "actionPlan", "glossary", "suggestedQuestions", "printableReport"],
+};
+
+// Schema for the narrative comparing two analyses of the same patient
+export const comparisonSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    summary: { type: Type.STRING, description: "2-4 sentences on the overall change between the earlier and the later report." },
+    improved: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Results that moved toward or back into the normal range, with both values." },
+    worsened: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Results that moved away from or out of the normal range, with both values." },
+    newFindings: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Findings or tests present only in the later report." },
+    resolved: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Findings or tests present only in the earlier report." },
+    suggestedQuestions: { type: Type.ARRAY, items: { type: Type.STRING }, description: "3-5 follow-up questions to ask a doctor about these changes." },
+  },
+  required: ["summary", "improved", "worsened", "newFindings", "resolved", "suggestedQuestions"],
+  propertyOrdering: ["summary", "improved", "worsened", "newFindings", "resolved", "suggestedQuestions"],
+};
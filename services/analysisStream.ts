@@ -0,0 +1,135 @@
+import { ActionItem, AnalysisData, AnalysisProgress, DischargeSummary, Language, MedicalTestResult, Medication, RadiologyFinding } from "../types";
+import { parsePartialJson } from "../utils/partialJson";
+import { translations } from "../utils/translations";
+import { analysisSchema } from "./analysisSchema";
+
+// Allowed values of a top-level enum field; a half-streamed enum ("Bloo") won't match and is dropped
+const enumValues = (field: string) => analysisSchema.properties?.[field]?.enum || [];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const stringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : [];
+
+// Estimated share of the response each stage starts at
+const STAGE_PERCENT: Record<AnalysisProgress['stage'], number> = {
+  reading: 5,
+  summary: 15,
+  results: 25,
+  actionPlan: 80,
+  finishing: 92,
+  translating: 50, // Not streamed, so there is no finer estimate
+};
+
+const computeProgress = (raw: Record<string, unknown>, resultsCount: number): AnalysisProgress => {
+  let stage: AnalysisProgress['stage'] = 'reading';
+  if ('summary' in raw) stage = 'summary';
+  if (['results', 'medications', 'radiology', 'dischargeSummary'].some(field => field in raw)) stage = 'results';
+  if ('actionPlan' in raw) stage = 'actionPlan';
+  if ('glossary' in raw || 'printableReport' in raw) stage = 'finishing';
+
+  let percent = STAGE_PERCENT[stage];
+  if (stage === 'results') {
+    // Total result count is unknown up front, so approach the next stage asymptotically
+    const span = STAGE_PERCENT.actionPlan - STAGE_PERCENT.results;
+    percent += Math.round(span * (1 - 1 / (1 + resultsCount / 5)));
+  }
+
+  return { stage, resultsCount, percent };
+};
+
+// Turn the text streamed so far into a displayable partial analysis plus a progress estimate.
+// Only well-formed pieces are kept; the complete response still goes through the validator.
+export const readPartialAnalysis = (text: string): { partial: Partial<AnalysisData>; progress: AnalysisProgress } => {
+  const raw = parsePartialJson(text);
+  if (!isRecord(raw)) {
+    return { partial: {}, progress: computeProgress({}, 0) };
+  }
+
+  const partial: Partial<AnalysisData> = {};
+
+  if (typeof raw.documentType === 'string' && enumValues('documentType').includes(raw.documentType)) {
+    partial.documentType = raw.documentType as AnalysisData['documentType'];
+  }
+  if (typeof raw.summary === 'string') {
+    partial.summary = raw.summary;
+  }
+  if (typeof raw.overallRiskLevel === 'string' && enumValues('overallRiskLevel').includes(raw.overallRiskLevel)) {
+    partial.overallRiskLevel = raw.overallRiskLevel as AnalysisData['overallRiskLevel'];
+  }
+  if (typeof raw.overallRiskScore === 'number') {
+    partial.overallRiskScore = raw.overallRiskScore;
+  }
+  if (Array.isArray(raw.results)) {
+    partial.results = raw.results.filter((r): r is MedicalTestResult =>
+      isRecord(r) && typeof r.test === 'string' && typeof r.value === 'string'
+    );
+  }
+  if (Array.isArray(raw.medications)) {
+    partial.medications = raw.medications.filter((m): m is Medication => isRecord(m) && typeof m.name === 'string');
+  }
+  if (isRecord(raw.radiology)) {
+    const r = raw.radiology;
+    partial.radiology = {
+      modality: typeof r.modality === 'string' ? r.modality : undefined,
+      bodyRegion: typeof r.bodyRegion === 'string' ? r.bodyRegion : undefined,
+      findings: Array.isArray(r.findings)
+        ? r.findings.filter((f): f is RadiologyFinding => isRecord(f) && typeof f.finding === 'string')
+        : [],
+      impression: typeof r.impression === 'string' ? r.impression : undefined,
+      recommendations: stringList(r.recommendations),
+    };
+  }
+  if (isRecord(raw.dischargeSummary)) {
+    const d = raw.dischargeSummary;
+    const named = (value: unknown, field: string) =>
+      Array.isArray(value) ? value.filter(item => isRecord(item) && typeof item[field] === 'string') : [];
+    partial.dischargeSummary = {
+      diagnoses: named(d.diagnoses, 'name') as DischargeSummary['diagnoses'],
+      procedures: named(d.procedures, 'name') as DischargeSummary['procedures'],
+      medications: named(d.medications, 'name') as Medication[],
+      followUps: named(d.followUps, 'description') as DischargeSummary['followUps'],
+      warningSigns: stringList(d.warningSigns),
+    };
+  }
+  if (Array.isArray(raw.actionPlan)) {
+    partial.actionPlan = raw.actionPlan.filter((a): a is ActionItem =>
+      isRecord(a) && typeof a.action === 'string' && typeof a.category === 'string'
+    );
+  }
+  partial.abnormalFindings = stringList(raw.abnormalFindings);
+  partial.errorsDetected = stringList(raw.errorsDetected);
+
+  // Prescriptions list medications instead of results; both count toward progress
+  const itemCount = (partial.results?.length || 0) + (partial.medications?.length || 0);
+  return { partial, progress: computeProgress(raw, itemCount) };
+};
+
+// Fill the gaps of a partial analysis so it can be rendered by AnalysisResults while streaming
+export const withAnalysisDefaults = (partial: Partial<AnalysisData>): AnalysisData => ({
+  documentType: 'Other',
+  summary: '',
+  overallRiskLevel: 'low',
+  overallRiskScore: 0,
+  results: [],
+  abnormalFindings: [],
+  suggestedQuestions: [],
+  errorsDetected: [],
+  actionPlan: [],
+  glossary: [],
+  printableReport: '',
+  ...partial,
+});
+
+export const describeProgress = (progress: AnalysisProgress, language: Language): string => {
+  const t = translations[language];
+  switch (progress.stage) {
+    case 'summary': return t.progressSummary;
+    case 'results': return t.progressResults.replace('{count}', String(progress.resultsCount));
+    case 'actionPlan': return t.progressActionPlan;
+    case 'finishing': return t.progressFinishing;
+    case 'translating': return t.progressTranslating;
+    default: return t.progressReading;
+  }
+};
@@ -0,0 +1,79 @@
+import { AnalysisData, Medication } from "../types";
+
+// Applies `fn` to every human-language field of an analysis. Everything else (numbers, units,
+// ranges, statuses and other enums) is copied as-is, so a translation cannot change clinical data.
+const mapTranslatableText = (data: AnalysisData, fn: (text: string) => string): AnalysisData => {
+  // Empty strings have nothing to translate and are left out of the request
+  const t = <T extends string | undefined>(text: T): T => (text ? fn(text) : text) as T;
+  // Drug names and strengths stay as printed
+  const medication = (m: Medication): Medication => ({
+    ...m,
+    form: t(m.form),
+    route: t(m.route),
+    frequency: t(m.frequency),
+    duration: t(m.duration),
+    instructions: t(m.instructions),
+    explanation: t(m.explanation),
+  });
+  const { radiology, dischargeSummary } = data;
+
+  return {
+    ...data,
+    summary: t(data.summary),
+    abnormalFindings: data.abnormalFindings.map(t),
+    suggestedQuestions: data.suggestedQuestions.map(t),
+    errorsDetected: data.errorsDetected.map(t),
+    disclaimerNote: t(data.disclaimerNote),
+    results: data.results.map(r => ({
+      ...r,
+      test: t(r.test),
+      explanation: t(r.explanation),
+      technicalExplanation: t(r.technicalExplanation),
+      notes: t(r.notes),
+      ruleOverride: r.ruleOverride && { ...r.ruleOverride, message: t(r.ruleOverride.message) },
+    })),
+    medications: data.medications?.map(medication),
+    radiology: radiology && {
+      ...radiology,
+      modality: t(radiology.modality),
+      bodyRegion: t(radiology.bodyRegion),
+      technique: t(radiology.technique),
+      findings: radiology.findings.map(f => ({ ...f, finding: t(f.finding), location: t(f.location), explanation: t(f.explanation) })),
+      impression: t(radiology.impression),
+      impressionExplanation: t(radiology.impressionExplanation),
+      recommendations: radiology.recommendations.map(t),
+    },
+    dischargeSummary: dischargeSummary && {
+      ...dischargeSummary,
+      diagnoses: dischargeSummary.diagnoses.map(d => ({ ...d, name: t(d.name), explanation: t(d.explanation) })),
+      procedures: dischargeSummary.procedures.map(p => ({ ...p, name: t(p.name), explanation: t(p.explanation) })),
+      medications: dischargeSummary.medications.map(medication),
+      followUps: dischargeSummary.followUps.map(f => ({ ...f, description: t(f.description), when: t(f.when) })),
+      warningSigns: dischargeSummary.warningSigns.map(t),
+    },
+    actionPlan: data.actionPlan.map(a => ({ ...a, action: t(a.action) })),
+    glossary: data.glossary.map(g => ({ ...g, term: t(g.term), definition: t(g.definition) })),
+    printableReport: t(data.printableReport),
+  };
+};
+
+// Texts to send for translation, in a fixed order that applyTranslatedText relies on
+export const collectTranslatableText = (data: AnalysisData): string[] => {
+  const texts: string[] = [];
+  mapTranslatableText(data, text => {
+    texts.push(text);
+    return text;
+  });
+  return texts;
+};
+
+// Put translated texts back in the places collectTranslatableText took them from
+export const applyTranslatedText = (data: AnalysisData, translated: unknown[]): AnalysisData => {
+  const expected = collectTranslatableText(data).length;
+  if (translated.length !== expected || translated.some(t => typeof t !== 'string')) {
+    throw new Error(`Translation returned ${translated.length} texts, expected ${expected}`);
+  }
+
+  let next = 0;
+  return mapTranslatableText(data, () => translated[next++] as string);
+};
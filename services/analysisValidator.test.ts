@@ -0,0 +1,147 @@
+import { describe, expect, it } from 'vitest';
+import { ValidationWarningCode } from '../types';
+import { AnalysisValidationError, describeValidationWarning, parseAnalysisResponse, validateAnalysisData } from './analysisValidator';
+
+// A complete, valid answer from the model
+const payload = (fields: Record<string, unknown> = {}) => ({
+  documentType: 'Blood Test',
+  summary: 'All good.',
+  overallRiskLevel: 'low',
+  overallRiskScore: 10,
+  results: [{ test: 'Glucose', value: '90', status: 'normal', explanation: 'Fine.', confidence: 95 }],
+  abnormalFindings: [],
+  suggestedQuestions: [],
+  actionPlan: [],
+  glossary: [],
+  printableReport: '# Report',
+  ...fields,
+});
+
+const result = (fields: Record<string, unknown>) => ({ ...payload().results[0], ...fields });
+
+const warningOf = (fields: Record<string, unknown>, code: ValidationWarningCode) =>
+  validateAnalysisData(payload(fields)).validationWarnings?.find(warning => warning.code === code);
+
+describe('validateAnalysisData', () => {
+  it('accepts a valid answer without warnings', () => {
+    expect(validateAnalysisData(payload()).validationWarnings).toBeUndefined();
+  });
+
+  it('unrecognisedValue: maps an unknown enum value to the neutral one', () => {
+    const data = validateAnalysisData(payload({ results: [result({ status: 'elevated' })] }));
+    expect(data.results[0].status).toBe('unknown');
+    expect(data.validationWarnings).toEqual([
+      { code: 'unrecognisedValue', path: 'results[0] (Glucose).status', params: { value: 'elevated', fallback: 'unknown' } },
+    ]);
+  });
+
+  it('accepts enum values in another case without a warning', () => {
+    const data = validateAnalysisData(payload({ results: [result({ status: 'HIGH' })] }));
+    expect(data.results[0].status).toBe('high');
+    expect(data.validationWarnings).toBeUndefined();
+  });
+
+  it('convertedToText: turns a number into text', () => {
+    const data = validateAnalysisData(payload({ results: [result({ value: 90 })] }));
+    expect(data.results[0].value).toBe('90');
+    expect(data.validationWarnings?.[0]).toMatchObject({ code: 'convertedToText', params: { value: '90' } });
+  });
+
+  it('convertedToNumber: reads numbers written as text', () => {
+    const data = validateAnalysisData(payload({ results: [result({ numericValue: '< 5,2 mg/dL' })] }));
+    expect(data.results[0].numericValue).toBe(5.2);
+    expect(data.validationWarnings?.[0]).toMatchObject({ code: 'convertedToNumber', path: 'results[0] (Glucose).numericValue' });
+  });
+
+  it('convertedToBoolean: reads "true" and "false"', () => {
+    const dischargeSummary = {
+      diagnoses: [{ name: 'Pneumonia', primary: 'true' }],
+      procedures: [], medications: [], followUps: [], warningSigns: [],
+    };
+    const data = validateAnalysisData(payload({ documentType: 'Discharge Summary', dischargeSummary }));
+    expect(data.dischargeSummary?.diagnoses[0].primary).toBe(true);
+    expect(data.validationWarnings?.[0]).toMatchObject({ code: 'convertedToBoolean', params: { value: 'true' } });
+  });
+
+  it('clamped: keeps numbers within the schema limits', () => {
+    const data = validateAnalysisData(payload({ overallRiskScore: 130, overallRiskLevel: 'high' }));
+    expect(data.overallRiskScore).toBe(100);
+    expect(data.validationWarnings).toEqual([{ code: 'clamped', path: 'overallRiskScore', params: { value: 130, limit: 100 } }]);
+    expect(warningOf({ overallRiskScore: -5 }, 'clamped')?.params).toEqual({ value: -5, limit: 0 });
+  });
+
+  it('notAList: replaces a single value where a list is expected', () => {
+    const data = validateAnalysisData(payload({ glossary: 'none' }));
+    expect(data.glossary).toEqual([]);
+    expect(data.validationWarnings).toEqual([{ code: 'notAList', path: 'glossary' }]);
+  });
+
+  it('removed: drops list items and optional fields that can\'t be used', () => {
+    const data = validateAnalysisData(payload({ results: [result({}), { value: '5' }] }));
+    expect(data.results).toHaveLength(1);
+    expect(data.validationWarnings).toEqual([{ code: 'removed', path: 'results[1]' }]);
+
+    const withBadNumber = validateAnalysisData(payload({ results: [result({ rangeHigh: 'n/a' })] }));
+    expect(withBadNumber.results[0].rangeHigh).toBeUndefined();
+    expect(withBadNumber.validationWarnings).toEqual([{ code: 'removed', path: 'results[0] (Glucose).rangeHigh' }]);
+  });
+
+  it('missingList: fills in required lists', () => {
+    const { suggestedQuestions: _, ...rest } = payload();
+    const data = validateAnalysisData(rest);
+    expect(data.suggestedQuestions).toEqual([]);
+    expect(data.validationWarnings).toEqual([{ code: 'missingList', path: 'suggestedQuestions' }]);
+  });
+
+  it('missingValue: sets a missing required enum to its neutral value', () => {
+    const { documentType: _, ...rest } = payload();
+    const data = validateAnalysisData(rest);
+    expect(data.documentType).toBe('Other');
+    expect(data.validationWarnings).toEqual([{ code: 'missingValue', path: 'documentType', params: { value: 'Other' } }]);
+  });
+
+  it('missingDefault: fills in required fields that have a safe default', () => {
+    const { explanation: _, ...rest } = result({});
+    const data = validateAnalysisData(payload({ results: [rest] }));
+    expect(data.results[0].explanation).toBe('');
+    expect(data.validationWarnings).toEqual([{ code: 'missingDefault', path: 'results[0] (Glucose).explanation' }]);
+  });
+
+  it('invalidDefault: replaces an unusable required value that has a safe default', () => {
+    const data = validateAnalysisData(payload({ results: [result({ confidence: 'high' })] }));
+    expect(data.results[0].confidence).toBe(0);
+    expect(data.validationWarnings).toEqual([{ code: 'invalidDefault', path: 'results[0] (Glucose).confidence' }]);
+  });
+
+  it('riskLevelDerived: derives an unusable risk level from the score', () => {
+    const data = validateAnalysisData(payload({ overallRiskLevel: 'severe', overallRiskScore: 80 }));
+    expect(data.overallRiskLevel).toBe('critical');
+    expect(data.validationWarnings).toEqual([
+      { code: 'riskLevelDerived', path: 'overallRiskLevel', params: { value: 'severe', derived: 'critical' } },
+    ]);
+    expect(warningOf({ overallRiskLevel: undefined, overallRiskScore: '30' }, 'riskLevelDerived')?.params?.derived).toBe('moderate');
+  });
+
+  it('invalidDate: drops dates that are not YYYY-MM-DD', () => {
+    const data = validateAnalysisData(payload({ metadata: { collectionDate: '12/03/2024', labName: 'Central Lab' } }));
+    expect(data.metadata).toEqual({ labName: 'Central Lab' });
+    expect(data.validationWarnings).toEqual([
+      { code: 'invalidDate', path: 'metadata.collectionDate', params: { value: '12/03/2024' } },
+    ]);
+  });
+
+  it('throws when a required field can\'t be repaired', () => {
+    const { summary: _, ...rest } = payload();
+    expect(() => validateAnalysisData(rest)).toThrow(AnalysisValidationError);
+    expect(() => validateAnalysisData(payload({ overallRiskScore: 'unknown', overallRiskLevel: 'severe' }))).toThrow(AnalysisValidationError);
+    expect(() => parseAnalysisResponse('not json')).toThrow(AnalysisValidationError);
+  });
+});
+
+describe('describeValidationWarning', () => {
+  it('fills the parameters into the message of the requested language', () => {
+    const warning = { code: 'clamped' as const, path: 'overallRiskScore', params: { value: 130, limit: 100 } };
+    expect(describeValidationWarning(warning, 'en')).toBe('overallRiskScore: 130 is out of range, set to 100');
+    expect(describeValidationWarning(warning, 'fr')).toBe('overallRiskScore: 130 est hors limites, remplacé par 100');
+  });
+});
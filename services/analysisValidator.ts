@@ -0,0 +1,287 @@
+import { Schema, Type } from "@google/genai";
+import { AnalysisData, ComparisonNarrative, Language, ValidationWarning, ValidationWarningCode } from "../types";
+import { analysisSchema, comparisonSchema } from "./analysisSchema";
+import { METADATA_DATE_FIELDS, parseReportDate } from "../utils/reportMetadata";
+import { translations } from "../utils/translations";
+
+// Thrown when the model output can't be turned into a usable AnalysisData
+export class AnalysisValidationError extends Error {
+  issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Invalid analysis payload: ${issues.join('; ')}`);
+    this.name = 'AnalysisValidationError';
+    this.issues = issues;
+  }
+}
+
+// Values used when a required field is missing and the schema has no safe enum fallback.
+// Anything required that is not listed here (e.g. summary, overallRiskScore) is unrecoverable.
+const REQUIRED_FIELD_DEFAULTS: Record<string, unknown> = {
+  explanation: '',
+  confidence: 0,
+  priority: 'Medium',
+  printableReport: '',
+};
+
+// Neutral enum members an unrecognised value can be mapped to, in order of preference
+const ENUM_FALLBACKS = ['unknown', 'Other'];
+
+// `reason` is set when `ok` is false
+type Coerced = { ok: boolean; value?: unknown; reason?: string };
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isMissing = (value: unknown) => value === undefined || value === null;
+
+const warn = (warnings: ValidationWarning[], path: string, code: ValidationWarningCode, params?: ValidationWarning['params']) => {
+  warnings.push(params ? { code, path, params } : { code, path });
+};
+
+// Accepts "5.2", "5,2", "< 5.2 mg/dL" and similar
+const parseNumber = (text: string): number | undefined => {
+  const match = text.trim().match(/^[<>≤≥~]?\s*(-?\d+(?:[.,]\d+)?)/);
+  if (!match) return undefined;
+  const n = parseFloat(match[1].replace(',', '.'));
+  return Number.isFinite(n) ? n : undefined;
+};
+
+const coerceEnum = (allowed: string[], raw: string, path: string, warnings: ValidationWarning[]): Coerced => {
+  if (allowed.includes(raw)) return { ok: true, value: raw };
+
+  const caseMatch = allowed.find(option => option.toLowerCase() === raw.trim().toLowerCase());
+  if (caseMatch) return { ok: true, value: caseMatch };
+
+  const fallback = ENUM_FALLBACKS.find(option => allowed.includes(option));
+  if (fallback) {
+    warn(warnings, path, 'unrecognisedValue', { value: raw, fallback });
+    return { ok: true, value: fallback };
+  }
+  return { ok: false, reason: `"${raw}" is not one of ${allowed.join(', ')}` };
+};
+
+const coerce = (schema: Schema, value: unknown, path: string, warnings: ValidationWarning[]): Coerced => {
+  switch (schema.type) {
+    case Type.STRING: {
+      let text: string;
+      if (typeof value === 'string') {
+        text = value;
+      } else if (typeof value === 'number' || typeof value === 'boolean') {
+        text = String(value);
+        warn(warnings, path, 'convertedToText', { value: text });
+      } else {
+        return { ok: false, reason: 'expected text' };
+      }
+      return schema.enum ? coerceEnum(schema.enum, text, path, warnings) : { ok: true, value: text };
+    }
+
+    case Type.NUMBER:
+    case Type.INTEGER: {
+      let n: number | undefined;
+      if (typeof value === 'number' && Number.isFinite(value)) {
+        n = value;
+      } else if (typeof value === 'string') {
+        n = parseNumber(value);
+        if (n !== undefined) warn(warnings, path, 'convertedToNumber', { value });
+      }
+      if (n === undefined) return { ok: false, reason: 'expected a number' };
+
+      if (schema.minimum !== undefined && n < schema.minimum) {
+        warn(warnings, path, 'clamped', { value: n, limit: schema.minimum });
+        n = schema.minimum;
+      }
+      if (schema.maximum !== undefined && n > schema.maximum) {
+        warn(warnings, path, 'clamped', { value: n, limit: schema.maximum });
+        n = schema.maximum;
+      }
+      return { ok: true, value: n };
+    }
+
+    case Type.BOOLEAN: {
+      if (typeof value === 'boolean') return { ok: true, value };
+      if (value === 'true' || value === 'false') {
+        warn(warnings, path, 'convertedToBoolean', { value });
+        return { ok: true, value: value === 'true' };
+      }
+      return { ok: false, reason: 'expected true or false' };
+    }
+
+    case Type.ARRAY: {
+      if (isMissing(value)) return { ok: true, value: [] };
+      if (!Array.isArray(value)) {
+        warn(warnings, path, 'notAList');
+        return { ok: true, value: [] };
+      }
+
+      const items: unknown[] = [];
+      value.forEach((item, index) => {
+        const label = isRecord(item) && typeof item.test === 'string'
+          ? `${path}[${index}] (${item.test})`
+          : `${path}[${index}]`;
+        const result: Coerced = schema.items ? coerce(schema.items, item, label, warnings) : { ok: true, value: item };
+        if (result.ok) {
+          items.push(result.value);
+        } else {
+          warn(warnings, label, 'removed');
+        }
+      });
+      return { ok: true, value: items };
+    }
+
+    case Type.OBJECT: {
+      if (!isRecord(value)) return { ok: false, reason: 'expected an object' };
+
+      const output: Record<string, unknown> = {};
+      const required = schema.required || [];
+
+      for (const [key, propSchema] of Object.entries(schema.properties || {})) {
+        const propPath = path ? `${path}.${key}` : key;
+        const isRequired = required.includes(key);
+        const raw = value[key];
+
+        if (isMissing(raw)) {
+          const enumFallback = ENUM_FALLBACKS.find(option => propSchema.enum?.includes(option));
+          if (propSchema.type === Type.ARRAY) {
+            if (isRequired) warn(warnings, propPath, 'missingList');
+            output[key] = [];
+          } else if (isRequired && enumFallback) {
+            warn(warnings, propPath, 'missingValue', { value: enumFallback });
+            output[key] = enumFallback;
+          } else if (isRequired && key in REQUIRED_FIELD_DEFAULTS) {
+            warn(warnings, propPath, 'missingDefault');
+            output[key] = REQUIRED_FIELD_DEFAULTS[key];
+          } else if (isRequired) {
+            return { ok: false, reason: `${propPath} is missing` };
+          }
+          continue;
+        }
+
+        const result = coerce(propSchema, raw, propPath, warnings);
+        if (result.ok) {
+          output[key] = result.value;
+        } else if (isRequired && key in REQUIRED_FIELD_DEFAULTS) {
+          warn(warnings, propPath, 'invalidDefault');
+          output[key] = REQUIRED_FIELD_DEFAULTS[key];
+        } else if (isRequired) {
+          return { ok: false, reason: `${propPath}: ${result.reason}` };
+        } else {
+          warn(warnings, propPath, 'removed');
+        }
+      }
+      return { ok: true, value: output };
+    }
+
+    default:
+      return { ok: true, value };
+  }
+};
+
+// Derive a risk level when the model's answer is unusable
+const riskLevelFromScore = (score: number): AnalysisData['overallRiskLevel'] => {
+  if (score >= 75) return 'critical';
+  if (score >= 50) return 'high';
+  if (score >= 20) return 'moderate';
+  return 'low';
+};
+
+// Validates a parsed model payload against analysisSchema, repairing what can be repaired.
+// Repairs are listed in `validationWarnings`; anything unrecoverable throws AnalysisValidationError.
+export const validateAnalysisData = (payload: unknown): AnalysisData => {
+  if (!isRecord(payload)) {
+    throw new AnalysisValidationError(['Response is not a JSON object']);
+  }
+
+  const warnings: ValidationWarning[] = [];
+
+  // overallRiskLevel has no neutral enum member; patch it from the score before the strict pass
+  const candidate: Record<string, unknown> = { ...payload };
+  const levels = analysisSchema.properties?.overallRiskLevel?.enum || [];
+  const rawLevel = typeof candidate.overallRiskLevel === 'string' ? candidate.overallRiskLevel.toLowerCase() : undefined;
+  if (!rawLevel || !levels.includes(rawLevel)) {
+    const score = typeof candidate.overallRiskScore === 'number'
+      ? candidate.overallRiskScore
+      : typeof candidate.overallRiskScore === 'string' ? parseNumber(candidate.overallRiskScore) : undefined;
+    if (score !== undefined) {
+      const derived = riskLevelFromScore(score);
+      warn(warnings, 'overallRiskLevel', 'riskLevelDerived', { value: String(candidate.overallRiskLevel ?? ''), derived });
+      candidate.overallRiskLevel = derived;
+    }
+  }
+
+  const result = coerce(analysisSchema, candidate, '', warnings);
+  if (!result.ok) {
+    throw new AnalysisValidationError([result.reason]);
+  }
+
+  const data = result.value as AnalysisData;
+  // Dates drive timelines, so anything that is not a real YYYY-MM-DD date is dropped
+  METADATA_DATE_FIELDS.forEach(field => {
+    const value = data.metadata?.[field];
+    if (value !== undefined && parseReportDate(value) === undefined) {
+      warn(warnings, `metadata.${field}`, 'invalidDate', { value });
+      delete data.metadata![field];
+    }
+  });
+  (['admissionDate', 'dischargeDate'] as const).forEach(field => {
+    const value = data.dischargeSummary?.[field];
+    if (value !== undefined && parseReportDate(value) === undefined) {
+      warn(warnings, `dischargeSummary.${field}`, 'invalidDate', { value });
+      delete data.dischargeSummary![field];
+    }
+  });
+  if (warnings.length > 0) {
+    data.validationWarnings = warnings;
+  }
+  return data;
+};
+
+// "<path>: <what was repaired>" in `language`
+export const describeValidationWarning = (warning: ValidationWarning, language: Language): string => {
+  const t = translations[language];
+  const messages: Record<ValidationWarningCode, string> = {
+    unrecognisedValue: t.repairUnrecognisedValue,
+    convertedToText: t.repairConvertedToText,
+    convertedToNumber: t.repairConvertedToNumber,
+    convertedToBoolean: t.repairConvertedToBoolean,
+    clamped: t.repairClamped,
+    notAList: t.repairNotAList,
+    removed: t.repairRemoved,
+    missingList: t.repairMissingList,
+    missingValue: t.repairMissingValue,
+    missingDefault: t.repairMissingDefault,
+    invalidDefault: t.repairInvalidDefault,
+    riskLevelDerived: t.repairRiskLevelDerived,
+    invalidDate: t.repairInvalidDate,
+  };
+  const message = Object.entries(warning.params || {})
+    .reduce((text, [name, value]) => text.replace(`{${name}}`, String(value)), messages[warning.code]);
+  return `${warning.path}: ${message}`;
+};
+
+// Parse raw model text and validate it in one step
+export const parseAnalysisResponse = (text: string): AnalysisData => {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(text);
+  } catch {
+    throw new AnalysisValidationError(['Response is not valid JSON']);
+  }
+  return validateAnalysisData(payload);
+};
+
+// Parse and validate a comparison narrative (see comparisonSchema); the caller stamps generatedAt
+export const parseComparisonResponse = (text: string): Omit<ComparisonNarrative, 'generatedAt'> => {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(text);
+  } catch {
+    throw new AnalysisValidationError(['Response is not valid JSON']);
+  }
+
+  const result = coerce(comparisonSchema, payload, '', []);
+  if (!result.ok) {
+    throw new AnalysisValidationError([result.reason]);
+  }
+  return result.value as Omit<ComparisonNarrative, 'generatedAt'>;
+};
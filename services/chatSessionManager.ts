@@ -0,0 +1,55 @@
+import { AnalysisData, ChatMessage, ComparisonContext, Language, UserSettings } from "../types";
+import { getProvider } from "./providers";
+import { ProviderChatSession } from "./providers/types";
+import { hasPatientProfile } from "../utils/patientProfile";
+
+// Everything needed to (re)create the conversation about one document
+export interface ChatSessionSource {
+  base64Data: string;
+  mimeType: string;
+  language: Language;
+  history: ChatMessage[]; // Messages exchanged so far, used only when the session has to be restored
+  analysis?: AnalysisData; // The analysis shown next to the chat, so answers agree with it
+  comparison?: ComparisonContext; // The latest comparison of this report with an earlier one
+}
+
+// One live provider session per history item, so switching documents or languages
+// never replaces the conversation of another document.
+const sessions = new Map<string, ProviderChatSession>();
+
+// Sessions are created lazily on the first message and restored from the saved history
+const getOrCreateSession = (sessionId: string, source: ChatSessionSource, settings: UserSettings): ProviderChatSession => {
+  let session = sessions.get(sessionId);
+  if (!session) {
+    // A history holding only the local greeting is a fresh conversation, not one to restore
+    const hasConversation = source.history.some(msg => msg.role === 'user');
+    session = getProvider(settings).createChat(
+      { base64Data: source.base64Data, mimeType: source.mimeType },
+      source.language,
+      hasConversation ? source.history : [],
+      source.analysis,
+      source.comparison,
+      hasPatientProfile(settings.patientProfile) ? settings.patientProfile : undefined
+    );
+    sessions.set(sessionId, session);
+  }
+  return session;
+};
+
+export const sendSessionMessage = (
+  sessionId: string,
+  message: string,
+  source: ChatSessionSource,
+  settings: UserSettings,
+  onText?: (textSoFar: string) => void,
+  signal?: AbortSignal
+): Promise<string> => getOrCreateSession(sessionId, source, settings).sendMessage(message, onText, signal);
+
+export const disposeChatSession = (sessionId: string) => {
+  sessions.delete(sessionId);
+};
+
+// Used when the provider configuration changes; sessions are rebuilt on their next message
+export const disposeAllChatSessions = () => {
+  sessions.clear();
+};
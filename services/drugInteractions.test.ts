@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { HistoryItem, Medication } from '../types';
+import { withAnalysisDefaults } from './analysisStream';
+import { activeMedications, courseDays } from './drugInteractions';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PRESCRIBED = 1700000000000;
+
+const prescription = (id: string, medications: Medication[], fields: Partial<HistoryItem> = {}): HistoryItem => ({
+  id,
+  date: PRESCRIBED,
+  language: 'en',
+  fileName: `${id}.png`,
+  previewUrl: '',
+  documentType: 'Prescription',
+  mimeType: 'image/png',
+  data: withAnalysisDefaults({ documentType: 'Prescription', medications }),
+  ...fields,
+});
+
+const activeNames = (history: HistoryItem[], daysLater: number, excludeDocumentId?: string) =>
+  activeMedications(history, 'en', excludeDocumentId, PRESCRIBED + daysLater * DAY_MS).map(({ medication }) => medication.name);
+
+describe('courseDays', () => {
+  it('counts the prescribed duration once per fill', () => {
+    expect(courseDays({ name: 'Amoxicillin', duration: '7 days' })).toBe(7);
+    expect(courseDays({ name: 'Metformin', duration: '30 days', refills: 2 })).toBe(90);
+    expect(courseDays({ name: 'Metformin', duration: '1 month', refills: 0 })).toBe(30);
+  });
+
+  it('returns null when the duration can\'t be read', () => {
+    expect(courseDays({ name: 'Amlodipine', duration: 'ongoing', refills: 5 })).toBeNull();
+    expect(courseDays({ name: 'Amlodipine' })).toBeNull();
+  });
+});
+
+describe('activeMedications', () => {
+  const history = [
+    prescription('rx', [
+      { name: 'Amoxicillin', duration: '7 days' },
+      { name: 'Metformin', duration: '30 days', refills: 2 },
+      { name: 'Amlodipine', duration: 'ongoing' },
+      { name: 'Paracetamol' },
+    ]),
+  ];
+
+  it('keeps medications until their course, refills included, is over', () => {
+    expect(activeNames(history, 7)).toEqual(['Amoxicillin', 'Metformin', 'Amlodipine', 'Paracetamol']);
+    expect(activeNames(history, 8)).toEqual(['Metformin', 'Amlodipine', 'Paracetamol']);
+    expect(activeNames(history, 91)).toEqual([]);
+  });
+
+  it('keeps medications without a readable duration for 90 days', () => {
+    expect(activeNames(history, 90)).toEqual(['Metformin', 'Amlodipine', 'Paracetamol']);
+    expect(activeNames([prescription('rx', [{ name: 'Amlodipine', duration: 'ongoing' }])], 91)).toEqual([]);
+  });
+
+  it('includes discharge medications and leaves out the excluded report', () => {
+    const discharge = prescription('discharge', [], {
+      documentId: 'doc-discharge',
+      documentType: 'Discharge Summary',
+      data: withAnalysisDefaults({
+        documentType: 'Discharge Summary',
+        dischargeSummary: { diagnoses: [], procedures: [], medications: [{ name: 'Warfarin', duration: '3 months' }], followUps: [], warningSigns: [] },
+      }),
+    });
+    expect(activeNames([...history, discharge], 60)).toEqual(['Metformin', 'Amlodipine', 'Paracetamol', 'Warfarin']);
+    expect(activeNames([...history, discharge], 60, 'doc-discharge')).toEqual(['Metformin', 'Amlodipine', 'Paracetamol']);
+    expect(activeNames([...history, discharge], 60, 'rx')).toEqual(['Warfarin']);
+  });
+
+  it('counts each report once, in the requested language', () => {
+    const translated = prescription('rx-vi', [{ name: 'Amoxicilin', duration: '7 ngày' }], { documentId: 'rx', language: 'vi', translatedFrom: 'rx' });
+    const original = prescription('rx', [{ name: 'Amoxicillin', duration: '7 days' }], { documentId: 'rx' });
+    expect(activeMedications([original, translated], 'vi', undefined, PRESCRIBED).map(({ medication }) => medication.name)).toEqual(['Amoxicilin']);
+  });
+});
@@ -0,0 +1,80 @@
+import { AnalysisData, HistoryItem, Language, Medication } from "../types";
+import { trendItems } from "./trends";
+import { durationDays } from "./medicationSchedule";
+import { timelineDate } from "../utils/reportMetadata";
+import { findDrugs, findInteraction, InteractionSeverity } from "../utils/drugCatalog";
+
+// A known interaction between a medication of the current report and another medication
+// of the same report or of an earlier prescription that is still being taken
+export interface DrugInteraction {
+  key: string;
+  severity: InteractionSeverity;
+  medications: [string, string]; // As printed, the current report's medication first
+  explanation: string; // In the requested language
+  source?: string; // File name of the other medication's report, when it is not the current one
+}
+
+// How long a medication counts as still being taken when its duration can't be read
+// (e.g. "ongoing" or left out): long-term medicines are usually renewed every three months
+const DEFAULT_ACTIVE_DAYS = 90;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days a prescribed course lasts including refills
+export const courseDays = (medication: Medication): number | null => {
+  const days = durationDays(medication.duration);
+  return days === null ? null : days * (1 + (medication.refills || 0));
+};
+
+// Prescribed medications of a report, including those of a discharge summary
+export const reportMedications = (data: AnalysisData): Medication[] => [
+  ...(data.medications || []),
+  ...(data.dischargeSummary?.medications || []),
+];
+
+// Medications of the other reports in history that are still being taken on `now`
+export const activeMedications = (
+  history: HistoryItem[],
+  language: Language,
+  excludeDocumentId?: string,
+  now = Date.now()
+): { medication: Medication; item: HistoryItem }[] =>
+  trendItems(history, language)
+    .filter(item => !excludeDocumentId || (item.documentId || item.id) !== excludeDocumentId)
+    .flatMap(item => reportMedications(item.data).map(medication => ({ medication, item })))
+    .filter(({ medication, item }) => timelineDate(item) + (courseDays(medication) ?? DEFAULT_ACTIVE_DAYS) * DAY_MS >= now);
+
+const medicationDrugs = (medication: Medication) =>
+  findDrugs([medication.genericName, medication.name, medication.brandName].filter(Boolean).join(' / '));
+
+const SEVERITY_RANK: Record<InteractionSeverity, number> = { contraindicated: 0, major: 1, moderate: 2, minor: 3 };
+
+// Interactions of `medications` with each other and with the active medications of other reports, most severe first.
+// Each pair of drugs is reported once.
+export const checkInteractions = (
+  medications: Medication[],
+  history: HistoryItem[],
+  language: Language,
+  documentId?: string
+): DrugInteraction[] => {
+  const others = [
+    ...medications.map((medication, index) => ({ medication, index, source: undefined as string | undefined })),
+    ...activeMedications(history, language, documentId).map(({ medication, item }) => ({ medication, index: -1, source: item.fileName })),
+  ].map(other => ({ ...other, drugs: medicationDrugs(other.medication) }));
+
+  const found = new Map<string, DrugInteraction>();
+  medications.forEach((medication, index) => {
+    const drugs = medicationDrugs(medication);
+    // Within the current report, each pair is only looked at once
+    others.filter(other => other.index === -1 || other.index > index).forEach(other => {
+      drugs.forEach(drug => other.drugs.forEach(otherDrug => {
+        const key = [drug, otherDrug].sort().join('+');
+        const interaction = found.has(key) ? undefined : findInteraction(drug, otherDrug, language);
+        if (interaction) {
+          found.set(key, { key, ...interaction, medications: [medication.name, other.medication.name], source: other.source });
+        }
+      }));
+    });
+  });
+
+  return [...found.values()].sort((a, b) => SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity]);
+};
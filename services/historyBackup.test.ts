@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { ComparisonNarrative, HistoryItem } from '../types';
+import { withAnalysisDefaults } from './analysisStream';
+import { mergeBackup } from './historyBackup';
+import { documentIdFromBase64 } from '../utils/documentHash';
+
+const FIRST_DOCUMENT = btoa('first report');
+const SECOND_DOCUMENT = btoa('second report');
+
+const item = (fields: Partial<HistoryItem> & { id: string }): HistoryItem => ({
+  date: 1700000000000,
+  language: 'en',
+  fileName: `${fields.id}.png`,
+  previewUrl: '',
+  data: withAnalysisDefaults({ summary: fields.id }),
+  documentType: 'Blood Test',
+  mimeType: 'image/png',
+  ...fields,
+});
+
+const narrative = (summary: string): ComparisonNarrative => ({
+  summary, improved: [], worsened: [], newFindings: [], resolved: [], suggestedQuestions: [], generatedAt: 1,
+});
+
+describe('mergeBackup', () => {
+  it('points translations and comparisons at the ids the reports end up with', async () => {
+    const firstId = await documentIdFromBase64(FIRST_DOCUMENT);
+    const secondId = await documentIdFromBase64(SECOND_DOCUMENT);
+    // The first report is already in history under another id; an unrelated item has the id of the second one
+    const history = [
+      item({ id: 'existing-first', documentId: firstId }),
+      item({ id: 'second', documentId: 'unrelated' }),
+    ];
+
+    const { items, skipped } = await mergeBackup(history, {
+      items: [
+        item({ id: 'first', documentId: firstId }),
+        item({ id: 'second', documentId: secondId, comparisons: { first: narrative('since first') } }),
+        item({ id: 'second-vi', documentId: secondId, language: 'vi', translatedFrom: 'second', comparisons: { elsewhere: narrative('kept') } }),
+      ],
+      documents: [
+        { key: firstId, mimeType: 'image/png', base64: FIRST_DOCUMENT },
+        { key: secondId, mimeType: 'image/png', base64: SECOND_DOCUMENT },
+      ],
+    });
+
+    expect(skipped).toBe(1);
+    const [second, secondVi] = items;
+    expect(second.id).not.toBe('second');
+    expect(second.comparisons).toEqual({ 'existing-first': narrative('since first') });
+    expect(secondVi.translatedFrom).toBe(second.id);
+    // Reports outside the backup keep their id
+    expect(secondVi.comparisons).toEqual({ elsewhere: narrative('kept') });
+  });
+});
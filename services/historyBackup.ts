@@ -0,0 +1,211 @@
+import { HistoryItem, Language } from "../types";
+import { loadDocument } from "./historyStore";
+import { documentIdFromBase64 } from "../utils/documentHash";
+import { migrateHistoryItem } from "./schemaMigrations";
+import { openWithPassphrase, PassphraseSealed, sealWithPassphrase } from "./vault";
+
+// A backup is one JSON file holding every history item (all languages, with chats) and each
+// original document once. With a passphrase, everything but the header is sealed.
+const BACKUP_FORMAT = 'mediclarify-backup';
+const BACKUP_VERSION = 1;
+
+const LANGUAGES: Language[] = ['en', 'vi', 'zh', 'ru', 'fr'];
+
+interface BackupDocument {
+  key: string; // documentId of the content
+  mimeType: string;
+  base64: string;
+}
+
+export interface BackupContents {
+  items: HistoryItem[]; // Without base64; documents are matched through documentId
+  documents: BackupDocument[];
+}
+
+interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: number;
+  contents?: BackupContents;
+  encrypted?: PassphraseSealed; // Sealed BackupContents, instead of `contents`
+}
+
+export type BackupErrorReason = 'invalid' | 'unsupportedVersion' | 'passphraseRequired' | 'wrongPassphrase';
+
+// Thrown when a file can't be imported; `issues` lists what is wrong with an invalid file
+export class BackupError extends Error {
+  reason: BackupErrorReason;
+  issues: string[];
+
+  constructor(reason: BackupErrorReason, issues: string[] = []) {
+    super(`Backup cannot be imported (${reason})${issues.length ? `: ${issues.join('; ')}` : ''}`);
+    this.name = 'BackupError';
+    this.reason = reason;
+    this.issues = issues;
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// The document of an item, loading it from storage if it hasn't been yet
+const documentOf = async (item: HistoryItem): Promise<string | undefined> => {
+  if (item.base64) return item.base64;
+  if (!item.documentId || item.documentDiscarded) return undefined;
+  return (await loadDocument(item.documentId))?.base64;
+};
+
+export const createBackup = async (history: HistoryItem[], passphrase?: string): Promise<Blob> => {
+  const documents = new Map<string, BackupDocument>();
+  const items: HistoryItem[] = [];
+
+  for (const item of history) {
+    const key = item.documentId;
+    const base64 = key && !documents.has(key) ? await documentOf(item) : undefined;
+    if (key && base64) {
+      documents.set(key, { key, mimeType: item.mimeType, base64 });
+    }
+
+    const exported: HistoryItem = { ...item };
+    delete exported.base64;
+    // Data URL previews are the document itself; blob URLs don't survive a reload anyway
+    exported.previewUrl = '';
+    items.push(exported);
+  }
+
+  const contents: BackupContents = { items, documents: [...documents.values()] };
+  const file: BackupFile = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: Date.now(),
+    ...(passphrase ? { encrypted: await sealWithPassphrase(contents, passphrase) } : { contents }),
+  };
+  return new Blob([JSON.stringify(file)], { type: 'application/json' });
+};
+
+const validateItem = (raw: unknown, path: string, issues: string[]) => {
+  if (!isRecord(raw)) return issues.push(`${path} is not an object`);
+  if (typeof raw.id !== 'string') issues.push(`${path}.id is missing`);
+  if (typeof raw.date !== 'number' || !Number.isFinite(raw.date)) issues.push(`${path}.date is not a timestamp`);
+  if (typeof raw.fileName !== 'string') issues.push(`${path}.fileName is missing`);
+  if (raw.language !== undefined && !LANGUAGES.includes(raw.language as Language)) issues.push(`${path}.language is not supported`);
+  if (raw.chatHistory !== undefined && !Array.isArray(raw.chatHistory)) issues.push(`${path}.chatHistory is not a list`);
+
+  const data = raw.data;
+  if (!isRecord(data)) return issues.push(`${path}.data is missing`);
+  if (typeof data.summary !== 'string') issues.push(`${path}.data.summary is missing`);
+  if (!Array.isArray(data.results)) issues.push(`${path}.data.results is not a list`);
+  if (typeof data.overallRiskScore !== 'number') issues.push(`${path}.data.overallRiskScore is not a number`);
+};
+
+const validateDocument = (raw: unknown, path: string, issues: string[]) => {
+  if (!isRecord(raw)) return issues.push(`${path} is not an object`);
+  if (typeof raw.key !== 'string') issues.push(`${path}.key is missing`);
+  if (typeof raw.mimeType !== 'string') issues.push(`${path}.mimeType is missing`);
+  if (typeof raw.base64 !== 'string' || !/^[A-Za-z0-9+/]*={0,2}$/.test(raw.base64)) issues.push(`${path}.base64 is not valid base64`);
+};
+
+const validateContents = (raw: unknown): BackupContents => {
+  if (!isRecord(raw) || !Array.isArray(raw.items) || !Array.isArray(raw.documents)) {
+    throw new BackupError('invalid', ['items or documents are missing']);
+  }
+
+  const issues: string[] = [];
+  raw.items.forEach((item, index) => validateItem(item, `items[${index}]`, issues));
+  raw.documents.forEach((doc, index) => validateDocument(doc, `documents[${index}]`, issues));
+  if (issues.length > 0) throw new BackupError('invalid', issues);
+
+  return raw as unknown as BackupContents;
+};
+
+// Parses and validates a backup file; encrypted backups need `passphrase`
+export const readBackup = async (file: Blob, passphrase?: string): Promise<BackupContents> => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await file.text());
+  } catch {
+    throw new BackupError('invalid', ['not a JSON file']);
+  }
+
+  if (!isRecord(parsed) || parsed.format !== BACKUP_FORMAT) {
+    throw new BackupError('invalid', ['not a MediClarify backup']);
+  }
+  if (typeof parsed.version !== 'number' || parsed.version > BACKUP_VERSION) {
+    throw new BackupError('unsupportedVersion');
+  }
+
+  const backup = parsed as unknown as BackupFile;
+  if (!backup.encrypted) return validateContents(backup.contents);
+  if (!passphrase) throw new BackupError('passphraseRequired');
+
+  let contents: unknown;
+  try {
+    contents = await openWithPassphrase(backup.encrypted, passphrase);
+  } catch {
+    throw new BackupError('wrongPassphrase');
+  }
+  return validateContents(contents);
+};
+
+// Items from `contents` that are not in `history` yet. Documents are identified by the hash of
+// their content, so a version in a language history already has for that document is skipped.
+export const mergeBackup = async (
+  history: HistoryItem[],
+  contents: BackupContents
+): Promise<{ items: HistoryItem[]; skipped: number }> => {
+  const documents = new Map(contents.documents.map(doc => [doc.key, doc]));
+  // Backup document key -> documentId, hashed here rather than trusting the file
+  const keyMap = new Map<string, string>();
+  for (const doc of contents.documents) {
+    keyMap.set(doc.key, await documentIdFromBase64(doc.base64));
+  }
+
+  const takenIds = new Set(history.map(item => item.id));
+  const idMap = new Map<string, string>();
+  const added: HistoryItem[] = [];
+  let skipped = 0;
+
+  for (const item of contents.items) {
+    // Items in backups are not stamped with a schema version, so they go through every migration
+    const fields = migrateHistoryItem(item);
+    const doc = item.documentId ? documents.get(item.documentId) : undefined;
+    // Without its document in the file, an item keeps its documentId (the original was discarded)
+    const documentId = doc ? keyMap.get(doc.key) : item.documentId;
+    const language = fields.language;
+
+    const duplicate = documentId
+      ? [...history, ...added].find(h => h.documentId === documentId && h.language === language)
+      : history.find(h => h.id === item.id);
+    if (duplicate) {
+      idMap.set(item.id, duplicate.id);
+      skipped++;
+      continue;
+    }
+
+    const id = takenIds.has(item.id) ? `${Date.now()}${Math.random().toString(36).substring(7)}` : item.id;
+    takenIds.add(id);
+    idMap.set(item.id, id);
+    added.push({
+      ...fields,
+      id,
+      documentId,
+      documentDiscarded: doc ? undefined : item.documentDiscarded || !!documentId,
+      base64: doc?.base64,
+      mimeType: doc?.mimeType || item.mimeType,
+      previewUrl: doc && doc.mimeType.startsWith('image/') ? `data:${doc.mimeType};base64,${doc.base64}` : '',
+    });
+  }
+
+  // Translations point at their original, and comparisons at the earlier report, by id, which may have changed above
+  const remapId = (id: string) => idMap.get(id) || id;
+  return {
+    items: added.map(item => ({
+      ...item,
+      ...(item.translatedFrom && { translatedFrom: remapId(item.translatedFrom) }),
+      ...(item.comparisons && {
+        comparisons: Object.fromEntries(Object.entries(item.comparisons).map(([id, narrative]) => [remapId(id), narrative])),
+      }),
+    })),
+    skipped,
+  };
+};
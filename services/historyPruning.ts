@@ -0,0 +1,44 @@
+import { HistoryItem, PruneStrategy } from "../types";
+
+// Original documents kept by the 'documents' strategy
+const KEEP_RECENT_DOCUMENTS = 3;
+
+export const PRUNE_STRATEGIES: PruneStrategy[] = ['translations', 'documents', 'oldest'];
+
+// Items showing the same document, newest document first
+const groupByDocument = (history: HistoryItem[]): HistoryItem[][] => {
+  const groups = new Map<string, HistoryItem[]>();
+  history.forEach(item => {
+    const key = item.documentId || item.id;
+    groups.set(key, [...(groups.get(key) || []), item]);
+  });
+  return [...groups.values()].sort(
+    (a, b) => Math.max(...b.map(i => i.date)) - Math.max(...a.map(i => i.date))
+  );
+};
+
+// Returns the history that is left after applying `strategy`
+export const pruneHistory = (history: HistoryItem[], strategy: PruneStrategy): HistoryItem[] => {
+  switch (strategy) {
+    case 'translations': {
+      // Translations can be made again from their original; keep those whose original is gone
+      const ids = new Set(history.map(item => item.id));
+      return history.filter(item => !item.translatedFrom || !ids.has(item.translatedFrom));
+    }
+    case 'documents': {
+      // Analyses and chats stay; older reports just can't be re-read or shown as a preview
+      const keep = new Set(groupByDocument(history).slice(0, KEEP_RECENT_DOCUMENTS).flat());
+      return history.map(item =>
+        keep.has(item) || !item.documentId || item.documentDiscarded
+          ? item
+          // The documentId stays, so the report is still recognised when uploaded again
+          : { ...item, base64: undefined, documentDiscarded: true, previewUrl: '' }
+      );
+    }
+    case 'oldest': {
+      const groups = groupByDocument(history);
+      const oldest = new Set(groups[groups.length - 1] || []);
+      return history.filter(item => !oldest.has(item));
+    }
+  }
+};
@@ -0,0 +1,317 @@
+import { HistoryItem, StorageUsage } from "../types";
+import { getVaultKey, openBytes, openJson, SealedData, sealBytes, sealJson } from "./vault";
+import { documentIdFromBase64 } from "../utils/documentHash";
+import { HISTORY_SCHEMA_VERSION, migrateHistoryItem } from "./schemaMigrations";
+
+// History lives in IndexedDB: one record per history item in `analyses`, and each original
+// document once, as a Blob, in `documents` (keyed by documentId, so shared by all versions of a document).
+// With the vault on, both are sealed with the vault key (see vault.ts).
+const DB_NAME = 'mediclarify';
+const DB_VERSION = 1;
+const ANALYSES = 'analyses';
+const DOCUMENTS = 'documents';
+
+// Where history used to be kept as a single JSON string
+const LEGACY_STORAGE_KEY = 'medicalHistory';
+
+// Records are stored in plain form, or sealed when the vault is on (only the key stays readable).
+// `schemaVersion` is inside the sealed part; records without one predate versioning (see schemaMigrations.ts).
+type AnalysisRecord = Partial<HistoryItem> & { id: string; schemaVersion?: number; sealed?: SealedData };
+
+interface DocumentRecord {
+  key: string;
+  mimeType: string;
+  blob?: Blob;
+  sealed?: SealedData;
+}
+
+// Fields that are not written to the analyses store: the document goes to its own store,
+// and image previews are rebuilt from it when it is loaded.
+const DOCUMENT_FIELDS = new Set<keyof HistoryItem>(['base64', 'previewUrl']);
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore(ANALYSES, { keyPath: 'id' });
+        db.createObjectStore(DOCUMENTS, { keyPath: 'key' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+};
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Writes are only durable once the whole transaction completes; quota errors surface as an abort
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error("Storage transaction was aborted"));
+  });
+
+export const isQuotaError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'QuotaExceededError';
+
+const base64ToBytes = (base64: string): Uint8Array => Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+
+const blobToBase64 = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve((reader.result as string).split(',')[1]);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+const toStoredItem = (item: HistoryItem): AnalysisRecord => {
+  const stored: AnalysisRecord = { ...item, schemaVersion: HISTORY_SCHEMA_VERSION };
+  delete stored.base64;
+  // Blob URLs (PDF previews) are kept like before; data URLs are the document itself
+  stored.previewUrl = item.previewUrl && !item.previewUrl.startsWith('data:') ? item.previewUrl : '';
+  return stored;
+};
+
+const requireKey = (key: CryptoKey | null): CryptoKey => {
+  if (!key) throw new Error("History is locked");
+  return key;
+};
+
+const sealRecord = async (record: AnalysisRecord, key: CryptoKey | null): Promise<AnalysisRecord> =>
+  key ? { id: record.id, sealed: await sealJson(record, key) } : record;
+
+const openRecord = (record: AnalysisRecord, key: CryptoKey | null): Promise<AnalysisRecord> =>
+  record.sealed ? openJson<AnalysisRecord>(record.sealed, requireKey(key)) : Promise.resolve(record);
+
+const sealDocument = async (docKey: string, mimeType: string, bytes: Uint8Array, key: CryptoKey | null): Promise<DocumentRecord> =>
+  key
+    ? { key: docKey, mimeType, sealed: await sealBytes(bytes, key) }
+    : { key: docKey, mimeType, blob: new Blob([bytes], { type: mimeType }) };
+
+const openDocument = async (record: DocumentRecord, key: CryptoKey | null): Promise<Uint8Array> =>
+  new Uint8Array(record.sealed ? await openBytes(record.sealed, requireKey(key)) : await record.blob!.arrayBuffer());
+
+// Whether two versions of an item differ in anything that is written to the analyses store
+const storedFieldsChanged = (a: HistoryItem, b: HistoryItem) => {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)] as (keyof HistoryItem)[]);
+  return [...keys].some(key => !DOCUMENT_FIELDS.has(key) && a[key] !== b[key]);
+};
+
+// What is known to be in the database; the next save only writes the difference
+let savedItems: Map<string, HistoryItem> | null = null;
+let savedDocumentKeys = new Set<string>();
+let saveQueue: Promise<void> = Promise.resolve();
+
+// Sizes of the stored records and documents, by id and key, kept as they are read and written
+// so that showing storage usage doesn't mean reading the whole database again
+const recordSizes = new Map<string, number>();
+const documentSizes = new Map<string, number>();
+
+// Close enough to what the browser stores for structured records
+const recordSize = (record: AnalysisRecord) => record.sealed ? record.sealed.data.byteLength : JSON.stringify(record).length;
+const documentSize = (doc: DocumentRecord) => doc.sealed ? doc.sealed.data.byteLength : doc.blob!.size;
+
+// Old localStorage history is moved over once
+const migrateLegacyHistory = async () => {
+  const stored = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (!stored) return;
+
+  const legacyItems: HistoryItem[] = JSON.parse(stored);
+  const items = await Promise.all(legacyItems.map(async legacyItem => {
+    const item = migrateHistoryItem(legacyItem);
+    return item.base64 ? { ...item, documentId: await documentIdFromBase64(item.base64) } : item;
+  }));
+
+  await writeChanges(new Map(), items);
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
+};
+
+const writeChanges = async (previous: Map<string, HistoryItem>, items: HistoryItem[]) => {
+  const key = getVaultKey();
+  const nextIds = new Set(items.map(item => item.id));
+  const referencedKeys = new Set<string>();
+  const addedKeys = new Set<string>();
+  const analysisPuts: Promise<AnalysisRecord>[] = [];
+  const documentPuts: Promise<DocumentRecord>[] = [];
+
+  items.forEach(item => {
+    const before = previous.get(item.id);
+    if (!before || storedFieldsChanged(before, item)) {
+      analysisPuts.push(sealRecord(toStoredItem(item), key));
+    }
+    if (item.documentId && !item.documentDiscarded) {
+      referencedKeys.add(item.documentId);
+      if (item.base64 && !savedDocumentKeys.has(item.documentId) && !addedKeys.has(item.documentId)) {
+        const mimeType = item.mimeType || 'application/octet-stream';
+        documentPuts.push(sealDocument(item.documentId, mimeType, base64ToBytes(item.base64), key));
+        addedKeys.add(item.documentId);
+      }
+    }
+  });
+  // Documents that were shown by removed or pruned items and by nothing else now
+  const orphanedKeys = Array.from(new Set(Array.from(previous.values(), item => item.documentId)))
+    .filter(key => key && savedDocumentKeys.has(key) && !referencedKeys.has(key));
+
+  // Sealing is async, so it has to finish before the transaction starts (it would commit while waiting)
+  const [analysisRecords, documentRecords] = await Promise.all([Promise.all(analysisPuts), Promise.all(documentPuts)]);
+
+  const db = await openDatabase();
+  const tx = db.transaction([ANALYSES, DOCUMENTS], 'readwrite');
+  const analyses = tx.objectStore(ANALYSES);
+  const documents = tx.objectStore(DOCUMENTS);
+
+  analysisRecords.forEach(record => analyses.put(record));
+  documentRecords.forEach(record => documents.put(record));
+  previous.forEach((_, id) => {
+    if (!nextIds.has(id)) analyses.delete(id);
+  });
+  orphanedKeys.forEach(key => documents.delete(key));
+
+  await transactionDone(tx);
+  addedKeys.forEach(key => savedDocumentKeys.add(key));
+  orphanedKeys.forEach(key => savedDocumentKeys.delete(key));
+  analysisRecords.forEach(record => recordSizes.set(record.id, recordSize(record)));
+  documentRecords.forEach(record => documentSizes.set(record.key, documentSize(record)));
+  previous.forEach((_, id) => {
+    if (!nextIds.has(id)) recordSizes.delete(id);
+  });
+  orphanedKeys.forEach(key => documentSizes.delete(key));
+};
+
+// Brings records written by older versions up to the current schema. The upgraded records are
+// written back, so this happens once; if that fails they are upgraded again on the next load.
+const migrateRecords = async (records: AnalysisRecord[]): Promise<HistoryItem[]> => {
+  const outdated: HistoryItem[] = [];
+  const items = records.map(({ schemaVersion = 0, ...fields }) => {
+    if (schemaVersion >= HISTORY_SCHEMA_VERSION) return fields as HistoryItem;
+    const item = migrateHistoryItem(fields, schemaVersion);
+    outdated.push(item);
+    return item;
+  });
+  if (outdated.length === 0) return items;
+
+  try {
+    const key = getVaultKey();
+    const upgraded = await Promise.all(outdated.map(item => sealRecord(toStoredItem(item), key)));
+    const db = await openDatabase();
+    const tx = db.transaction(ANALYSES, 'readwrite');
+    upgraded.forEach(record => tx.objectStore(ANALYSES).put(record));
+    await transactionDone(tx);
+    upgraded.forEach(record => recordSizes.set(record.id, recordSize(record)));
+  } catch (e) {
+    console.warn(`Could not write back ${outdated.length} upgraded history records`, e);
+  }
+  return items;
+};
+
+// Loads history without the documents themselves (see loadDocument), newest first
+export const loadHistory = async (): Promise<HistoryItem[]> => {
+  const db = await openDatabase();
+  const documentKeys = await requestResult(db.transaction(DOCUMENTS).objectStore(DOCUMENTS).getAllKeys());
+  savedDocumentKeys = new Set(documentKeys as string[]);
+
+  try {
+    await migrateLegacyHistory();
+  } catch (e) {
+    // Leave the old copy in place and try again next time
+    console.warn("Could not move history out of localStorage", e);
+  }
+
+  const records: AnalysisRecord[] = await requestResult(db.transaction(ANALYSES).objectStore(ANALYSES).getAll());
+  recordSizes.clear();
+  records.forEach(record => recordSizes.set(record.id, recordSize(record)));
+  const key = getVaultKey();
+  const opened = await Promise.all(records.map(record => openRecord(record, key)));
+  const items = await migrateRecords(opened);
+  items.sort((a, b) => b.date - a.date || b.id.localeCompare(a.id));
+  savedItems = new Map(items.map(item => [item.id, item]));
+  return items;
+};
+
+// The stored original document, with the preview URL to show for it
+export const loadDocument = async (key: string): Promise<{ base64: string; previewUrl?: string } | null> => {
+  const db = await openDatabase();
+  const doc: DocumentRecord | undefined = await requestResult(db.transaction(DOCUMENTS).objectStore(DOCUMENTS).get(key));
+  if (!doc) return null;
+  documentSizes.set(doc.key, documentSize(doc));
+
+  const base64 = await blobToBase64(doc.blob || new Blob([await openDocument(doc, getVaultKey())]));
+  return {
+    base64,
+    previewUrl: doc.mimeType.startsWith('image/') ? `data:${doc.mimeType};base64,${base64}` : undefined,
+  };
+};
+
+// Saves the current history, writing only what changed since the last successful save.
+// Saves run one at a time; a failed save leaves the database as it was and is retried by the next one.
+export const saveHistory = (items: HistoryItem[]): Promise<void> => {
+  const run = saveQueue.then(async () => {
+    // Without the stored history to compare against, saving would overwrite it
+    if (!savedItems) throw new Error("History has not been loaded");
+    await writeChanges(savedItems, items);
+    savedItems = new Map(items.map(item => [item.id, item]));
+  });
+  saveQueue = run.catch(() => undefined);
+  return run;
+};
+
+// Resolves once every save started so far has finished
+export const whenHistorySaved = () => saveQueue;
+
+// Forget what was loaded (used when the vault locks); saving is refused until history is loaded again
+export const forgetLoadedHistory = () => {
+  savedItems = null;
+  savedDocumentKeys = new Set();
+  recordSizes.clear();
+  documentSizes.clear();
+};
+
+// Rewrites every stored record and document from one vault key to another (null = plain), in one transaction
+export const resealHistory = (from: CryptoKey | null, to: CryptoKey | null): Promise<void> => {
+  const run = saveQueue.then(async () => {
+    const db = await openDatabase();
+    const readTx = db.transaction([ANALYSES, DOCUMENTS]);
+    const [records, documents] = await Promise.all([
+      requestResult(readTx.objectStore(ANALYSES).getAll() as IDBRequest<AnalysisRecord[]>),
+      requestResult(readTx.objectStore(DOCUMENTS).getAll() as IDBRequest<DocumentRecord[]>),
+    ]);
+
+    const [analysisRecords, documentRecords] = await Promise.all([
+      Promise.all(records.map(async record => sealRecord(await openRecord(record, from), to))),
+      Promise.all(documents.map(async doc => sealDocument(doc.key, doc.mimeType, await openDocument(doc, from), to))),
+    ]);
+
+    const tx = db.transaction([ANALYSES, DOCUMENTS], 'readwrite');
+    analysisRecords.forEach(record => tx.objectStore(ANALYSES).put(record));
+    documentRecords.forEach(record => tx.objectStore(DOCUMENTS).put(record));
+    await transactionDone(tx);
+    analysisRecords.forEach(record => recordSizes.set(record.id, recordSize(record)));
+    documentRecords.forEach(record => documentSizes.set(record.key, documentSize(record)));
+  });
+  saveQueue = run.catch(() => undefined);
+  return run;
+};
+
+const totalSize = (sizes: Map<string, number>) => [...sizes.values()].reduce((sum, size) => sum + size, 0);
+
+// Space taken by history from the sizes seen so far (documents count once they have been loaded or saved),
+// and the browser's estimate for the whole app. Nothing is read from the database.
+export const getStorageUsage = async (): Promise<StorageUsage> => {
+  const estimate = await navigator.storage?.estimate?.();
+  return {
+    documentBytes: totalSize(documentSizes),
+    analysisBytes: totalSize(recordSizes),
+    usedBytes: estimate?.usage,
+    quotaBytes: estimate?.quota,
+  };
+};
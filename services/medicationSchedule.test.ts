@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { Medication } from '../types';
+import { buildCalendar, buildSchedule, durationDays, isDoseDay } from './medicationSchedule';
+
+const medication = (fields: Partial<Medication> = {}): Medication => ({ name: 'Amoxicillin', strength: '500 mg', ...fields });
+
+const scheduleOf = (fields: Partial<Medication>) => buildSchedule([medication(fields)], '2024-03-01')[0];
+
+const uids = (calendar: string) => [...calendar.matchAll(/^UID:(.+)$/gm)].map(match => match[1].trim());
+
+describe('durationDays', () => {
+  it('reads durations in every supported language', () => {
+    expect(durationDays('7 days')).toBe(7);
+    expect(durationDays('2w')).toBe(14);
+    expect(durationDays('1 wk')).toBe(7);
+    expect(durationDays('3 months')).toBe(90);
+    expect(durationDays('2 tuần')).toBe(14);
+    expect(durationDays('7天内')).toBe(7);
+    expect(durationDays('5 дней')).toBe(5);
+    expect(durationDays('10 jours')).toBe(10);
+    expect(durationDays('1,5 mois')).toBe(45);
+  });
+
+  it('only takes whole-word units', () => {
+    expect(durationDays('2 jars')).toBeNull();
+    expect(durationDays('5 demi')).toBeNull();
+    expect(durationDays('3 doses daily')).toBeNull();
+    expect(durationDays('take 2 tablets for 5 days')).toBe(5);
+  });
+
+  it('returns null when there is no duration', () => {
+    expect(durationDays('ongoing')).toBeNull();
+    expect(durationDays('')).toBeNull();
+    expect(durationDays()).toBeNull();
+  });
+});
+
+describe('buildSchedule', () => {
+  it('reads dosing times from the frequency', () => {
+    expect(scheduleOf({ frequency: 'BID' }).times).toEqual(['08:00', '20:00']);
+    expect(scheduleOf({ frequency: 'ngày 3 lần' }).times).toEqual(['08:00', '14:00', '20:00']);
+    expect(scheduleOf({ frequency: 'every 8 hours' }).times).toEqual(['00:00', '08:00', '16:00']);
+    expect(scheduleOf({ frequency: 'once daily', instructions: 'at bedtime' }).times).toEqual(['21:00']);
+    expect(scheduleOf({ frequency: 'as needed for pain' })).toMatchObject({ times: [], asNeeded: true });
+  });
+
+  it('reads meals, weekly doses and the last day', () => {
+    const schedule = scheduleOf({ frequency: 'twice daily', instructions: 'take after meals', duration: '7 days' });
+    expect(schedule).toMatchObject({ meal: 'with', start: '2024-03-01', end: '2024-03-07' });
+    expect(scheduleOf({ frequency: 'once daily', instructions: 'on an empty stomach' }).meal).toBe('without');
+    expect(scheduleOf({ frequency: 'ongoing' }).end).toBeUndefined();
+
+    const weekly = scheduleOf({ frequency: 'once weekly' });
+    expect(weekly.intervalDays).toBe(7);
+    expect(isDoseDay(weekly, '2024-03-08')).toBe(true);
+    expect(isDoseDay(weekly, '2024-03-09')).toBe(false);
+    expect(isDoseDay(schedule, '2024-03-08')).toBe(false);
+  });
+});
+
+describe('buildCalendar', () => {
+  const now = new Date('2024-03-01T09:00:00Z');
+
+  it('gives each medication and time a UID that stays the same on every export', () => {
+    const schedules = buildSchedule([medication({ frequency: 'BID' }), medication({ name: 'Ibuprofen', frequency: 'BID' })], '2024-03-01');
+    const first = uids(buildCalendar(schedules, 'en', 'doc-1', now));
+    expect(first).toHaveLength(4);
+    expect(new Set(first).size).toBe(4);
+    expect(first[0]).toMatch(/^[0-9a-f]{8}-20240301-0800@mediclarify$/);
+    expect(uids(buildCalendar(schedules, 'vi', 'doc-1', new Date('2024-04-01T09:00:00Z')))).toEqual(first);
+  });
+
+  it('keeps UIDs of the same medication apart across prescriptions', () => {
+    const schedules = buildSchedule([medication({ frequency: 'once daily' })], '2024-03-01');
+    const [fromFirst] = uids(buildCalendar(schedules, 'en', 'doc-1', now));
+    const [fromSecond] = uids(buildCalendar(schedules, 'en', 'doc-2', now));
+    expect(fromFirst).not.toBe(fromSecond);
+    const [otherStrength] = uids(buildCalendar(buildSchedule([medication({ strength: '250 mg', frequency: 'once daily' })], '2024-03-01'), 'en', 'doc-1', now));
+    expect(otherStrength).not.toBe(fromFirst);
+  });
+
+  it('repeats doses until the last day and skips medications taken as needed', () => {
+    const schedules = buildSchedule([
+      medication({ frequency: 'once daily', duration: '7 days' }),
+      medication({ name: 'Paracetamol', frequency: 'as needed' }),
+    ], '2024-03-01');
+    const calendar = buildCalendar(schedules, 'en', 'doc-1', now);
+    expect(calendar).toContain('RRULE:FREQ=DAILY;UNTIL=20240307T235900');
+    expect(calendar).not.toContain('Paracetamol');
+    expect(calendar.endsWith('END:VCALENDAR\r\n')).toBe(true);
+  });
+});
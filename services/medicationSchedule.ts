@@ -0,0 +1,247 @@
+import { Language, Medication } from "../types";
+import { LOCALES, translations } from "../utils/translations";
+
+// A daily routine for one prescribed medication, read from its frequency, duration and instructions
+export interface DoseSchedule {
+  medication: Medication;
+  times: string[]; // "HH:MM"; empty when taken as needed or the frequency couldn't be read
+  intervalDays: 1 | 7; // Daily or weekly
+  asNeeded: boolean;
+  meal?: 'with' | 'without'; // Take with food, or on an empty stomach
+  start: string; // YYYY-MM-DD
+  end?: string; // YYYY-MM-DD, the last day; missing when the duration couldn't be read
+}
+
+// Usual dosing times by doses per day
+const DOSE_TIMES: Record<number, string[]> = {
+  1: ['08:00'],
+  2: ['08:00', '20:00'],
+  3: ['08:00', '14:00', '20:00'],
+  4: ['08:00', '12:00', '16:00', '20:00'],
+};
+const BEDTIME = '21:00';
+const EVENING = '19:00';
+
+// Patterns are matched against the frequency and instructions, lower-case and without accents,
+// in every supported language (the analysis may have been translated)
+const AS_NEEDED = /\bprn\b|as needed|when needed|if needed|khi can|必要时|需要时|при необходимости|au besoin|si besoin|si necessaire/;
+const WEEKLY = /weekly|once a week|per week|moi tuan|hang tuan|每周|每星期|в неделю|par semaine|hebdomadaire/;
+const EVERY_HOURS = /(?:every|q|moi|каждые|toutes les)\s*(\d+)\s*(?:h\b|hours?|hrs?|gio|小时|час|heures?)|每\s*(\d+)\s*小时/;
+const BEDTIME_PATTERN = /bedtime|at night|\bq?hs\b|truoc khi ngu|睡前|на ночь|au coucher/;
+const EVENING_PATTERN = /evening|buoi toi|晚上|вечером|le soir/;
+const WITHOUT_FOOD = /empty stomach|before (?:food|meals?|breakfast|eating)|without food|truoc (?:khi )?an|luc doi|bung doi|空腹|饭前|餐前|натощак|до еды|a jeun|avant (?:le |les )?repas/;
+const WITH_FOOD = /with (?:food|meals?)|after (?:food|meals?|eating)|sau (?:khi )?an|trong bua an|随餐|饭后|餐后|во время еды|после еды|(?:pendant|au cours|apres) (?:du |le |les |des )?repas/;
+
+// Doses per day, from abbreviations ("BID"), words ("twice daily") or counts ("3 times a day", "ngày 2 lần", "每日三次")
+const COUNT_WORDS: [RegExp, number][] = [
+  [/\b(?:qd|od|once)\b|\b1\s*x\b|mot lan|一次|один раз|une fois/, 1],
+  [/\b(?:bid|twice)\b|\b2\s*x\b|hai lan|两次|二次|дважды|deux fois/, 2],
+  [/\b(?:tid|thrice)\b|three times|\b3\s*x\b|ba lan|三次|трижды|trois fois/, 3],
+  [/\bqid\b|four times|\b4\s*x\b|bon lan|四次|четыре раза|quatre fois/, 4],
+];
+const COUNT = /(\d+)\s*(?:times|lan|次|раза?|fois)/;
+const DAILY = /daily|a day|per day|moi ngay|hang ngay|每日|每天|ежедневно|в день|par jour/;
+
+const normalize = (text: string) => text.normalize('NFD').replace(/\p{M}/gu, '').replace(/đ/g, 'd').toLowerCase();
+
+// Duration units as whole words or abbreviations, after normalize (so "дней" is "днеи"), in every supported language.
+// Chinese has no spaces, so a Chinese unit only has to start the word ("7天内").
+const DURATION_UNITS: [number, string[]][] = [
+  [30, ['month', 'months', 'mo', 'mos', 'mth', 'mths', 'thang', '个月', '月', 'месяц', 'месяца', 'месяцев', 'мес', 'mois']],
+  [7, ['week', 'weeks', 'wk', 'wks', 'w', 'tuan', '周', '星期', '个星期', 'неделя', 'недели', 'неделю', 'недель', 'нед', 'semaine', 'semaines', 'sem']],
+  [1, ['day', 'days', 'd', 'ngay', '天', '日', 'день', 'дня', 'днеи', 'дн', 'сутки', 'суток', 'сут', 'jour', 'jours', 'j']],
+];
+
+const isDurationUnit = (word: string, unit: string) =>
+  word === unit || (/\p{Script=Han}/u.test(unit) && word.startsWith(unit));
+
+// Days in a duration like "7 days", "2 tuần" or "3个月"; null when there is none (e.g. "ongoing")
+export const durationDays = (duration?: string): number | null => {
+  for (const [, amount, word] of normalize(duration || '').matchAll(/(\d+(?:[.,]\d+)?)\s*(\p{L}+)/gu)) {
+    const unit = DURATION_UNITS.find(([, words]) => words.some(unitWord => isDurationUnit(word, unitWord)));
+    if (unit) return parseFloat(amount.replace(',', '.')) * unit[0];
+  }
+  return null;
+};
+
+// Hours between doses for "every 8 hours"-style frequencies
+const hoursBetweenDoses = (text: string): number | null => {
+  const hours = text.match(EVERY_HOURS);
+  const interval = hours ? parseInt(hours[1] || hours[2], 10) : 0;
+  return interval > 0 && interval <= 24 ? interval : null;
+};
+
+const dosesPerDay = (text: string): number | null => {
+  const count = text.match(COUNT);
+  if (count) return parseInt(count[1], 10);
+  const word = COUNT_WORDS.find(([pattern]) => pattern.test(text));
+  if (word) return word[1];
+  return DAILY.test(text) || BEDTIME_PATTERN.test(text) ? 1 : null;
+};
+
+// Times of day for the doses: at the usual times, or evenly spread from 8:00 when a fixed interval is
+// prescribed (e.g. antibiotics every 8 hours) or there are more than four
+const doseTimes = (text: string, weekly: boolean): string[] => {
+  const hours = weekly ? null : hoursBetweenDoses(text);
+  const perDay = weekly ? 1 : hours ? Math.floor(24 / hours) : dosesPerDay(text);
+  if (!perDay) return [];
+  if (perDay === 1 && BEDTIME_PATTERN.test(text)) return [BEDTIME];
+  if (perDay === 1 && EVENING_PATTERN.test(text)) return [EVENING];
+  if (!hours && DOSE_TIMES[perDay]) return DOSE_TIMES[perDay];
+  const interval = hours || 24 / perDay;
+  return Array.from({ length: perDay }, (_, i) => {
+    const minutes = Math.round((8 + i * interval) * 60) % (24 * 60);
+    return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+  }).sort();
+};
+
+// YYYY-MM-DD of `date` plus `days`, in local time
+export const addDays = (date: string, days: number): string => {
+  const next = new Date(`${date}T00:00:00`);
+  next.setDate(next.getDate() + days);
+  return `${next.getFullYear()}-${String(next.getMonth() + 1).padStart(2, '0')}-${String(next.getDate()).padStart(2, '0')}`;
+};
+
+// Schedules for `medications` when started on `start` (YYYY-MM-DD)
+export const buildSchedule = (medications: Medication[], start: string): DoseSchedule[] =>
+  medications.map(medication => {
+    const text = normalize(`${medication.frequency || ''} ${medication.instructions || ''}`);
+    const asNeeded = AS_NEEDED.test(text);
+    const weekly = WEEKLY.test(text);
+    const days = durationDays(medication.duration);
+    return {
+      medication,
+      times: asNeeded ? [] : doseTimes(text, weekly),
+      intervalDays: weekly ? 7 : 1,
+      asNeeded,
+      meal: WITHOUT_FOOD.test(text) ? 'without' : WITH_FOOD.test(text) ? 'with' : undefined,
+      start,
+      end: days ? addDays(start, Math.max(1, Math.round(days)) - 1) : undefined,
+    };
+  });
+
+// Whether a dose of `schedule` is due on `date` (YYYY-MM-DD)
+export const isDoseDay = (schedule: DoseSchedule, date: string): boolean => {
+  if (date < schedule.start || (schedule.end && date > schedule.end)) return false;
+  const elapsed = Math.round((new Date(`${date}T00:00:00`).getTime() - new Date(`${schedule.start}T00:00:00`).getTime()) / 86400000);
+  return elapsed % schedule.intervalDays === 0;
+};
+
+export const medicationLabel = (medication: Medication) =>
+  [medication.name, medication.strength].filter(Boolean).join(' ');
+
+// --- Printable weekly chart ---
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// A standalone page with one row per medication and time, and a box to tick for each dose over the 7 days from `weekStart`
+export const pillChartHtml = (schedules: DoseSchedule[], weekStart: string, language: Language): string => {
+  const t = translations[language];
+  const days = Array.from({ length: 7 }, (_, i) => addDays(weekStart, i));
+  const dayLabel = (date: string) =>
+    new Date(`${date}T00:00:00`).toLocaleDateString(LOCALES[language], { weekday: 'short', day: 'numeric', month: 'numeric' });
+  const rows = schedules.flatMap(schedule => schedule.times.map(time => `
+      <tr>
+        <td><strong>${escapeHtml(medicationLabel(schedule.medication))}</strong>${schedule.meal ? `<br><small>${escapeHtml(schedule.meal === 'with' ? t.scheduleWithFood : t.scheduleWithoutFood)}</small>` : ''}</td>
+        <td>${time}</td>
+        ${days.map(day => `<td class="box">${isDoseDay(schedule, day) ? '&#9744;' : ''}</td>`).join('')}
+      </tr>`));
+  const asNeeded = schedules.filter(s => s.times.length === 0).map(s => escapeHtml(medicationLabel(s.medication)));
+
+  return `<!DOCTYPE html>
+<html><head><meta charset="utf-8"><title>${escapeHtml(t.pillChartTitle)}</title>
+<style>
+  body { font-family: sans-serif; margin: 24px; color: #0f172a; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { border: 1px solid #94a3b8; padding: 6px 8px; font-size: 13px; text-align: left; }
+  td.box { text-align: center; font-size: 20px; }
+  small { color: #475569; }
+</style></head><body>
+  <h1>${escapeHtml(t.pillChartTitle)}</h1>
+  <table>
+    <thead><tr><th>${escapeHtml(t.medications)}</th><th>${escapeHtml(t.scheduleTime)}</th>${days.map(day => `<th>${escapeHtml(dayLabel(day))}</th>`).join('')}</tr></thead>
+    <tbody>${rows.join('')}</tbody>
+  </table>
+  ${asNeeded.length ? `<p>${escapeHtml(t.scheduleNotScheduled)}: ${asNeeded.join(', ')}</p>` : ''}
+</body></html>`;
+};
+
+// --- iCalendar export ---
+
+const escapeText = (text: string) => text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Lines longer than 75 octets are folded onto continuation lines starting with a space (RFC 5545)
+const foldLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    if (encoder.encode(current + char).length > (parts.length ? 74 : 75)) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  return [...parts, current].join('\r\n ');
+};
+
+const icsDate = (date: string, time = '00:00') => `${date.replace(/-/g, '')}T${time.replace(':', '')}00`;
+
+// 32-bit FNV-1a, as hex
+const hashText = (text: string): string => {
+  let hash = 0x811c9dc5;
+  for (const char of text) {
+    hash = Math.imul(hash ^ char.codePointAt(0)!, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+// Same medication of the same report, start and time => same UID, so importing an export again
+// updates its events instead of adding copies, and other prescriptions never share one
+const eventUid = (schedule: DoseSchedule, time: string, documentId = '') => {
+  const { name, strength = '' } = schedule.medication;
+  return `${hashText([name, strength, documentId].join('|'))}-${schedule.start.replace(/-/g, '')}-${time.replace(':', '')}@mediclarify`;
+};
+
+// One recurring event per medication and time of day, each with a reminder when it is due.
+// Times are floating (no time zone), so reminders follow the phone's local time when travelling.
+// `documentId` is the prescription's, to keep event UIDs apart from other prescriptions' (see eventUid).
+export const buildCalendar = (schedules: DoseSchedule[], language: Language, documentId?: string, now = new Date()): string => {
+  const t = translations[language];
+  const stamp = now.toISOString().replace(/[-:]/g, '').replace(/\.\d+/, '');
+  const events = schedules.flatMap(schedule => schedule.times.flatMap(time => {
+    const label = medicationLabel(schedule.medication);
+    const details = [
+      schedule.meal === 'with' ? t.scheduleWithFood : schedule.meal === 'without' ? t.scheduleWithoutFood : '',
+      schedule.medication.instructions || '',
+    ].filter(Boolean).join('\n');
+    const rule = `FREQ=${schedule.intervalDays === 7 ? 'WEEKLY' : 'DAILY'}${schedule.end ? `;UNTIL=${icsDate(schedule.end, '23:59')}` : ''}`;
+    return [
+      'BEGIN:VEVENT',
+      `UID:${eventUid(schedule, time, documentId)}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${icsDate(schedule.start, time)}`,
+      'DURATION:PT15M',
+      `RRULE:${rule}`,
+      `SUMMARY:${escapeText(label)}`,
+      ...(details ? [`DESCRIPTION:${escapeText(details)}`] : []),
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      `DESCRIPTION:${escapeText(t.scheduleReminder.replace('{name}', label))}`,
+      'TRIGGER:PT0S',
+      'END:VALARM',
+      'END:VEVENT',
+    ];
+  }));
+
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//MediClarify//Medication schedule//EN',
+    'CALSCALE:GREGORIAN',
+    `X-WR-CALNAME:${escapeText(t.scheduleTitle)}`,
+    ...events,
+    'END:VCALENDAR',
+  ].map(foldLine).join('\r\n') + '\r\n';
+};
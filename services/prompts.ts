@@ -0,0 +1,250 @@
+import { AnalysisData, ComparisonContext, Language, Medication, PatientProfile, ReportMetadata } from "../types";
+import { patientAge } from "../utils/patientProfile";
+
+// Helper for Full Language Names
+export const getLanguageName = (lang: Language): string => {
+  const map: Record<Language, string> = {
+    en: 'English',
+    vi: 'Vietnamese',
+    zh: 'Simplified Chinese',
+    ru: 'Russian',
+    fr: 'French'
+  };
+  return map[lang] || 'English';
+};
+
+export const CHAT_SYSTEM_INSTRUCTION = "You are a helpful, empathetic medical interpreter. You support two modes: Simple (patient-friendly) and Technical (doctor-friendly). Adjust your tone based on the user's questions. Always prioritize safety and refuse diagnosis.";
+
+const formatMetadataForChat = (metadata?: ReportMetadata): string => {
+  const details = [
+    metadata?.collectionDate && `collected ${metadata.collectionDate}`,
+    metadata?.reportDate && `reported ${metadata.reportDate}`,
+    metadata?.labName && `lab ${metadata.labName}`,
+    metadata?.orderingClinician && `ordered by ${metadata.orderingClinician}`,
+  ].filter(Boolean);
+  return `Report details: ${details.join(', ') || '(none)'}`;
+};
+
+// The user's own description of the patient, one line per detail
+const formatPatientProfile = (profile: PatientProfile): string => {
+  const age = patientAge(profile);
+  return [
+    age !== undefined && `Age: ${age}`,
+    profile.sex && `Sex: ${profile.sex}`,
+    profile.pregnancy && `Currently ${profile.pregnancy}`,
+    profile.conditions?.length && `Known conditions: ${profile.conditions.join('; ')}`,
+    profile.medications?.length && `Current medications: ${profile.medications.join('; ')}`,
+    profile.allergies?.length && `Allergies: ${profile.allergies.join('; ')}`,
+  ].filter(Boolean).join('\n      ');
+};
+
+const formatMedicationForChat = (m: Medication): string =>
+  `- ${[m.name, m.strength, m.route, m.frequency, m.duration && `for ${m.duration}`, m.instructions].filter(Boolean).join(', ')}`;
+
+const formatRadiologyForChat = ({ radiology }: AnalysisData): string => radiology ? `
+      Imaging: ${[radiology.modality, radiology.bodyRegion, radiology.technique].filter(Boolean).join(', ') || '(not stated)'}
+      Findings:
+      ${radiology.findings.map(f => `- ${f.finding}${f.location ? ` (${f.location})` : ''}${f.significance ? `, ${f.significance}` : ''}`).join('\n      ') || '(none)'}
+      Impression: ${radiology.impression || '(none)'}
+      Recommendations: ${radiology.recommendations.join('; ') || '(none)'}
+` : '';
+
+const formatDischargeForChat = ({ dischargeSummary: d }: AnalysisData): string => d ? `
+      Hospital stay: ${[d.admissionDate && `admitted ${d.admissionDate}`, d.dischargeDate && `discharged ${d.dischargeDate}`].filter(Boolean).join(', ') || '(dates not stated)'}
+      Diagnoses: ${d.diagnoses.map(x => x.primary ? `${x.name} (main)` : x.name).join('; ') || '(none)'}
+      Procedures: ${d.procedures.map(x => x.date ? `${x.name} (${x.date})` : x.name).join('; ') || '(none)'}
+      Discharge medications:
+      ${d.medications.map(formatMedicationForChat).join('\n      ') || '(none)'}
+      Follow-up: ${d.followUps.map(f => [f.description, f.with, f.when].filter(Boolean).join(', ')).join('; ') || '(none)'}
+      Warning signs: ${d.warningSigns.join('; ') || '(none)'}
+` : '';
+
+// The extracted analysis as the user sees it, with [R#] tags the model cites results by
+const formatAnalysisForChat = (analysis: AnalysisData): string => {
+  const results = analysis.results.map((r, i) => {
+    const range = r.normalRange ? `, normal range ${r.normalRange}` : '';
+    return `[R${i + 1}] ${r.test}: ${r.value}${r.unit ? ` ${r.unit}` : ''}${range}, status ${r.status}${r.notes ? ` (${r.notes})` : ''}`;
+  });
+  const medications = (analysis.medications || []).map(formatMedicationForChat);
+  const actions = (analysis.actionPlan || []).map(a => `- [${a.priority}] ${a.category}: ${a.action}`);
+
+  return `
+      STRUCTURED ANALYSIS (already shown to me on screen):
+      Document type: ${analysis.documentType}
+      ${formatMetadataForChat(analysis.metadata)}
+      Overall risk: ${analysis.overallRiskLevel} (${analysis.overallRiskScore}/100)
+      Summary: ${analysis.summary}
+
+      Results:
+      ${results.join('\n      ') || '(none)'}
+      ${medications.length > 0 ? `\n      Medications:\n      ${medications.join('\n      ')}\n` : ''}${formatRadiologyForChat(analysis)}${formatDischargeForChat(analysis)}
+      Action plan:
+      ${actions.join('\n      ') || '(none)'}
+
+      RULES FOR YOUR ANSWERS:
+      - Base your answers on these results and statuses and do not contradict them. If the document seems to disagree with them, say so explicitly.
+      - Whenever you mention a specific result, cite it with its tag, e.g. "Your glucose is high [R2]". Only use tags from the list above.
+    `;
+};
+
+// One line per result, for prompts that work from the extracted analyses rather than the documents
+const formatResultsForComparison = (analysis: AnalysisData): string =>
+  analysis.results.map(r => {
+    const range = r.normalRange ? `, normal range ${r.normalRange}` : '';
+    return `- ${r.test}: ${r.value}${r.unit ? ` ${r.unit}` : ''}${range}, status ${r.status}`;
+  }).join('\n      ') || '(none)';
+
+const formatReportForComparison = (label: string, analysis: AnalysisData): string => `
+      ${label} (${analysis.documentType})
+      ${formatMetadataForChat(analysis.metadata)}
+      Overall risk: ${analysis.overallRiskLevel} (${analysis.overallRiskScore}/100)
+      Summary: ${analysis.summary}
+      Abnormal findings: ${analysis.abnormalFindings.join('; ') || '(none)'}
+      Results:
+      ${formatResultsForComparison(analysis)}
+    `;
+
+// Earlier report and the comparison narrative the user saw on the Comparison page
+const formatComparisonForChat = ({ previous, narrative }: ComparisonContext): string => `
+      COMPARISON WITH AN EARLIER REPORT (already shown to me on screen):
+      ${formatReportForComparison('EARLIER REPORT', previous)}
+      Changes: ${narrative.summary}
+      Improved: ${narrative.improved.join('; ') || '(none)'}
+      Worsened: ${narrative.worsened.join('; ') || '(none)'}
+      New: ${narrative.newFindings.join('; ') || '(none)'}
+      No longer present: ${narrative.resolved.join('; ') || '(none)'}
+      When I ask about changes, answer from this comparison. Do not cite earlier results with [R#] tags.
+    `;
+
+// First user turn of every chat: the document, the analysis shown to the user and the answer language.
+// `comparison` is added once the user has compared this report with an earlier one, `profile` when the user filled one in.
+export const buildChatContextText = (
+  language: Language,
+  analysis?: AnalysisData,
+  comparison?: ComparisonContext,
+  profile?: PatientProfile
+): string => {
+  const intro = `This is my medical document. I may have follow-up questions. Please answer in ${getLanguageName(language)}.`;
+  const about = profile && `
+      ABOUT ME:
+      ${formatPatientProfile(profile)}
+      Take this into account in your answers (e.g. ranges for my age and sex, my conditions and medications), and say when it matters.
+    `;
+  return [intro, about, analysis && formatAnalysisForChat(analysis), comparison && formatComparisonForChat(comparison)]
+    .filter(Boolean)
+    .join('\n');
+};
+
+// Text-only comparison of two analyses; the documents themselves are not sent again
+export const buildComparisonPrompt = (language: Language, previous: AnalysisData, current: AnalysisData): string => `
+      You are a medical interpreter helping a patient understand how their results changed between two reports.
+      Output Language: ${getLanguageName(language)}
+
+      ${formatReportForComparison('EARLIER REPORT', previous)}
+      ${formatReportForComparison('LATER REPORT', current)}
+
+      TASK: Return a JSON object comparing the LATER report with the EARLIER one.
+      - 'improved': results that moved toward or back into the normal range.
+      - 'worsened': results that moved away from or out of the normal range.
+      - 'newFindings': tests or findings that appear only in the later report.
+      - 'resolved': tests or findings that appear only in the earlier report, or abnormal findings that are gone.
+      - 'suggestedQuestions': 3-5 short questions the patient could ask their doctor about these changes.
+
+      RULES:
+      - Quote both values with their units for every change, e.g. "Glucose: 130 → 98 mg/dL".
+      - Units may differ between labs; only call a change significant if you are sure the values are comparable.
+      - Use simple language. Do not diagnose.
+      - Leave a list empty rather than inventing items.
+    `;
+
+// Canned model turn used to seed a brand new chat
+export const buildChatGreetingText = (language: Language): string =>
+  `I have analyzed your document. I am ready to answer your questions in ${getLanguageName(language)}. I am an AI, not a doctor.`;
+
+// `profile` personalizes the interpretation; leave it out when the user hasn't filled one in
+export const buildAnalysisPrompt = (language: Language, profile?: PatientProfile): string => {
+  const langName = getLanguageName(language);
+  const patient = profile ? `
+      PATIENT PROFILE (provided by the patient):
+      ${formatPatientProfile(profile)}
+      - Interpret results for this patient: where the printed range does not fit their age, sex or pregnancy (e.g. pregnancy-specific ranges), say so in the result's 'notes' and explanations, but keep 'status' based on the printed range.
+      - Mention in explanations and the action plan when a result matters because of a known condition or current medication. Flag prescribed drugs the patient is allergic to as 'High' priority 'Medical' actions.
+      - If the age or sex printed on the document clearly contradicts this profile, add a note to 'errorsDetected' (the document may belong to someone else).
+` : '';
+  return `
+      You are an advanced medical diagnostic assistant API. 
+      Output Language: ${langName}
+
+      TASK: Analyze the provided medical document (Lab Results, Report, etc.) and return a structured JSON response.
+
+      IMPORTANT - CLASSIFICATION:
+      - You MUST classify the document into one of these types: "Blood Test", "Urinalysis", "Prescription", "Radiology Report", "Discharge Summary", or "Other".
+
+      REPORT DETAILS:
+      - Fill 'metadata' with what is printed on the document: specimen collection date, report date, lab name, ordering clinician, and the patient's name, age and sex.
+      - Write dates as YYYY-MM-DD. Leave out anything that is not printed; never guess.
+      - Keep names exactly as printed (do not translate them).
+${patient}
+      PRESCRIPTIONS:
+      - If the document is a "Prescription", list every drug in 'medications' (name, generic and brand name, strength, form, route, frequency, duration, quantity, refills, instructions) and leave 'results' empty.
+      - Keep drug names and strengths exactly as printed; never guess a dose that is not written.
+      - Put anything hard to read (e.g. an illegible dose) in 'errorsDetected'.
+
+      RADIOLOGY REPORTS:
+      - If the document is a "Radiology Report", fill 'radiology': modality, body region, technique, each finding (with its location, significance and a simple explanation), the impression as written plus a simple version, and the radiologist's recommendations. Leave 'results' empty unless measurements are reported.
+
+      DISCHARGE SUMMARIES:
+      - If the document is a "Discharge Summary", fill 'dischargeSummary': admission and discharge dates, diagnoses (mark the main one as primary), procedures, medications to take after discharge, follow-up appointments, and the warning signs that mean the patient should seek care. Explain diagnoses and procedures simply.
+      - Lab values listed in the summary still go in 'results'.
+
+      SAFETY & ACCURACY RULES:
+      1. **10x Outlier Check**: If a value is >10x the upper limit of the normal range, flag it as 'critical' status and add a note: "Possible OCR/Data error: Value is >10x normal limit."
+      2. **Unit Consistency**: Check if units match (e.g., result in mg/dL vs range in mmol/L). If mismatched, set status 'unknown' and note it.
+      3. **Impossible Values**: If a value is biologically impossible (e.g., pH 14 in blood), flag as error.
+      4. **No Diagnosis**: Do not provide a diagnosis. Only interpret the data relative to the provided ranges.
+
+      DUAL MODE EXPLANATION:
+      - For each result, provide TWO explanations:
+        1. 'explanation': Simple, non-medical language (for a 12-year-old).
+        2. 'technicalExplanation': Clinical terminology and physiological context (for a doctor).
+
+      VISUALIZATION DATA:
+      - Extract 'numericValue', 'rangeLow', and 'rangeHigh' whenever possible to allow drawing charts.
+      - If range is "< 5.0", rangeLow = 0, rangeHigh = 5.0.
+      
+      RISK ASSESSMENT:
+      - Calculate an 'overallRiskScore' (0-100) based on the number and severity of abnormal results.
+      - Assign 'overallRiskLevel': 'low' (all normal), 'moderate' (minor issues), 'high' (concerning values), 'critical' (urgent values).
+
+      ACTION PLAN GENERATION:
+      - Generate a structured 'actionPlan' based on abnormal/critical findings.
+      - **Merge & Consolidate**: Group duplicate or related actions (e.g., combine multiple diet advice into one).
+      - **Categorization Rule**: Group into 'Medical', 'Diet', 'Lifestyle', or 'Data Verification'.
+      - **Priority Rule**: Sort High -> Medium -> Low.
+      - **Clarity**: Keep actions short, specific, and actionable.
+
+      SMART GLOSSARY:
+      - Identify 3-5 complex terms (e.g. Leukocytes, Creatinine) and define them simply.
+
+      EXPORT PREPARATION:
+      - Fill 'printableReport' with a clean Markdown formatted string. 
+      - Include: Patient Summary, Risk Score, Bullet list of Abnormal Findings, and the consolidated Action Plan.
+      - Do not use JSON syntax in 'printableReport'.
+
+      Analyze the attached image/PDF and return the JSON.
+    `;
+};
+
+// Text-only translation of an existing analysis; texts go out and come back as a JSON array
+export const buildTranslationPrompt = (language: Language, texts: string[]): string => `
+      You are a professional medical translator.
+      Translate every string in the JSON array below into ${getLanguageName(language)}.
+
+      RULES:
+      - Return a JSON object of the form {"translations": [...]} with exactly ${texts.length} strings, in the same order.
+      - Keep numbers, units, reference ranges, lab codes and Markdown formatting exactly as they are.
+      - Keep the tone: simple explanations stay simple, clinical explanations stay clinical.
+      - If a string is already in ${getLanguageName(language)}, return it unchanged.
+
+      ${JSON.stringify(texts)}
+    `;
@@ -0,0 +1,183 @@
+import { GoogleGenAI, Type } from "@google/genai";
+import { AnalysisData, ChatMessage, ComparisonContext, Language, PatientProfile } from "../../types";
+import { analysisSchema, comparisonSchema } from "../analysisSchema";
+import { buildAnalysisPrompt, buildChatContextText, buildChatGreetingText, buildComparisonPrompt, buildTranslationPrompt, CHAT_SYSTEM_INSTRUCTION } from "../prompts";
+import { throwIfAborted } from "../../utils/abort";
+import { AIProvider, DocumentInput, ProviderChatSession } from "./types";
+
+const ANALYSIS_MODEL = "gemini-3-pro-preview";
+const CHAT_MODEL = "gemini-2.5-flash";
+const RESTORED_CHAT_MODEL = "gemini-3-pro-preview";
+const TRANSLATION_MODEL = "gemini-2.5-flash"; // Text only, so the fast model is enough
+const COMPARISON_MODEL = "gemini-2.5-flash"; // Works from the two extracted analyses, not the documents
+
+// Helper to get client (handling dynamic API key)
+const getAiClient = (customKey?: string) => {
+  const key = customKey || process.env.API_KEY;
+  if (!key) {
+    console.warn("No API Key available");
+  }
+  return new GoogleGenAI({ apiKey: key });
+};
+
+const documentPart = (document: DocumentInput) => ({
+  inlineData: {
+    mimeType: document.mimeType,
+    data: document.base64Data,
+  },
+});
+
+export const createGeminiProvider = (apiKey?: string): AIProvider => {
+  const analyzeDocument = async (
+    document: DocumentInput,
+    language: Language,
+    onText?: (textSoFar: string) => void,
+    signal?: AbortSignal,
+    profile?: PatientProfile
+  ): Promise<string> => {
+    const ai = getAiClient(apiKey);
+
+    const stream = await ai.models.generateContentStream({
+      model: ANALYSIS_MODEL,
+      contents: {
+        parts: [
+          documentPart(document),
+          { text: buildAnalysisPrompt(language, profile) },
+        ],
+      },
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: analysisSchema,
+        temperature: 0.0, // Zero temp for maximum data extraction accuracy
+        abortSignal: signal,
+      },
+    });
+
+    let text = '';
+    for await (const chunk of stream) {
+      throwIfAborted(signal);
+      if (!chunk.text) continue;
+      text += chunk.text;
+      onText?.(text);
+    }
+
+    if (!text) {
+      throw new Error("No response generated");
+    }
+
+    return text;
+  };
+
+  const translateStrings = async (texts: string[], language: Language, signal?: AbortSignal): Promise<unknown[]> => {
+    const ai = getAiClient(apiKey);
+
+    const response = await ai.models.generateContent({
+      model: TRANSLATION_MODEL,
+      contents: buildTranslationPrompt(language, texts),
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            translations: { type: Type.ARRAY, items: { type: Type.STRING } },
+          },
+          required: ["translations"],
+        },
+        temperature: 0.0,
+        abortSignal: signal,
+      },
+    });
+
+    if (!response.text) {
+      throw new Error("No response generated");
+    }
+
+    return JSON.parse(response.text).translations || [];
+  };
+
+  const compareAnalyses = async (
+    previous: AnalysisData,
+    current: AnalysisData,
+    language: Language,
+    signal?: AbortSignal
+  ): Promise<string> => {
+    const ai = getAiClient(apiKey);
+
+    const response = await ai.models.generateContent({
+      model: COMPARISON_MODEL,
+      contents: buildComparisonPrompt(language, previous, current),
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: comparisonSchema,
+        temperature: 0.2,
+        abortSignal: signal,
+      },
+    });
+
+    if (!response.text) {
+      throw new Error("No response generated");
+    }
+
+    return response.text;
+  };
+
+  const createChat = (
+    document: DocumentInput,
+    language: Language,
+    history: ChatMessage[],
+    analysis?: AnalysisData,
+    comparison?: ComparisonContext,
+    profile?: PatientProfile
+  ): ProviderChatSession => {
+    const ai = getAiClient(apiKey);
+
+    // Start with the Document context
+    const historyParts: any[] = [
+      {
+        role: "user",
+        parts: [documentPart(document), { text: buildChatContextText(language, analysis, comparison, profile) }],
+      },
+    ];
+
+    if (history.length === 0) {
+      historyParts.push({
+        role: "model",
+        parts: [{ text: buildChatGreetingText(language) }],
+      });
+    } else {
+      // Note: We do NOT add the canned greeting here because
+      // the restored chatHistory likely contains the model's greeting/initial response.
+      // If we added it, we'd have duplicate model messages.
+      history.forEach(msg => {
+        historyParts.push({
+          role: msg.role,
+          parts: [{ text: msg.text }]
+        });
+      });
+    }
+
+    const chat = ai.chats.create({
+      model: history.length === 0 ? CHAT_MODEL : RESTORED_CHAT_MODEL,
+      history: historyParts,
+      config: {
+        systemInstruction: CHAT_SYSTEM_INSTRUCTION
+      }
+    });
+
+    return {
+      sendMessage: async (message: string, onText?: (textSoFar: string) => void, signal?: AbortSignal) => {
+        const stream = await chat.sendMessageStream({ message, config: { abortSignal: signal } });
+        let text = '';
+        for await (const chunk of stream) {
+          throwIfAborted(signal);
+          if (!chunk.text) continue;
+          text += chunk.text;
+          onText?.(text);
+        }
+        return text || "I'm sorry, I couldn't understand that.";
+      }
+    };
+  };
+
+  return { analyzeDocument, translateStrings, compareAnalyses, createChat };
+};
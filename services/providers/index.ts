@@ -0,0 +1,22 @@
+import { UserSettings } from "../../types";
+import { createGeminiProvider } from "./geminiProvider";
+import { createMockProvider } from "./mockProvider";
+import { createOpenAICompatibleProvider, DEFAULT_OPENAI_BASE_URL, DEFAULT_OPENAI_MODEL } from "./openAICompatibleProvider";
+import { AIProvider } from "./types";
+
+// Resolve the backend selected in settings. Gemini stays the default.
+export const getProvider = (settings: UserSettings): AIProvider => {
+  switch (settings.provider) {
+    case 'openai':
+      return createOpenAICompatibleProvider({
+        baseUrl: settings.openaiBaseUrl || DEFAULT_OPENAI_BASE_URL,
+        model: settings.openaiModel || DEFAULT_OPENAI_MODEL,
+        apiKey: settings.openaiApiKey,
+      });
+    case 'mock':
+      return createMockProvider();
+    case 'gemini':
+    default:
+      return createGeminiProvider(settings.apiKey);
+  }
+};
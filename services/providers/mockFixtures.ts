@@ -0,0 +1,152 @@
+import { AnalysisData } from "../../types";
+
+// Fixed blood test used by the mock provider for offline demos and development.
+// Keep it small but covering every UI state: normal, high, low, critical and a data warning.
+export const MOCK_ANALYSIS: AnalysisData = {
+  documentType: 'Blood Test',
+  metadata: {
+    collectionDate: '2024-03-12',
+    reportDate: '2024-03-13',
+    labName: 'City Diagnostics Laboratory',
+    orderingClinician: 'Dr. A. Nguyen',
+    patientName: 'Sample Patient',
+    patientAge: '54 y',
+    patientSex: 'M',
+  },
+  summary: "Most of your blood values are within the expected ranges. Your blood sugar and LDL cholesterol are above the reference range, and your vitamin D is slightly low. One potassium value looks implausible and should be checked against the original report.",
+  overallRiskLevel: 'moderate',
+  overallRiskScore: 42,
+  results: [
+    {
+      test: "Hemoglobin",
+      value: "14.2",
+      normalRange: "13.5 - 17.5",
+      status: 'normal',
+      severity: 'none',
+      confidence: 98,
+      explanation: "Hemoglobin carries oxygen in your blood. Your level is healthy.",
+      technicalExplanation: "Hemoglobin within reference interval; no evidence of anemia or polycythemia.",
+      numericValue: 14.2,
+      rangeLow: 13.5,
+      rangeHigh: 17.5,
+      unit: "g/dL"
+    },
+    {
+      test: "Fasting Glucose",
+      value: "118",
+      normalRange: "70 - 99",
+      status: 'high',
+      severity: 'mild',
+      confidence: 97,
+      explanation: "This is the sugar in your blood after not eating. It is a bit higher than it should be.",
+      technicalExplanation: "Fasting plasma glucose 100-125 mg/dL is consistent with impaired fasting glucose; consider HbA1c.",
+      numericValue: 118,
+      rangeLow: 70,
+      rangeHigh: 99,
+      unit: "mg/dL"
+    },
+    {
+      test: "LDL Cholesterol",
+      value: "162",
+      normalRange: "< 100",
+      status: 'high',
+      severity: 'moderate',
+      confidence: 95,
+      explanation: "LDL is the 'bad' cholesterol that can build up in blood vessels. Yours is high.",
+      technicalExplanation: "LDL-C 160-189 mg/dL is classified as high; cardiovascular risk assessment recommended.",
+      numericValue: 162,
+      rangeLow: 0,
+      rangeHigh: 100,
+      unit: "mg/dL"
+    },
+    {
+      test: "Creatinine",
+      value: "0.9",
+      normalRange: "0.7 - 1.3",
+      status: 'normal',
+      severity: 'none',
+      confidence: 96,
+      explanation: "Creatinine shows how well your kidneys filter waste. Your kidneys look fine.",
+      technicalExplanation: "Serum creatinine within reference interval; estimated GFR likely preserved.",
+      numericValue: 0.9,
+      rangeLow: 0.7,
+      rangeHigh: 1.3,
+      unit: "mg/dL"
+    },
+    {
+      test: "Vitamin D (25-OH)",
+      value: "24",
+      normalRange: "30 - 100",
+      status: 'low',
+      severity: 'mild',
+      confidence: 93,
+      explanation: "Vitamin D keeps your bones strong. Your level is a little low.",
+      technicalExplanation: "25-hydroxyvitamin D 20-29 ng/mL indicates insufficiency.",
+      numericValue: 24,
+      rangeLow: 30,
+      rangeHigh: 100,
+      unit: "ng/mL"
+    },
+    {
+      test: "Potassium",
+      value: "58",
+      normalRange: "3.5 - 5.1",
+      status: 'critical',
+      severity: 'critical',
+      confidence: 60,
+      explanation: "Potassium helps your muscles and heart work. This number looks far too high and may be a typo.",
+      technicalExplanation: "Reported value exceeds the upper reference limit more than 10-fold; likely a transcription error (5.8?).",
+      notes: "Possible OCR/Data error: Value is >10x normal limit.",
+      numericValue: 58,
+      rangeLow: 3.5,
+      rangeHigh: 5.1,
+      unit: "mmol/L"
+    }
+  ],
+  abnormalFindings: [
+    "Fasting glucose is above the reference range.",
+    "LDL cholesterol is high.",
+    "Vitamin D is slightly low.",
+    "Potassium value is implausible and needs verification."
+  ],
+  suggestedQuestions: [
+    "Should I get an HbA1c test to check my blood sugar over time?",
+    "Do I need treatment for my LDL cholesterol or can diet help first?",
+    "Should I take a vitamin D supplement?",
+    "Can we repeat the potassium test to confirm the value?"
+  ],
+  errorsDetected: [
+    "Potassium value of 58 mmol/L is not physiologically possible."
+  ],
+  actionPlan: [
+    { category: 'Data Verification', priority: 'High', action: "Confirm the potassium value with the laboratory." },
+    { category: 'Medical', priority: 'High', action: "Discuss blood sugar and cholesterol results with your doctor." },
+    { category: 'Diet', priority: 'Medium', action: "Reduce refined sugar and saturated fat intake." },
+    { category: 'Lifestyle', priority: 'Medium', action: "Aim for 150 minutes of moderate exercise weekly." },
+    { category: 'Lifestyle', priority: 'Low', action: "Spend some time outdoors in daylight." }
+  ],
+  glossary: [
+    { term: "Creatinine", definition: "A waste product your kidneys remove from the blood." },
+    { term: "LDL", definition: "Low-density lipoprotein, the cholesterol that can clog arteries." },
+    { term: "HbA1c", definition: "A test showing your average blood sugar over about three months." }
+  ],
+  printableReport: `# MediClarify Report (Demo)
+
+## Summary
+Most values are normal. Blood sugar and LDL cholesterol are high, vitamin D is slightly low.
+
+**Risk Score:** 42/100 (Moderate)
+
+## Abnormal Findings
+- Fasting Glucose: 118 mg/dL (70 - 99)
+- LDL Cholesterol: 162 mg/dL (< 100)
+- Vitamin D: 24 ng/mL (30 - 100)
+- Potassium: 58 mmol/L (3.5 - 5.1) - likely data error
+
+## Action Plan
+- **High:** Confirm the potassium value with the laboratory.
+- **High:** Discuss blood sugar and cholesterol results with your doctor.
+- **Medium:** Reduce refined sugar and saturated fat intake.
+- **Medium:** Aim for 150 minutes of moderate exercise weekly.
+`
+};
@@ -0,0 +1,116 @@
+import { AnalysisData, ChatMessage, Language, MedicalTestResult } from "../../types";
+import { AIProvider, DocumentInput, ProviderChatSession } from "./types";
+import { MOCK_ANALYSIS } from "./mockFixtures";
+import { abortableDelay } from "../../utils/abort";
+
+// Short fixed delay so loading states are still visible in demos
+const MOCK_LATENCY_MS = 600;
+
+const simulateLatency = (signal?: AbortSignal) => abortableDelay(MOCK_LATENCY_MS, signal);
+
+// Deterministic reply: mention any result named in the question, otherwise list the abnormal ones.
+// Results are cited with the same [R#] tags real providers are asked to use.
+const buildMockReply = (message: string, results: MedicalTestResult[]): string => {
+  const lower = message.toLowerCase();
+  const tagged = results.map((r, i) => ({ result: r, tag: `[R${i + 1}]` }));
+  const mentioned = tagged.filter(({ result }) => lower.includes(result.test.toLowerCase().split(' ')[0]));
+
+  if (mentioned.length === 0) {
+    const abnormal = tagged.filter(({ result }) => result.status !== 'normal');
+    const list = abnormal.map(({ result, tag }) => `${result.test} (${result.status}) ${tag}`).join(', ');
+    return `This is a demo response from the mock provider. ${list ? `Results that need attention: ${list}.` : 'All results are within range.'} Please discuss these with your doctor.`;
+  }
+
+  return mentioned
+    .map(({ result: r, tag }) => `**${r.test}** ${tag}: ${r.value} ${r.unit || ''} (range ${r.normalRange}) - ${r.explanation}`)
+    .join('\n\n');
+};
+
+// Stream the fixture in fixed-size pieces so progressive rendering can be tried without a model
+const MOCK_STREAM_CHUNKS = 40;
+const MOCK_CHUNK_DELAY_MS = 60;
+
+export const createMockProvider = (): AIProvider => {
+  const analyzeDocument = async (
+    _document: DocumentInput,
+    _language: Language,
+    onText?: (textSoFar: string) => void,
+    signal?: AbortSignal
+  ): Promise<string> => {
+    await simulateLatency(signal);
+    const text = JSON.stringify(MOCK_ANALYSIS);
+
+    if (onText) {
+      const chunkSize = Math.ceil(text.length / MOCK_STREAM_CHUNKS);
+      for (let end = chunkSize; end < text.length; end += chunkSize) {
+        onText(text.slice(0, end));
+        await abortableDelay(MOCK_CHUNK_DELAY_MS, signal);
+      }
+      onText(text);
+    }
+
+    return text;
+  };
+
+  // Tags each text with the target language so demo translations are recognisable
+  const translateStrings = async (texts: string[], language: Language, signal?: AbortSignal): Promise<unknown[]> => {
+    await simulateLatency(signal);
+    return texts.map(text => `[${language.toUpperCase()}] ${text}`);
+  };
+
+  // Sorts results by name into the narrative's lists so the Comparison page can be tried without a model
+  const compareAnalyses = async (
+    previous: AnalysisData,
+    current: AnalysisData,
+    _language: Language,
+    signal?: AbortSignal
+  ): Promise<string> => {
+    await simulateLatency(signal);
+    const describe = (before: MedicalTestResult, after: MedicalTestResult) =>
+      `${after.test}: ${before.value} → ${after.value}${after.unit ? ` ${after.unit}` : ''}`;
+    const find = (results: MedicalTestResult[], test: string) =>
+      results.find(r => r.test.toLowerCase() === test.toLowerCase());
+
+    const improved: string[] = [];
+    const worsened: string[] = [];
+    current.results.forEach(after => {
+      const before = find(previous.results, after.test);
+      if (!before || before.status === after.status) return;
+      (after.status === 'normal' ? improved : worsened).push(describe(before, after));
+    });
+
+    return JSON.stringify({
+      summary: `This is a demo comparison from the mock provider. The risk score went from ${previous.overallRiskScore} to ${current.overallRiskScore}.`,
+      improved,
+      worsened,
+      newFindings: current.results.filter(r => !find(previous.results, r.test)).map(r => r.test),
+      resolved: previous.results.filter(r => !find(current.results, r.test)).map(r => r.test),
+      suggestedQuestions: ['What could explain these changes?', 'When should I repeat these tests?'],
+    });
+  };
+
+  const createChat = (
+    _document: DocumentInput,
+    _language: Language,
+    _history: ChatMessage[],
+    analysis?: AnalysisData
+  ): ProviderChatSession => ({
+    sendMessage: async (message: string, onText?: (textSoFar: string) => void, signal?: AbortSignal) => {
+      await simulateLatency(signal);
+      const reply = buildMockReply(message, (analysis || MOCK_ANALYSIS).results);
+
+      if (onText) {
+        // Word by word, like a model streaming tokens
+        const words = reply.split(' ');
+        for (let i = 1; i <= words.length; i++) {
+          onText(words.slice(0, i).join(' '));
+          await abortableDelay(MOCK_CHUNK_DELAY_MS, signal);
+        }
+      }
+
+      return reply;
+    }
+  });
+
+  return { analyzeDocument, translateStrings, compareAnalyses, createChat };
+};
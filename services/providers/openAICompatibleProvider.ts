@@ -0,0 +1,224 @@
+import { AnalysisData, ChatMessage, ComparisonContext, Language, PatientProfile } from "../../types";
+import { analysisSchema, comparisonSchema } from "../analysisSchema";
+import { buildAnalysisPrompt, buildChatContextText, buildChatGreetingText, buildComparisonPrompt, buildTranslationPrompt, CHAT_SYSTEM_INSTRUCTION } from "../prompts";
+import { AIProvider, DocumentInput, ProviderChatSession } from "./types";
+
+export const DEFAULT_OPENAI_BASE_URL = "http://localhost:11434/v1"; // Ollama
+export const DEFAULT_OPENAI_MODEL = "llava";
+
+export interface OpenAICompatibleConfig {
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+}
+
+type OpenAIContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+interface OpenAIMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string | OpenAIContentPart[];
+}
+
+// Only images can be sent to vision models through the chat completions API.
+// PDFs are described in text so the conversation still works, but analysis rejects them.
+const documentParts = (document: DocumentInput, text: string, strict: boolean): OpenAIContentPart[] => {
+  if (document.mimeType.startsWith('image/')) {
+    return [
+      { type: 'image_url', image_url: { url: `data:${document.mimeType};base64,${document.base64Data}` } },
+      { type: 'text', text },
+    ];
+  }
+  if (strict) {
+    throw new Error(`The OpenAI-compatible provider cannot read ${document.mimeType} documents. Please upload an image.`);
+  }
+  return [{ type: 'text', text: `${text}\n(The original ${document.mimeType} document could not be attached.)` }];
+};
+
+const requestChatCompletion = async (
+  config: OpenAICompatibleConfig,
+  messages: OpenAIMessage[],
+  jsonMode: boolean,
+  stream: boolean,
+  signal?: AbortSignal
+): Promise<Response> => {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (config.apiKey) {
+    headers['Authorization'] = `Bearer ${config.apiKey}`;
+  }
+
+  const response = await fetch(`${config.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+    method: 'POST',
+    headers,
+    signal,
+    body: JSON.stringify({
+      model: config.model,
+      messages,
+      stream,
+      temperature: jsonMode ? 0 : 0.7,
+      ...(jsonMode ? { response_format: { type: 'json_object' } } : {}),
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Provider request failed (${response.status}): ${await response.text()}`);
+  }
+
+  return response;
+};
+
+const postChatCompletion = async (
+  config: OpenAICompatibleConfig,
+  messages: OpenAIMessage[],
+  jsonMode: boolean,
+  signal?: AbortSignal
+): Promise<string> => {
+  const response = await requestChatCompletion(config, messages, jsonMode, false, signal);
+  const json = await response.json();
+  return json.choices?.[0]?.message?.content || '';
+};
+
+// Reads a server-sent event stream of completion deltas, reporting the accumulated text as it grows
+const streamChatCompletion = async (
+  config: OpenAICompatibleConfig,
+  messages: OpenAIMessage[],
+  jsonMode: boolean,
+  onText: (textSoFar: string) => void,
+  signal?: AbortSignal
+): Promise<string> => {
+  const response = await requestChatCompletion(config, messages, jsonMode, true, signal);
+  if (!response.body) {
+    throw new Error("Provider returned an empty stream");
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let text = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    // Events are newline-delimited; keep the trailing partial line for the next read
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+
+    for (const line of lines) {
+      const trimmed = line.trim();
+      if (!trimmed.startsWith('data:')) continue;
+      const data = trimmed.slice('data:'.length).trim();
+      if (data === '[DONE]') continue;
+      const delta = JSON.parse(data).choices?.[0]?.delta?.content;
+      if (delta) {
+        text += delta;
+        onText(text);
+      }
+    }
+  }
+
+  return text;
+};
+
+export const createOpenAICompatibleProvider = (config: OpenAICompatibleConfig): AIProvider => {
+  const analyzeDocument = async (
+    document: DocumentInput,
+    language: Language,
+    onText?: (textSoFar: string) => void,
+    signal?: AbortSignal,
+    profile?: PatientProfile
+  ): Promise<string> => {
+    // No native response schema support, so the schema travels inside the prompt
+    const prompt = `${buildAnalysisPrompt(language, profile)}
+      Respond with a single JSON object that conforms to this schema:
+      ${JSON.stringify(analysisSchema)}
+    `;
+
+    const messages: OpenAIMessage[] = [
+      { role: 'user', content: documentParts(document, prompt, true) },
+    ];
+    const text = onText
+      ? await streamChatCompletion(config, messages, true, onText, signal)
+      : await postChatCompletion(config, messages, true, signal);
+
+    if (!text) {
+      throw new Error("No response generated");
+    }
+
+    return text;
+  };
+
+  const translateStrings = async (texts: string[], language: Language, signal?: AbortSignal): Promise<unknown[]> => {
+    const text = await postChatCompletion(config, [
+      { role: 'user', content: buildTranslationPrompt(language, texts) },
+    ], true, signal);
+
+    if (!text) {
+      throw new Error("No response generated");
+    }
+
+    return JSON.parse(text).translations || [];
+  };
+
+  const compareAnalyses = async (
+    previous: AnalysisData,
+    current: AnalysisData,
+    language: Language,
+    signal?: AbortSignal
+  ): Promise<string> => {
+    const prompt = `${buildComparisonPrompt(language, previous, current)}
+      Respond with a single JSON object that conforms to this schema:
+      ${JSON.stringify(comparisonSchema)}
+    `;
+    const text = await postChatCompletion(config, [{ role: 'user', content: prompt }], true, signal);
+
+    if (!text) {
+      throw new Error("No response generated");
+    }
+
+    return text;
+  };
+
+  const createChat = (
+    document: DocumentInput,
+    language: Language,
+    history: ChatMessage[],
+    analysis?: AnalysisData,
+    comparison?: ComparisonContext,
+    profile?: PatientProfile
+  ): ProviderChatSession => {
+    const messages: OpenAIMessage[] = [
+      { role: 'system', content: CHAT_SYSTEM_INSTRUCTION },
+      { role: 'user', content: documentParts(document, buildChatContextText(language, analysis, comparison, profile), false) },
+    ];
+
+    if (history.length === 0) {
+      messages.push({ role: 'assistant', content: buildChatGreetingText(language) });
+    } else {
+      history.forEach(msg => {
+        messages.push({ role: msg.role === 'model' ? 'assistant' : 'user', content: msg.text });
+      });
+    }
+
+    return {
+      sendMessage: async (message: string, onText?: (textSoFar: string) => void, signal?: AbortSignal) => {
+        messages.push({ role: 'user', content: message });
+        try {
+          const reply = onText
+            ? await streamChatCompletion(config, messages, false, onText, signal)
+            : await postChatCompletion(config, messages, false, signal);
+          messages.push({ role: 'assistant', content: reply });
+          return reply || "I'm sorry, I couldn't understand that.";
+        } catch (error) {
+          // Drop the unanswered turn so a retry doesn't send it twice
+          messages.pop();
+          throw error;
+        }
+      }
+    };
+  };
+
+  return { analyzeDocument, translateStrings, compareAnalyses, createChat };
+};
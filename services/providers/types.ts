@@ -0,0 +1,54 @@
+import { AnalysisData, ChatMessage, ComparisonContext, Language, PatientProfile } from "../../types";
+
+// The document a provider analyzes or chats about
+export interface DocumentInput {
+  base64Data: string;
+  mimeType: string;
+}
+
+export interface AnalysisProvider {
+  // Resolves with the raw JSON text from the model; validation happens in geminiService.
+  // `onText` receives the accumulated text each time more of the response arrives.
+  // Aborting `signal` stops the request and rejects with an AbortError.
+  // `profile` (see buildAnalysisPrompt) personalizes the interpretation.
+  analyzeDocument: (
+    document: DocumentInput,
+    language: Language,
+    onText?: (textSoFar: string) => void,
+    signal?: AbortSignal,
+    profile?: PatientProfile
+  ) => Promise<string>;
+
+  // Text-only translation used to produce other language versions of an existing analysis.
+  // Resolves with one string per input, in order (checked by analysisTranslation).
+  translateStrings: (texts: string[], language: Language, signal?: AbortSignal) => Promise<unknown[]>;
+
+  // Text-only narrative of what changed from `previous` to `current`.
+  // Resolves with the raw JSON text (see comparisonSchema); validation happens in geminiService.
+  compareAnalyses: (previous: AnalysisData, current: AnalysisData, language: Language, signal?: AbortSignal) => Promise<string>;
+}
+
+export interface ProviderChatSession {
+  // `onText` and `signal` behave as in analyzeDocument
+  sendMessage: (
+    message: string,
+    onText?: (textSoFar: string) => void,
+    signal?: AbortSignal
+  ) => Promise<string>;
+}
+
+export interface ChatProvider {
+  // An empty history starts a fresh conversation seeded with the provider's greeting.
+  // `analysis` grounds the conversation in the results the user is looking at, and `comparison`
+  // in the user's comparison of this report with an earlier one, and `profile` in who the patient is.
+  createChat: (
+    document: DocumentInput,
+    language: Language,
+    history: ChatMessage[],
+    analysis?: AnalysisData,
+    comparison?: ComparisonContext,
+    profile?: PatientProfile
+  ) => ProviderChatSession;
+}
+
+export type AIProvider = AnalysisProvider & ChatProvider;
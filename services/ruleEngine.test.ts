@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { AnalysisData, MedicalTestResult } from '../types';
+import { withAnalysisDefaults } from './analysisStream';
+import { applyLocalRules } from './ruleEngine';
+
+const result = (fields: Partial<MedicalTestResult>): MedicalTestResult => ({
+  test: 'Glucose',
+  value: String(fields.numericValue ?? ''),
+  unit: 'mg/dL',
+  normalRange: '70 - 99 mg/dL',
+  status: 'normal',
+  explanation: '',
+  confidence: 90,
+  rangeLow: 70,
+  rangeHigh: 99,
+  ...fields,
+});
+
+const check = (results: MedicalTestResult[], fields: Partial<AnalysisData> = {}) =>
+  applyLocalRules(withAnalysisDefaults({ documentType: 'Blood Test', results, ...fields }), 'en');
+
+const checkOne = (fields: Partial<MedicalTestResult>, analysis: Partial<AnalysisData> = {}) => {
+  const data = check([result(fields)], analysis);
+  return { result: data.results[0], errors: data.errorsDetected };
+};
+
+describe('applyLocalRules', () => {
+  it('marks physiologically impossible values as unknown and reports them', () => {
+    const { result: checked, errors } = checkOne({ numericValue: 5000, status: 'critical', severity: 'critical' });
+    expect(checked).toMatchObject({ status: 'unknown', severity: undefined, ruleOverride: { rule: 'impossible', aiStatus: 'critical' } });
+    expect(checked.notes).toContain('physiologically impossible');
+    expect(errors).toHaveLength(1);
+  });
+
+  it('only applies impossible bounds for the document type they belong to', () => {
+    const urine = { test: 'pH', unit: '', normalRange: '5.0 - 8.0', rangeLow: 5, rangeHigh: 8 };
+    expect(checkOne({ ...urine, numericValue: 5.5 }, { documentType: 'Urinalysis' }).result.ruleOverride).toBeUndefined();
+    expect(checkOne({ ...urine, numericValue: 5.5 }, { documentType: 'Blood Test' }).result.ruleOverride?.rule).toBe('impossible');
+  });
+
+  it('marks results whose unit differs from the range unit as unknown', () => {
+    const { result: checked, errors } = checkOne({ numericValue: 5.5, unit: 'mmol/L', status: 'high' });
+    expect(checked).toMatchObject({ status: 'unknown', ruleOverride: { rule: 'unit', aiStatus: 'high' } });
+    expect(errors[0]).toContain('mmol/L');
+  });
+
+  it('accepts equivalent spellings of a unit', () => {
+    const { result: checked } = checkOne({ test: 'Potassium', numericValue: 4, unit: 'mEq/L', normalRange: '3.5 - 5.1 mmol/L', rangeLow: 3.5, rangeHigh: 5.1 });
+    expect(checked.ruleOverride).toBeUndefined();
+  });
+
+  it('flags values more than ten times the upper limit as critical', () => {
+    const { result: checked, errors } = checkOne({ test: 'ALT', numericValue: 500, unit: 'U/L', normalRange: '7 - 40 U/L', rangeLow: 7, rangeHigh: 40, status: 'high', severity: 'moderate' });
+    expect(checked).toMatchObject({ status: 'critical', severity: 'critical', ruleOverride: { rule: 'outlier10x', aiStatus: 'high' } });
+    expect(errors).toHaveLength(1);
+  });
+
+  it('recomputes the status from the range when the model got it wrong', () => {
+    const { result: checked, errors } = checkOne({ numericValue: 150, status: 'normal', severity: 'none' });
+    expect(checked).toMatchObject({ status: 'high', severity: 'concerning', ruleOverride: { rule: 'range', aiStatus: 'normal' } });
+    expect(errors).toEqual([]);
+
+    expect(checkOne({ numericValue: 85, status: 'high', severity: 'mild' }).result)
+      .toMatchObject({ status: 'normal', severity: 'none', ruleOverride: { rule: 'range' } });
+    expect(checkOne({ numericValue: 68, status: 'normal' }).result).toMatchObject({ status: 'low', severity: 'mild' });
+  });
+
+  it('leaves results alone when the rule agrees with the model', () => {
+    const agreeing = [
+      result({ numericValue: 85, status: 'normal', severity: 'none' }),
+      result({ numericValue: 150, status: 'abnormal', severity: 'moderate' }),
+      result({ numericValue: 60, status: 'low', severity: 'mild' }),
+    ];
+    const data = check(agreeing);
+    data.results.forEach((checked, index) => {
+      expect(checked).toBe(agreeing[index]);
+      expect(checked.ruleOverride).toBeUndefined();
+    });
+  });
+
+  it('keeps the model\'s borderline and unknown calls', () => {
+    expect(checkOne({ numericValue: 101, status: 'borderline', severity: 'mild' }).result.ruleOverride).toBeUndefined();
+    expect(checkOne({ numericValue: 150, status: 'unknown' }).result.status).toBe('unknown');
+  });
+
+  it('keeps the severity when a rule lands on the status the model already gave', () => {
+    const impossible = checkOne({ numericValue: 5000, status: 'unknown', severity: 'mild' }).result;
+    expect(impossible).toMatchObject({ status: 'unknown', severity: 'mild' });
+    expect(impossible.ruleOverride).toBeUndefined();
+
+    const outlier = checkOne({ test: 'ALT', numericValue: 500, unit: 'U/L', normalRange: '7 - 40 U/L', rangeLow: 7, rangeHigh: 40, status: 'critical', severity: 'concerning' }).result;
+    expect(outlier).toMatchObject({ status: 'critical', severity: 'concerning' });
+    expect(outlier.ruleOverride).toBeUndefined();
+  });
+
+  it('skips non-numeric results and missing ranges', () => {
+    const data = check([
+      result({ value: 'Negative', numericValue: undefined, status: 'normal' }),
+      result({ numericValue: 150, rangeLow: undefined, rangeHigh: undefined, normalRange: '', status: 'normal' }),
+    ]);
+    expect(data.results.every(checked => !checked.ruleOverride)).toBe(true);
+  });
+});
@@ -0,0 +1,177 @@
+import { AnalysisData, Language, MedicalTestResult, RuleOverride } from "../types";
+import { translations } from "../utils/translations";
+import { normalizeUnit } from "../utils/unitConversion";
+
+// Values outside these bounds cannot occur in a living patient and almost always mean
+// an OCR, transcription or unit error. Bounds are deliberately wide.
+interface ImpossibleBound {
+  units: string[]; // Normalized units (see normalizeUnit)
+  min: number;
+  max: number;
+  documentTypes?: AnalysisData['documentType'][]; // Restrict to a document type (e.g. urine pH)
+}
+
+interface AnalyteBounds {
+  pattern: RegExp; // Matched against the extracted test name
+  bounds: ImpossibleBound[];
+}
+
+const IMPOSSIBLE_BOUNDS: AnalyteBounds[] = [
+  { pattern: /potassium|^k\+?$/i, bounds: [{ units: ['mmol/l', 'meq/l'], min: 1, max: 12 }] },
+  { pattern: /sodium|^na\+?$/i, bounds: [{ units: ['mmol/l', 'meq/l'], min: 90, max: 200 }] },
+  { pattern: /chloride|^cl-?$/i, bounds: [{ units: ['mmol/l', 'meq/l'], min: 50, max: 150 }] },
+  { pattern: /glucose|^glu$/i, bounds: [
+    { units: ['mg/dl'], min: 5, max: 2000 },
+    { units: ['mmol/l'], min: 0.3, max: 110 },
+  ] },
+  { pattern: /hba1c|a1c|glycated|glycosylated/i, bounds: [{ units: ['%'], min: 2, max: 25 }] },
+  { pattern: /hemoglobin|haemoglobin|^hg?b$/i, bounds: [
+    { units: ['g/dl'], min: 1, max: 26 },
+    { units: ['g/l'], min: 10, max: 260 },
+  ] },
+  { pattern: /hematocrit|haematocrit|^hct$/i, bounds: [{ units: ['%'], min: 5, max: 80 }] },
+  { pattern: /creatinine|^cr(ea)?$/i, bounds: [
+    { units: ['mg/dl'], min: 0.05, max: 30 },
+    { units: ['umol/l'], min: 4, max: 2700 },
+  ] },
+  { pattern: /calcium|^ca$/i, bounds: [
+    { units: ['mg/dl'], min: 2, max: 20 },
+    { units: ['mmol/l'], min: 0.5, max: 5 },
+  ] },
+  { pattern: /cholesterol|^ldl|^hdl/i, bounds: [
+    { units: ['mg/dl'], min: 5, max: 2000 },
+    { units: ['mmol/l'], min: 0.1, max: 52 },
+  ] },
+  { pattern: /albumin/i, bounds: [
+    { units: ['g/dl'], min: 0.5, max: 8 },
+    { units: ['g/l'], min: 5, max: 80 },
+  ] },
+  { pattern: /platelet|^plt$/i, bounds: [{ units: ['10^3/ul', '10^9/l', 'k/ul'], min: 1, max: 5000 }] },
+  { pattern: /white blood|leukocyte count|^wbc$/i, bounds: [{ units: ['10^3/ul', '10^9/l', 'k/ul'], min: 0.05, max: 1000 }] },
+  { pattern: /oxygen saturation|^spo2$|^sao2$/i, bounds: [{ units: ['%'], min: 30, max: 100 }] },
+  { pattern: /^ph$/i, bounds: [
+    { units: [''], min: 6.5, max: 8.0, documentTypes: ['Blood Test'] },
+    { units: [''], min: 4.0, max: 9.5, documentTypes: ['Urinalysis'] },
+  ] },
+];
+
+// Spellings that denote the same numeric scale, so a range in one and a result in another still compare
+const EQUIVALENT_UNITS: string[][] = [
+  ['mmol/l', 'meq/l'],
+  ['10^3/ul', '10^9/l', 'k/ul', '/nl'],
+  ['u/l', 'iu/l'],
+  ['miu/l', 'uiu/ml', 'mu/l'],
+];
+
+const unitsEquivalent = (a: string, b: string): boolean => {
+  const x = normalizeUnit(a);
+  const y = normalizeUnit(b);
+  return x === y || EQUIVALENT_UNITS.some(group => group.includes(x) && group.includes(y));
+};
+
+// Unit printed at the end of a range string, e.g. "3.5 - 5.1 mmol/L" -> "mmol/L"
+const extractRangeUnit = (normalRange?: string): string | undefined => {
+  if (!normalRange) return undefined;
+  const match = normalRange.trim().match(/\d\s*([a-zA-Zµμ%][^\d\s]*(?:\/[^\s]+)?)$/);
+  return match ? match[1] : undefined;
+};
+
+const hasValidRange = (low?: number, high?: number): boolean =>
+  typeof low === 'number' && typeof high === 'number' && high > 0 && high > low;
+
+// Same buckets the model is asked to use, based on how far outside the range a value falls
+const severityFromDeviation = (value: number, low: number, high: number): MedicalTestResult['severity'] => {
+  const span = high - low || high;
+  const distance = value > high ? value - high : low - value;
+  const ratio = distance / span;
+  if (ratio < 0.1) return 'mild';
+  if (ratio < 0.5) return 'moderate';
+  return 'concerning';
+};
+
+const format = (template: string, values: Record<string, string | number | undefined>) =>
+  template.replace(/\{(\w+)\}/g, (_, key) => String(values[key] ?? ''));
+
+const findImpossibleBound = (result: MedicalTestResult, documentType: AnalysisData['documentType']) => {
+  const analyte = IMPOSSIBLE_BOUNDS.find(a => a.pattern.test(result.test.trim()));
+  if (!analyte) return undefined;
+  const unit = normalizeUnit(result.unit);
+  return analyte.bounds.find(b =>
+    b.units.includes(unit) && (!b.documentTypes || b.documentTypes.includes(documentType))
+  );
+};
+
+const appendNote = (existing: string | undefined, note: string) =>
+  existing ? `${existing} ${note}` : note;
+
+// Re-checks every numeric result locally and overrides the model where the data disagrees.
+// Overrides are recorded on the result (`ruleOverride`) and explained in `notes`;
+// data problems are also added to `errorsDetected`.
+export const applyLocalRules = (data: AnalysisData, language: Language): AnalysisData => {
+  const t = translations[language];
+  const errorsDetected = [...(data.errorsDetected || [])];
+
+  const results = data.results.map((original): MedicalTestResult => {
+    const value = original.numericValue;
+    if (typeof value !== 'number' || !Number.isFinite(value)) return original;
+
+    const result = { ...original };
+    const { rangeLow: low, rangeHigh: high } = result;
+    const vars = { test: result.test, value, unit: result.unit || '', low, high, ai: original.status };
+
+    // The model's severity is only replaced along with its status
+    const override = (
+      rule: RuleOverride['rule'],
+      status: MedicalTestResult['status'],
+      severity: MedicalTestResult['severity'],
+      message: string
+    ) => {
+      if (original.status === status) return original;
+      result.status = status;
+      result.severity = severity;
+      result.ruleOverride = { rule, aiStatus: original.status, message };
+      result.notes = appendNote(result.notes, message);
+      return result;
+    };
+
+    // 1. Impossible values: nothing else about the number can be trusted
+    const bound = findImpossibleBound(result, data.documentType);
+    if (bound && (value < bound.min || value > bound.max)) {
+      const message = format(t.ruleImpossible, vars);
+      errorsDetected.push(message);
+      return override('impossible', 'unknown', undefined, message);
+    }
+
+    // 2. Unit consistency between the result and its reference range
+    const rangeUnit = extractRangeUnit(result.normalRange);
+    if (rangeUnit && result.unit && !unitsEquivalent(rangeUnit, result.unit)) {
+      const message = format(t.ruleUnitMismatch, { ...vars, rangeUnit });
+      errorsDetected.push(message);
+      return override('unit', 'unknown', undefined, message);
+    }
+
+    if (!hasValidRange(low, high)) return original;
+
+    // 3. 10x outlier check
+    if (value > high! * 10) {
+      const message = format(t.ruleOutlier, vars);
+      errorsDetected.push(message);
+      return override('outlier10x', 'critical', 'critical', message);
+    }
+
+    // 4. Recompute status from the numeric range.
+    // 'borderline' and 'unknown' are judgement calls the model may make legitimately, so they stand.
+    if (original.status === 'borderline' || original.status === 'unknown') return original;
+
+    const computed: MedicalTestResult['status'] = value < low! ? 'low' : value > high! ? 'high' : 'normal';
+    const agrees = computed === 'normal'
+      ? original.status === 'normal'
+      : [computed, 'abnormal', 'critical'].includes(original.status);
+    if (agrees) return original;
+
+    const severity = computed === 'normal' ? 'none' : severityFromDeviation(value, low!, high!);
+    return override('range', computed, severity, format(t.ruleRangeOverride, { ...vars, status: computed }));
+  });
+
+  return { ...data, results, errorsDetected: Array.from(new Set(errorsDetected)) };
+};
@@ -0,0 +1,151 @@
+import { describe, expect, it } from 'vitest';
+import { AnalysisData, HistoryItem, MedicalTestResult, ValidationWarning } from '../types';
+import {
+  HISTORY_MIGRATIONS,
+  HISTORY_SCHEMA_VERSION,
+  SETTINGS_MIGRATIONS,
+  SETTINGS_SCHEMA_VERSION,
+  migrateHistoryItem,
+  migrateSettings,
+} from './schemaMigrations';
+
+const historyStep = (version: number) => HISTORY_MIGRATIONS.find(step => step.version === version)!.migrate;
+const settingsStep = (version: number) => SETTINGS_MIGRATIONS.find(step => step.version === version)!.migrate;
+
+const result = (fields: Partial<MedicalTestResult>): MedicalTestResult => ({
+  test: 'Glucose',
+  value: '100',
+  unit: 'mg/dL',
+  normalRange: '70 - 99 mg/dL',
+  status: 'high',
+  explanation: '',
+  confidence: 0.9,
+  ...fields,
+});
+
+// An analysis as older versions stored it, without the fields added since
+type StoredAnalysis = Partial<Omit<AnalysisData, 'results'>> & { results?: Partial<MedicalTestResult>[] };
+const storedAnalysis = (fields: StoredAnalysis) => fields as AnalysisData;
+
+// An item as the first versions of the app saved it to localStorage
+const legacyItem = (): Partial<HistoryItem> => ({
+  id: 'legacy',
+  date: 1700000000000,
+  fileName: 'blood-test.png',
+  previewUrl: 'data:image/png;base64,aGVsbG8=',
+  data: storedAnalysis({
+    summary: 'Old analysis',
+    results: [{ test: 'Glucose', value: '100', unit: 'mg/dL', normalRange: '70 - 99', status: 'high', numericValue: 100 }],
+  }),
+});
+
+describe('history migrations', () => {
+  it('has one step per version, in order', () => {
+    expect(HISTORY_MIGRATIONS.map(step => step.version)).toEqual(
+      HISTORY_MIGRATIONS.map((_, index) => index + 1)
+    );
+    expect(HISTORY_SCHEMA_VERSION).toBe(HISTORY_MIGRATIONS.length);
+  });
+
+  it('v1 marks analyses without a language as English', () => {
+    expect(historyStep(1)({}).language).toBe('en');
+    expect(historyStep(1)({ language: 'vi' }).language).toBe('vi');
+  });
+
+  it('v2 recovers the document from a data URL preview', () => {
+    const item = historyStep(2)({ previewUrl: 'data:image/png;base64,aGVsbG8=' });
+    expect(item.base64).toBe('aGVsbG8=');
+    expect(historyStep(2)({}).previewUrl).toBe('');
+    expect(historyStep(2)({ previewUrl: 'blob:x', base64: 'kept' }).base64).toBe('kept');
+  });
+
+  it('v3 derives the mime type from the preview, then the file name', () => {
+    expect(historyStep(3)({ previewUrl: 'data:image/webp;base64,x' }).mimeType).toBe('image/webp');
+    expect(historyStep(3)({ fileName: 'report.PDF' }).mimeType).toBe('application/pdf');
+    expect(historyStep(3)({ fileName: 'report' }).mimeType).toBe('application/octet-stream');
+    expect(historyStep(3)({ mimeType: 'image/png', fileName: 'a.pdf' }).mimeType).toBe('image/png');
+  });
+
+  it('v4 fills in analysis fields added since and keeps values set after analysis', () => {
+    const ruleOverride = { rule: 'range' as const, aiStatus: 'normal' as const, message: 'ALT is above the range' };
+    const item = historyStep(4)({
+      data: storedAnalysis({ results: [{ test: 'ALT', value: '50', ruleOverride }] }),
+    });
+    expect(item.data!.suggestedQuestions).toEqual([]);
+    expect(item.data!.glossary).toEqual([]);
+    expect(item.data!.results[0]).toMatchObject({ status: 'unknown', confidence: 0, explanation: '', ruleOverride });
+    expect(item.documentType).toBe('Other');
+  });
+
+  it('v4 replaces a single value saved where a list is expected', () => {
+    // Not describable by the current types, which is what the step is for
+    const data = { results: [], glossary: 'not a list' } as unknown as AnalysisData;
+    expect(historyStep(4)({ data }).data!.glossary).toEqual([]);
+  });
+
+  it('v5 records analyte codes', () => {
+    const item = historyStep(5)({ data: storedAnalysis({ results: [result({ test: 'Blood sugar' })] }) });
+    expect(item.data!.results[0].analyteCode).toBe('2345-7');
+  });
+
+  it('v6 records values in their canonical unit', () => {
+    const item = historyStep(6)({ data: storedAnalysis({ results: [result({ numericValue: 100, rangeLow: 70, rangeHigh: 99 })] }) });
+    expect(item.data!.results[0].normalized).toEqual({ numericValue: 5.6, rangeLow: 3.9, rangeHigh: 5.5, unit: 'mmol/l' });
+    expect(item.data!.results[0].value).toBe('100');
+  });
+
+  it('v7 replaces analyte codes given to qualified names', () => {
+    const item = historyStep(7)({
+      data: storedAnalysis({ results: [
+        result({ test: 'Bilirubin (Direct)', analyteCode: '1975-2' }),
+        result({ test: 'Glucose (2h after meal)', analyteCode: '2345-7' }),
+      ] }),
+    });
+    expect(item.data!.results.map(r => r.analyteCode)).toEqual(['1968-7', undefined]);
+  });
+
+  it('v8 drops validator repairs saved as English text', () => {
+    const repair: ValidationWarning = { code: 'missingList', path: 'glossary' };
+    // Saved as text before warnings were codes
+    const validationWarnings = ['glossary: missing', repair] as unknown as ValidationWarning[];
+    const item = historyStep(8)({ data: storedAnalysis({ results: [], validationWarnings }) });
+    expect(item.data!.validationWarnings).toEqual([repair]);
+  });
+
+  it('v9 gives VLDL cholesterol its own analyte code', () => {
+    const item = historyStep(9)({ data: storedAnalysis({ results: [result({ test: 'VLDL Cholesterol', analyteCode: '2089-1' })] }) });
+    expect(item.data!.results[0].analyteCode).toBe('13458-5');
+  });
+
+  it('v10 records ratios as printed', () => {
+    const ratio = result({ test: 'Albumin/Creatinine ratio', numericValue: 3, normalized: { numericValue: 265, unit: 'umol/l' } });
+    const item = historyStep(10)({ data: storedAnalysis({ results: [ratio] }) });
+    expect(item.data!.results[0].normalized).toEqual({ numericValue: 3, unit: 'mg/dl' });
+  });
+
+  it('brings the oldest items to the current schema', () => {
+    const item = migrateHistoryItem(legacyItem());
+    expect(item).toMatchObject({ language: 'en', base64: 'aGVsbG8=', mimeType: 'image/png', documentType: 'Other' });
+    expect(item.data.results[0]).toMatchObject({ analyteCode: '2345-7', normalized: { numericValue: 5.6, unit: 'mmol/l' } });
+  });
+
+  it('leaves already migrated items unchanged', () => {
+    const migrated = migrateHistoryItem(legacyItem());
+    expect(migrateHistoryItem(structuredClone(migrated))).toEqual(migrated);
+    expect(migrateHistoryItem(structuredClone(migrated), HISTORY_SCHEMA_VERSION)).toEqual(migrated);
+  });
+});
+
+describe('settings migrations', () => {
+  it('v1 defaults the provider to Gemini', () => {
+    expect(settingsStep(1)({ apiKey: 'key' })).toEqual({ apiKey: 'key', provider: 'gemini' });
+    expect(settingsStep(1)({ provider: 'openai' }).provider).toBe('openai');
+    expect(SETTINGS_SCHEMA_VERSION).toBe(SETTINGS_MIGRATIONS.length);
+  });
+
+  it('leaves already migrated settings unchanged', () => {
+    const migrated = migrateSettings({ apiKey: 'key', unitSystem: 'si' });
+    expect(migrateSettings({ ...migrated })).toEqual(migrated);
+    expect(migrateSettings({ ...migrated }, SETTINGS_SCHEMA_VERSION)).toEqual(migrated);
+  });
+});
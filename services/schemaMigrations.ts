@@ -0,0 +1,159 @@
+import { AnalysisData, HistoryItem, MedicalTestResult, UserSettings } from "../types";
+import { withAnalysisDefaults } from "./analysisStream";
+import { assignAnalyteCodes } from "../utils/analyteCatalog";
+import { normalizeResults } from "../utils/unitConversion";
+
+// Persisted history records and settings carry the schema version they were written with.
+// On load, older data runs through every step after its version, in order, and is written back.
+//
+// Steps must tolerate data that already has the newer shape: backup files and the old localStorage
+// history are not stamped, so their items go through every step.
+// Changes to the stored layout itself (e.g. where documents are kept) are made by historyStore.
+
+export interface MigrationStep<T> {
+  version: number; // Version the data has after this step
+  description: string;
+  migrate: (value: T) => T;
+}
+
+// Anything read from storage may lack fields, and keep ones the current types no longer have
+type StoredHistoryItem = Partial<HistoryItem>;
+
+const MIME_TYPES_BY_EXTENSION: Record<string, string> = {
+  pdf: 'application/pdf',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+  heic: 'image/heic',
+};
+
+const dataUrlMimeType = (url?: string) => url?.match(/^data:([^;,]+)/)?.[1];
+
+const extensionMimeType = (fileName?: string) =>
+  MIME_TYPES_BY_EXTENSION[fileName?.split('.').pop()?.toLowerCase() || ''];
+
+// Analyses saved by older versions may lack fields added since, or hold a single value where a
+// list is expected. Unlike validateAnalysisData, this keeps fields set after analysis (e.g. ruleOverride).
+const listOf = <T>(value: unknown): T[] => Array.isArray(value) ? value : [];
+
+const normalizeAnalysis = (data: unknown): AnalysisData => {
+  const analysis = withAnalysisDefaults(typeof data === 'object' && data !== null ? data as Partial<AnalysisData> : {});
+  return {
+    ...analysis,
+    results: listOf<MedicalTestResult>(analysis.results).map(result => ({
+      ...result,
+      status: result.status || 'unknown',
+      confidence: typeof result.confidence === 'number' ? result.confidence : 0,
+      explanation: result.explanation || '',
+    })),
+    abnormalFindings: listOf(analysis.abnormalFindings),
+    suggestedQuestions: listOf(analysis.suggestedQuestions),
+    errorsDetected: listOf(analysis.errorsDetected),
+    actionPlan: listOf(analysis.actionPlan),
+    glossary: listOf(analysis.glossary),
+  };
+};
+
+const recordCanonicalValues = (item: StoredHistoryItem): StoredHistoryItem =>
+  item.data ? { ...item, data: { ...item.data, results: normalizeResults(item.data.results) } } : item;
+
+// Codes are looked up again from scratch, for when the catalog used to give a result the wrong one
+const rederiveAnalyteCodes = (item: StoredHistoryItem): StoredHistoryItem => item.data ? {
+  ...item,
+  data: assignAnalyteCodes({ ...item.data, results: item.data.results.map(({ analyteCode: _, ...result }) => result) }),
+} : item;
+
+export const HISTORY_MIGRATIONS: MigrationStep<StoredHistoryItem>[] = [
+  {
+    version: 1,
+    description: "Analyses saved before language versions were added are English",
+    migrate: item => ({ ...item, language: item.language || 'en' }),
+  },
+  {
+    version: 2,
+    description: "The oldest items only kept the document as a data URL preview",
+    migrate: item => {
+      const isDataUrl = item.previewUrl?.startsWith('data:');
+      return {
+        ...item,
+        base64: item.base64 || (isDataUrl ? item.previewUrl!.split(',')[1] : undefined),
+        previewUrl: item.previewUrl || '',
+      };
+    },
+  },
+  {
+    version: 3,
+    description: "Derive the missing mimeType from the preview or the file name",
+    migrate: item => ({
+      ...item,
+      mimeType: item.mimeType
+        || dataUrlMimeType(item.previewUrl)
+        || extensionMimeType(item.fileName)
+        || 'application/octet-stream',
+    }),
+  },
+  {
+    version: 4,
+    description: "Normalize AnalysisData to the current schema",
+    migrate: item => {
+      const data = normalizeAnalysis(item.data);
+      return { ...item, data, documentType: item.documentType || data.documentType };
+    },
+  },
+  {
+    version: 5,
+    description: "Record canonical analyte codes on results",
+    migrate: item => item.data ? { ...item, data: assignAnalyteCodes(item.data) } : item,
+  },
+  {
+    version: 6,
+    description: "Record values in their canonical unit for comparisons and trends",
+    migrate: recordCanonicalValues,
+  },
+  {
+    version: 7,
+    description: "Re-derive analyte codes: qualified names (e.g. \"Bilirubin (direct)\") were given the plain analyte's code",
+    migrate: rederiveAnalyteCodes,
+  },
+  {
+    version: 8,
+    description: "Validator repairs became codes shown in the user's language; the English text saved before is dropped",
+    migrate: item => item.data?.validationWarnings?.some(warning => typeof warning === 'string')
+      ? { ...item, data: { ...item.data, validationWarnings: item.data.validationWarnings.filter(warning => typeof warning !== 'string') } }
+      : item,
+  },
+  {
+    version: 9,
+    description: "Re-derive analyte codes: VLDL and non-HDL cholesterol were matched to LDL and HDL cholesterol",
+    migrate: rederiveAnalyteCodes,
+  },
+  {
+    version: 10,
+    description: "Record canonical values again: ratios such as albumin/creatinine were converted as if they were the analyte",
+    migrate: recordCanonicalValues,
+  },
+];
+
+export const SETTINGS_MIGRATIONS: MigrationStep<UserSettings>[] = [
+  {
+    version: 1,
+    description: "Settings from before providers were added only held a Gemini API key",
+    migrate: settings => ({ ...settings, provider: settings.provider || 'gemini' }),
+  },
+];
+
+const latestVersion = <T>(steps: MigrationStep<T>[]) => steps[steps.length - 1]?.version ?? 0;
+
+export const HISTORY_SCHEMA_VERSION = latestVersion(HISTORY_MIGRATIONS);
+export const SETTINGS_SCHEMA_VERSION = latestVersion(SETTINGS_MIGRATIONS);
+
+// Runs the steps newer than `fromVersion`. Data from a newer version of the app is returned as is.
+export const runMigrations = <T>(value: T, fromVersion: number, steps: MigrationStep<T>[]): T =>
+  steps.filter(step => step.version > fromVersion).reduce((current, step) => step.migrate(current), value);
+
+export const migrateHistoryItem = (item: StoredHistoryItem, fromVersion = 0): HistoryItem =>
+  runMigrations(item, fromVersion, HISTORY_MIGRATIONS) as HistoryItem;
+
+export const migrateSettings = (settings: UserSettings, fromVersion = 0): UserSettings =>
+  runMigrations(settings, fromVersion, SETTINGS_MIGRATIONS);
@@ -0,0 +1,52 @@
+import { UserSettings } from "../types";
+import { getVaultKey, openJson, sealedFromText, sealedToText, sealJson } from "./vault";
+import { migrateSettings, SETTINGS_SCHEMA_VERSION } from "./schemaMigrations";
+
+const SETTINGS_STORAGE_KEY = 'userSettings';
+
+// Settings are stored as plain JSON, or as `{ sealed }` when the vault is on (they hold API keys).
+// Either way the settings carry the schema version they were written with (none before versioning).
+type VersionedSettings = UserSettings & { schemaVersion?: number };
+
+interface SealedSettings {
+  sealed: string;
+}
+
+// The stored settings upgraded to the current schema, and whether they needed upgrading
+const readSettings = async (key: CryptoKey | null): Promise<{ settings: UserSettings; outdated: boolean }> => {
+  const stored = localStorage.getItem(SETTINGS_STORAGE_KEY);
+  if (!stored) return { settings: {}, outdated: false };
+
+  const parsed: VersionedSettings | SealedSettings = JSON.parse(stored);
+  let versioned: VersionedSettings;
+  if ('sealed' in parsed) {
+    if (!key) throw new Error("Settings are locked");
+    versioned = await openJson<VersionedSettings>(sealedFromText(parsed.sealed), key);
+  } else {
+    versioned = parsed;
+  }
+
+  const { schemaVersion = 0, ...settings } = versioned;
+  return schemaVersion >= SETTINGS_SCHEMA_VERSION
+    ? { settings, outdated: false }
+    : { settings: migrateSettings(settings, schemaVersion), outdated: true };
+};
+
+const writeSettings = async (settings: UserSettings, key: CryptoKey | null) => {
+  const versioned: VersionedSettings = { ...settings, schemaVersion: SETTINGS_SCHEMA_VERSION };
+  const stored: VersionedSettings | SealedSettings = key ? { sealed: sealedToText(await sealJson(versioned, key)) } : versioned;
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(stored));
+};
+
+export const loadSettings = async (): Promise<UserSettings> => {
+  const key = getVaultKey();
+  const { settings, outdated } = await readSettings(key);
+  if (outdated) await writeSettings(settings, key);
+  return settings;
+};
+
+export const saveSettings = (settings: UserSettings) => writeSettings(settings, getVaultKey());
+
+export const resealSettings = async (from: CryptoKey | null, to: CryptoKey | null) => {
+  await writeSettings((await readSettings(from)).settings, to);
+};
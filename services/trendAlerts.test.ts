@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import { HistoryItem, MedicalTestResult } from '../types';
+import { withAnalysisDefaults } from './analysisStream';
+import { formatChange, trendAlerts, valueChange } from './trendAlerts';
+import { normalizeResult } from '../utils/unitConversion';
+
+type Reading = [test: string, value: number, status: MedicalTestResult['status']];
+
+const RANGES: Record<string, { unit: string; rangeLow: number; rangeHigh: number }> = {
+  Creatinine: { unit: 'mg/dL', rangeLow: 0.6, rangeHigh: 1.3 },
+  Glucose: { unit: 'mg/dL', rangeLow: 70, rangeHigh: 99 },
+  Hemoglobin: { unit: 'g/dL', rangeLow: 11, rangeHigh: 17 },
+  ALT: { unit: 'U/L', rangeLow: 7, rangeHigh: 40 },
+};
+
+const report = (id: string, collectionDate: string, readings: Reading[]): HistoryItem => ({
+  id,
+  date: Date.now(),
+  language: 'en',
+  fileName: `${id}.pdf`,
+  previewUrl: '',
+  documentType: 'Blood Test',
+  mimeType: 'application/pdf',
+  data: withAnalysisDefaults({
+    metadata: { collectionDate },
+    results: readings.map(([test, numericValue, status]) => normalizeResult({
+      test,
+      value: String(numericValue),
+      numericValue,
+      status,
+      normalRange: '',
+      explanation: '',
+      confidence: 90,
+      ...RANGES[test],
+    })),
+  }),
+});
+
+const alertFor = (alerts: ReturnType<typeof trendAlerts>, test: string) => alerts.find(alert => alert.test === test);
+
+describe('trendAlerts', () => {
+  it('flags a rapid change past the analyte\'s threshold', () => {
+    const alerts = trendAlerts([
+      report('jan', '2024-01-10', [['ALT', 12, 'normal'], ['Hemoglobin', 14, 'normal']]),
+      report('feb', '2024-02-10', [['ALT', 30, 'normal'], ['Hemoglobin', 11.8, 'normal']]),
+    ]);
+    expect(alertFor(alerts, 'ALT')).toMatchObject({ kind: 'rapidChange', severity: 'warning', direction: 'up' });
+    expect(alertFor(alerts, 'Hemoglobin')).toMatchObject({ kind: 'rapidChange', severity: 'warning', direction: 'down' });
+  });
+
+  it('marks rapid changes of critical analytes as critical and lists them first', () => {
+    const alerts = trendAlerts([
+      report('jan', '2024-01-10', [['Hemoglobin', 14, 'normal'], ['Creatinine', 0.9, 'normal']]),
+      report('feb', '2024-02-10', [['Hemoglobin', 11.8, 'normal'], ['Creatinine', 1.2, 'normal']]),
+    ]);
+    expect(alerts.map(alert => [alert.test, alert.severity])).toEqual([['Creatinine', 'critical'], ['Hemoglobin', 'warning']]);
+    expect(alerts[0].change?.percentChange).toBeCloseTo(33.3, 1);
+  });
+
+  it('ignores changes below the threshold and analytes without a rule', () => {
+    const alerts = trendAlerts([
+      report('jan', '2024-01-10', [['Creatinine', 1.0, 'normal'], ['Hemoglobin', 14, 'normal'], ['Ferritin', 50, 'normal']]),
+      report('feb', '2024-02-10', [['Creatinine', 1.2, 'normal'], ['Hemoglobin', 12.5, 'normal'], ['Ferritin', 150, 'normal']]),
+    ]);
+    expect(alerts).toEqual([]);
+  });
+
+  it('flags a result that moved out of the normal range, before any rapid change', () => {
+    const alerts = trendAlerts([
+      report('jan', '2024-01-10', [['ALT', 30, 'normal']]),
+      report('feb', '2024-02-10', [['ALT', 90, 'high']]),
+    ]);
+    expect(alerts).toHaveLength(1);
+    expect(alerts[0]).toMatchObject({ kind: 'becameAbnormal', severity: 'warning', direction: 'up' });
+  });
+
+  it('flags a steady drift toward a limit over three reports', () => {
+    const alerts = trendAlerts([
+      report('jan', '2024-01-10', [['Glucose', 85, 'normal']]),
+      report('feb', '2024-02-10', [['Glucose', 90, 'normal']]),
+      report('mar', '2024-03-10', [['Glucose', 95, 'normal']]),
+    ]);
+    expect(alerts).toEqual([expect.objectContaining({ kind: 'drift', direction: 'up', test: 'Glucose' })]);
+    expect(alerts[0].readings.map(r => r.numericValue)).toEqual([85, 90, 95]);
+  });
+
+  it('does not flag a drift that is still far from the limit or goes back and forth', () => {
+    expect(trendAlerts([
+      report('jan', '2024-01-10', [['Glucose', 75, 'normal']]),
+      report('feb', '2024-02-10', [['Glucose', 78, 'normal']]),
+      report('mar', '2024-03-10', [['Glucose', 81, 'normal']]),
+    ])).toEqual([]);
+    expect(trendAlerts([
+      report('jan', '2024-01-10', [['Glucose', 85, 'normal']]),
+      report('feb', '2024-02-10', [['Glucose', 96, 'normal']]),
+      report('mar', '2024-03-10', [['Glucose', 95, 'normal']]),
+    ])).toEqual([]);
+  });
+
+  it('only reports on analytes measured in the latest report, by collection date', () => {
+    const alerts = trendAlerts([
+      // Uploaded last, but collected first
+      report('latest-upload', '2024-01-10', [['ALT', 90, 'high']]),
+      report('feb', '2024-02-10', [['ALT', 30, 'normal'], ['Creatinine', 1.0, 'normal']]),
+      report('mar', '2024-03-10', [['Creatinine', 1.0, 'normal']]),
+    ]);
+    expect(alerts).toEqual([]);
+  });
+
+  it('needs at least two reports', () => {
+    expect(trendAlerts([report('jan', '2024-01-10', [['ALT', 90, 'high']])])).toEqual([]);
+  });
+});
+
+describe('valueChange and formatChange', () => {
+  it('describes the change between two readings', () => {
+    const change = valueChange({ numericValue: 1.2 } as MedicalTestResult, { numericValue: 1.6 } as MedicalTestResult)!;
+    expect(formatChange(change, 'mg/dL')).toBe('+0.4 mg/dL (+33%)');
+    expect(valueChange({ numericValue: 0 } as MedicalTestResult, { numericValue: 2 } as MedicalTestResult)).toEqual({ delta: 2, percentChange: null });
+    expect(valueChange({ value: 'Negative' } as MedicalTestResult, { numericValue: 2 } as MedicalTestResult)).toBeNull();
+  });
+});
@@ -0,0 +1,149 @@
+import { HistoryItem, MedicalTestResult, UnitSystem } from "../types";
+import { buildTrends, TrendPoint } from "./trends";
+import { timelineDate } from "../utils/reportMetadata";
+
+export type TrendAlertKind = 'rapidChange' | 'becameAbnormal' | 'drift';
+
+// A clinically meaningful movement of one analyte, as of the latest report
+export interface TrendAlert {
+  key: string; // See analyteKey
+  test: string; // As printed on the latest report
+  kind: TrendAlertKind;
+  severity: 'warning' | 'critical';
+  direction: 'up' | 'down';
+  readings: MedicalTestResult[]; // The readings the alert is based on, oldest first, in the latest reading's unit
+  change?: ValueChange; // Between the last two readings
+}
+
+export interface ValueChange {
+  delta: number;
+  percentChange: number | null; // Null when the earlier value is 0
+}
+
+// Relative change (0.3 = 30%) between two reports that is worth flagging, per analyte (LOINC code)
+interface ChangeRule {
+  rise?: number;
+  fall?: number;
+  critical?: boolean;
+}
+
+const CHANGE_RULES: Record<string, ChangeRule> = {
+  '2160-0': { rise: 0.3, critical: true }, // Creatinine: acute kidney injury
+  '33914-3': { fall: 0.25, critical: true }, // eGFR
+  '2823-3': { rise: 0.15, fall: 0.15, critical: true }, // Potassium
+  '2951-2': { rise: 0.05, fall: 0.05 }, // Sodium (about 7 mmol/L)
+  '718-7': { fall: 0.15 }, // Hemoglobin
+  '777-3': { fall: 0.3 }, // Platelets
+  '6690-2': { rise: 0.5, fall: 0.3 }, // White blood cells
+  '2345-7': { rise: 0.3 }, // Glucose
+  '4548-4': { rise: 0.1 }, // HbA1c
+  '1742-6': { rise: 1 }, // ALT doubled
+  '1920-8': { rise: 1 }, // AST doubled
+  '1975-2': { rise: 0.5 }, // Total bilirubin
+  '3016-3': { rise: 1, fall: 0.5 }, // TSH
+  '1988-5': { rise: 1 }, // CRP doubled
+};
+
+// A drift is flagged when the last DRIFT_READINGS values all move toward a limit
+// and the latest is within DRIFT_MARGIN of the range's width from it
+const DRIFT_READINGS = 3;
+const DRIFT_MARGIN = 0.2;
+
+export const valueChange = (from: MedicalTestResult, to: MedicalTestResult): ValueChange | null => {
+  if (typeof from.numericValue !== 'number' || typeof to.numericValue !== 'number') return null;
+  const delta = to.numericValue - from.numericValue;
+  return { delta, percentChange: from.numericValue === 0 ? null : (delta / Math.abs(from.numericValue)) * 100 };
+};
+
+// "+0.4 mg/dL (+35%)"
+export const formatChange = ({ delta, percentChange }: ValueChange, unit?: string): string => {
+  const signed = (value: number) => `${value > 0 ? '+' : ''}${Number(value.toPrecision(3))}`;
+  const amount = unit ? `${signed(delta)} ${unit}` : signed(delta);
+  return percentChange === null ? amount : `${amount} (${signed(Math.round(percentChange))}%)`;
+};
+
+const rapidChange = (key: string, previous: TrendPoint, latest: TrendPoint): Omit<TrendAlert, 'test'> | null => {
+  const rule = CHANGE_RULES[key];
+  const change = previous.plotted && latest.plotted ? valueChange(previous.result, latest.result) : null;
+  if (!rule || !change || change.percentChange === null) return null;
+
+  const ratio = change.percentChange / 100;
+  const direction = ratio > 0 ? 'up' : 'down';
+  const threshold = direction === 'up' ? rule.rise : rule.fall;
+  if (threshold === undefined || Math.abs(ratio) < threshold) return null;
+
+  return {
+    key,
+    kind: 'rapidChange',
+    severity: rule.critical ? 'critical' : 'warning',
+    direction,
+    readings: [previous.result, latest.result],
+    change,
+  };
+};
+
+const becameAbnormal = (key: string, previous: TrendPoint, latest: TrendPoint): Omit<TrendAlert, 'test'> | null => {
+  if (previous.result.status !== 'normal' || !latest.isAbnormal) return null;
+  const change = previous.plotted && latest.plotted ? valueChange(previous.result, latest.result) : null;
+  const { status, numericValue, rangeLow } = latest.result;
+  const isLow = status === 'low' || (typeof numericValue === 'number' && typeof rangeLow === 'number' && numericValue < rangeLow);
+
+  return {
+    key,
+    kind: 'becameAbnormal',
+    severity: status === 'critical' ? 'critical' : 'warning',
+    direction: change ? (change.delta < 0 ? 'down' : 'up') : isLow ? 'down' : 'up',
+    readings: [previous.result, latest.result],
+    change: change || undefined,
+  };
+};
+
+const drift = (key: string, points: TrendPoint[]): Omit<TrendAlert, 'test'> | null => {
+  const recent = points.slice(-DRIFT_READINGS);
+  if (recent.length < DRIFT_READINGS || recent.some(p => !p.plotted || p.isAbnormal)) return null;
+
+  const values = recent.map(p => p.result.numericValue!);
+  const rising = values.every((v, i) => i === 0 || v > values[i - 1]);
+  const falling = values.every((v, i) => i === 0 || v < values[i - 1]);
+  if (!rising && !falling) return null;
+
+  const latest = recent[recent.length - 1].result;
+  const { rangeLow = 0, rangeHigh } = latest;
+  const limit = rising ? rangeHigh : latest.rangeLow;
+  if (typeof rangeHigh !== 'number' || typeof limit !== 'number' || rangeHigh <= rangeLow) return null;
+  if (Math.abs(limit - values[values.length - 1]) > (rangeHigh - rangeLow) * DRIFT_MARGIN) return null;
+
+  return {
+    key,
+    kind: 'drift',
+    severity: 'warning',
+    direction: rising ? 'up' : 'down',
+    readings: recent.map(p => p.result),
+    change: valueChange(recent[recent.length - 2].result, latest) || undefined,
+  };
+};
+
+// Alerts for the latest report in `items` (by timelineDate; the last one listed on a tie),
+// against the reports before it. An analyte gets at most one alert: a crossing out of range,
+// else a rapid change, else a drift.
+export const trendAlerts = (
+  items: HistoryItem[],
+  unitSystem?: UnitSystem | 'original',
+  overrides?: Record<string, string>
+): TrendAlert[] => {
+  if (items.length < 2) return [];
+  const latestItem = items.reduce((latest, item) => timelineDate(item) >= timelineDate(latest) ? item : latest);
+
+  const alerts = buildTrends(items, unitSystem, overrides).flatMap(trend => {
+    const { points } = trend;
+    if (points.length < 2 || points[points.length - 1].itemId !== latestItem.id) return [];
+    const [previous, latest] = points.slice(-2);
+
+    const alert = becameAbnormal(trend.key, previous, latest)
+      || rapidChange(trend.key, previous, latest)
+      || drift(trend.key, points);
+    return alert ? [{ ...alert, test: trend.name }] : [];
+  });
+
+  return alerts.sort((a, b) => Number(b.severity === 'critical') - Number(a.severity === 'critical'));
+};
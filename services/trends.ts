@@ -0,0 +1,83 @@
+import { HistoryItem, Language, MedicalTestResult, UnitSystem } from "../types";
+import { comparableResults, convertResults, convertToMatch } from "../utils/unitConversion";
+import { keyedResults } from "../utils/analyteCatalog";
+import { timelineDate } from "../utils/reportMetadata";
+
+// One reading of an analyte, taken from one report
+export interface TrendPoint {
+  itemId: string;
+  fileName: string;
+  date: number; // See timelineDate
+  result: MedicalTestResult; // In the trend's unit where it could be converted
+  isAbnormal: boolean;
+  plotted: boolean; // False when the value is not numeric or its unit doesn't match the trend's
+}
+
+export interface AnalyteTrend {
+  key: string;
+  name: string; // As printed on the latest report
+  unit?: string;
+  points: TrendPoint[]; // Oldest first
+  abnormalCount: number;
+}
+
+const ABNORMAL_STATUSES = new Set<MedicalTestResult['status']>(['high', 'low', 'abnormal', 'borderline', 'critical']);
+
+// One analysis per document: the version in `language` if there is one, else the original.
+// Test names differ between language versions, so mixing them would split analytes.
+export const trendItems = (history: HistoryItem[], language: Language): HistoryItem[] => {
+  const documents = new Map<string, HistoryItem[]>();
+  history.forEach(item => {
+    const key = item.documentId || item.id;
+    documents.set(key, [...(documents.get(key) || []), item]);
+  });
+  return [...documents.values()].map(versions =>
+    versions.find(v => v.language === language) || versions.find(v => !v.translatedFrom) || versions[0]
+  );
+};
+
+// Every analyte found in `items`, with its readings in time order, most measured first
+// Results are matched by analyte (see analyteKey), so "HbA1c" and "Hemoglobin A1c" line up;
+// a second result for the same analyte in one report gets its own series (see keyedResults)
+export const buildTrends = (
+  items: HistoryItem[],
+  unitSystem?: UnitSystem | 'original',
+  overrides?: Record<string, string>
+): AnalyteTrend[] => {
+  const readings = new Map<string, Omit<TrendPoint, 'plotted'>[]>();
+  items.forEach(item => {
+    keyedResults(convertResults(item.data.results, unitSystem), overrides).forEach(({ key, result }) => {
+      readings.set(key, [...(readings.get(key) || []), {
+        itemId: item.id,
+        fileName: item.fileName,
+        date: timelineDate(item),
+        result,
+        isAbnormal: ABNORMAL_STATUSES.has(result.status),
+      }]);
+    });
+  });
+
+  const trends = [...readings.entries()].map(([key, unsorted]): AnalyteTrend => {
+    const points = [...unsorted].sort((a, b) => a.date - b.date);
+    // Values are plotted in the unit of the latest numeric reading; readings whose canonical unit
+    // differs from it (see NormalizedValue) can't be put on the same line
+    const reference = [...points].reverse().find(p => p.result.normalized)?.result;
+
+    return {
+      key,
+      name: points[points.length - 1].result.test,
+      unit: reference?.unit,
+      points: points.map(point => {
+        const result = reference ? convertToMatch(point.result, reference) : point.result;
+        return {
+          ...point,
+          result,
+          plotted: typeof result.numericValue === 'number' && comparableResults(result, reference),
+        };
+      }),
+      abnormalCount: points.filter(p => p.isAbnormal).length,
+    };
+  });
+
+  return trends.sort((a, b) => b.points.length - a.points.length || a.name.localeCompare(b.name));
+};
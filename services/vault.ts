@@ -0,0 +1,191 @@
+// Optional encryption at rest. When a passphrase is set, everything persisted (history records,
+// documents and settings) is sealed with AES-GCM under a key derived from it with PBKDF2.
+// The key only lives in memory while the vault is unlocked.
+
+const VAULT_STORAGE_KEY = 'vault';
+const PBKDF2_ITERATIONS = 600000;
+// Sealed with the key so a wrong passphrase is detected before anything is decrypted
+const CHECK_TEXT = 'mediclarify-vault';
+
+export const DEFAULT_AUTO_LOCK_MINUTES = 15;
+
+export interface SealedData {
+  iv: Uint8Array;
+  data: ArrayBuffer;
+}
+
+// Kept in plain localStorage: nothing in it reveals the passphrase or health data
+interface VaultConfig {
+  version: 1;
+  salt: string;
+  iterations: number;
+  check: string; // Sealed CHECK_TEXT, see sealedToText
+  autoLockMinutes: number; // 0 disables auto-lock
+}
+
+let activeKey: CryptoKey | null = null;
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary);
+};
+
+const base64ToBytes = (base64: string): Uint8Array => Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+
+const readConfig = (): VaultConfig | null => {
+  const stored = localStorage.getItem(VAULT_STORAGE_KEY);
+  return stored ? JSON.parse(stored) : null;
+};
+
+const writeConfig = (config: VaultConfig | null) => {
+  if (config) {
+    localStorage.setItem(VAULT_STORAGE_KEY, JSON.stringify(config));
+  } else {
+    localStorage.removeItem(VAULT_STORAGE_KEY);
+  }
+};
+
+const deriveKey = async (passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', textEncoder.encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+export const sealBytes = async (bytes: BufferSource, key: CryptoKey): Promise<SealedData> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  return { iv, data: await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, bytes) };
+};
+
+export const openBytes = (sealed: SealedData, key: CryptoKey): Promise<ArrayBuffer> =>
+  crypto.subtle.decrypt({ name: 'AES-GCM', iv: sealed.iv }, key, sealed.data);
+
+export const sealJson = (value: unknown, key: CryptoKey) => sealBytes(textEncoder.encode(JSON.stringify(value)), key);
+
+export const openJson = async <T>(sealed: SealedData, key: CryptoKey): Promise<T> =>
+  JSON.parse(textDecoder.decode(await openBytes(sealed, key)));
+
+// Text form for localStorage
+export const sealedToText = (sealed: SealedData) => `${bytesToBase64(sealed.iv)}.${bytesToBase64(new Uint8Array(sealed.data))}`;
+
+export const sealedFromText = (text: string): SealedData => {
+  const [iv, data] = text.split('.');
+  return { iv: base64ToBytes(iv), data: base64ToBytes(data).buffer as ArrayBuffer };
+};
+
+// Data protected by its own passphrase, independent of the vault (used for backup files)
+export interface PassphraseSealed {
+  salt: string;
+  iterations: number;
+  sealed: string; // See sealedToText
+}
+
+export const sealWithPassphrase = async (value: unknown, passphrase: string): Promise<PassphraseSealed> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  return { salt: bytesToBase64(salt), iterations: PBKDF2_ITERATIONS, sealed: sealedToText(await sealJson(value, key)) };
+};
+
+// Throws when the passphrase is wrong (AES-GCM authentication fails)
+export const openWithPassphrase = async <T>(data: PassphraseSealed, passphrase: string): Promise<T> => {
+  const key = await deriveKey(passphrase, base64ToBytes(data.salt), data.iterations);
+  return openJson<T>(sealedFromText(data.sealed), key);
+};
+
+const createConfig = async (passphrase: string, autoLockMinutes: number) => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const config: VaultConfig = {
+    version: 1,
+    salt: bytesToBase64(salt),
+    iterations: PBKDF2_ITERATIONS,
+    check: sealedToText(await sealJson(CHECK_TEXT, key)),
+    autoLockMinutes,
+  };
+  return { config, key };
+};
+
+// The key for `passphrase`, or null when it is not the vault's passphrase
+const keyForPassphrase = async (config: VaultConfig, passphrase: string): Promise<CryptoKey | null> => {
+  const key = await deriveKey(passphrase, base64ToBytes(config.salt), config.iterations);
+  try {
+    return (await openJson(sealedFromText(config.check), key)) === CHECK_TEXT ? key : null;
+  } catch {
+    return null;
+  }
+};
+
+export const isVaultEnabled = () => readConfig() !== null;
+
+// Key to seal with and open by, or null when data is stored in plain form
+export const getVaultKey = (): CryptoKey | null => activeKey;
+
+export const isVaultLocked = () => isVaultEnabled() && !activeKey;
+
+export const getAutoLockMinutes = () => readConfig()?.autoLockMinutes ?? 0;
+
+export const setAutoLockMinutes = (minutes: number) => {
+  const config = readConfig();
+  if (config) writeConfig({ ...config, autoLockMinutes: minutes });
+};
+
+export const unlockVault = async (passphrase: string): Promise<boolean> => {
+  const config = readConfig();
+  if (!config) return true;
+  activeKey = await keyForPassphrase(config, passphrase);
+  return !!activeKey;
+};
+
+export const lockVault = () => {
+  activeKey = null;
+};
+
+// Enabling, re-keying and disabling all re-seal the stored data first (`reseal` gets the old and new
+// keys, null meaning plain) and only switch the vault over once that has succeeded.
+export const enableVault = async (
+  passphrase: string,
+  reseal: (from: CryptoKey | null, to: CryptoKey | null) => Promise<void>
+) => {
+  const { config, key } = await createConfig(passphrase, DEFAULT_AUTO_LOCK_MINUTES);
+  await reseal(null, key);
+  writeConfig(config);
+  activeKey = key;
+};
+
+export const changeVaultPassphrase = async (
+  current: string,
+  next: string,
+  reseal: (from: CryptoKey | null, to: CryptoKey | null) => Promise<void>
+): Promise<boolean> => {
+  const config = readConfig();
+  const currentKey = config && await keyForPassphrase(config, current);
+  if (!currentKey) return false;
+
+  const { config: nextConfig, key } = await createConfig(next, config.autoLockMinutes);
+  await reseal(currentKey, key);
+  writeConfig(nextConfig);
+  activeKey = key;
+  return true;
+};
+
+export const disableVault = async (
+  passphrase: string,
+  reseal: (from: CryptoKey | null, to: CryptoKey | null) => Promise<void>
+): Promise<boolean> => {
+  const config = readConfig();
+  const key = config && await keyForPassphrase(config, passphrase);
+  if (!key) return false;
+
+  await reseal(key, null);
+  writeConfig(null);
+  activeKey = null;
+  return true;
+};
@@ -1,5 +1,12 @@
 export type Language = 'en' | 'vi' | 'zh' | 'ru' | 'fr';
 
+// Recorded when the local rule engine disagrees with the model about a result
+export interface RuleOverride {
+  rule: 'range' | 'outlier10x' | 'impossible' | 'unit';
+  aiStatus: MedicalTestResult['status']; // What the model originally said
+  message: string;
+}
+
 export interface MedicalTestResult {
   test: string;
   value: string;
@@ -16,6 +23,63 @@ export interface MedicalTestResult {
   rangeLow?: number;
   rangeHigh?: number;
   unit?: string;
+  normalized?: NormalizedValue; // Set after analysis, see utils/unitConversion normalizeResult
+
+  ruleOverride?: RuleOverride; // Set by the local rule engine
+  convertedFrom?: { value: string; normalRange: string; unit?: string }; // As printed, when shown in another unit system
+  analyteCode?: string; // LOINC code of the canonical analyte, when recognised (see utils/analyteCatalog)
+}
+
+// A numeric result in one canonical unit per analyte: SI for analytes in the conversion catalog,
+// otherwise the printed unit (spelled as normalizeUnit does). Used to compare results across reports.
+export interface NormalizedValue {
+  numericValue: number;
+  rangeLow?: number;
+  rangeHigh?: number;
+  unit: string;
+}
+
+// One drug on a prescription. Names and strengths are kept as printed.
+export interface Medication {
+  name: string; // As printed
+  genericName?: string;
+  brandName?: string;
+  strength?: string; // e.g. "500 mg"
+  form?: string; // Tablet, syrup, cream...
+  route?: string; // By mouth, on the skin...
+  frequency?: string; // e.g. "twice daily"
+  duration?: string; // e.g. "7 days"
+  quantity?: string;
+  refills?: number;
+  instructions?: string; // The prescriber's instructions, e.g. "take after meals"
+  explanation?: string; // Simple explanation of what the medication is for
+}
+
+export interface RadiologyFinding {
+  finding: string; // As described by the radiologist
+  location?: string;
+  significance?: 'normal' | 'minor' | 'significant' | 'urgent';
+  explanation?: string; // Plain-language explanation
+}
+
+export interface RadiologyReport {
+  modality?: string; // X-ray, CT, MRI, ultrasound...
+  bodyRegion?: string;
+  technique?: string; // e.g. "with contrast"
+  findings: RadiologyFinding[];
+  impression?: string; // The radiologist's conclusion, as written
+  impressionExplanation?: string; // Plain-language version of the impression
+  recommendations: string[];
+}
+
+export interface DischargeSummary {
+  admissionDate?: string; // YYYY-MM-DD
+  dischargeDate?: string; // YYYY-MM-DD
+  diagnoses: { name: string; primary?: boolean; explanation?: string }[];
+  procedures: { name: string; date?: string; explanation?: string }[];
+  medications: Medication[]; // To take after discharge
+  followUps: { description: string; when?: string; with?: string }[];
+  warningSigns: string[]; // Symptoms that mean the patient should seek care
 }
 
 export interface ActionItem {
@@ -29,10 +93,36 @@ export interface GlossaryItem {
   definition: string;
 }
 
+// A repair made by the local validator, shown in the user's language (see describeValidationWarning).
+// `path` points into the model's answer, e.g. "results[2] (Glucose).status".
+export type ValidationWarningCode =
+  | 'unrecognisedValue' // params: value, fallback
+  | 'convertedToText' // params: value
+  | 'convertedToNumber' // params: value
+  | 'convertedToBoolean' // params: value
+  | 'clamped' // params: value, limit
+  | 'notAList'
+  | 'removed'
+  | 'missingList'
+  | 'missingValue' // params: value
+  | 'missingDefault'
+  | 'invalidDefault'
+  | 'riskLevelDerived' // params: value, derived
+  | 'invalidDate'; // params: value
+
+export interface ValidationWarning {
+  code: ValidationWarningCode;
+  path: string;
+  params?: Record<string, string | number>;
+}
+
 export interface AnalysisData {
   documentType: 'Blood Test' | 'Urinalysis' | 'Prescription' | 'Radiology Report' | 'Discharge Summary' | 'Other';
   summary: string;
   results: MedicalTestResult[];
+  medications?: Medication[]; // Prescriptions only; their `results` are usually empty
+  radiology?: RadiologyReport; // Radiology reports only
+  dischargeSummary?: DischargeSummary; // Discharge summaries only
   abnormalFindings: string[]; // High-level "Attention Needed" items
   suggestedQuestions: string[];
   errorsDetected: string[]; // General document errors (unreadable, etc.)
@@ -46,6 +136,51 @@ export interface AnalysisData {
   actionPlan: ActionItem[];
   glossary: GlossaryItem[];
   printableReport: string; // Markdown string
+
+  // Repairs applied by the local validator (e.g. results[2].status set to "unknown")
+  validationWarnings?: ValidationWarning[];
+
+  metadata?: ReportMetadata;
+
+  // The patient profile the analysis was personalized with, as it was at the time (see utils/patientProfile)
+  patientProfile?: PatientProfile;
+}
+
+// Model-written account of what changed between an earlier and a later report (Comparison page)
+export interface ComparisonNarrative {
+  summary: string;
+  improved: string[];
+  worsened: string[];
+  newFindings: string[]; // Present in the later report only
+  resolved: string[]; // Present in the earlier report only
+  suggestedQuestions: string[];
+  generatedAt: number; // timestamp
+}
+
+// An earlier report and the narrative comparing it with the report being discussed in chat
+export interface ComparisonContext {
+  previous: AnalysisData;
+  narrative: ComparisonNarrative;
+}
+
+// Details printed on the report itself. Dates are YYYY-MM-DD; everything else is kept as printed.
+export interface ReportMetadata {
+  collectionDate?: string; // When the specimen was collected; the date the report is placed at in timelines
+  reportDate?: string;
+  labName?: string;
+  orderingClinician?: string;
+  patientName?: string;
+  patientAge?: string;
+  patientSex?: string;
+  editedByUser?: boolean; // Corrected by the user rather than as extracted
+}
+
+// Live progress of a streaming analysis, derived from which fields have arrived so far
+// ('translating' is used instead when another language version is translated from an existing one)
+export interface AnalysisProgress {
+  stage: 'reading' | 'summary' | 'results' | 'actionPlan' | 'finishing' | 'translating';
+  resultsCount: number;
+  percent: number; // 0-100, estimated
 }
 
 export interface ChatMessage {
@@ -53,6 +188,7 @@ export interface ChatMessage {
   role: 'user' | 'model';
   text: string;
   timestamp: number;
+  stopped?: boolean; // Model reply cut short by the user; text holds what arrived before stopping
 }
 
 export interface FileData {
@@ -60,16 +196,46 @@ export interface FileData {
   previewUrl: string;
   base64: string;
   mimeType: string;
+  documentId: string; // SHA-256 of the document content, see utils/documentHash
+  perceptualHash?: string; // Images only, to recognise a re-photographed copy
 }
 
+export type AIProviderType = 'gemini' | 'openai' | 'mock';
+
+export type UnitSystem = 'si' | 'conventional';
+
 export interface UserSettings {
   apiKey?: string;
+  provider?: AIProviderType; // Defaults to 'gemini'
+
+  // OpenAI-compatible endpoint (e.g. Ollama, llama.cpp server)
+  openaiBaseUrl?: string;
+  openaiModel?: string;
+  openaiApiKey?: string;
+
+  unitSystem?: UnitSystem | 'original'; // Display units for results and comparisons
+
+  // Test name (normalized) -> analyte key, set when the user merges or splits comparison rows
+  analyteOverrides?: Record<string, string>;
+
+  patientProfile?: PatientProfile;
+}
+
+// About the patient, entered by the user; sent with analyses and chats so interpretation fits them
+export interface PatientProfile {
+  birthDate?: string; // YYYY-MM-DD
+  age?: number; // When no birth date is given
+  sex?: 'female' | 'male';
+  pregnancy?: 'pregnant' | 'breastfeeding';
+  conditions?: string[]; // Chronic conditions, as the user wrote them
+  medications?: string[];
+  allergies?: string[];
 }
 
 export interface HistoryItem {
   id: string;
   date: number; // timestamp
-  language?: Language; // Language of the analysis
+  language: Language; // Language of the analysis
   fileName: string;
   previewUrl: string; // Blob URL or base64 thumbnail
   data: AnalysisData;
@@ -77,6 +243,23 @@ export interface HistoryItem {
   
   // Persistence
   base64?: string; // Original file content for chat context
-  mimeType?: string;
+  mimeType: string;
   chatHistory?: ChatMessage[]; // Saved chat messages
-}
\ No newline at end of file
+  translatedFrom?: string; // Id of the original analysis this item is a translation of
+  documentId?: string; // SHA-256 of the original document; shared by every version of it and its key in storage
+  perceptualHash?: string;
+  documentDiscarded?: boolean; // The original was removed to free up space; documentId still identifies it
+  // Narratives comparing this report with earlier ones, by the earlier report's id (same language as this item)
+  comparisons?: Record<string, ComparisonNarrative>;
+}
+
+// Space taken by saved history, plus the browser's figures for the whole app when available
+export interface StorageUsage {
+  documentBytes: number;
+  analysisBytes: number;
+  usedBytes?: number;
+  quotaBytes?: number;
+}
+
+// Ways to free up space when the history no longer fits in browser storage
+export type PruneStrategy = 'translations' | 'documents' | 'oldest';
\ No newline at end of file
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { findAnalyte, keyedResults, normalizeTestName } from './analyteCatalog';
+import { MedicalTestResult } from '../types';
+
+const result = (test: string): MedicalTestResult => ({
+  test, value: '1', unit: '', normalRange: '', status: 'normal', explanation: '', confidence: 1,
+});
+
+describe('normalizeTestName', () => {
+  it('drops neutral qualifiers and keeps the ones that make a different analyte', () => {
+    expect(normalizeTestName('Glucose (fasting)')).toBe('glucose');
+    expect(normalizeTestName('ALT (U/L)')).toBe('alt');
+    expect(normalizeTestName('Bilirubin (Direct)')).toBe('bilirubin direct');
+    expect(normalizeTestName('Đường huyết')).toBe('duong huyet');
+  });
+});
+
+describe('findAnalyte', () => {
+  it('matches synonyms in every language', () => {
+    expect(findAnalyte('Hemoglobin')?.code).toBe('718-7');
+    expect(findAnalyte('Гемоглобин')?.code).toBe('718-7');
+    expect(findAnalyte('Glucose (urine)')?.code).toBe('2350-7');
+    expect(findAnalyte('Calcium (ionized)')?.code).toBe('1994-3');
+  });
+
+  it('tolerates spelling variants', () => {
+    expect(findAnalyte('Haemoglobine')?.code).toBe('718-7');
+    expect(findAnalyte('Triglycerids')?.code).toBe('2571-8');
+  });
+
+  it('keeps VLDL and non-HDL cholesterol apart from LDL and HDL', () => {
+    expect(findAnalyte('VLDL Cholesterol')?.code).toBe('13458-5');
+    expect(findAnalyte('VLDL-C')?.code).toBe('13458-5');
+    expect(findAnalyte('Non-HDL Cholesterol')?.code).toBe('43396-1');
+    expect(findAnalyte('LDL Cholesterol')?.code).toBe('2089-1');
+  });
+
+  it('does not fuzzily match a name that only adds a prefix or whole words', () => {
+    expect(findAnalyte('iCalcium')).toBeUndefined();
+    expect(findAnalyte('Remnant LDL Cholesterol')).toBeUndefined();
+    expect(findAnalyte('Small dense LDL cholesterol')).toBeUndefined();
+  });
+});
+
+describe('keyedResults', () => {
+  it('gives repeated analytes of one report their own key', () => {
+    const keys = keyedResults([result('Glucose'), result('Glucose (fasting)'), result('Hb')]).map(k => k.key);
+    expect(keys).toEqual(['2345-7', '2345-7#2', '718-7']);
+  });
+});
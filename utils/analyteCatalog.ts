@@ -0,0 +1,194 @@
+import { AnalysisData, MedicalTestResult } from "../types";
+
+// Canonical analytes with LOINC codes and the names they are printed under, in every supported
+// language. Extracted test names are matched against the synonyms, exactly first and then fuzzily.
+
+interface AnalyteDefinition {
+  code: string; // LOINC code
+  name: string;
+  synonyms: string[]; // Compared after normalizeTestName; the name itself is included automatically
+}
+
+const ANALYTES: AnalyteDefinition[] = [
+  // Complete blood count
+  { code: '718-7', name: 'Hemoglobin', synonyms: ['hb', 'hgb', 'haemoglobin', 'huyet sac to', 'hemoglobin hgb', '血红蛋白', 'гемоглобин', 'hemoglobine'] },
+  { code: '4544-3', name: 'Hematocrit', synonyms: ['hct', 'haematocrit', 'ht', 'hematocrite', 'dung tich hong cau', '红细胞压积', 'гематокрит'] },
+  { code: '6690-2', name: 'White Blood Cells', synonyms: ['wbc', 'leukocytes', 'white blood cell count', 'white cell count', 'bach cau', 'so luong bach cau', '白细胞', '白细胞计数', 'лейкоциты', 'globules blancs', 'leucocytes'] },
+  { code: '789-8', name: 'Red Blood Cells', synonyms: ['rbc', 'erythrocytes', 'red blood cell count', 'red cell count', 'hong cau', 'so luong hong cau', '红细胞', '红细胞计数', 'эритроциты', 'globules rouges', 'hematies'] },
+  { code: '777-3', name: 'Platelets', synonyms: ['plt', 'platelet count', 'thrombocytes', 'tieu cau', 'so luong tieu cau', '血小板', '血小板计数', 'тромбоциты', 'plaquettes'] },
+  { code: '787-2', name: 'MCV', synonyms: ['mean corpuscular volume', 'the tich trung binh hong cau', '平均红细胞体积', 'средний объем эритроцита', 'vgm', 'volume globulaire moyen'] },
+  { code: '785-6', name: 'MCH', synonyms: ['mean corpuscular hemoglobin', 'luong huyet sac to trung binh hong cau', '平均红细胞血红蛋白量', 'среднее содержание гемоглобина в эритроците', 'tcmh'] },
+  { code: '786-4', name: 'MCHC', synonyms: ['mean corpuscular hemoglobin concentration', 'nong do huyet sac to trung binh hong cau', '平均红细胞血红蛋白浓度', 'средняя концентрация гемоглобина в эритроците', 'ccmh'] },
+  { code: '788-0', name: 'RDW', synonyms: ['red cell distribution width', 'rdw cv', 'do phan bo hong cau', '红细胞分布宽度', 'ширина распределения эритроцитов', 'idr'] },
+
+  // Glucose metabolism
+  { code: '2345-7', name: 'Glucose', synonyms: ['glu', 'blood glucose', 'fasting glucose', 'fasting blood glucose', 'fasting plasma glucose', 'plasma glucose', 'serum glucose', 'blood sugar', 'duong huyet', 'glucose mau', '血糖', '空腹血糖', '葡萄糖', 'глюкоза', 'глюкоза крови', 'glycemie', 'glycemie a jeun'] },
+  { code: '4548-4', name: 'HbA1c', synonyms: ['hemoglobin a1c', 'haemoglobin a1c', 'glycated hemoglobin', 'glycosylated hemoglobin', 'a1c', 'hba1c', 'huyet sac to glycat hoa', '糖化血红蛋白', 'гликированный гемоглобин', 'hemoglobine glyquee'] },
+
+  // Lipids
+  { code: '2093-3', name: 'Total Cholesterol', synonyms: ['cholesterol', 'cholesterol total', 'chol', 'tc', 'cholesterol toan phan', '总胆固醇', 'холестерин', 'общий холестерин'] },
+  { code: '2089-1', name: 'LDL Cholesterol', synonyms: ['ldl', 'ldl c', 'ldl cholesterol', 'low density lipoprotein', 'ldl cholesterol calculated', '低密度脂蛋白胆固醇', 'холестерин лпнп', 'лпнп', 'cholesterol ldl'] },
+  { code: '13458-5', name: 'VLDL Cholesterol', synonyms: ['vldl', 'vldl c', 'vldl cholesterol', 'very low density lipoprotein', 'cholesterol vldl', '极低密度脂蛋白胆固醇', 'холестерин лпонп', 'лпонп'] },
+  { code: '43396-1', name: 'Non-HDL Cholesterol', synonyms: ['non hdl', 'non hdl c', 'non hdl cholesterol', 'cholesterol non hdl', '非高密度脂蛋白胆固醇', 'холестерин не лпвп', 'не лпвп'] },
+  { code: '2085-9', name: 'HDL Cholesterol', synonyms: ['hdl', 'hdl c', 'hdl cholesterol', 'high density lipoprotein', '高密度脂蛋白胆固醇', 'холестерин лпвп', 'лпвп', 'cholesterol hdl'] },
+  { code: '2571-8', name: 'Triglycerides', synonyms: ['tg', 'trig', 'triglyceride', '甘油三酯', 'триглицериды', 'triglycerides'] },
+
+  // Kidney
+  { code: '2160-0', name: 'Creatinine', synonyms: ['creat', 'cre', 'crea', 'serum creatinine', '肌酐', 'креатинин', 'creatininemie'] },
+  { code: '3094-0', name: 'Urea Nitrogen', synonyms: ['bun', 'blood urea nitrogen', 'urea nitrogen', '尿素氮', 'азот мочевины'] },
+  { code: '3091-6', name: 'Urea', synonyms: ['serum urea', 'ure', '尿素', 'мочевина', 'uree'] },
+  { code: '33914-3', name: 'eGFR', synonyms: ['egfr', 'gfr', 'estimated gfr', 'estimated glomerular filtration rate', 'muc loc cau than', '估算肾小球滤过率', 'скф', 'dfg', 'debit de filtration glomerulaire'] },
+  { code: '3084-1', name: 'Uric Acid', synonyms: ['urate', 'axit uric', 'acid uric', '尿酸', 'мочевая кислота', 'acide urique', 'uricemie'] },
+
+  // Electrolytes
+  { code: '2951-2', name: 'Sodium', synonyms: ['na', 'na+', 'natri', '钠', 'натрий'] },
+  { code: '2823-3', name: 'Potassium', synonyms: ['k', 'k+', 'kali', '钾', 'калий'] },
+  { code: '2075-0', name: 'Chloride', synonyms: ['cl', 'cl-', 'clo', '氯', 'хлор', 'хлориды', 'chlore'] },
+  { code: '17861-6', name: 'Calcium', synonyms: ['ca', 'total calcium', 'canxi', '钙', 'кальций'] },
+  { code: '1994-3', name: 'Ionized Calcium', synonyms: ['calcium ionized', 'ionized calcium', 'ionised calcium', 'calcium ionised', 'ica', 'ca2+', 'ca++', 'canxi ion hoa', 'canxi ion', '离子钙', 'ионизированный кальций', 'кальций ионизированный', 'calcium ionise'] },
+  { code: '2028-9', name: 'Bicarbonate', synonyms: ['co2', 'hco3', 'total co2', 'carbon dioxide', '碳酸氢盐', 'бикарбонат', 'bicarbonates'] },
+
+  // Liver
+  { code: '1742-6', name: 'ALT', synonyms: ['alanine aminotransferase', 'sgpt', 'alat', 'gpt', '丙氨酸氨基转移酶', '谷丙转氨酶', 'алт', 'аланинаминотрансфераза'] },
+  { code: '1920-8', name: 'AST', synonyms: ['aspartate aminotransferase', 'sgot', 'asat', 'got', '天门冬氨酸氨基转移酶', '谷草转氨酶', 'аст', 'аспартатаминотрансфераза'] },
+  { code: '6768-6', name: 'Alkaline Phosphatase', synonyms: ['alp', 'alk phos', 'pal', 'phosphatase kiem', '碱性磷酸酶', 'щелочная фосфатаза', 'phosphatases alcalines'] },
+  { code: '2324-2', name: 'GGT', synonyms: ['gamma gt', 'gamma glutamyl transferase', 'ggtp', '谷氨酰转移酶', 'гамма гт', 'гамма глутамилтрансфераза'] },
+  { code: '1975-2', name: 'Total Bilirubin', synonyms: ['bilirubin', 'bilirubin total', 'tbil', 'bilirubin toan phan', '总胆红素', 'билирубин', 'общий билирубин', 'bilirubine totale'] },
+  { code: '1968-7', name: 'Direct Bilirubin', synonyms: ['bilirubin direct', 'direct bilirubin', 'conjugated bilirubin', 'bilirubin conjugated', 'dbil', 'bilirubin truc tiep', '直接胆红素', 'прямой билирубин', 'билирубин прямой', 'bilirubine directe', 'bilirubine conjuguee'] },
+  { code: '1971-1', name: 'Indirect Bilirubin', synonyms: ['bilirubin indirect', 'indirect bilirubin', 'unconjugated bilirubin', 'bilirubin unconjugated', 'ibil', 'bilirubin gian tiep', '间接胆红素', 'непрямой билирубин', 'билирубин непрямой', 'bilirubine indirecte', 'bilirubine libre'] },
+  { code: '1751-7', name: 'Albumin', synonyms: ['alb', 'serum albumin', '白蛋白', 'альбумин', 'albumine'] },
+  { code: '2885-2', name: 'Total Protein', synonyms: ['protein total', 'tp', 'protein toan phan', '总蛋白', 'общий белок', 'proteines totales'] },
+
+  // Thyroid
+  { code: '3016-3', name: 'TSH', synonyms: ['thyroid stimulating hormone', 'thyrotropin', '促甲状腺激素', 'ттг', 'тиреотропный гормон'] },
+  { code: '3024-7', name: 'Free T4', synonyms: ['ft4', 't4 free', 'free thyroxine', '游离甲状腺素', 'свободный т4', 'т4 свободный', 't4 libre'] },
+  { code: '3051-0', name: 'Free T3', synonyms: ['ft3', 't3 free', 'free triiodothyronine', '游离三碘甲状腺原氨酸', 'свободный т3', 'т3 свободный', 't3 libre'] },
+
+  // Vitamins, iron and inflammation
+  { code: '1989-3', name: 'Vitamin D', synonyms: ['25 oh vitamin d', '25 hydroxyvitamin d', 'vitamin d 25 oh', 'vitamin d3', '25 oh d', '维生素d', 'витамин d', 'vitamine d'] },
+  { code: '2132-9', name: 'Vitamin B12', synonyms: ['b12', 'cobalamin', 'cyanocobalamin', '维生素b12', 'витамин b12', 'vitamine b12'] },
+  { code: '2276-4', name: 'Ferritin', synonyms: ['serum ferritin', '铁蛋白', 'ферритин', 'ferritine'] },
+  { code: '2498-4', name: 'Iron', synonyms: ['serum iron', 'fe', 'sat huyet thanh', '血清铁', 'железо', 'сывороточное железо', 'fer', 'fer serique'] },
+  { code: '1988-5', name: 'C-Reactive Protein', synonyms: ['crp', 'c reactive protein', 'hs crp', 'protein c phan ung', 'c反应蛋白', 'с реактивный белок', 'срб', 'proteine c reactive'] },
+
+  // Urinalysis
+  { code: '5803-2', name: 'Urine pH', synonyms: ['ph urine', 'ph nuoc tieu', '尿ph', 'ph мочи'] },
+  { code: '5811-5', name: 'Urine Specific Gravity', synonyms: ['specific gravity', 'ti trong', 'ti trong nuoc tieu', '尿比重', 'удельный вес мочи', 'densite urinaire'] },
+  { code: '2350-7', name: 'Urine Glucose', synonyms: ['glucose urine', 'urine glucose', 'glu urine', 'urine sugar', 'glucose nuoc tieu', 'duong nieu', '尿糖', '尿葡萄糖', 'глюкоза в моче', 'глюкоза мочи', 'glucose urinaire', 'glycosurie'] },
+  { code: '2888-6', name: 'Urine Protein', synonyms: ['protein urine', 'urine protein', 'pro urine', 'protein nuoc tieu', 'protein nieu', '尿蛋白', 'белок в моче', 'белок мочи', 'proteines urinaires', 'proteinurie'] },
+];
+
+// Names closer than this (0-1, from edit distance) to a synonym are taken to be that analyte.
+// Short names are abbreviations where one letter matters (e.g. "ALT" vs "AST"), so they must match exactly.
+const FUZZY_SIMILARITY = 0.85;
+const FUZZY_MIN_LENGTH = 6;
+
+// Qualifiers in brackets that don't make a different analyte, and can be dropped from the name:
+// the usual specimen, fasting, "total" and units ("Glucose (fasting)", "ALT (U/L)").
+// Any other qualifier is kept, so "Bilirubin (direct)" and "Glucose (urine)" stay apart from the plain names.
+const NEUTRAL_QUALIFIERS = new Set([
+  'serum', 'plasma', 'blood', 'whole blood', 'venous', 'fasting', 'total', 'calculated',
+  'huyet thanh', 'huyet tuong', 'mau', 'luc doi', 'toan phan',
+  '血清', '血浆', '空腹', '总',
+  'сыворотка', 'плазма', 'кровь', 'натощак', 'общий',
+  'serique', 'sang', 'a jeun',
+]);
+
+const removeAccents = (text: string) => text.normalize('NFD').replace(/\p{M}/gu, '').replace(/đ/gi, 'd').toLowerCase();
+
+const isNeutralQualifier = (qualifier: string) => {
+  const words = removeAccents(qualifier).replace(/[^\p{L}\p{N}+]+/gu, ' ').trim();
+  // Units: "mg/dL", "%", "10^9/L"
+  return !words || NEUTRAL_QUALIFIERS.has(words) || /[/%^]/.test(qualifier);
+};
+
+// Lower-case, without accents, punctuation or neutral qualifiers in brackets
+// ("Glucose (fasting)" → "glucose", "Bilirubin (Direct)" → "bilirubin direct")
+export const normalizeTestName = (name: string): string =>
+  removeAccents(name)
+    .replace(/[([](.*?)[)\]]/g, (_, qualifier: string) => isNeutralQualifier(qualifier) ? ' ' : ` ${qualifier} `)
+    .replace(/[^\p{L}\p{N}+]+/gu, ' ')
+    .trim();
+
+const SYNONYMS = new Map<string, AnalyteDefinition>();
+ANALYTES.forEach(analyte => {
+  [analyte.name, analyte.code, ...analyte.synonyms].forEach(synonym => {
+    const key = normalizeTestName(synonym);
+    if (key && !SYNONYMS.has(key)) SYNONYMS.set(key, analyte);
+  });
+});
+
+const editDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// A longer name that only adds a prefix or whole words to a shorter one ("v" + "ldl cholesterol",
+// "non" + "hdl cholesterol") usually names a different analyte, however similar the two look
+const addsPrefixOrWords = (a: string, b: string) => {
+  const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a];
+  if (longer.endsWith(shorter)) return true;
+  const shorterWords = shorter.split(' ');
+  const longerWords = longer.split(' ');
+  return longerWords.length > shorterWords.length && shorterWords.every(word => longerWords.includes(word));
+};
+
+export const findAnalyte = (testName: string): { code: string; name: string } | undefined => {
+  const normalized = normalizeTestName(testName);
+  if (!normalized) return undefined;
+
+  const exact = SYNONYMS.get(normalized);
+  if (exact) return exact;
+  if (normalized.length < FUZZY_MIN_LENGTH) return undefined;
+
+  let best: { analyte: AnalyteDefinition; similarity: number } | undefined;
+  SYNONYMS.forEach((analyte, synonym) => {
+    if (synonym.length < FUZZY_MIN_LENGTH || addsPrefixOrWords(normalized, synonym)) return;
+    const similarity = 1 - editDistance(normalized, synonym) / Math.max(normalized.length, synonym.length);
+    if (similarity >= FUZZY_SIMILARITY && (!best || similarity > best.similarity)) best = { analyte, similarity };
+  });
+  return best?.analyte;
+};
+
+// Records the canonical code on every result that matches a known analyte
+export const assignAnalyteCodes = (data: AnalysisData): AnalysisData => ({
+  ...data,
+  results: data.results.map((result): MedicalTestResult => {
+    const analyte = findAnalyte(result.test);
+    return analyte ? { ...result, analyteCode: analyte.code } : result;
+  }),
+});
+
+// Key results are joined by across reports (comparison rows, trends): the user's own override for the
+// name if there is one, else the canonical code, else the normalized name itself.
+// Overrides map a normalized test name to an analyte key (see UserSettings.analyteOverrides).
+export const analyteKey = (result: MedicalTestResult, overrides: Record<string, string> = {}): string => {
+  const name = normalizeTestName(result.test);
+  return overrides[name] || result.analyteCode || findAnalyte(result.test)?.code || `name:${name}`;
+};
+
+// Results of one report with the key they are joined by across reports. When several results of the
+// report share a key (e.g. after a user merge), the later ones get their own ("<key>#2", ...) so none
+// is hidden; they line up with the same occurrence in other reports.
+export const keyedResults = (
+  results: MedicalTestResult[],
+  overrides: Record<string, string> = {}
+): { key: string; analyte: string; result: MedicalTestResult }[] => {
+  const seen = new Map<string, number>();
+  return results.map(result => {
+    const analyte = analyteKey(result, overrides);
+    const count = (seen.get(analyte) || 0) + 1;
+    seen.set(analyte, count);
+    return { key: count === 1 ? analyte : `${analyte}#${count}`, analyte, result };
+  });
+};
+
+// Key that keeps a name apart from everything else (used to split a wrong match)
+export const separateAnalyteKey = (testName: string) => `name:${normalizeTestName(testName)}`;
@@ -0,0 +1,24 @@
+import { MedicalTestResult } from "../types";
+
+// Chat answers cite analysis results as [R#], numbered from 1 in the order of AnalysisData.results
+// (see buildChatContextText). They are rendered as links to the matching results row.
+const CITATION_PATTERN = /\[R(\d+)\]/g;
+const ANCHOR_PREFIX = '#result-';
+
+// DOM id of a row in the detailed results list
+export const resultRowId = (index: number) => `result-${index}`;
+
+// Turn [R#] tags into markdown links named after the result; tags with no matching result are dropped
+export const linkResultCitations = (text: string, results: MedicalTestResult[]): string =>
+  text.replace(CITATION_PATTERN, (_, n: string) => {
+    const index = Number(n) - 1;
+    const result = results[index];
+    return result ? `[${result.test.replace(/[[\]]/g, '')}](${ANCHOR_PREFIX}${index})` : '';
+  });
+
+// Result index a citation link points at, or null for ordinary links
+export const parseResultAnchor = (href?: string): number | null => {
+  if (!href?.startsWith(ANCHOR_PREFIX)) return null;
+  const index = Number(href.slice(ANCHOR_PREFIX.length));
+  return Number.isInteger(index) ? index : null;
+};
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { AnalysisData, MedicalTestResult } from '../types';
+import { withAnalysisDefaults } from '../services/analysisStream';
+import { differenceHash, isNearDuplicate, isSameReportContent } from './documentHash';
+
+const WIDTH = 300;
+const HEIGHT = 400;
+
+// Deterministic pseudo-random numbers in [0, 1)
+const random = (seed: number) => () => {
+  seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+  return seed / 0x80000000;
+};
+
+interface Photo {
+  shiftX?: number;
+  shiftY?: number;
+  gain?: number; // Exposure
+  gradient?: number; // Uneven lighting, in grey levels across the page
+  noise?: number;
+}
+
+// A photo of a lab report: a header, then a table of test names, values and ranges. Every report printed
+// on this form has the same header, names and ranges; the patient name and values depend on `valuesSeed`.
+const labReport = (valuesSeed: number, photo: Photo = {}) => {
+  const { shiftX = 0, shiftY = 0, gain = 1, gradient = 0, noise = 0 } = photo;
+  const ink = new Float32Array(WIDTH * HEIGHT);
+  const fill = (x: number, y: number, width: number, height: number) => {
+    for (let row = Math.max(0, y + shiftY); row < Math.min(HEIGHT, y + shiftY + height); row++) {
+      for (let column = Math.max(0, x + shiftX); column < Math.min(WIDTH, x + shiftX + width); column++) ink[row * WIDTH + column] = 1;
+    }
+  };
+  const text = (x: number, y: number, length: number, next: () => number) => {
+    for (let i = 0; i < length; i++) fill(x + i * 5, y + Math.floor(next() * 2), 3 + Math.floor(next() * 2), 5);
+  };
+  const form = random(7);
+  const values = random(valuesSeed);
+  fill(15, 15, 270, 25);
+  text(20, 50, 16, values);
+  for (let row = 0; row < 20; row++) {
+    const y = 80 + row * 14;
+    fill(15, y, 270, 1);
+    text(20, y + 4, 6 + Math.floor(form() * 10), form);
+    text(165, y + 4, 2 + Math.floor(values() * 3), values);
+    text(210, y + 4, 8, form);
+  }
+
+  const grain = random(valuesSeed * 31 + Math.round(noise));
+  const grey = new Float32Array(WIDTH * HEIGHT);
+  for (let y = 0; y < HEIGHT; y++) {
+    for (let x = 0; x < WIDTH; x++) {
+      const paper = 240 - ink[y * WIDTH + x] * 210 + gradient * (x / WIDTH - 0.5);
+      grey[y * WIDTH + x] = Math.min(255, Math.max(0, paper * gain + (grain() - 0.5) * 2 * noise));
+    }
+  }
+  return differenceHash(grey, WIDTH, HEIGHT);
+};
+
+const analysis = (values: number[], fields: Partial<AnalysisData> = {}) => withAnalysisDefaults({
+  results: values.map((numericValue, i): MedicalTestResult => ({
+    test: `Test ${i}`, value: String(numericValue), numericValue, normalRange: '', status: 'normal', explanation: '', confidence: 90,
+  })),
+  ...fields,
+});
+
+describe('differenceHash', () => {
+  it('gives 64 bits as hex', () => {
+    expect(labReport(1)).toMatch(/^[0-9a-f]{16}$/);
+  });
+
+  it('survives a re-photo with other framing, exposure, lighting and noise', () => {
+    const original = labReport(1);
+    expect(isNearDuplicate(original, labReport(1, { shiftX: 2, shiftY: -2, gain: 0.9, gradient: 15, noise: 5 }))).toBe(true);
+    expect(isNearDuplicate(original, labReport(1, { gain: 0.8, noise: 8 }))).toBe(true);
+  });
+
+  it('tells apart pages that don\'t look alike', () => {
+    const blank = new Float32Array(WIDTH * HEIGHT).map((_, i) => 255 - (i % WIDTH) * 0.5);
+    expect(isNearDuplicate(labReport(1), differenceHash(blank, WIDTH, HEIGHT))).toBe(false);
+  });
+});
+
+describe('same report or not', () => {
+  const collected = { metadata: { collectionDate: '2024-03-01' } };
+  const firstReport = analysis([5.4, 140, 4.1, 0.9, 98], collected);
+
+  it('takes a re-photo for the report it already has', () => {
+    const rephoto = labReport(1, { shiftX: -3, shiftY: 2, gain: 0.85, gradient: 25, noise: 6 });
+    const rephotoReading = analysis([5.4, 140, 4.1, 0.9, 98], collected);
+    expect(isNearDuplicate(labReport(1), rephoto) && isSameReportContent(firstReport, rephotoReading)).toBe(true);
+    // Reading the re-photo, the model may pick up a value it missed the first time
+    expect(isSameReportContent(analysis([5.4, 140, 4.1, 0.9, 98, 1.2]), analysis([5.4, 140, 4.1, 0.9, 98]))).toBe(true);
+  });
+
+  it('does not take the next report on the same form for it', () => {
+    // The pictures are too alike for the hash to tell...
+    expect(isNearDuplicate(labReport(1), labReport(2))).toBe(true);
+    // ...but what was read from them differs
+    const nextReport = analysis([6.1, 138, 4.5, 1.0, 104], { metadata: { collectionDate: '2024-06-01' } });
+    expect(isSameReportContent(firstReport, nextReport)).toBe(false);
+    expect(isSameReportContent(firstReport, analysis([6.1, 138, 4.5, 1.0, 104], collected))).toBe(false);
+    expect(isSameReportContent(firstReport, analysis([5.4, 140, 4.1, 0.9, 98], { metadata: { collectionDate: '2024-06-01' } }))).toBe(false);
+  });
+
+  it('compares prescriptions by their medications and other reports by date', () => {
+    const prescription = (names: string[]) => analysis([], { medications: names.map(name => ({ name })) });
+    expect(isSameReportContent(prescription(['Amoxicillin', 'Ibuprofen']), prescription(['amoxicillin ', 'Ibuprofen']))).toBe(true);
+    expect(isSameReportContent(prescription(['Amoxicillin', 'Ibuprofen']), prescription(['Metformin', 'Ibuprofen']))).toBe(false);
+    expect(isSameReportContent(analysis([], collected), analysis([], collected))).toBe(true);
+    expect(isSameReportContent(analysis([]), analysis([]))).toBe(false);
+  });
+});
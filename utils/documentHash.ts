@@ -0,0 +1,122 @@
+// Document identity: an exact SHA-256 of the stored content, plus a perceptual hash of images
+// so a re-photographed copy of the same report can be recognised.
+
+import { AnalysisData } from "../types";
+import { METADATA_DATE_FIELDS } from "./reportMetadata";
+
+// Hashes at most this many bits apart are treated as the same picture (out of 64)
+const NEAR_DUPLICATE_BITS = 10;
+
+// Images are shrunk to this width before hashing, and the hash's grid cells averaged from what is left
+const SAMPLE_WIDTH = 144;
+// Share of the readings two analyses must have in common to come from the same report
+const SAME_READINGS_SHARE = 0.8;
+
+const base64ToBytes = (base64: string): Uint8Array => Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+
+export const sha256Hex = async (bytes: BufferSource): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// HistoryItem.documentId / FileData.documentId of a document
+export const documentIdFromBase64 = (base64: string) => sha256Hex(base64ToBytes(base64));
+
+// Difference hash of a grey image (`width` x `height` values, row by row): the image averaged into
+// 9x8 cells, one bit per pair of neighbouring cells. Small changes in lighting, framing or compression
+// leave most bits unchanged. So does a different report printed on the same form, which is why a close
+// hash alone doesn't make two uploads the same report (see isSameReportContent).
+export const differenceHash = (grey: ArrayLike<number>, width: number, height: number): string => {
+  const cells = Array.from({ length: 8 }, (_, row) => {
+    const top = Math.floor(row * height / 8);
+    const bottom = Math.max(top + 1, Math.floor((row + 1) * height / 8));
+    return Array.from({ length: 9 }, (_, column) => {
+      const left = Math.floor(column * width / 9);
+      const right = Math.max(left + 1, Math.floor((column + 1) * width / 9));
+      let sum = 0;
+      for (let y = top; y < bottom; y++) {
+        for (let x = left; x < right; x++) sum += grey[y * width + x];
+      }
+      return sum / ((bottom - top) * (right - left));
+    });
+  });
+
+  return cells.map(row => {
+    let bits = 0;
+    for (let x = 0; x < 8; x++) {
+      bits = (bits << 1) | (row[x] > row[x + 1] ? 1 : 0);
+    }
+    return bits.toString(16).padStart(2, '0');
+  }).join('');
+};
+
+// differenceHash of an image, shrunk to SAMPLE_WIDTH wide first
+export const perceptualHash = (imageUrl: string): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const width = Math.max(9, Math.min(SAMPLE_WIDTH, img.naturalWidth));
+      const height = Math.max(8, Math.round(img.naturalHeight * width / img.naturalWidth));
+      const canvas = document.createElement('canvas');
+      canvas.width = width;
+      canvas.height = height;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return reject(new Error("Canvas is not available"));
+      ctx.drawImage(img, 0, 0, width, height);
+
+      const { data } = ctx.getImageData(0, 0, width, height);
+      const grey = new Float32Array(width * height);
+      for (let i = 0; i < grey.length; i++) {
+        grey[i] = data[i * 4] * 0.299 + data[i * 4 + 1] * 0.587 + data[i * 4 + 2] * 0.114;
+      }
+      resolve(differenceHash(grey, width, height));
+    };
+    img.onerror = () => reject(new Error("Image could not be decoded"));
+    img.src = imageUrl;
+  });
+
+const hammingDistance = (a: string, b: string): number => {
+  let distance = 0;
+  for (let i = 0; i < a.length; i += 2) {
+    let diff = parseInt(a.slice(i, i + 2), 16) ^ parseInt(b.slice(i, i + 2), 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+};
+
+export const isNearDuplicate = (a: string, b: string) =>
+  a.length === b.length && hammingDistance(a, b) <= NEAR_DUPLICATE_BITS;
+
+// What can be compared across two readings of a report: the results' values, or for reports without
+// any, the names of the prescribed medications (both as printed, so they don't depend on the language)
+const reportReadings = (data: AnalysisData): string[] => {
+  const values = data.results.flatMap(result => result.numericValue === undefined ? [] : [String(result.numericValue)]);
+  return values.length ? values : [...(data.medications || []), ...(data.dischargeSummary?.medications || [])]
+    .map(medication => medication.name.trim().toLowerCase());
+};
+
+// Items of `a` also in `b`, each item of `b` matched once
+const sharedCount = (a: string[], b: string[]): number => {
+  const remaining = [...b];
+  return a.filter(item => {
+    const index = remaining.indexOf(item);
+    if (index >= 0) remaining.splice(index, 1);
+    return index >= 0;
+  }).length;
+};
+
+// Whether two analyses were read from the same report: no conflicting dates, and most readings in common
+// (or, when there are none, the same date). Used on top of isNearDuplicate, since reports printed on the
+// same form have near-duplicate hashes too.
+export const isSameReportContent = (a: AnalysisData, b: AnalysisData): boolean => {
+  const dates = METADATA_DATE_FIELDS.filter(field => a.metadata?.[field] && b.metadata?.[field]);
+  if (dates.some(field => a.metadata![field] !== b.metadata![field])) return false;
+
+  const readingsA = reportReadings(a);
+  const readingsB = reportReadings(b);
+  if (!readingsA.length && !readingsB.length) return dates.length > 0;
+  return sharedCount(readingsA, readingsB) >= SAME_READINGS_SHARE * Math.max(readingsA.length, readingsB.length);
+};
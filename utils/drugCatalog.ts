@@ -0,0 +1,296 @@
+import { Language } from "../types";
+
+// Bundled drug-drug interaction data, used offline. Medications are matched to a generic drug by
+// name (generic, brand or a translated name); interactions are listed between drugs or drug classes.
+// This is a short list of well-known, clinically important interactions, not a complete reference.
+
+export type InteractionSeverity = 'minor' | 'moderate' | 'major' | 'contraindicated';
+
+interface DrugDefinition {
+  id: string; // Generic name
+  classes: string[];
+  synonyms: string[]; // Brand and translated names, compared after normalizeDrugName
+}
+
+interface InteractionDefinition {
+  a: string[]; // Drug ids or class names
+  b: string[];
+  severity: InteractionSeverity;
+  explanation: Record<Language, string>;
+}
+
+const DRUGS: DrugDefinition[] = [
+  // Blood thinners
+  { id: 'warfarin', classes: ['anticoagulant'], synonyms: ['coumadin', 'jantoven', 'варфарин', '华法林'] },
+  { id: 'apixaban', classes: ['anticoagulant'], synonyms: ['eliquis', 'апиксабан', '阿哌沙班'] },
+  { id: 'rivaroxaban', classes: ['anticoagulant'], synonyms: ['xarelto', 'ривароксабан', '利伐沙班'] },
+  { id: 'clopidogrel', classes: ['antiplatelet'], synonyms: ['plavix', 'клопидогрел', '氯吡格雷'] },
+  { id: 'aspirin', classes: ['antiplatelet', 'nsaid'], synonyms: ['acetylsalicylic acid', 'aspirine', 'аспирин', 'ацетилсалициловая кислота', '阿司匹林'] },
+
+  // Pain relief
+  { id: 'ibuprofen', classes: ['nsaid'], synonyms: ['advil', 'motrin', 'nurofen', 'ибупрофен', '布洛芬'] },
+  { id: 'naproxen', classes: ['nsaid'], synonyms: ['aleve', 'naprosyn', 'напроксен', '萘普生'] },
+  { id: 'diclofenac', classes: ['nsaid'], synonyms: ['voltaren', 'voltarene', 'диклофенак', '双氯芬酸'] },
+  { id: 'celecoxib', classes: ['nsaid'], synonyms: ['celebrex', 'целекоксиб', '塞来昔布'] },
+  { id: 'paracetamol', classes: [], synonyms: ['acetaminophen', 'tylenol', 'panadol', 'efferalgan', 'doliprane', 'парацетамол', '对乙酰氨基酚'] },
+  { id: 'tramadol', classes: ['serotonergic'], synonyms: ['ultram', 'трамадол', '曲马多'] },
+
+  // Blood pressure and heart
+  { id: 'lisinopril', classes: ['ace_inhibitor'], synonyms: ['zestril', 'prinivil', 'лизиноприл', '赖诺普利'] },
+  { id: 'enalapril', classes: ['ace_inhibitor'], synonyms: ['vasotec', 'renitec', 'эналаприл', '依那普利'] },
+  { id: 'ramipril', classes: ['ace_inhibitor'], synonyms: ['altace', 'triatec', 'рамиприл', '雷米普利'] },
+  { id: 'perindopril', classes: ['ace_inhibitor'], synonyms: ['coversyl', 'периндоприл', '培哚普利'] },
+  { id: 'losartan', classes: ['arb'], synonyms: ['cozaar', 'лозартан', '氯沙坦'] },
+  { id: 'valsartan', classes: ['arb'], synonyms: ['diovan', 'валсартан', '缬沙坦'] },
+  { id: 'spironolactone', classes: ['potassium_raising'], synonyms: ['aldactone', 'спиронолактон', 'верошпирон', '螺内酯'] },
+  { id: 'potassium chloride', classes: ['potassium_raising'], synonyms: ['kcl', 'k dur', 'klor con', 'калия хлорид', '氯化钾'] },
+  { id: 'furosemide', classes: ['diuretic'], synonyms: ['lasix', 'фуросемид', '呋塞米'] },
+  { id: 'hydrochlorothiazide', classes: ['diuretic'], synonyms: ['hctz', 'гидрохлоротиазид', '氢氯噻嗪'] },
+  { id: 'digoxin', classes: [], synonyms: ['lanoxin', 'дигоксин', '地高辛'] },
+  { id: 'amiodarone', classes: ['cyp_inhibitor'], synonyms: ['cordarone', 'амиодарон', '胺碘酮'] },
+  { id: 'nitroglycerin', classes: ['nitrate'], synonyms: ['glyceryl trinitrate', 'nitroglycerine', 'нитроглицерин', '硝酸甘油'] },
+  { id: 'isosorbide mononitrate', classes: ['nitrate'], synonyms: ['imdur', 'monoket', 'изосорбида мононитрат', '单硝酸异山梨酯'] },
+  { id: 'sildenafil', classes: ['pde5_inhibitor'], synonyms: ['viagra', 'revatio', 'силденафил', '西地那非'] },
+  { id: 'tadalafil', classes: ['pde5_inhibitor'], synonyms: ['cialis', 'тадалафил', '他达拉非'] },
+
+  // Cholesterol
+  { id: 'simvastatin', classes: ['statin'], synonyms: ['zocor', 'симвастатин', '辛伐他汀'] },
+  { id: 'atorvastatin', classes: ['statin'], synonyms: ['lipitor', 'tahor', 'аторвастатин', '阿托伐他汀'] },
+
+  // Antibiotics and antifungals
+  { id: 'clarithromycin', classes: ['cyp_inhibitor'], synonyms: ['biaxin', 'klacid', 'кларитромицин', '克拉霉素'] },
+  { id: 'erythromycin', classes: ['cyp_inhibitor'], synonyms: ['эритромицин', '红霉素'] },
+  { id: 'fluconazole', classes: ['cyp_inhibitor'], synonyms: ['diflucan', 'флуконазол', '氟康唑'] },
+  { id: 'metronidazole', classes: [], synonyms: ['flagyl', 'метронидазол', '甲硝唑'] },
+  { id: 'ciprofloxacin', classes: ['fluoroquinolone'], synonyms: ['cipro', 'ciproxin', 'ципрофлоксацин', '环丙沙星'] },
+  { id: 'levofloxacin', classes: ['fluoroquinolone'], synonyms: ['levaquin', 'tavanic', 'левофлоксацин', '左氧氟沙星'] },
+  { id: 'sulfamethoxazole', classes: [], synonyms: ['trimethoprim sulfamethoxazole', 'co trimoxazole', 'bactrim', 'septra', 'бисептол', 'ко тримоксазол', '复方新诺明'] },
+
+  // Mood and migraine
+  { id: 'sertraline', classes: ['ssri', 'serotonergic'], synonyms: ['zoloft', 'сертралин', '舍曲林'] },
+  { id: 'fluoxetine', classes: ['ssri', 'serotonergic'], synonyms: ['prozac', 'флуоксетин', '氟西汀'] },
+  { id: 'escitalopram', classes: ['ssri', 'serotonergic'], synonyms: ['lexapro', 'cipralex', 'эсциталопрам', '艾司西酞普兰'] },
+  { id: 'sumatriptan', classes: ['serotonergic'], synonyms: ['imitrex', 'imigran', 'суматриптан', '舒马普坦'] },
+  { id: 'lithium', classes: [], synonyms: ['lithium carbonate', 'лития карбонат', '碳酸锂'] },
+
+  // Other
+  { id: 'methotrexate', classes: [], synonyms: ['trexall', 'метотрексат', '甲氨蝶呤'] },
+  { id: 'levothyroxine', classes: [], synonyms: ['synthroid', 'levothyrox', 'euthyrox', 'l thyroxine', 'левотироксин', 'эутирокс', '左甲状腺素'] },
+  { id: 'omeprazole', classes: ['ppi'], synonyms: ['prilosec', 'losec', 'mopral', 'омепразол', '奥美拉唑'] },
+  { id: 'calcium carbonate', classes: ['mineral'], synonyms: ['calcium', 'tums', 'кальция карбонат', '碳酸钙'] },
+  { id: 'ferrous sulfate', classes: ['mineral'], synonyms: ['iron', 'ferrous fumarate', 'tardyferon', 'железа сульфат', '硫酸亚铁'] },
+];
+
+const INTERACTIONS: InteractionDefinition[] = [
+  {
+    a: ['anticoagulant'], b: ['nsaid', 'antiplatelet'], severity: 'major',
+    explanation: {
+      en: 'Both thin the blood or irritate the stomach lining, so together they greatly raise the risk of serious bleeding.',
+      vi: 'Cả hai thuốc đều làm loãng máu hoặc kích ứng niêm mạc dạ dày, nên dùng chung làm tăng mạnh nguy cơ chảy máu nghiêm trọng.',
+      zh: '两者都会使血液变稀或刺激胃黏膜，同时使用会大大增加严重出血的风险。',
+      ru: 'Оба препарата разжижают кровь или раздражают слизистую желудка, поэтому вместе они сильно повышают риск серьёзного кровотечения.',
+      fr: "Les deux fluidifient le sang ou irritent l'estomac : ensemble, ils augmentent fortement le risque de saignement grave.",
+    },
+  },
+  {
+    a: ['warfarin'], b: ['fluconazole', 'metronidazole', 'sulfamethoxazole', 'ciprofloxacin', 'levofloxacin', 'clarithromycin', 'erythromycin', 'amiodarone'], severity: 'major',
+    explanation: {
+      en: 'This medicine slows the breakdown of warfarin, so warfarin can build up and cause bleeding. Your INR usually needs checking more often.',
+      vi: 'Thuốc này làm chậm quá trình đào thải warfarin, khiến warfarin tích tụ và gây chảy máu. Thường cần kiểm tra INR thường xuyên hơn.',
+      zh: '该药会减慢华法林的代谢，使华法林蓄积并引起出血。通常需要更频繁地检查INR。',
+      ru: 'Этот препарат замедляет выведение варфарина, он накапливается и может вызвать кровотечение. Обычно МНО нужно проверять чаще.',
+      fr: "Ce médicament ralentit l'élimination de la warfarine, qui peut s'accumuler et provoquer des saignements. L'INR doit souvent être contrôlé plus souvent.",
+    },
+  },
+  {
+    a: ['warfarin'], b: ['paracetamol'], severity: 'minor',
+    explanation: {
+      en: 'Regular high doses of paracetamol can make warfarin work more strongly. Occasional normal doses are usually fine.',
+      vi: 'Dùng paracetamol liều cao thường xuyên có thể làm warfarin tác dụng mạnh hơn. Liều bình thường thỉnh thoảng thường không sao.',
+      zh: '长期大剂量服用对乙酰氨基酚会增强华法林的作用。偶尔正常剂量通常没有问题。',
+      ru: 'Регулярные высокие дозы парацетамола могут усиливать действие варфарина. Обычные дозы время от времени, как правило, безопасны.',
+      fr: "Des doses élevées et régulières de paracétamol peuvent renforcer l'effet de la warfarine. Des doses normales occasionnelles posent rarement problème.",
+    },
+  },
+  {
+    a: ['ace_inhibitor', 'arb'], b: ['potassium_raising'], severity: 'major',
+    explanation: {
+      en: 'Both raise the potassium level in the blood. Too much potassium can cause dangerous heart rhythm problems, so blood tests are needed.',
+      vi: 'Cả hai đều làm tăng kali trong máu. Kali quá cao có thể gây rối loạn nhịp tim nguy hiểm, vì vậy cần xét nghiệm máu.',
+      zh: '两者都会升高血钾。血钾过高可能导致危险的心律问题，因此需要验血监测。',
+      ru: 'Оба повышают уровень калия в крови. Избыток калия может вызвать опасные нарушения ритма сердца, поэтому нужны анализы крови.',
+      fr: 'Les deux augmentent le potassium dans le sang. Trop de potassium peut provoquer des troubles du rythme cardiaque dangereux : des prises de sang sont nécessaires.',
+    },
+  },
+  {
+    a: ['ace_inhibitor'], b: ['arb'], severity: 'major',
+    explanation: {
+      en: 'Taking two medicines that block the same hormone system raises the risk of kidney problems, high potassium and low blood pressure.',
+      vi: 'Dùng hai thuốc cùng ức chế một hệ hormone làm tăng nguy cơ tổn thương thận, tăng kali và tụt huyết áp.',
+      zh: '同时使用两种阻断同一激素系统的药物会增加肾损伤、高血钾和低血压的风险。',
+      ru: 'Два препарата, блокирующих одну и ту же гормональную систему, повышают риск проблем с почками, высокого калия и низкого давления.',
+      fr: "Deux médicaments qui bloquent le même système hormonal augmentent le risque de problèmes rénaux, d'excès de potassium et d'hypotension.",
+    },
+  },
+  {
+    a: ['nsaid'], b: ['ace_inhibitor', 'arb', 'diuretic'], severity: 'moderate',
+    explanation: {
+      en: 'Anti-inflammatory painkillers can weaken blood pressure medicines and, together with them, strain the kidneys.',
+      vi: 'Thuốc giảm đau chống viêm có thể làm giảm tác dụng của thuốc huyết áp và khi dùng chung có thể gây hại cho thận.',
+      zh: '消炎止痛药会减弱降压药的效果，并且两者合用会加重肾脏负担。',
+      ru: 'Противовоспалительные обезболивающие ослабляют действие препаратов от давления и вместе с ними нагружают почки.',
+      fr: "Les anti-inflammatoires peuvent réduire l'effet des médicaments contre la tension et, associés à eux, fatiguer les reins.",
+    },
+  },
+  {
+    a: ['simvastatin'], b: ['clarithromycin', 'erythromycin', 'fluconazole'], severity: 'contraindicated',
+    explanation: {
+      en: 'This medicine makes simvastatin build up in the body, which can cause severe muscle damage. They should not be taken together.',
+      vi: 'Thuốc này làm simvastatin tích tụ trong cơ thể, có thể gây tổn thương cơ nặng. Không nên dùng chung.',
+      zh: '该药会使辛伐他汀在体内蓄积，可能导致严重的肌肉损伤。不应同时服用。',
+      ru: 'Этот препарат приводит к накоплению симвастатина, что может вызвать тяжёлое повреждение мышц. Их не следует принимать вместе.',
+      fr: "Ce médicament fait s'accumuler la simvastatine, ce qui peut provoquer de graves lésions musculaires. Ils ne doivent pas être pris ensemble.",
+    },
+  },
+  {
+    a: ['statin'], b: ['cyp_inhibitor'], severity: 'moderate',
+    explanation: {
+      en: 'This medicine can raise statin levels and the risk of muscle pain or damage. Report unexplained muscle pain or weakness.',
+      vi: 'Thuốc này có thể làm tăng nồng độ statin và nguy cơ đau hoặc tổn thương cơ. Hãy báo bác sĩ nếu đau hoặc yếu cơ không rõ lý do.',
+      zh: '该药会升高他汀类药物浓度，增加肌肉疼痛或损伤的风险。如出现不明原因的肌肉疼痛或无力请告知医生。',
+      ru: 'Этот препарат повышает уровень статина и риск боли или повреждения мышц. Сообщите врачу о необъяснимой боли или слабости в мышцах.',
+      fr: 'Ce médicament peut augmenter le taux de statine et le risque de douleurs ou lésions musculaires. Signalez toute douleur ou faiblesse musculaire inexpliquée.',
+    },
+  },
+  {
+    a: ['digoxin'], b: ['amiodarone', 'clarithromycin', 'erythromycin'], severity: 'major',
+    explanation: {
+      en: 'This medicine raises digoxin levels, which can cause nausea, vision changes and dangerous heart rhythms. The digoxin dose often needs lowering.',
+      vi: 'Thuốc này làm tăng nồng độ digoxin, có thể gây buồn nôn, rối loạn thị giác và loạn nhịp tim nguy hiểm. Thường cần giảm liều digoxin.',
+      zh: '该药会升高地高辛浓度，可能引起恶心、视物改变和危险的心律失常。通常需要减少地高辛剂量。',
+      ru: 'Этот препарат повышает уровень дигоксина, что может вызвать тошноту, нарушения зрения и опасные аритмии. Дозу дигоксина часто нужно снизить.',
+      fr: "Ce médicament augmente le taux de digoxine, ce qui peut provoquer nausées, troubles de la vue et troubles du rythme dangereux. La dose de digoxine doit souvent être réduite.",
+    },
+  },
+  {
+    a: ['ssri'], b: ['tramadol', 'sumatriptan'], severity: 'major',
+    explanation: {
+      en: 'Both increase serotonin. Together they can cause serotonin syndrome: agitation, fever, sweating, shaking or a racing heart.',
+      vi: 'Cả hai đều làm tăng serotonin. Dùng chung có thể gây hội chứng serotonin: kích động, sốt, vã mồ hôi, run hoặc tim đập nhanh.',
+      zh: '两者都会增加血清素。合用可能引起血清素综合征：烦躁、发热、出汗、颤抖或心跳加快。',
+      ru: 'Оба повышают уровень серотонина. Вместе они могут вызвать серотониновый синдром: возбуждение, жар, потливость, дрожь или учащённое сердцебиение.',
+      fr: 'Les deux augmentent la sérotonine. Ensemble, ils peuvent provoquer un syndrome sérotoninergique : agitation, fièvre, sueurs, tremblements ou cœur rapide.',
+    },
+  },
+  {
+    a: ['ssri'], b: ['nsaid', 'anticoagulant'], severity: 'moderate',
+    explanation: {
+      en: 'Antidepressants of this type slightly affect blood clotting, so combined with this medicine the risk of bleeding, especially in the stomach, is higher.',
+      vi: 'Nhóm thuốc chống trầm cảm này ảnh hưởng nhẹ đến đông máu, nên khi dùng chung nguy cơ chảy máu, nhất là ở dạ dày, cao hơn.',
+      zh: '这类抗抑郁药会轻微影响凝血，与该药合用时出血（尤其是胃出血）的风险更高。',
+      ru: 'Антидепрессанты этого типа немного влияют на свёртываемость крови, поэтому вместе с этим препаратом выше риск кровотечения, особенно желудочного.',
+      fr: "Ces antidépresseurs agissent un peu sur la coagulation : avec ce médicament, le risque de saignement, surtout digestif, est plus élevé.",
+    },
+  },
+  {
+    a: ['pde5_inhibitor'], b: ['nitrate'], severity: 'contraindicated',
+    explanation: {
+      en: 'Together they can cause a sudden, dangerous drop in blood pressure. They must not be taken together.',
+      vi: 'Dùng chung có thể gây tụt huyết áp đột ngột và nguy hiểm. Tuyệt đối không dùng chung.',
+      zh: '两者合用可能导致血压突然危险地下降，绝不能同时服用。',
+      ru: 'Вместе они могут вызвать резкое опасное падение давления. Их нельзя принимать вместе.',
+      fr: 'Ensemble, ils peuvent provoquer une chute brutale et dangereuse de la tension. Ils ne doivent jamais être pris ensemble.',
+    },
+  },
+  {
+    a: ['clopidogrel'], b: ['omeprazole'], severity: 'moderate',
+    explanation: {
+      en: 'Omeprazole can make clopidogrel less effective at preventing clots. Another stomach medicine may be preferred.',
+      vi: 'Omeprazole có thể làm giảm hiệu quả chống đông của clopidogrel. Có thể nên dùng thuốc dạ dày khác.',
+      zh: '奥美拉唑会降低氯吡格雷预防血栓的效果，可能需要换用其他胃药。',
+      ru: 'Омепразол может снижать эффективность клопидогрела в профилактике тромбов. Возможно, лучше выбрать другое средство для желудка.',
+      fr: "L'oméprazole peut rendre le clopidogrel moins efficace contre les caillots. Un autre médicament pour l'estomac peut être préférable.",
+    },
+  },
+  {
+    a: ['methotrexate'], b: ['sulfamethoxazole', 'nsaid'], severity: 'major',
+    explanation: {
+      en: 'This medicine can make methotrexate build up to toxic levels, affecting the blood count, liver and kidneys.',
+      vi: 'Thuốc này có thể làm methotrexate tích tụ đến mức độc, ảnh hưởng đến tế bào máu, gan và thận.',
+      zh: '该药可能使甲氨蝶呤蓄积到中毒水平，影响血细胞、肝脏和肾脏。',
+      ru: 'Этот препарат может привести к накоплению метотрексата до токсического уровня с поражением крови, печени и почек.',
+      fr: "Ce médicament peut faire monter le méthotrexate à un niveau toxique pour le sang, le foie et les reins.",
+    },
+  },
+  {
+    a: ['lithium'], b: ['nsaid', 'ace_inhibitor', 'arb', 'diuretic'], severity: 'major',
+    explanation: {
+      en: 'This medicine reduces how fast lithium leaves the body, which can lead to lithium poisoning. Lithium levels need checking.',
+      vi: 'Thuốc này làm giảm đào thải lithium, có thể gây ngộ độc lithium. Cần kiểm tra nồng độ lithium.',
+      zh: '该药会减慢锂的排出，可能导致锂中毒，需要监测血锂浓度。',
+      ru: 'Этот препарат замедляет выведение лития, что может привести к отравлению литием. Нужно контролировать уровень лития.',
+      fr: "Ce médicament ralentit l'élimination du lithium, ce qui peut entraîner une intoxication. Le taux de lithium doit être surveillé.",
+    },
+  },
+  {
+    a: ['levothyroxine', 'fluoroquinolone'], b: ['mineral'], severity: 'moderate',
+    explanation: {
+      en: 'Calcium and iron block the absorption of this medicine. Take them at least 4 hours apart.',
+      vi: 'Canxi và sắt cản trở hấp thu thuốc này. Hãy uống cách nhau ít nhất 4 giờ.',
+      zh: '钙和铁会阻碍该药的吸收，两者至少间隔4小时服用。',
+      ru: 'Кальций и железо мешают всасыванию этого препарата. Принимайте их с интервалом не менее 4 часов.',
+      fr: "Le calcium et le fer empêchent l'absorption de ce médicament. Prenez-les à au moins 4 heures d'intervalle.",
+    },
+  },
+];
+
+// Lower-case, without accents or punctuation ("Coumadin® (Warfarin)" → "coumadin warfarin")
+export const normalizeDrugName = (name: string): string =>
+  name
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .replace(/đ/gi, 'd')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+
+// Names in the order they are looked for; longer names first so "potassium chloride" wins over "calcium"-style
+// single words inside it
+const NAMES = DRUGS
+  .flatMap(drug => [drug.id, ...drug.synonyms].map(name => ({ name: normalizeDrugName(name), drug })))
+  .sort((a, b) => b.name.length - a.name.length);
+
+// Every catalog drug named in `text` as whole words, e.g. both ingredients of "Bactrim (sulfamethoxazole/trimethoprim)".
+// Chinese names are matched anywhere, since Chinese is written without spaces.
+export const findDrugs = (text: string): string[] => {
+  let remaining = ` ${normalizeDrugName(text)} `;
+  const found = new Set<string>();
+  NAMES.forEach(({ name, drug }) => {
+    const pattern = /\p{Script=Han}/u.test(name) ? name : ` ${name} `;
+    if (remaining.includes(pattern)) {
+      found.add(drug.id);
+      remaining = remaining.replace(pattern, ' ');
+    }
+  });
+  return [...found];
+};
+
+const matches = (drugId: string, refs: string[]) => {
+  const drug = DRUGS.find(d => d.id === drugId);
+  return !!drug && refs.some(ref => ref === drug.id || drug.classes.includes(ref));
+};
+
+const SEVERITY_ORDER: InteractionSeverity[] = ['minor', 'moderate', 'major', 'contraindicated'];
+
+// The most severe known interaction between two catalog drugs, if any
+export const findInteraction = (
+  drugA: string,
+  drugB: string,
+  language: Language
+): { severity: InteractionSeverity; explanation: string } | undefined => {
+  if (drugA === drugB) return undefined;
+  const found = INTERACTIONS
+    .filter(rule => (matches(drugA, rule.a) && matches(drugB, rule.b)) || (matches(drugB, rule.a) && matches(drugA, rule.b)))
+    .sort((x, y) => SEVERITY_ORDER.indexOf(y.severity) - SEVERITY_ORDER.indexOf(x.severity))[0];
+  return found && { severity: found.severity, explanation: found.explanation[language] };
+};
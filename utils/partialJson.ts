@@ -0,0 +1,154 @@
+// Tolerant parser for JSON that is still being streamed.
+// Returns the best value that can be read so far:
+// - strings and objects cut off mid-way are returned as far as they go
+// - array elements are only included once they are complete
+// - numbers and literals are only included once they are terminated
+// Anything that is not valid JSON (as opposed to merely unfinished) yields undefined at that point.
+
+interface Parsed {
+  value: unknown;
+  complete: boolean;
+}
+
+const INCOMPLETE: Parsed = { value: undefined, complete: false };
+
+class PartialJsonParser {
+  private pos = 0;
+
+  constructor(private readonly text: string) {}
+
+  parse(): unknown {
+    this.skipWhitespace();
+    return this.parseValue().value;
+  }
+
+  private atEnd() {
+    return this.pos >= this.text.length;
+  }
+
+  private skipWhitespace() {
+    while (!this.atEnd() && /\s/.test(this.text[this.pos])) this.pos++;
+  }
+
+  private parseValue(): Parsed {
+    this.skipWhitespace();
+    if (this.atEnd()) return INCOMPLETE;
+
+    const char = this.text[this.pos];
+    if (char === '{') return this.parseObject();
+    if (char === '[') return this.parseArray();
+    if (char === '"') return this.parseString();
+    if (char === '-' || (char >= '0' && char <= '9')) return this.parseNumber();
+    return this.parseLiteral();
+  }
+
+  private parseObject(): Parsed {
+    const result: Record<string, unknown> = {};
+    this.pos++; // {
+
+    while (true) {
+      this.skipWhitespace();
+      if (this.atEnd()) return { value: result, complete: false };
+      if (this.text[this.pos] === '}') {
+        this.pos++;
+        return { value: result, complete: true };
+      }
+      if (this.text[this.pos] === ',') {
+        this.pos++;
+        continue;
+      }
+
+      const key = this.parseString();
+      if (!key.complete) return { value: result, complete: false };
+
+      this.skipWhitespace();
+      if (this.atEnd() || this.text[this.pos] !== ':') return { value: result, complete: false };
+      this.pos++; // :
+
+      const value = this.parseValue();
+      // Half-read numbers/literals would show wrong values, so only keep containers and strings
+      if (value.complete || typeof value.value === 'string' || typeof value.value === 'object') {
+        if (value.value !== undefined) result[key.value as string] = value.value;
+      }
+      if (!value.complete) return { value: result, complete: false };
+    }
+  }
+
+  private parseArray(): Parsed {
+    const result: unknown[] = [];
+    this.pos++; // [
+
+    while (true) {
+      this.skipWhitespace();
+      if (this.atEnd()) return { value: result, complete: false };
+      if (this.text[this.pos] === ']') {
+        this.pos++;
+        return { value: result, complete: true };
+      }
+      if (this.text[this.pos] === ',') {
+        this.pos++;
+        continue;
+      }
+
+      const item = this.parseValue();
+      if (!item.complete) return { value: result, complete: false };
+      result.push(item.value);
+    }
+  }
+
+  private parseString(): Parsed {
+    if (this.text[this.pos] !== '"') return INCOMPLETE;
+    this.pos++; // opening quote
+
+    let result = '';
+    while (!this.atEnd()) {
+      const char = this.text[this.pos];
+      if (char === '"') {
+        this.pos++;
+        return { value: result, complete: true };
+      }
+      if (char === '\\') {
+        const escape = this.text[this.pos + 1];
+        if (escape === undefined) break;
+        if (escape === 'u') {
+          const hex = this.text.slice(this.pos + 2, this.pos + 6);
+          if (hex.length < 4) break;
+          result += String.fromCharCode(parseInt(hex, 16));
+          this.pos += 6;
+          continue;
+        }
+        const escapes: Record<string, string> = { n: '\n', t: '\t', r: '\r', b: '\b', f: '\f' };
+        result += escapes[escape] ?? escape;
+        this.pos += 2;
+        continue;
+      }
+      result += char;
+      this.pos++;
+    }
+
+    this.pos = this.text.length;
+    return { value: result, complete: false };
+  }
+
+  private parseNumber(): Parsed {
+    const match = this.text.slice(this.pos).match(/^-?\d+(\.\d+)?([eE][+-]?\d+)?/);
+    if (!match) return INCOMPLETE;
+    this.pos += match[0].length;
+    // A number touching the end of the buffer may still be growing
+    return { value: Number(match[0]), complete: !this.atEnd() };
+  }
+
+  private parseLiteral(): Parsed {
+    const literals: [string, unknown][] = [['true', true], ['false', false], ['null', null]];
+    for (const [word, value] of literals) {
+      if (this.text.startsWith(word, this.pos)) {
+        this.pos += word.length;
+        return { value, complete: true };
+      }
+    }
+    this.pos = this.text.length;
+    return INCOMPLETE;
+  }
+}
+
+export const parsePartialJson = (text: string): unknown => new PartialJsonParser(text).parse();
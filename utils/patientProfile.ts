@@ -0,0 +1,40 @@
+import { PatientProfile } from "../types";
+import { parseReportDate } from "./reportMetadata";
+
+// Age in full years on `at`, from the birth date if there is one
+export const patientAge = (profile: PatientProfile, at = Date.now()): number | undefined => {
+  const born = parseReportDate(profile.birthDate);
+  if (born === undefined) return profile.age;
+  const birth = new Date(born);
+  const on = new Date(at);
+  const hadBirthday = on.getMonth() > birth.getMonth() || (on.getMonth() === birth.getMonth() && on.getDate() >= birth.getDate());
+  return on.getFullYear() - birth.getFullYear() - (hadBirthday ? 0 : 1);
+};
+
+// Whether the user has filled in anything that could change how a report is read
+export const hasPatientProfile = (profile?: PatientProfile): profile is PatientProfile =>
+  !!profile && (
+    patientAge(profile) !== undefined ||
+    !!profile.sex ||
+    !!profile.pregnancy ||
+    !!profile.conditions?.length ||
+    !!profile.medications?.length ||
+    !!profile.allergies?.length
+  );
+
+// The profile sent with an analysis and kept on it: the age is fixed at analysis time, the birth date left out
+export const profileSnapshot = (profile: PatientProfile, at = Date.now()): PatientProfile => {
+  const { birthDate, ...rest } = profile;
+  return { ...rest, age: patientAge(profile, at) };
+};
+
+// Whether two profiles personalize analyses and chats the same way; compared by value, as settings
+// saves always hand over a new object
+export const sameProfile = (a?: PatientProfile, b?: PatientProfile): boolean => {
+  const personalization = (profile?: PatientProfile) => {
+    if (!hasPatientProfile(profile)) return '';
+    const { age, sex, pregnancy, conditions = [], medications = [], allergies = [] } = profileSnapshot(profile);
+    return JSON.stringify([age, sex, pregnancy, conditions, medications, allergies]);
+  };
+  return personalization(a) === personalization(b);
+};
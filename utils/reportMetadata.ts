@@ -0,0 +1,23 @@
+import { HistoryItem, ReportMetadata } from "../types";
+
+export const METADATA_DATE_FIELDS = ['collectionDate', 'reportDate'] as const;
+
+// Timestamp (local midnight) of a YYYY-MM-DD date, or undefined when it isn't a real date
+export const parseReportDate = (text?: string): number | undefined => {
+  const match = text?.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return undefined;
+  const [year, month, day] = match.slice(1).map(Number);
+  const date = new Date(year, month - 1, day);
+  return date.getMonth() === month - 1 && date.getDate() === day ? date.getTime() : undefined;
+};
+
+// When the report was taken: collection date, else report date, else when it was uploaded.
+// Timelines (history order, Before/After in comparisons) use this rather than HistoryItem.date.
+export const timelineDate = (item: HistoryItem): number =>
+  parseReportDate(item.data.metadata?.collectionDate)
+  ?? parseReportDate(item.data.metadata?.reportDate)
+  ?? item.date;
+
+// Whether timelineDate comes from the report rather than the upload time
+export const hasReportDate = (metadata?: ReportMetadata) =>
+  METADATA_DATE_FIELDS.some(field => parseReportDate(metadata?.[field]) !== undefined);
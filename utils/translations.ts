@@ -1,4 +1,13 @@
-import { Language } from "../types";
+import { Language, MedicalTestResult } from "../types";
+
+// Locale for dates and numbers shown in each language
+export const LOCALES: Record<Language, string> = {
+  en: 'en-US',
+  vi: 'vi-VN',
+  zh: 'zh-CN',
+  ru: 'ru-RU',
+  fr: 'fr-FR',
+};
 
 export const translations = {
   en: {
@@ -69,7 +78,244 @@ export const translations = {
     better: "Your overall results have improved since the last visit. Keep up the good work!",
     typeMismatch: "Cannot compare different document types. Please select two similar documents (e.g., 2 Blood Tests).",
     availableLangs: "Analyzed Languages",
-    deleteAll: "Delete All Versions"
+    deleteAll: "Delete All Versions",
+    settings: "Settings",
+    settingsSub: "Choose which AI backend analyzes your documents and answers your questions.",
+    aiProvider: "AI Provider",
+    providerGemini: "Google Gemini (cloud)",
+    providerOpenAI: "OpenAI-compatible server (e.g. Ollama, llama.cpp)",
+    providerMock: "Demo mode (offline sample data)",
+    providerMockNote: "Demo mode returns the same sample blood test for every upload. Nothing is sent over the network.",
+    geminiApiKey: "Gemini API Key",
+    apiKeyHint: "Leave empty to use the key configured for this deployment.",
+    serverUrl: "Server URL",
+    modelName: "Model",
+    serverApiKey: "API Key (optional)",
+    saveSettings: "Save Settings",
+    settingsSaved: "Settings saved",
+    analysisInvalid: "The AI returned an incomplete analysis. Please try again.",
+    autoCorrected: "Automatically Corrected Data",
+    autoCorrectedMsg: "Some fields in the AI response were missing or malformed and were repaired locally. Double-check these against your document.",
+    ruleImpossible: "{test}: {value} {unit} is physiologically impossible. Please verify against the original document.",
+    ruleUnitMismatch: "{test}: result unit ({unit}) does not match the reference range unit ({rangeUnit}).",
+    ruleOutlier: "Possible OCR/Data error: {test} value {value} is >10x normal limit ({high}).",
+    ruleRangeOverride: "Local check: {value} is {status} for the range {low}-{high} (AI said \"{ai}\").",
+    localCheck: "Local check",
+    aiSaid: "AI said",
+    displayUnits: "Display Units",
+    unitsOriginal: "As printed on the report",
+    unitsSI: "SI units (mmol/L, µmol/L, g/L)",
+    unitsConventional: "Conventional units (mg/dL, g/dL)",
+    unitsHint: "Values are converted for common analytes such as glucose, cholesterol, creatinine, urea, bilirubin, calcium and hemoglobin.",
+    reportedAs: "Reported as",
+    progressReading: "Reading the document...",
+    progressSummary: "Writing the summary...",
+    progressResults: "Extracting results ({count} so far)...",
+    progressActionPlan: "Preparing the action plan...",
+    progressFinishing: "Finishing up...",
+    receivingResults: "Receiving more results...",
+    cancel: "Cancel",
+    stopReply: "Stop",
+    regenerate: "Regenerate",
+    editMessage: "Edit",
+    saveAndResend: "Save & resend",
+    replyStopped: "Reply stopped",
+    progressTranslating: "Translating the existing analysis...",
+    originalAnalysis: "Original analysis",
+    translatedView: "Translated from the original analysis",
+    loadingHistory: "Loading history...",
+    storageTitle: "Storage",
+    storageSub: "Your history is kept in this browser only.",
+    storageUsed: "{used} of {quota} used",
+    storageDocuments: "Original documents: {size}",
+    storageAnalyses: "Analyses and chats: {size}",
+    storageFull: "Browser storage is full, so recent changes could not be saved. Free up some space to keep your history.",
+    storageSaveFailed: "Your history could not be saved in this browser.",
+    storageLow: "Browser storage is almost full.",
+    storageFreeUp: "Free up space",
+    pruneTranslations: "Remove translations",
+    pruneTranslationsHint: "Other language versions can be translated again from the original at any time.",
+    pruneDocuments: "Remove older original documents",
+    pruneDocumentsHint: "Keeps analyses and chats, and the documents of your 3 most recent reports.",
+    pruneOldest: "Delete the oldest report",
+    pruneOldestHint: "Removes the oldest document with all its analyses and chats.",
+    pruneRun: "Free up",
+    pruneConfirm: "This cannot be undone. Continue?",
+    locked: "Locked",
+    lockNow: "Lock now",
+    unlockTitle: "Your history is locked",
+    unlockSub: "Enter your passphrase to open your saved reports and settings.",
+    passphrase: "Passphrase",
+    unlock: "Unlock",
+    unlocking: "Unlocking...",
+    wrongPassphrase: "That passphrase is not correct.",
+    encryptionTitle: "Encryption",
+    encryptionOffSub: "Protect saved reports, chats and settings in this browser with a passphrase.",
+    encryptionOnSub: "Saved reports, chats and settings are encrypted with your passphrase.",
+    autoLock: "Lock automatically",
+    autoLockNever: "Never",
+    autoLockAfter: "After {n} minutes of inactivity",
+    currentPassphrase: "Current passphrase",
+    newPassphrase: "New passphrase",
+    confirmPassphrase: "Confirm passphrase",
+    passphraseNoRecovery: "There is no way to recover a forgotten passphrase. Without it, your saved history cannot be opened.",
+    passphraseTooShort: "Use at least {n} characters.",
+    passphraseMismatch: "The passphrases do not match.",
+    enableEncryption: "Turn on encryption",
+    changePassphrase: "Change passphrase",
+    disableEncryption: "Turn off encryption",
+    encryptionWorking: "Working...",
+    encryptionEnabled: "Encryption is on.",
+    passphraseChanged: "Passphrase changed.",
+    encryptionDisabled: "Encryption is off.",
+    encryptionFailed: "Something went wrong. Your data was left as it was.",
+    backupTitle: "Backup",
+    backupSub: "Move your history to another browser or device, or keep a copy in case site data is cleared.",
+    backupPassphraseOptional: "Backup passphrase (optional)",
+    backupPassphraseHint: "With a passphrase the backup file is encrypted, and the same passphrase is needed to import it.",
+    backupExport: "Export backup",
+    backupImport: "Import backup",
+    backupEncrypted: "This backup is encrypted. Enter its passphrase",
+    backupImported: "Imported {added} analyses ({skipped} were already in your history).",
+    backupInvalid: "This file is not a valid MediClarify backup.",
+    backupUnsupportedVersion: "This backup was made by a newer version of MediClarify.",
+    backupExportFailed: "The backup could not be created.",
+    nearDuplicateTitle: "Have you uploaded this report before?",
+    nearDuplicateSub: "It looks very similar to \"{file}\" from {date}. Is it the same report?",
+    nearDuplicateOpen: "Yes, open the saved analysis",
+    nearDuplicateAnalyze: "No, keep it as a new report",
+    reportDetails: "Report Details",
+    metadataCollectionDate: "Collected",
+    metadataReportDate: "Reported",
+    metadataLab: "Lab",
+    metadataClinician: "Ordered by",
+    metadataPatientName: "Patient",
+    metadataPatientAge: "Age",
+    metadataPatientSex: "Sex",
+    metadataEdited: "(edited)",
+    metadataSave: "Save",
+    metadataNone: "No details were found on the report.",
+    metadataNoDate: "No report date found, so the upload date is used in your history and comparisons. Add the collection date if you know it.",
+    collectedOn: "Collected {date}",
+    trends: "Trends",
+    trendsTitle: "Trends",
+    trendsSub: "Each test across your saved reports, in the order they were taken.",
+    trendsEmpty: "Save reports with test results to see how they change over time.",
+    trendsReports: "Reports included ({n} of {total})",
+    trendsSearch: "Search tests",
+    trendsReadings: "{n} readings",
+    trendsAbnormal: "{n} out of range",
+    trendsReferenceBand: "Reference range",
+    trendsOutOfRange: "Out of range",
+    trendsDate: "Date",
+    trendsValue: "Value",
+    trendsRange: "Reference range",
+    trendsReport: "Report",
+    trendsNotPlotted: "Not on the chart (other unit or not a number)",
+    matchedAs: "Matched with \"{name}\"",
+    splitMatch: "Split",
+    mergeMatch: "Same test as…",
+    resetMatches: "Reset my test matches",
+    alertsTitle: "Trend alerts",
+    alertsSub: "Changes since earlier reports that may be worth discussing with your doctor.",
+    alertRapidRise: "{test} rose sharply since the previous report",
+    alertRapidFall: "{test} fell sharply since the previous report",
+    alertBecameAbnormal: "{test} moved out of the normal range ({status})",
+    alertDriftUp: "{test} has risen over the last {n} reports and is nearing the upper limit",
+    alertDriftDown: "{test} has fallen over the last {n} reports and is nearing the lower limit",
+    alertsMore: "+{n} more",
+    changesTitle: "AI Summary of Changes",
+    changesLoading: "Comparing the two reports...",
+    changesFailed: "The summary of changes could not be generated.",
+    changesImproved: "Improved",
+    changesWorsened: "Worsened",
+    changesNew: "New in the latest report",
+    changesResolved: "No longer present",
+    changesDiscuss: "Discuss these changes in chat",
+    medications: "Medications",
+    medRoute: "How to take",
+    medFrequency: "How often",
+    medDuration: "For how long",
+    medQuantity: "Quantity",
+    medRefills: "Refills",
+    medInstructions: "Prescriber's instructions",
+    radiologyTitle: "Imaging Report",
+    radiologyImpression: "Conclusion",
+    radiologyRecommendations: "Recommended next steps",
+    significanceNormal: "Normal",
+    significanceMinor: "Minor",
+    significanceSignificant: "Needs attention",
+    significanceUrgent: "Urgent",
+    dischargeTitle: "Hospital Stay",
+    dischargeAdmitted: "Admitted {date}",
+    dischargeDischarged: "Discharged {date}",
+    dischargeDiagnoses: "Diagnoses",
+    dischargePrimary: "Main",
+    dischargeProcedures: "Procedures",
+    dischargeFollowUps: "Follow-up",
+    dischargeWarningSigns: "Seek care right away if you notice",
+    dischargeMedications: "Medications after discharge",
+    interactionsTitle: "Possible drug interactions",
+    interactionsSub: "Checked against the other medicines on this document and those from your earlier prescriptions that may still be in use. Don't stop or change a medicine without asking your doctor or pharmacist.",
+    interactionFrom: "from {file}",
+    interactionAction: "Ask your doctor or pharmacist whether {a} can be taken with {b}.",
+    interactionMinor: "Minor",
+    interactionModerate: "Moderate",
+    interactionMajor: "Major",
+    interactionContraindicated: "Avoid combination",
+    scheduleTitle: "Medication schedule",
+    scheduleSub: "A suggested daily routine read from the prescription. Check the times with your doctor or pharmacist.",
+    scheduleStart: "Starting",
+    scheduleTime: "Time",
+    scheduleWithFood: "Take with food",
+    scheduleWithoutFood: "Take on an empty stomach",
+    scheduleWeekly: "Once a week",
+    scheduleUntil: "Until {date}",
+    scheduleOngoing: "No end date",
+    scheduleAsNeeded: "Only when needed",
+    scheduleUnclear: "See the instructions on the prescription",
+    scheduleNotScheduled: "Not on a fixed schedule",
+    scheduleReminder: "Time to take {name}",
+    pillChartTitle: "Weekly pill chart",
+    schedulePrint: "Print weekly chart",
+    scheduleExport: "Add to calendar (.ics)",
+    profileTitle: "Patient profile",
+    profileSub: "Optional. Used to interpret reports and answer questions for this patient, e.g. age- and pregnancy-specific ranges.",
+    profileBirthDate: "Date of birth",
+    profileAge: "Or age",
+    profileSex: "Sex",
+    profileNotSet: "Not specified",
+    profileFemale: "Female",
+    profileMale: "Male",
+    profilePregnancy: "Pregnancy",
+    profilePregnant: "Pregnant",
+    profileBreastfeeding: "Breastfeeding",
+    profileConditions: "Chronic conditions",
+    profileMedications: "Current medications",
+    profileAllergies: "Allergies",
+    profileListHint: "One per line",
+    profileYears: "{n} years",
+    personalizedFor: "Interpreted for",
+    repairUnrecognisedValue: "\"{value}\" is not a recognised value, set to \"{fallback}\"",
+    repairConvertedToText: "converted {value} to text",
+    repairConvertedToNumber: "converted text \"{value}\" to a number",
+    repairConvertedToBoolean: "converted text \"{value}\" to yes/no",
+    repairClamped: "{value} is out of range, set to {limit}",
+    repairNotAList: "expected a list, replaced with an empty list",
+    repairRemoved: "unusable value, removed",
+    repairMissingList: "missing, set to an empty list",
+    repairMissingValue: "missing, set to \"{value}\"",
+    repairMissingDefault: "missing, set to a default value",
+    repairInvalidDefault: "unusable value, set to a default value",
+    repairRiskLevelDerived: "\"{value}\" is not valid, derived \"{derived}\" from the risk score",
+    repairInvalidDate: "\"{value}\" is not a YYYY-MM-DD date, removed",
+    statusNormal: "normal",
+    statusHigh: "high",
+    statusLow: "low",
+    statusAbnormal: "abnormal",
+    statusBorderline: "borderline",
+    statusUnknown: "unknown",
+    statusCritical: "critical"
   },
   vi: {
     analyzing: "Đang phân tích tài liệu...",
@@ -139,7 +385,244 @@ export const translations = {
     better: "Kết quả tổng thể của bạn đã cải thiện so với lần trước. Hãy tiếp tục phát huy!",
     typeMismatch: "Không thể so sánh các loại tài liệu khác nhau. Vui lòng chọn 2 tài liệu giống nhau.",
     availableLangs: "Đã phân tích ngôn ngữ",
-    deleteAll: "Xóa tất cả phiên bản"
+    deleteAll: "Xóa tất cả phiên bản",
+    settings: "Cài đặt",
+    settingsSub: "Chọn hệ thống AI dùng để phân tích tài liệu và trả lời câu hỏi của bạn.",
+    aiProvider: "Nhà cung cấp AI",
+    providerGemini: "Google Gemini (đám mây)",
+    providerOpenAI: "Máy chủ tương thích OpenAI (ví dụ Ollama, llama.cpp)",
+    providerMock: "Chế độ demo (dữ liệu mẫu ngoại tuyến)",
+    providerMockNote: "Chế độ demo luôn trả về cùng một kết quả xét nghiệm máu mẫu. Không có dữ liệu nào được gửi qua mạng.",
+    geminiApiKey: "Khóa API Gemini",
+    apiKeyHint: "Để trống để dùng khóa được cấu hình sẵn.",
+    serverUrl: "Địa chỉ máy chủ",
+    modelName: "Mô hình",
+    serverApiKey: "Khóa API (tùy chọn)",
+    saveSettings: "Lưu cài đặt",
+    settingsSaved: "Đã lưu cài đặt",
+    analysisInvalid: "AI trả về kết quả phân tích không đầy đủ. Vui lòng thử lại.",
+    autoCorrected: "Dữ liệu đã được tự động sửa",
+    autoCorrectedMsg: "Một số trường trong phản hồi của AI bị thiếu hoặc sai định dạng và đã được sửa cục bộ. Hãy đối chiếu lại với tài liệu của bạn.",
+    ruleImpossible: "{test}: {value} {unit} là giá trị không thể có về mặt sinh lý. Vui lòng kiểm tra lại với tài liệu gốc.",
+    ruleUnitMismatch: "{test}: đơn vị kết quả ({unit}) không khớp với đơn vị của khoảng tham chiếu ({rangeUnit}).",
+    ruleOutlier: "Có thể lỗi OCR/dữ liệu: giá trị {test} {value} >10x giới hạn bình thường ({high}).",
+    ruleRangeOverride: "Kiểm tra cục bộ: {value} là {status} so với khoảng {low}-{high} (AI cho là \"{ai}\").",
+    localCheck: "Kiểm tra cục bộ",
+    aiSaid: "AI cho là",
+    displayUnits: "Đơn vị hiển thị",
+    unitsOriginal: "Như in trên phiếu kết quả",
+    unitsSI: "Đơn vị SI (mmol/L, µmol/L, g/L)",
+    unitsConventional: "Đơn vị quy ước (mg/dL, g/dL)",
+    unitsHint: "Giá trị được quy đổi cho các chỉ số phổ biến như glucose, cholesterol, creatinine, urê, bilirubin, canxi và hemoglobin.",
+    reportedAs: "Giá trị gốc",
+    progressReading: "Đang đọc tài liệu...",
+    progressSummary: "Đang viết tóm tắt...",
+    progressResults: "Đang trích xuất kết quả (đã có {count})...",
+    progressActionPlan: "Đang chuẩn bị kế hoạch hành động...",
+    progressFinishing: "Đang hoàn tất...",
+    receivingResults: "Đang nhận thêm kết quả...",
+    cancel: "Hủy",
+    stopReply: "Dừng",
+    regenerate: "Tạo lại",
+    editMessage: "Sửa",
+    saveAndResend: "Lưu & gửi lại",
+    replyStopped: "Đã dừng trả lời",
+    progressTranslating: "Đang dịch bản phân tích hiện có...",
+    originalAnalysis: "Bản phân tích gốc",
+    translatedView: "Được dịch từ bản phân tích gốc",
+    loadingHistory: "Đang tải lịch sử...",
+    storageTitle: "Bộ nhớ",
+    storageSub: "Lịch sử của bạn chỉ được lưu trong trình duyệt này.",
+    storageUsed: "Đã dùng {used} / {quota}",
+    storageDocuments: "Tài liệu gốc: {size}",
+    storageAnalyses: "Phân tích và trò chuyện: {size}",
+    storageFull: "Bộ nhớ trình duyệt đã đầy nên các thay đổi gần đây chưa được lưu. Hãy giải phóng dung lượng để giữ lịch sử.",
+    storageSaveFailed: "Không thể lưu lịch sử trong trình duyệt này.",
+    storageLow: "Bộ nhớ trình duyệt sắp đầy.",
+    storageFreeUp: "Giải phóng dung lượng",
+    pruneTranslations: "Xóa bản dịch",
+    pruneTranslationsHint: "Các phiên bản ngôn ngữ khác có thể được dịch lại từ bản gốc bất cứ lúc nào.",
+    pruneDocuments: "Xóa tài liệu gốc cũ",
+    pruneDocumentsHint: "Giữ lại phân tích, trò chuyện và tài liệu của 3 báo cáo gần nhất.",
+    pruneOldest: "Xóa báo cáo cũ nhất",
+    pruneOldestHint: "Xóa tài liệu cũ nhất cùng toàn bộ phân tích và trò chuyện của nó.",
+    pruneRun: "Giải phóng",
+    pruneConfirm: "Không thể hoàn tác thao tác này. Tiếp tục?",
+    locked: "Đã khóa",
+    lockNow: "Khóa ngay",
+    unlockTitle: "Lịch sử của bạn đang bị khóa",
+    unlockSub: "Nhập cụm mật khẩu để mở các báo cáo và cài đặt đã lưu.",
+    passphrase: "Cụm mật khẩu",
+    unlock: "Mở khóa",
+    unlocking: "Đang mở khóa...",
+    wrongPassphrase: "Cụm mật khẩu không đúng.",
+    encryptionTitle: "Mã hóa",
+    encryptionOffSub: "Bảo vệ báo cáo, trò chuyện và cài đặt đã lưu trong trình duyệt này bằng cụm mật khẩu.",
+    encryptionOnSub: "Báo cáo, trò chuyện và cài đặt đã lưu được mã hóa bằng cụm mật khẩu của bạn.",
+    autoLock: "Tự động khóa",
+    autoLockNever: "Không bao giờ",
+    autoLockAfter: "Sau {n} phút không hoạt động",
+    currentPassphrase: "Cụm mật khẩu hiện tại",
+    newPassphrase: "Cụm mật khẩu mới",
+    confirmPassphrase: "Xác nhận cụm mật khẩu",
+    passphraseNoRecovery: "Không thể khôi phục cụm mật khẩu bị quên. Nếu không có nó, lịch sử đã lưu sẽ không mở được.",
+    passphraseTooShort: "Dùng ít nhất {n} ký tự.",
+    passphraseMismatch: "Hai cụm mật khẩu không khớp.",
+    enableEncryption: "Bật mã hóa",
+    changePassphrase: "Đổi cụm mật khẩu",
+    disableEncryption: "Tắt mã hóa",
+    encryptionWorking: "Đang xử lý...",
+    encryptionEnabled: "Đã bật mã hóa.",
+    passphraseChanged: "Đã đổi cụm mật khẩu.",
+    encryptionDisabled: "Đã tắt mã hóa.",
+    encryptionFailed: "Đã xảy ra lỗi. Dữ liệu của bạn vẫn được giữ nguyên.",
+    backupTitle: "Sao lưu",
+    backupSub: "Chuyển lịch sử sang trình duyệt hoặc thiết bị khác, hoặc giữ một bản sao phòng khi dữ liệu trang bị xóa.",
+    backupPassphraseOptional: "Cụm mật khẩu sao lưu (không bắt buộc)",
+    backupPassphraseHint: "Khi có cụm mật khẩu, tệp sao lưu được mã hóa và cần đúng cụm mật khẩu đó để nhập.",
+    backupExport: "Xuất bản sao lưu",
+    backupImport: "Nhập bản sao lưu",
+    backupEncrypted: "Bản sao lưu này đã được mã hóa. Nhập cụm mật khẩu của nó",
+    backupImported: "Đã nhập {added} phân tích ({skipped} đã có trong lịch sử).",
+    backupInvalid: "Tệp này không phải bản sao lưu MediClarify hợp lệ.",
+    backupUnsupportedVersion: "Bản sao lưu này được tạo bởi phiên bản MediClarify mới hơn.",
+    backupExportFailed: "Không thể tạo bản sao lưu.",
+    nearDuplicateTitle: "Bạn đã tải báo cáo này lên trước đây chưa?",
+    nearDuplicateSub: "Tài liệu này rất giống \"{file}\" ngày {date}. Đây có phải cùng một báo cáo không?",
+    nearDuplicateOpen: "Có, mở bản phân tích đã lưu",
+    nearDuplicateAnalyze: "Không, giữ như báo cáo mới",
+    reportDetails: "Thông tin báo cáo",
+    metadataCollectionDate: "Ngày lấy mẫu",
+    metadataReportDate: "Ngày báo cáo",
+    metadataLab: "Phòng xét nghiệm",
+    metadataClinician: "Bác sĩ chỉ định",
+    metadataPatientName: "Bệnh nhân",
+    metadataPatientAge: "Tuổi",
+    metadataPatientSex: "Giới tính",
+    metadataEdited: "(đã sửa)",
+    metadataSave: "Lưu",
+    metadataNone: "Không tìm thấy thông tin nào trên báo cáo.",
+    metadataNoDate: "Không tìm thấy ngày trên báo cáo, nên ngày tải lên được dùng trong lịch sử và so sánh. Hãy thêm ngày lấy mẫu nếu bạn biết.",
+    collectedOn: "Lấy mẫu ngày {date}",
+    trends: "Xu hướng",
+    trendsTitle: "Xu hướng",
+    trendsSub: "Từng xét nghiệm qua các báo cáo đã lưu, theo thứ tự thời gian lấy mẫu.",
+    trendsEmpty: "Hãy lưu các báo cáo có kết quả xét nghiệm để xem chúng thay đổi theo thời gian.",
+    trendsReports: "Báo cáo được đưa vào ({n}/{total})",
+    trendsSearch: "Tìm xét nghiệm",
+    trendsReadings: "{n} lần đo",
+    trendsAbnormal: "{n} ngoài khoảng",
+    trendsReferenceBand: "Khoảng tham chiếu",
+    trendsOutOfRange: "Ngoài khoảng",
+    trendsDate: "Ngày",
+    trendsValue: "Giá trị",
+    trendsRange: "Khoảng tham chiếu",
+    trendsReport: "Báo cáo",
+    trendsNotPlotted: "Không vẽ trên biểu đồ (đơn vị khác hoặc không phải số)",
+    matchedAs: "Đã ghép với \"{name}\"",
+    splitMatch: "Tách",
+    mergeMatch: "Cùng xét nghiệm với…",
+    resetMatches: "Đặt lại các ghép nối xét nghiệm",
+    alertsTitle: "Cảnh báo xu hướng",
+    alertsSub: "Những thay đổi so với các báo cáo trước có thể cần trao đổi với bác sĩ.",
+    alertRapidRise: "{test} tăng mạnh so với báo cáo trước",
+    alertRapidFall: "{test} giảm mạnh so với báo cáo trước",
+    alertBecameAbnormal: "{test} đã ra ngoài khoảng bình thường ({status})",
+    alertDriftUp: "{test} tăng dần qua {n} báo cáo gần nhất và đang gần giới hạn trên",
+    alertDriftDown: "{test} giảm dần qua {n} báo cáo gần nhất và đang gần giới hạn dưới",
+    alertsMore: "+{n} cảnh báo khác",
+    changesTitle: "Tóm tắt thay đổi bằng AI",
+    changesLoading: "Đang so sánh hai báo cáo...",
+    changesFailed: "Không thể tạo bản tóm tắt thay đổi.",
+    changesImproved: "Cải thiện",
+    changesWorsened: "Xấu đi",
+    changesNew: "Mới trong báo cáo gần nhất",
+    changesResolved: "Không còn xuất hiện",
+    changesDiscuss: "Trao đổi về các thay đổi này trong trò chuyện",
+    medications: "Thuốc",
+    medRoute: "Cách dùng",
+    medFrequency: "Số lần dùng",
+    medDuration: "Thời gian dùng",
+    medQuantity: "Số lượng",
+    medRefills: "Số lần mua lại",
+    medInstructions: "Hướng dẫn của bác sĩ",
+    radiologyTitle: "Kết quả chẩn đoán hình ảnh",
+    radiologyImpression: "Kết luận",
+    radiologyRecommendations: "Các bước tiếp theo được đề nghị",
+    significanceNormal: "Bình thường",
+    significanceMinor: "Nhẹ",
+    significanceSignificant: "Cần chú ý",
+    significanceUrgent: "Khẩn cấp",
+    dischargeTitle: "Đợt nằm viện",
+    dischargeAdmitted: "Nhập viện {date}",
+    dischargeDischarged: "Xuất viện {date}",
+    dischargeDiagnoses: "Chẩn đoán",
+    dischargePrimary: "Chính",
+    dischargeProcedures: "Thủ thuật",
+    dischargeFollowUps: "Tái khám",
+    dischargeWarningSigns: "Hãy đi khám ngay nếu bạn thấy",
+    dischargeMedications: "Thuốc dùng sau khi xuất viện",
+    interactionsTitle: "Tương tác thuốc có thể xảy ra",
+    interactionsSub: "Đã kiểm tra với các thuốc khác trong tài liệu này và các thuốc từ đơn thuốc trước có thể vẫn đang dùng. Không tự ý ngừng hoặc thay đổi thuốc khi chưa hỏi bác sĩ hoặc dược sĩ.",
+    interactionFrom: "từ {file}",
+    interactionAction: "Hỏi bác sĩ hoặc dược sĩ xem {a} có dùng chung với {b} được không.",
+    interactionMinor: "Nhẹ",
+    interactionModerate: "Trung bình",
+    interactionMajor: "Nghiêm trọng",
+    interactionContraindicated: "Tránh dùng chung",
+    scheduleTitle: "Lịch uống thuốc",
+    scheduleSub: "Lịch gợi ý hằng ngày dựa trên đơn thuốc. Hãy xác nhận giờ uống với bác sĩ hoặc dược sĩ.",
+    scheduleStart: "Bắt đầu",
+    scheduleTime: "Giờ",
+    scheduleWithFood: "Uống cùng bữa ăn",
+    scheduleWithoutFood: "Uống lúc bụng đói",
+    scheduleWeekly: "Mỗi tuần một lần",
+    scheduleUntil: "Đến {date}",
+    scheduleOngoing: "Không có ngày kết thúc",
+    scheduleAsNeeded: "Chỉ khi cần",
+    scheduleUnclear: "Xem hướng dẫn trên đơn thuốc",
+    scheduleNotScheduled: "Không theo lịch cố định",
+    scheduleReminder: "Đến giờ uống {name}",
+    pillChartTitle: "Bảng uống thuốc hằng tuần",
+    schedulePrint: "In bảng tuần",
+    scheduleExport: "Thêm vào lịch (.ics)",
+    profileTitle: "Hồ sơ bệnh nhân",
+    profileSub: "Không bắt buộc. Dùng để diễn giải kết quả và trả lời câu hỏi phù hợp với bệnh nhân, ví dụ khoảng tham chiếu theo tuổi hoặc khi mang thai.",
+    profileBirthDate: "Ngày sinh",
+    profileAge: "Hoặc tuổi",
+    profileSex: "Giới tính",
+    profileNotSet: "Không nêu",
+    profileFemale: "Nữ",
+    profileMale: "Nam",
+    profilePregnancy: "Thai kỳ",
+    profilePregnant: "Đang mang thai",
+    profileBreastfeeding: "Đang cho con bú",
+    profileConditions: "Bệnh mạn tính",
+    profileMedications: "Thuốc đang dùng",
+    profileAllergies: "Dị ứng",
+    profileListHint: "Mỗi dòng một mục",
+    profileYears: "{n} tuổi",
+    personalizedFor: "Diễn giải cho",
+    repairUnrecognisedValue: "\"{value}\" không phải giá trị hợp lệ, đã đặt thành \"{fallback}\"",
+    repairConvertedToText: "đã chuyển {value} thành văn bản",
+    repairConvertedToNumber: "đã chuyển văn bản \"{value}\" thành số",
+    repairConvertedToBoolean: "đã chuyển văn bản \"{value}\" thành có/không",
+    repairClamped: "{value} nằm ngoài phạm vi, đã đặt thành {limit}",
+    repairNotAList: "cần một danh sách, đã thay bằng danh sách trống",
+    repairRemoved: "giá trị không dùng được, đã xóa",
+    repairMissingList: "bị thiếu, đã đặt thành danh sách trống",
+    repairMissingValue: "bị thiếu, đã đặt thành \"{value}\"",
+    repairMissingDefault: "bị thiếu, đã đặt giá trị mặc định",
+    repairInvalidDefault: "giá trị không dùng được, đã đặt giá trị mặc định",
+    repairRiskLevelDerived: "\"{value}\" không hợp lệ, đã suy ra \"{derived}\" từ điểm rủi ro",
+    repairInvalidDate: "\"{value}\" không phải ngày dạng YYYY-MM-DD, đã xóa",
+    statusNormal: "bình thường",
+    statusHigh: "cao",
+    statusLow: "thấp",
+    statusAbnormal: "bất thường",
+    statusBorderline: "giáp ranh",
+    statusUnknown: "không rõ",
+    statusCritical: "nguy hiểm"
   },
   zh: {
     analyzing: "正在分析文档...",
@@ -209,7 +692,244 @@ export const translations = {
     better: "自上次访问以来，您的总体结果有所改善。请保持！",
     typeMismatch: "无法比较不同的文档类型。请选择两个相似的文档。",
     availableLangs: "已分析语言",
-    deleteAll: "删除所有版本"
+    deleteAll: "删除所有版本",
+    settings: "设置",
+    settingsSub: "选择用于分析文档和回答问题的 AI 后端。",
+    aiProvider: "AI 提供商",
+    providerGemini: "Google Gemini（云端）",
+    providerOpenAI: "OpenAI 兼容服务器（如 Ollama、llama.cpp）",
+    providerMock: "演示模式（离线示例数据）",
+    providerMockNote: "演示模式对每次上传都返回相同的示例血液检查。不会通过网络发送任何数据。",
+    geminiApiKey: "Gemini API 密钥",
+    apiKeyHint: "留空则使用此部署配置的密钥。",
+    serverUrl: "服务器地址",
+    modelName: "模型",
+    serverApiKey: "API 密钥（可选）",
+    saveSettings: "保存设置",
+    settingsSaved: "设置已保存",
+    analysisInvalid: "AI 返回的分析不完整。请重试。",
+    autoCorrected: "已自动修正的数据",
+    autoCorrectedMsg: "AI 响应中的部分字段缺失或格式错误，已在本地修复。请对照您的文档进行核对。",
+    ruleImpossible: "{test}：{value} {unit} 在生理上不可能。请对照原始文档核实。",
+    ruleUnitMismatch: "{test}：结果单位（{unit}）与参考范围单位（{rangeUnit}）不一致。",
+    ruleOutlier: "可能的 OCR/数据错误：{test} 数值 {value} 超过正常上限（{high}）的 10 倍（>10x）。",
+    ruleRangeOverride: "本地检查：{value} 相对于范围 {low}-{high} 为 {status}（AI 判断为“{ai}”）。",
+    localCheck: "本地检查",
+    aiSaid: "AI 判断",
+    displayUnits: "显示单位",
+    unitsOriginal: "按报告原样",
+    unitsSI: "国际单位（mmol/L、µmol/L、g/L）",
+    unitsConventional: "传统单位（mg/dL、g/dL）",
+    unitsHint: "对常见检测项目（如葡萄糖、胆固醇、肌酐、尿素、胆红素、钙和血红蛋白）进行数值换算。",
+    reportedAs: "原始报告值",
+    progressReading: "正在读取文档...",
+    progressSummary: "正在撰写摘要...",
+    progressResults: "正在提取结果（已有 {count} 项）...",
+    progressActionPlan: "正在制定行动计划...",
+    progressFinishing: "即将完成...",
+    receivingResults: "正在接收更多结果...",
+    cancel: "取消",
+    stopReply: "停止",
+    regenerate: "重新生成",
+    editMessage: "编辑",
+    saveAndResend: "保存并重新发送",
+    replyStopped: "回复已停止",
+    progressTranslating: "正在翻译现有分析...",
+    originalAnalysis: "原始分析",
+    translatedView: "由原始分析翻译而来",
+    loadingHistory: "正在加载历史记录...",
+    storageTitle: "存储",
+    storageSub: "您的历史记录仅保存在此浏览器中。",
+    storageUsed: "已使用 {used} / {quota}",
+    storageDocuments: "原始文档：{size}",
+    storageAnalyses: "分析和对话：{size}",
+    storageFull: "浏览器存储已满，最近的更改未能保存。请释放空间以保留历史记录。",
+    storageSaveFailed: "无法在此浏览器中保存历史记录。",
+    storageLow: "浏览器存储空间即将用完。",
+    storageFreeUp: "释放空间",
+    pruneTranslations: "删除翻译",
+    pruneTranslationsHint: "其他语言版本可随时从原始分析重新翻译。",
+    pruneDocuments: "删除较早的原始文档",
+    pruneDocumentsHint: "保留分析和对话，以及最近 3 份报告的文档。",
+    pruneOldest: "删除最早的报告",
+    pruneOldestHint: "删除最早的文档及其所有分析和对话。",
+    pruneRun: "释放",
+    pruneConfirm: "此操作无法撤销。是否继续？",
+    locked: "已锁定",
+    lockNow: "立即锁定",
+    unlockTitle: "您的历史记录已锁定",
+    unlockSub: "输入密码短语以打开已保存的报告和设置。",
+    passphrase: "密码短语",
+    unlock: "解锁",
+    unlocking: "正在解锁...",
+    wrongPassphrase: "密码短语不正确。",
+    encryptionTitle: "加密",
+    encryptionOffSub: "使用密码短语保护此浏览器中保存的报告、对话和设置。",
+    encryptionOnSub: "已保存的报告、对话和设置已使用您的密码短语加密。",
+    autoLock: "自动锁定",
+    autoLockNever: "从不",
+    autoLockAfter: "闲置 {n} 分钟后",
+    currentPassphrase: "当前密码短语",
+    newPassphrase: "新密码短语",
+    confirmPassphrase: "确认密码短语",
+    passphraseNoRecovery: "忘记的密码短语无法找回。没有它，将无法打开已保存的历史记录。",
+    passphraseTooShort: "请至少使用 {n} 个字符。",
+    passphraseMismatch: "两次输入的密码短语不一致。",
+    enableEncryption: "开启加密",
+    changePassphrase: "更改密码短语",
+    disableEncryption: "关闭加密",
+    encryptionWorking: "处理中...",
+    encryptionEnabled: "加密已开启。",
+    passphraseChanged: "密码短语已更改。",
+    encryptionDisabled: "加密已关闭。",
+    encryptionFailed: "出现问题，您的数据保持不变。",
+    backupTitle: "备份",
+    backupSub: "将历史记录迁移到其他浏览器或设备，或在清除网站数据前保留一份副本。",
+    backupPassphraseOptional: "备份密码短语（可选）",
+    backupPassphraseHint: "设置密码短语后备份文件将被加密，导入时需要相同的密码短语。",
+    backupExport: "导出备份",
+    backupImport: "导入备份",
+    backupEncrypted: "此备份已加密，请输入其密码短语",
+    backupImported: "已导入 {added} 份分析（{skipped} 份已在历史记录中）。",
+    backupInvalid: "此文件不是有效的 MediClarify 备份。",
+    backupUnsupportedVersion: "此备份由更新版本的 MediClarify 创建。",
+    backupExportFailed: "无法创建备份。",
+    nearDuplicateTitle: "您之前上传过这份报告吗？",
+    nearDuplicateSub: "它与 {date} 的“{file}”非常相似。这是同一份报告吗？",
+    nearDuplicateOpen: "是的，打开已保存的分析",
+    nearDuplicateAnalyze: "不是，保留为新报告",
+    reportDetails: "报告信息",
+    metadataCollectionDate: "采样日期",
+    metadataReportDate: "报告日期",
+    metadataLab: "检验机构",
+    metadataClinician: "开单医生",
+    metadataPatientName: "患者",
+    metadataPatientAge: "年龄",
+    metadataPatientSex: "性别",
+    metadataEdited: "（已编辑）",
+    metadataSave: "保存",
+    metadataNone: "报告上未找到相关信息。",
+    metadataNoDate: "报告上没有日期，因此历史记录和对比中使用上传日期。如果知道采样日期，请补充。",
+    collectedOn: "采样于 {date}",
+    trends: "趋势",
+    trendsTitle: "趋势",
+    trendsSub: "按采样时间顺序查看各项检查在已保存报告中的变化。",
+    trendsEmpty: "保存含有检验结果的报告后即可查看随时间的变化。",
+    trendsReports: "包含的报告（{n}/{total}）",
+    trendsSearch: "搜索检查项目",
+    trendsReadings: "{n} 次测量",
+    trendsAbnormal: "{n} 次超出范围",
+    trendsReferenceBand: "参考范围",
+    trendsOutOfRange: "超出范围",
+    trendsDate: "日期",
+    trendsValue: "数值",
+    trendsRange: "参考范围",
+    trendsReport: "报告",
+    trendsNotPlotted: "未绘制（单位不同或非数值）",
+    matchedAs: "已与“{name}”匹配",
+    splitMatch: "拆分",
+    mergeMatch: "与以下检测相同…",
+    resetMatches: "重置我的检测匹配",
+    alertsTitle: "趋势提醒",
+    alertsSub: "与之前报告相比的变化，可能值得与医生讨论。",
+    alertRapidRise: "{test} 较上次报告明显升高",
+    alertRapidFall: "{test} 较上次报告明显下降",
+    alertBecameAbnormal: "{test} 已超出正常范围（{status}）",
+    alertDriftUp: "{test} 在最近 {n} 份报告中持续升高，接近上限",
+    alertDriftDown: "{test} 在最近 {n} 份报告中持续下降，接近下限",
+    alertsMore: "还有 {n} 条",
+    changesTitle: "AI 变化摘要",
+    changesLoading: "正在比较两份报告...",
+    changesFailed: "无法生成变化摘要。",
+    changesImproved: "好转",
+    changesWorsened: "变差",
+    changesNew: "最新报告中新出现",
+    changesResolved: "已不再出现",
+    changesDiscuss: "在聊天中讨论这些变化",
+    medications: "药物",
+    medRoute: "用法",
+    medFrequency: "频次",
+    medDuration: "疗程",
+    medQuantity: "数量",
+    medRefills: "续配次数",
+    medInstructions: "医嘱",
+    radiologyTitle: "影像报告",
+    radiologyImpression: "结论",
+    radiologyRecommendations: "建议的后续步骤",
+    significanceNormal: "正常",
+    significanceMinor: "轻微",
+    significanceSignificant: "需要关注",
+    significanceUrgent: "紧急",
+    dischargeTitle: "住院经过",
+    dischargeAdmitted: "入院 {date}",
+    dischargeDischarged: "出院 {date}",
+    dischargeDiagnoses: "诊断",
+    dischargePrimary: "主要",
+    dischargeProcedures: "手术/操作",
+    dischargeFollowUps: "随访",
+    dischargeWarningSigns: "如出现以下情况请立即就医",
+    dischargeMedications: "出院带药",
+    interactionsTitle: "可能的药物相互作用",
+    interactionsSub: "已与本文件中的其他药物以及您之前处方中可能仍在服用的药物进行核对。未咨询医生或药师前，请勿自行停药或更改用药。",
+    interactionFrom: "来自 {file}",
+    interactionAction: "请咨询医生或药师，{a} 能否与 {b} 同时服用。",
+    interactionMinor: "轻微",
+    interactionModerate: "中等",
+    interactionMajor: "严重",
+    interactionContraindicated: "避免合用",
+    scheduleTitle: "用药时间表",
+    scheduleSub: "根据处方生成的每日用药建议。请与医生或药师确认服药时间。",
+    scheduleStart: "开始日期",
+    scheduleTime: "时间",
+    scheduleWithFood: "随餐服用",
+    scheduleWithoutFood: "空腹服用",
+    scheduleWeekly: "每周一次",
+    scheduleUntil: "至 {date}",
+    scheduleOngoing: "无结束日期",
+    scheduleAsNeeded: "仅在需要时服用",
+    scheduleUnclear: "请参阅处方上的用法说明",
+    scheduleNotScheduled: "无固定时间",
+    scheduleReminder: "该服用{name}了",
+    pillChartTitle: "每周服药表",
+    schedulePrint: "打印每周服药表",
+    scheduleExport: "添加到日历 (.ics)",
+    profileTitle: "患者资料",
+    profileSub: "可选。用于针对该患者解读报告和回答问题，例如按年龄或孕期的参考范围。",
+    profileBirthDate: "出生日期",
+    profileAge: "或年龄",
+    profileSex: "性别",
+    profileNotSet: "未填写",
+    profileFemale: "女",
+    profileMale: "男",
+    profilePregnancy: "妊娠情况",
+    profilePregnant: "怀孕中",
+    profileBreastfeeding: "哺乳期",
+    profileConditions: "慢性疾病",
+    profileMedications: "目前用药",
+    profileAllergies: "过敏",
+    profileListHint: "每行一项",
+    profileYears: "{n}岁",
+    personalizedFor: "解读对象",
+    repairUnrecognisedValue: "“{value}”不是可识别的值，已设为“{fallback}”",
+    repairConvertedToText: "已将 {value} 转换为文本",
+    repairConvertedToNumber: "已将文本“{value}”转换为数字",
+    repairConvertedToBoolean: "已将文本“{value}”转换为是/否",
+    repairClamped: "{value} 超出范围，已设为 {limit}",
+    repairNotAList: "应为列表，已替换为空列表",
+    repairRemoved: "值无法使用，已删除",
+    repairMissingList: "缺失，已设为空列表",
+    repairMissingValue: "缺失，已设为“{value}”",
+    repairMissingDefault: "缺失，已设为默认值",
+    repairInvalidDefault: "值无法使用，已设为默认值",
+    repairRiskLevelDerived: "“{value}”无效，已根据风险评分得出“{derived}”",
+    repairInvalidDate: "“{value}”不是 YYYY-MM-DD 格式的日期，已删除",
+    statusNormal: "正常",
+    statusHigh: "偏高",
+    statusLow: "偏低",
+    statusAbnormal: "异常",
+    statusBorderline: "临界",
+    statusUnknown: "未知",
+    statusCritical: "危急"
   },
   ru: {
     analyzing: "Анализ документа...",
@@ -279,7 +999,244 @@ export const translations = {
     better: "Ваши результаты улучшились. Так держать!",
     typeMismatch: "Нельзя сравнивать разные типы документов.",
     availableLangs: "Проанализированные языки",
-    deleteAll: "Удалить все версии"
+    deleteAll: "Удалить все версии",
+    settings: "Настройки",
+    settingsSub: "Выберите, какой ИИ анализирует ваши документы и отвечает на вопросы.",
+    aiProvider: "Поставщик ИИ",
+    providerGemini: "Google Gemini (облако)",
+    providerOpenAI: "OpenAI-совместимый сервер (например, Ollama, llama.cpp)",
+    providerMock: "Демо-режим (офлайн-пример)",
+    providerMockNote: "Демо-режим возвращает один и тот же пример анализа крови для любой загрузки. Данные не отправляются в сеть.",
+    geminiApiKey: "API-ключ Gemini",
+    apiKeyHint: "Оставьте пустым, чтобы использовать ключ этой установки.",
+    serverUrl: "Адрес сервера",
+    modelName: "Модель",
+    serverApiKey: "API-ключ (необязательно)",
+    saveSettings: "Сохранить настройки",
+    settingsSaved: "Настройки сохранены",
+    analysisInvalid: "ИИ вернул неполный анализ. Пожалуйста, попробуйте еще раз.",
+    autoCorrected: "Автоматически исправленные данные",
+    autoCorrectedMsg: "Некоторые поля в ответе ИИ отсутствовали или были некорректны и были исправлены локально. Сверьте их с документом.",
+    ruleImpossible: "{test}: {value} {unit} физиологически невозможно. Пожалуйста, сверьте с оригиналом документа.",
+    ruleUnitMismatch: "{test}: единица результата ({unit}) не совпадает с единицей референсного диапазона ({rangeUnit}).",
+    ruleOutlier: "Возможная ошибка OCR/данных: значение {test} {value} >10x верхней границы нормы ({high}).",
+    ruleRangeOverride: "Локальная проверка: {value} — {status} для диапазона {low}-{high} (ИИ указал «{ai}»).",
+    localCheck: "Локальная проверка",
+    aiSaid: "ИИ указал",
+    displayUnits: "Единицы отображения",
+    unitsOriginal: "Как в отчете",
+    unitsSI: "Единицы СИ (ммоль/л, мкмоль/л, г/л)",
+    unitsConventional: "Традиционные единицы (мг/дл, г/дл)",
+    unitsHint: "Значения пересчитываются для распространенных показателей: глюкоза, холестерин, креатинин, мочевина, билирубин, кальций и гемоглобин.",
+    reportedAs: "В отчете",
+    progressReading: "Чтение документа...",
+    progressSummary: "Составление резюме...",
+    progressResults: "Извлечение результатов (получено: {count})...",
+    progressActionPlan: "Подготовка плана действий...",
+    progressFinishing: "Завершение...",
+    receivingResults: "Получение дополнительных результатов...",
+    cancel: "Отмена",
+    stopReply: "Стоп",
+    regenerate: "Сгенерировать заново",
+    editMessage: "Изменить",
+    saveAndResend: "Сохранить и отправить",
+    replyStopped: "Ответ остановлен",
+    progressTranslating: "Перевод существующего анализа...",
+    originalAnalysis: "Исходный анализ",
+    translatedView: "Переведено из исходного анализа",
+    loadingHistory: "Загрузка истории...",
+    storageTitle: "Хранилище",
+    storageSub: "История хранится только в этом браузере.",
+    storageUsed: "Использовано {used} из {quota}",
+    storageDocuments: "Исходные документы: {size}",
+    storageAnalyses: "Анализы и чаты: {size}",
+    storageFull: "Хранилище браузера заполнено, последние изменения не сохранены. Освободите место, чтобы сохранить историю.",
+    storageSaveFailed: "Не удалось сохранить историю в этом браузере.",
+    storageLow: "Хранилище браузера почти заполнено.",
+    storageFreeUp: "Освободить место",
+    pruneTranslations: "Удалить переводы",
+    pruneTranslationsHint: "Версии на других языках можно в любой момент снова перевести с оригинала.",
+    pruneDocuments: "Удалить старые исходные документы",
+    pruneDocumentsHint: "Анализы и чаты сохранятся, как и документы 3 последних отчетов.",
+    pruneOldest: "Удалить самый старый отчет",
+    pruneOldestHint: "Удаляет самый старый документ со всеми его анализами и чатами.",
+    pruneRun: "Освободить",
+    pruneConfirm: "Это действие нельзя отменить. Продолжить?",
+    locked: "Заблокировано",
+    lockNow: "Заблокировать",
+    unlockTitle: "История заблокирована",
+    unlockSub: "Введите кодовую фразу, чтобы открыть сохраненные отчеты и настройки.",
+    passphrase: "Кодовая фраза",
+    unlock: "Разблокировать",
+    unlocking: "Разблокировка...",
+    wrongPassphrase: "Неверная кодовая фраза.",
+    encryptionTitle: "Шифрование",
+    encryptionOffSub: "Защитите сохраненные отчеты, чаты и настройки в этом браузере кодовой фразой.",
+    encryptionOnSub: "Сохраненные отчеты, чаты и настройки зашифрованы вашей кодовой фразой.",
+    autoLock: "Автоблокировка",
+    autoLockNever: "Никогда",
+    autoLockAfter: "После {n} мин бездействия",
+    currentPassphrase: "Текущая кодовая фраза",
+    newPassphrase: "Новая кодовая фраза",
+    confirmPassphrase: "Подтвердите кодовую фразу",
+    passphraseNoRecovery: "Забытую кодовую фразу восстановить нельзя. Без нее сохраненную историю не открыть.",
+    passphraseTooShort: "Используйте не менее {n} символов.",
+    passphraseMismatch: "Кодовые фразы не совпадают.",
+    enableEncryption: "Включить шифрование",
+    changePassphrase: "Сменить кодовую фразу",
+    disableEncryption: "Выключить шифрование",
+    encryptionWorking: "Выполняется...",
+    encryptionEnabled: "Шифрование включено.",
+    passphraseChanged: "Кодовая фраза изменена.",
+    encryptionDisabled: "Шифрование выключено.",
+    encryptionFailed: "Что-то пошло не так. Ваши данные не изменены.",
+    backupTitle: "Резервная копия",
+    backupSub: "Перенесите историю в другой браузер или на другое устройство или сохраните копию на случай очистки данных сайта.",
+    backupPassphraseOptional: "Кодовая фраза копии (необязательно)",
+    backupPassphraseHint: "С кодовой фразой файл копии шифруется, и для импорта нужна та же фраза.",
+    backupExport: "Экспортировать копию",
+    backupImport: "Импортировать копию",
+    backupEncrypted: "Эта копия зашифрована. Введите ее кодовую фразу",
+    backupImported: "Импортировано анализов: {added} (уже были в истории: {skipped}).",
+    backupInvalid: "Этот файл не является резервной копией MediClarify.",
+    backupUnsupportedVersion: "Эта копия создана более новой версией MediClarify.",
+    backupExportFailed: "Не удалось создать резервную копию.",
+    nearDuplicateTitle: "Вы уже загружали этот отчёт?",
+    nearDuplicateSub: "Он очень похож на «{file}» от {date}. Это тот же отчёт?",
+    nearDuplicateOpen: "Да, открыть сохранённый анализ",
+    nearDuplicateAnalyze: "Нет, сохранить как новый отчёт",
+    reportDetails: "Данные отчёта",
+    metadataCollectionDate: "Дата забора",
+    metadataReportDate: "Дата отчёта",
+    metadataLab: "Лаборатория",
+    metadataClinician: "Назначил",
+    metadataPatientName: "Пациент",
+    metadataPatientAge: "Возраст",
+    metadataPatientSex: "Пол",
+    metadataEdited: "(изменено)",
+    metadataSave: "Сохранить",
+    metadataNone: "В отчёте не найдено никаких данных.",
+    metadataNoDate: "Дата в отчёте не найдена, поэтому в истории и сравнениях используется дата загрузки. Укажите дату забора, если знаете её.",
+    collectedOn: "Забор {date}",
+    trends: "Динамика",
+    trendsTitle: "Динамика",
+    trendsSub: "Каждый показатель по всем сохранённым отчётам в порядке сдачи анализов.",
+    trendsEmpty: "Сохраните отчёты с результатами анализов, чтобы увидеть их динамику.",
+    trendsReports: "Включено отчётов: {n} из {total}",
+    trendsSearch: "Поиск показателя",
+    trendsReadings: "измерений: {n}",
+    trendsAbnormal: "вне нормы: {n}",
+    trendsReferenceBand: "Референсный диапазон",
+    trendsOutOfRange: "Вне нормы",
+    trendsDate: "Дата",
+    trendsValue: "Значение",
+    trendsRange: "Референсный диапазон",
+    trendsReport: "Отчёт",
+    trendsNotPlotted: "Не на графике (другая единица или не число)",
+    matchedAs: "Сопоставлено с «{name}»",
+    splitMatch: "Разделить",
+    mergeMatch: "Тот же анализ, что…",
+    resetMatches: "Сбросить мои сопоставления анализов",
+    alertsTitle: "Предупреждения о динамике",
+    alertsSub: "Изменения по сравнению с прежними анализами, которые стоит обсудить с врачом.",
+    alertRapidRise: "{test}: резкий рост с прошлого анализа",
+    alertRapidFall: "{test}: резкое снижение с прошлого анализа",
+    alertBecameAbnormal: "{test}: выход за пределы нормы ({status})",
+    alertDriftUp: "{test}: рост в последних {n} анализах, приближается к верхней границе",
+    alertDriftDown: "{test}: снижение в последних {n} анализах, приближается к нижней границе",
+    alertsMore: "ещё {n}",
+    changesTitle: "Сводка изменений от ИИ",
+    changesLoading: "Сравниваем два анализа...",
+    changesFailed: "Не удалось составить сводку изменений.",
+    changesImproved: "Улучшилось",
+    changesWorsened: "Ухудшилось",
+    changesNew: "Новое в последнем анализе",
+    changesResolved: "Больше не встречается",
+    changesDiscuss: "Обсудить эти изменения в чате",
+    medications: "Лекарства",
+    medRoute: "Способ приёма",
+    medFrequency: "Как часто",
+    medDuration: "Как долго",
+    medQuantity: "Количество",
+    medRefills: "Повторные выдачи",
+    medInstructions: "Указания врача",
+    radiologyTitle: "Заключение лучевой диагностики",
+    radiologyImpression: "Заключение",
+    radiologyRecommendations: "Рекомендуемые дальнейшие шаги",
+    significanceNormal: "Норма",
+    significanceMinor: "Незначительно",
+    significanceSignificant: "Требует внимания",
+    significanceUrgent: "Срочно",
+    dischargeTitle: "Госпитализация",
+    dischargeAdmitted: "Поступление {date}",
+    dischargeDischarged: "Выписка {date}",
+    dischargeDiagnoses: "Диагнозы",
+    dischargePrimary: "Основной",
+    dischargeProcedures: "Процедуры",
+    dischargeFollowUps: "Наблюдение",
+    dischargeWarningSigns: "Срочно обратитесь за помощью, если заметите",
+    dischargeMedications: "Лекарства после выписки",
+    interactionsTitle: "Возможные лекарственные взаимодействия",
+    interactionsSub: "Проверено с другими препаратами этого документа и препаратами из прежних рецептов, которые вы, возможно, ещё принимаете. Не отменяйте и не меняйте лекарства, не посоветовавшись с врачом или фармацевтом.",
+    interactionFrom: "из {file}",
+    interactionAction: "Спросите врача или фармацевта, можно ли принимать {a} вместе с {b}.",
+    interactionMinor: "Слабое",
+    interactionModerate: "Умеренное",
+    interactionMajor: "Серьёзное",
+    interactionContraindicated: "Не сочетать",
+    scheduleTitle: "График приёма лекарств",
+    scheduleSub: "Предлагаемый распорядок дня по рецепту. Уточните время приёма у врача или фармацевта.",
+    scheduleStart: "Начало",
+    scheduleTime: "Время",
+    scheduleWithFood: "Принимать во время еды",
+    scheduleWithoutFood: "Принимать натощак",
+    scheduleWeekly: "Раз в неделю",
+    scheduleUntil: "До {date}",
+    scheduleOngoing: "Без даты окончания",
+    scheduleAsNeeded: "Только при необходимости",
+    scheduleUnclear: "См. указания в рецепте",
+    scheduleNotScheduled: "Без фиксированного графика",
+    scheduleReminder: "Пора принять {name}",
+    pillChartTitle: "Недельная таблица приёма",
+    schedulePrint: "Распечатать таблицу на неделю",
+    scheduleExport: "Добавить в календарь (.ics)",
+    profileTitle: "Профиль пациента",
+    profileSub: "Необязательно. Используется, чтобы толковать анализы и отвечать на вопросы с учётом пациента, например нормы по возрасту или при беременности.",
+    profileBirthDate: "Дата рождения",
+    profileAge: "Или возраст",
+    profileSex: "Пол",
+    profileNotSet: "Не указан",
+    profileFemale: "Женский",
+    profileMale: "Мужской",
+    profilePregnancy: "Беременность",
+    profilePregnant: "Беременность",
+    profileBreastfeeding: "Грудное вскармливание",
+    profileConditions: "Хронические заболевания",
+    profileMedications: "Текущие лекарства",
+    profileAllergies: "Аллергии",
+    profileListHint: "По одному в строке",
+    profileYears: "{n} лет",
+    personalizedFor: "С учётом профиля",
+    repairUnrecognisedValue: "«{value}» — нераспознанное значение, заменено на «{fallback}»",
+    repairConvertedToText: "{value} преобразовано в текст",
+    repairConvertedToNumber: "текст «{value}» преобразован в число",
+    repairConvertedToBoolean: "текст «{value}» преобразован в да/нет",
+    repairClamped: "{value} вне допустимого диапазона, заменено на {limit}",
+    repairNotAList: "ожидался список, заменено пустым списком",
+    repairRemoved: "непригодное значение, удалено",
+    repairMissingList: "отсутствует, задан пустой список",
+    repairMissingValue: "отсутствует, задано «{value}»",
+    repairMissingDefault: "отсутствует, задано значение по умолчанию",
+    repairInvalidDefault: "непригодное значение, задано значение по умолчанию",
+    repairRiskLevelDerived: "«{value}» недопустимо, по оценке риска определено «{derived}»",
+    repairInvalidDate: "«{value}» не является датой в формате YYYY-MM-DD, удалено",
+    statusNormal: "норма",
+    statusHigh: "повышено",
+    statusLow: "понижено",
+    statusAbnormal: "отклонение",
+    statusBorderline: "на границе нормы",
+    statusUnknown: "неизвестно",
+    statusCritical: "критическое значение"
   },
   fr: {
     analyzing: "Analyse du document...",
@@ -349,6 +1306,257 @@ export const translations = {
     better: "Vos résultats globaux se sont améliorés. Continuez comme ça !",
     typeMismatch: "Impossible de comparer différents types de documents.",
     availableLangs: "Langues analysées",
-    deleteAll: "Supprimer toutes les versions"
+    deleteAll: "Supprimer toutes les versions",
+    settings: "Paramètres",
+    settingsSub: "Choisissez le moteur d'IA qui analyse vos documents et répond à vos questions.",
+    aiProvider: "Fournisseur d'IA",
+    providerGemini: "Google Gemini (cloud)",
+    providerOpenAI: "Serveur compatible OpenAI (ex. Ollama, llama.cpp)",
+    providerMock: "Mode démo (données d'exemple hors ligne)",
+    providerMockNote: "Le mode démo renvoie la même analyse de sang d'exemple pour chaque fichier. Aucune donnée n'est envoyée sur le réseau.",
+    geminiApiKey: "Clé API Gemini",
+    apiKeyHint: "Laissez vide pour utiliser la clé configurée pour ce déploiement.",
+    serverUrl: "URL du serveur",
+    modelName: "Modèle",
+    serverApiKey: "Clé API (facultative)",
+    saveSettings: "Enregistrer",
+    settingsSaved: "Paramètres enregistrés",
+    analysisInvalid: "L'IA a renvoyé une analyse incomplète. Veuillez réessayer.",
+    autoCorrected: "Données corrigées automatiquement",
+    autoCorrectedMsg: "Certains champs de la réponse de l'IA étaient manquants ou mal formés et ont été réparés localement. Vérifiez-les par rapport à votre document.",
+    ruleImpossible: "{test} : {value} {unit} est physiologiquement impossible. Veuillez vérifier avec le document original.",
+    ruleUnitMismatch: "{test} : l'unité du résultat ({unit}) ne correspond pas à celle de la plage de référence ({rangeUnit}).",
+    ruleOutlier: "Erreur OCR/données possible : la valeur {test} {value} est >10x la limite normale ({high}).",
+    ruleRangeOverride: "Vérification locale : {value} est {status} pour la plage {low}-{high} (l'IA indiquait « {ai} »).",
+    localCheck: "Vérification locale",
+    aiSaid: "L'IA indiquait",
+    displayUnits: "Unités d'affichage",
+    unitsOriginal: "Telles qu'imprimées sur le rapport",
+    unitsSI: "Unités SI (mmol/L, µmol/L, g/L)",
+    unitsConventional: "Unités conventionnelles (mg/dL, g/dL)",
+    unitsHint: "Les valeurs sont converties pour les analyses courantes : glucose, cholestérol, créatinine, urée, bilirubine, calcium et hémoglobine.",
+    reportedAs: "Valeur rapportée",
+    progressReading: "Lecture du document...",
+    progressSummary: "Rédaction du résumé...",
+    progressResults: "Extraction des résultats ({count} pour l'instant)...",
+    progressActionPlan: "Préparation du plan d'action...",
+    progressFinishing: "Finalisation...",
+    receivingResults: "Réception d'autres résultats...",
+    cancel: "Annuler",
+    stopReply: "Arrêter",
+    regenerate: "Régénérer",
+    editMessage: "Modifier",
+    saveAndResend: "Enregistrer et renvoyer",
+    replyStopped: "Réponse interrompue",
+    progressTranslating: "Traduction de l'analyse existante...",
+    originalAnalysis: "Analyse originale",
+    translatedView: "Traduit de l'analyse originale",
+    loadingHistory: "Chargement de l'historique...",
+    storageTitle: "Stockage",
+    storageSub: "Votre historique est conservé uniquement dans ce navigateur.",
+    storageUsed: "{used} utilisés sur {quota}",
+    storageDocuments: "Documents originaux : {size}",
+    storageAnalyses: "Analyses et discussions : {size}",
+    storageFull: "Le stockage du navigateur est plein, les dernières modifications n'ont pas pu être enregistrées. Libérez de l'espace pour conserver votre historique.",
+    storageSaveFailed: "Votre historique n'a pas pu être enregistré dans ce navigateur.",
+    storageLow: "Le stockage du navigateur est presque plein.",
+    storageFreeUp: "Libérer de l'espace",
+    pruneTranslations: "Supprimer les traductions",
+    pruneTranslationsHint: "Les autres versions linguistiques peuvent être retraduites depuis l'original à tout moment.",
+    pruneDocuments: "Supprimer les anciens documents originaux",
+    pruneDocumentsHint: "Conserve les analyses, les discussions et les documents de vos 3 rapports les plus récents.",
+    pruneOldest: "Supprimer le rapport le plus ancien",
+    pruneOldestHint: "Supprime le document le plus ancien avec toutes ses analyses et discussions.",
+    pruneRun: "Libérer",
+    pruneConfirm: "Cette action est irréversible. Continuer ?",
+    locked: "Verrouillé",
+    lockNow: "Verrouiller",
+    unlockTitle: "Votre historique est verrouillé",
+    unlockSub: "Saisissez votre phrase secrète pour ouvrir vos rapports et paramètres enregistrés.",
+    passphrase: "Phrase secrète",
+    unlock: "Déverrouiller",
+    unlocking: "Déverrouillage...",
+    wrongPassphrase: "Cette phrase secrète est incorrecte.",
+    encryptionTitle: "Chiffrement",
+    encryptionOffSub: "Protégez les rapports, discussions et paramètres enregistrés dans ce navigateur par une phrase secrète.",
+    encryptionOnSub: "Les rapports, discussions et paramètres enregistrés sont chiffrés avec votre phrase secrète.",
+    autoLock: "Verrouillage automatique",
+    autoLockNever: "Jamais",
+    autoLockAfter: "Après {n} minutes d'inactivité",
+    currentPassphrase: "Phrase secrète actuelle",
+    newPassphrase: "Nouvelle phrase secrète",
+    confirmPassphrase: "Confirmer la phrase secrète",
+    passphraseNoRecovery: "Une phrase secrète oubliée ne peut pas être récupérée. Sans elle, votre historique enregistré ne peut pas être ouvert.",
+    passphraseTooShort: "Utilisez au moins {n} caractères.",
+    passphraseMismatch: "Les phrases secrètes ne correspondent pas.",
+    enableEncryption: "Activer le chiffrement",
+    changePassphrase: "Changer la phrase secrète",
+    disableEncryption: "Désactiver le chiffrement",
+    encryptionWorking: "En cours...",
+    encryptionEnabled: "Le chiffrement est activé.",
+    passphraseChanged: "Phrase secrète modifiée.",
+    encryptionDisabled: "Le chiffrement est désactivé.",
+    encryptionFailed: "Un problème est survenu. Vos données n'ont pas été modifiées.",
+    backupTitle: "Sauvegarde",
+    backupSub: "Transférez votre historique vers un autre navigateur ou appareil, ou gardez-en une copie au cas où les données du site seraient effacées.",
+    backupPassphraseOptional: "Phrase secrète de la sauvegarde (facultatif)",
+    backupPassphraseHint: "Avec une phrase secrète, le fichier est chiffré et la même phrase est nécessaire pour l'importer.",
+    backupExport: "Exporter une sauvegarde",
+    backupImport: "Importer une sauvegarde",
+    backupEncrypted: "Cette sauvegarde est chiffrée. Saisissez sa phrase secrète",
+    backupImported: "{added} analyses importées ({skipped} étaient déjà dans votre historique).",
+    backupInvalid: "Ce fichier n'est pas une sauvegarde MediClarify valide.",
+    backupUnsupportedVersion: "Cette sauvegarde a été créée par une version plus récente de MediClarify.",
+    backupExportFailed: "La sauvegarde n'a pas pu être créée.",
+    nearDuplicateTitle: "Avez-vous déjà importé ce rapport ?",
+    nearDuplicateSub: "Il ressemble beaucoup à « {file} » du {date}. S'agit-il du même rapport ?",
+    nearDuplicateOpen: "Oui, ouvrir l'analyse enregistrée",
+    nearDuplicateAnalyze: "Non, le garder comme nouveau rapport",
+    reportDetails: "Détails du rapport",
+    metadataCollectionDate: "Prélèvement",
+    metadataReportDate: "Rapport",
+    metadataLab: "Laboratoire",
+    metadataClinician: "Prescrit par",
+    metadataPatientName: "Patient",
+    metadataPatientAge: "Âge",
+    metadataPatientSex: "Sexe",
+    metadataEdited: "(modifié)",
+    metadataSave: "Enregistrer",
+    metadataNone: "Aucun détail trouvé sur le rapport.",
+    metadataNoDate: "Aucune date trouvée sur le rapport : la date d'import est utilisée dans l'historique et les comparaisons. Ajoutez la date de prélèvement si vous la connaissez.",
+    collectedOn: "Prélevé le {date}",
+    trends: "Évolution",
+    trendsTitle: "Évolution",
+    trendsSub: "Chaque analyse à travers vos rapports enregistrés, dans l'ordre des prélèvements.",
+    trendsEmpty: "Enregistrez des rapports avec des résultats pour voir leur évolution.",
+    trendsReports: "Rapports inclus ({n} sur {total})",
+    trendsSearch: "Rechercher une analyse",
+    trendsReadings: "{n} mesures",
+    trendsAbnormal: "{n} hors normes",
+    trendsReferenceBand: "Valeurs de référence",
+    trendsOutOfRange: "Hors normes",
+    trendsDate: "Date",
+    trendsValue: "Valeur",
+    trendsRange: "Valeurs de référence",
+    trendsReport: "Rapport",
+    trendsNotPlotted: "Absent du graphique (autre unité ou valeur non numérique)",
+    matchedAs: "Associé à « {name} »",
+    splitMatch: "Séparer",
+    mergeMatch: "Même analyse que…",
+    resetMatches: "Réinitialiser mes associations d'analyses",
+    alertsTitle: "Alertes d'évolution",
+    alertsSub: "Changements depuis les comptes rendus précédents qui méritent peut-être d'être discutés avec votre médecin.",
+    alertRapidRise: "{test} a nettement augmenté depuis le compte rendu précédent",
+    alertRapidFall: "{test} a nettement diminué depuis le compte rendu précédent",
+    alertBecameAbnormal: "{test} est sorti de l'intervalle normal ({status})",
+    alertDriftUp: "{test} augmente depuis {n} comptes rendus et approche la limite haute",
+    alertDriftDown: "{test} diminue depuis {n} comptes rendus et approche la limite basse",
+    alertsMore: "+{n} de plus",
+    changesTitle: "Résumé IA des changements",
+    changesLoading: "Comparaison des deux comptes rendus...",
+    changesFailed: "Le résumé des changements n'a pas pu être généré.",
+    changesImproved: "Amélioré",
+    changesWorsened: "Aggravé",
+    changesNew: "Nouveau dans le dernier compte rendu",
+    changesResolved: "Plus présent",
+    changesDiscuss: "Discuter de ces changements dans le chat",
+    medications: "Médicaments",
+    medRoute: "Voie d'administration",
+    medFrequency: "Fréquence",
+    medDuration: "Durée",
+    medQuantity: "Quantité",
+    medRefills: "Renouvellements",
+    medInstructions: "Instructions du prescripteur",
+    radiologyTitle: "Compte rendu d'imagerie",
+    radiologyImpression: "Conclusion",
+    radiologyRecommendations: "Suites recommandées",
+    significanceNormal: "Normal",
+    significanceMinor: "Mineur",
+    significanceSignificant: "À surveiller",
+    significanceUrgent: "Urgent",
+    dischargeTitle: "Hospitalisation",
+    dischargeAdmitted: "Admission le {date}",
+    dischargeDischarged: "Sortie le {date}",
+    dischargeDiagnoses: "Diagnostics",
+    dischargePrimary: "Principal",
+    dischargeProcedures: "Actes",
+    dischargeFollowUps: "Suivi",
+    dischargeWarningSigns: "Consultez immédiatement si vous remarquez",
+    dischargeMedications: "Médicaments après la sortie",
+    interactionsTitle: "Interactions médicamenteuses possibles",
+    interactionsSub: "Vérifiées avec les autres médicaments de ce document et ceux de vos ordonnances précédentes qui sont peut-être encore en cours. N'arrêtez ni ne modifiez aucun traitement sans l'avis de votre médecin ou pharmacien.",
+    interactionFrom: "de {file}",
+    interactionAction: "Demandez à votre médecin ou pharmacien si {a} peut être pris avec {b}.",
+    interactionMinor: "Mineure",
+    interactionModerate: "Modérée",
+    interactionMajor: "Majeure",
+    interactionContraindicated: "Association à éviter",
+    scheduleTitle: "Calendrier de prise",
+    scheduleSub: "Une routine quotidienne suggérée d'après l'ordonnance. Vérifiez les horaires avec votre médecin ou pharmacien.",
+    scheduleStart: "Début",
+    scheduleTime: "Heure",
+    scheduleWithFood: "À prendre pendant le repas",
+    scheduleWithoutFood: "À prendre à jeun",
+    scheduleWeekly: "Une fois par semaine",
+    scheduleUntil: "Jusqu'au {date}",
+    scheduleOngoing: "Sans date de fin",
+    scheduleAsNeeded: "Seulement si besoin",
+    scheduleUnclear: "Voir les instructions de l'ordonnance",
+    scheduleNotScheduled: "Sans horaire fixe",
+    scheduleReminder: "C'est l'heure de prendre {name}",
+    pillChartTitle: "Pilulier de la semaine",
+    schedulePrint: "Imprimer le tableau de la semaine",
+    scheduleExport: "Ajouter au calendrier (.ics)",
+    profileTitle: "Profil du patient",
+    profileSub: "Facultatif. Sert à interpréter les résultats et à répondre aux questions pour ce patient, par exemple les valeurs de référence selon l'âge ou la grossesse.",
+    profileBirthDate: "Date de naissance",
+    profileAge: "Ou âge",
+    profileSex: "Sexe",
+    profileNotSet: "Non précisé",
+    profileFemale: "Femme",
+    profileMale: "Homme",
+    profilePregnancy: "Grossesse",
+    profilePregnant: "Enceinte",
+    profileBreastfeeding: "Allaitement",
+    profileConditions: "Maladies chroniques",
+    profileMedications: "Traitements en cours",
+    profileAllergies: "Allergies",
+    profileListHint: "Un par ligne",
+    profileYears: "{n} ans",
+    personalizedFor: "Interprété pour",
+    repairUnrecognisedValue: "« {value} » n'est pas une valeur reconnue, remplacée par « {fallback} »",
+    repairConvertedToText: "{value} converti en texte",
+    repairConvertedToNumber: "texte « {value} » converti en nombre",
+    repairConvertedToBoolean: "texte « {value} » converti en oui/non",
+    repairClamped: "{value} est hors limites, remplacé par {limit}",
+    repairNotAList: "liste attendue, remplacée par une liste vide",
+    repairRemoved: "valeur inutilisable, supprimée",
+    repairMissingList: "manquant, remplacé par une liste vide",
+    repairMissingValue: "manquant, remplacé par « {value} »",
+    repairMissingDefault: "manquant, remplacé par une valeur par défaut",
+    repairInvalidDefault: "valeur inutilisable, remplacée par une valeur par défaut",
+    repairRiskLevelDerived: "« {value} » n'est pas valide, « {derived} » déduit du score de risque",
+    repairInvalidDate: "« {value} » n'est pas une date AAAA-MM-JJ, supprimée",
+    statusNormal: "normal",
+    statusHigh: "élevé",
+    statusLow: "bas",
+    statusAbnormal: "anormal",
+    statusBorderline: "limite",
+    statusUnknown: "inconnu",
+    statusCritical: "critique"
   }
-};
\ No newline at end of file
+};
+// A result's status ("high", "critical"...) in `language`
+export const statusLabel = (status: MedicalTestResult['status'], language: Language): string => {
+  const t = translations[language];
+  const labels: Record<MedicalTestResult['status'], string> = {
+    normal: t.statusNormal,
+    high: t.statusHigh,
+    low: t.statusLow,
+    abnormal: t.statusAbnormal,
+    borderline: t.statusBorderline,
+    unknown: t.statusUnknown,
+    critical: t.statusCritical,
+  };
+  return labels[status] || status;
+};
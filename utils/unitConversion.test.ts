@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { MedicalTestResult } from '../types';
+import { comparableResults, convertResult, findConversion, normalizeResult, normalizeUnit } from './unitConversion';
+
+const result = (fields: Partial<MedicalTestResult>): MedicalTestResult => ({
+  test: 'Glucose',
+  value: String(fields.numericValue ?? ''),
+  normalRange: '',
+  status: 'normal',
+  explanation: '',
+  confidence: 90,
+  ...fields,
+});
+
+describe('normalizeUnit', () => {
+  it('unifies spellings of the same unit', () => {
+    expect(normalizeUnit(' µmol/L ')).toBe('umol/l');
+    expect(normalizeUnit('mcg/dL')).toBe('ug/dl');
+    expect(normalizeUnit('x10^9/L')).toBe('10^9/l');
+  });
+});
+
+describe('convertResult', () => {
+  it('converts glucose between mg/dL and mmol/L', () => {
+    const si = convertResult(result({ numericValue: 126, unit: 'mg/dL', rangeLow: 70, rangeHigh: 99, normalRange: '70 - 99 mg/dL' }), 'si');
+    expect(si).toMatchObject({ numericValue: 7, unit: 'mmol/L', rangeLow: 3.9, rangeHigh: 5.5, value: '7', normalRange: '3.9 - 5.5 mmol/L' });
+    expect(si.convertedFrom).toEqual({ value: '126', normalRange: '70 - 99 mg/dL', unit: 'mg/dL' });
+    expect(convertResult(result({ numericValue: 7, unit: 'mmol/L' }), 'conventional')).toMatchObject({ numericValue: 126, unit: 'mg/dL' });
+  });
+
+  it('converts HbA1c with its offset and keeps a lower bound of 0', () => {
+    const si = convertResult(result({ test: 'HbA1c', numericValue: 6.5, unit: '%', rangeLow: 0, rangeHigh: 5.7 }), 'si');
+    expect(si).toMatchObject({ numericValue: 48, unit: 'mmol/mol', rangeLow: 0, rangeHigh: 39, normalRange: '< 39 mmol/mol' });
+    expect(convertResult(result({ test: 'HbA1c', numericValue: 48, unit: 'mmol/mol' }), 'conventional').numericValue).toBe(6.5);
+  });
+
+  it('converts creatinine between mg/dL and µmol/L', () => {
+    expect(convertResult(result({ test: 'Creatinine', numericValue: 1.2, unit: 'mg/dL' }), 'si')).toMatchObject({ numericValue: 106, unit: 'µmol/L' });
+    expect(convertResult(result({ test: 'Creatinine', numericValue: 106, unit: 'umol/L' }), 'conventional').numericValue).toBe(1.2);
+  });
+
+  it('leaves ratios and indices alone even when they name a known analyte', () => {
+    const ratio = result({ test: 'Albumin/Creatinine ratio', numericValue: 3, unit: 'mg/dL' });
+    expect(convertResult(ratio, 'si')).toBe(ratio);
+    expect(findConversion('Albumin/Creatinine ratio')).toBeUndefined();
+    expect(findConversion('Urine creatinine ratio')).toBeUndefined();
+    expect(findConversion('Tỷ lệ albumin creatinine')).toBeUndefined();
+    expect(findConversion('Creatinine')?.name).toBe('Creatinine');
+  });
+
+  it('leaves unrecognised units and analytes alone', () => {
+    const ferritin = result({ test: 'Ferritin', numericValue: 80, unit: 'ng/mL' });
+    expect(convertResult(ferritin, 'si')).toBe(ferritin);
+    const oddUnit = result({ numericValue: 5, unit: 'mg%' });
+    expect(convertResult(oddUnit, 'si')).toBe(oddUnit);
+  });
+});
+
+describe('normalizeResult', () => {
+  it('records catalog analytes in SI units, others as printed', () => {
+    expect(normalizeResult(result({ numericValue: 126, unit: 'mg/dL' })).normalized).toEqual({ numericValue: 7, unit: 'mmol/l' });
+    expect(normalizeResult(result({ test: 'Ferritin', numericValue: 80, unit: 'ng/mL' })).normalized).toEqual({ numericValue: 80, unit: 'ng/ml' });
+  });
+
+  it('makes the same analyte in different units comparable', () => {
+    const conventional = normalizeResult(result({ numericValue: 126, unit: 'mg/dL' }));
+    const si = normalizeResult(result({ numericValue: 7, unit: 'mmol/L' }));
+    expect(comparableResults(conventional, si)).toBe(true);
+    expect(comparableResults(conventional, normalizeResult(result({ test: 'Ferritin', numericValue: 80, unit: 'ng/mL' })))).toBe(false);
+  });
+});
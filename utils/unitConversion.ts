@@ -0,0 +1,249 @@
+import { MedicalTestResult, UnitSystem } from "../types";
+
+// Lower-case, strip spaces and unify micro signs / exponent spellings so "µmol/L" == "umol/l"
+export const normalizeUnit = (unit?: string): string => {
+  if (!unit) return '';
+  return unit
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, '')
+    .replace(/[µμ]/g, 'u')
+    .replace(/mcg/g, 'ug')
+    .replace(/x10\^?(\d)/g, '10^$1')
+    .replace(/×10\^?(\d)/g, '10^$1');
+};
+
+interface AnalyteConversion {
+  name: string;
+  pattern: RegExp; // Matched against the extracted test name
+  conventional: { unit: string; aliases: string[]; decimals: number };
+  si: { unit: string; aliases: string[]; decimals: number };
+  // SI = (conventional + offset) * factor
+  factor: number;
+  offset?: number;
+}
+
+// Order matters: more specific names (e.g. urea nitrogen) come before broader ones (urea)
+const CONVERSIONS: AnalyteConversion[] = [
+  {
+    name: 'Glucose',
+    pattern: /glucose|^glu$/i,
+    conventional: { unit: 'mg/dL', aliases: ['mg/dl'], decimals: 0 },
+    si: { unit: 'mmol/L', aliases: ['mmol/l'], decimals: 1 },
+    factor: 0.0555,
+  },
+  {
+    name: 'HbA1c',
+    pattern: /hba1c|a1c|glycated|glycosylated/i,
+    conventional: { unit: '%', aliases: ['%'], decimals: 1 },
+    si: { unit: 'mmol/mol', aliases: ['mmol/mol'], decimals: 0 },
+    factor: 10.929,
+    offset: -2.15,
+  },
+  {
+    name: 'Triglycerides',
+    pattern: /triglyceride|^tg$/i,
+    conventional: { unit: 'mg/dL', aliases: ['mg/dl'], decimals: 0 },
+    si: { unit: 'mmol/L', aliases: ['mmol/l'], decimals: 2 },
+    factor: 0.01129,
+  },
+  {
+    name: 'Cholesterol',
+    pattern: /cholesterol|^ldl|^hdl|^tc$/i,
+    conventional: { unit: 'mg/dL', aliases: ['mg/dl'], decimals: 0 },
+    si: { unit: 'mmol/L', aliases: ['mmol/l'], decimals: 2 },
+    factor: 0.02586,
+  },
+  {
+    name: 'Creatinine',
+    pattern: /creatinine|^cr(ea)?$/i,
+    conventional: { unit: 'mg/dL', aliases: ['mg/dl'], decimals: 2 },
+    si: { unit: 'µmol/L', aliases: ['umol/l'], decimals: 0 },
+    factor: 88.42,
+  },
+  {
+    name: 'Urea Nitrogen',
+    pattern: /urea nitrogen|^bun$/i,
+    conventional: { unit: 'mg/dL', aliases: ['mg/dl'], decimals: 0 },
+    si: { unit: 'mmol/L', aliases: ['mmol/l'], decimals: 1 },
+    factor: 0.357,
+  },
+  {
+    name: 'Urea',
+    pattern: /urea/i,
+    conventional: { unit: 'mg/dL', aliases: ['mg/dl'], decimals: 0 },
+    si: { unit: 'mmol/L', aliases: ['mmol/l'], decimals: 1 },
+    factor: 0.1665,
+  },
+  {
+    name: 'Uric Acid',
+    pattern: /uric acid|urate/i,
+    conventional: { unit: 'mg/dL', aliases: ['mg/dl'], decimals: 1 },
+    si: { unit: 'µmol/L', aliases: ['umol/l'], decimals: 0 },
+    factor: 59.48,
+  },
+  {
+    name: 'Bilirubin',
+    pattern: /bilirubin|^t?bil$/i,
+    conventional: { unit: 'mg/dL', aliases: ['mg/dl'], decimals: 1 },
+    si: { unit: 'µmol/L', aliases: ['umol/l'], decimals: 0 },
+    factor: 17.1,
+  },
+  {
+    name: 'Calcium',
+    pattern: /calcium|^ca$/i,
+    conventional: { unit: 'mg/dL', aliases: ['mg/dl'], decimals: 1 },
+    si: { unit: 'mmol/L', aliases: ['mmol/l'], decimals: 2 },
+    factor: 0.2495,
+  },
+  {
+    name: 'Magnesium',
+    pattern: /magnesium|^mg$/i,
+    conventional: { unit: 'mg/dL', aliases: ['mg/dl'], decimals: 1 },
+    si: { unit: 'mmol/L', aliases: ['mmol/l'], decimals: 2 },
+    factor: 0.4114,
+  },
+  {
+    name: 'Phosphate',
+    pattern: /phosph/i,
+    conventional: { unit: 'mg/dL', aliases: ['mg/dl'], decimals: 1 },
+    si: { unit: 'mmol/L', aliases: ['mmol/l'], decimals: 2 },
+    factor: 0.3229,
+  },
+  {
+    name: 'Hemoglobin',
+    pattern: /hemoglobin|haemoglobin|^hg?b$/i,
+    conventional: { unit: 'g/dL', aliases: ['g/dl'], decimals: 1 },
+    si: { unit: 'g/L', aliases: ['g/l'], decimals: 0 },
+    factor: 10,
+  },
+  {
+    name: 'Albumin',
+    pattern: /albumin|total protein/i,
+    conventional: { unit: 'g/dL', aliases: ['g/dl'], decimals: 1 },
+    si: { unit: 'g/L', aliases: ['g/l'], decimals: 0 },
+    factor: 10,
+  },
+  {
+    name: 'Iron',
+    pattern: /^(serum )?iron$|^fe$/i,
+    conventional: { unit: 'µg/dL', aliases: ['ug/dl'], decimals: 0 },
+    si: { unit: 'µmol/L', aliases: ['umol/l'], decimals: 1 },
+    factor: 0.1791,
+  },
+  {
+    name: 'Vitamin D',
+    pattern: /vitamin d|25-?oh/i,
+    conventional: { unit: 'ng/mL', aliases: ['ng/ml', 'ug/l'], decimals: 0 },
+    si: { unit: 'nmol/L', aliases: ['nmol/l'], decimals: 0 },
+    factor: 2.496,
+  },
+];
+
+// Ratios and indices carry an analyte's name ("Albumin/Creatinine ratio") but are not a concentration of it
+const RATIO_OR_INDEX = /\/|ratio|index|indice|rapport|ty le|ti le|比|指数|соотношение|отношение|индекс/i;
+
+export const findConversion = (testName: string): AnalyteConversion | undefined => {
+  const name = testName.trim();
+  if (RATIO_OR_INDEX.test(name.normalize('NFD').replace(/\p{M}/gu, ''))) return undefined;
+  return CONVERSIONS.find(c => c.pattern.test(name));
+};
+
+// Which system a unit belongs to for this analyte, if we recognise it at all
+const detectSystem = (conversion: AnalyteConversion, unit?: string): UnitSystem | undefined => {
+  const normalized = normalizeUnit(unit);
+  if (conversion.conventional.aliases.includes(normalized)) return 'conventional';
+  if (conversion.si.aliases.includes(normalized)) return 'si';
+  return undefined;
+};
+
+const round = (value: number, decimals: number) => {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+};
+
+const convertNumber = (conversion: AnalyteConversion, value: number, target: UnitSystem): number => {
+  const offset = conversion.offset || 0;
+  const converted = target === 'si'
+    ? (value + offset) * conversion.factor
+    : value / conversion.factor - offset;
+  return round(converted, conversion[target].decimals);
+};
+
+// Convert a result into the requested unit system. Results that are not numeric, belong to an
+// analyte outside the catalog, or use an unrecognised unit are returned unchanged.
+export const convertResult = (result: MedicalTestResult, target: UnitSystem): MedicalTestResult => {
+  if (typeof result.numericValue !== 'number') return result;
+
+  const conversion = findConversion(result.test);
+  if (!conversion) return result;
+
+  const current = detectSystem(conversion, result.unit);
+  if (!current || current === target) return result;
+
+  const convert = (v?: number) => typeof v === 'number' ? convertNumber(conversion, v, target) : undefined;
+  const numericValue = convert(result.numericValue)!;
+  // A lower bound of 0 means "no lower limit" and must stay 0 (HbA1c's offset would shift it)
+  const rangeLow = result.rangeLow === 0 ? 0 : convert(result.rangeLow);
+  const rangeHigh = convert(result.rangeHigh);
+  const unit = conversion[target].unit;
+
+  let normalRange = result.normalRange;
+  if (typeof rangeHigh === 'number') {
+    normalRange = rangeLow ? `${rangeLow} - ${rangeHigh} ${unit}` : `< ${rangeHigh} ${unit}`;
+  } else if (typeof rangeLow === 'number') {
+    normalRange = `> ${rangeLow} ${unit}`;
+  }
+
+  return {
+    ...result,
+    numericValue,
+    rangeLow,
+    rangeHigh,
+    unit,
+    value: String(numericValue),
+    normalRange,
+    convertedFrom: result.convertedFrom || {
+      value: result.value,
+      normalRange: result.normalRange,
+      unit: result.unit,
+    },
+  };
+};
+
+// Apply the user's display preference; 'original' leaves results exactly as printed
+export const convertResults = (results: MedicalTestResult[], preference?: UnitSystem | 'original'): MedicalTestResult[] => {
+  if (!preference || preference === 'original') return results;
+  return results.map(r => convertResult(r, preference));
+};
+
+// Record the result's values in its canonical unit (see NormalizedValue); the displayed values are left as printed
+export const normalizeResult = (result: MedicalTestResult): MedicalTestResult => {
+  if (typeof result.numericValue !== 'number') return result;
+  const conversion = findConversion(result.test);
+  if (conversion && detectSystem(conversion, result.unit)) {
+    const si = convertResult(result, 'si');
+    return {
+      ...result,
+      normalized: { numericValue: si.numericValue!, rangeLow: si.rangeLow, rangeHigh: si.rangeHigh, unit: normalizeUnit(conversion.si.unit) },
+    };
+  }
+  return {
+    ...result,
+    normalized: { numericValue: result.numericValue, rangeLow: result.rangeLow, rangeHigh: result.rangeHigh, unit: normalizeUnit(result.unit) },
+  };
+};
+
+export const normalizeResults = (results: MedicalTestResult[]): MedicalTestResult[] => results.map(normalizeResult);
+
+// Whether two results can be compared numerically: both normalized to the same unit
+export const comparableResults = (a?: MedicalTestResult, b?: MedicalTestResult): boolean =>
+  !!a?.normalized && !!b?.normalized && a.normalized.unit === b.normalized.unit;
+
+// Express `result` in the same unit system as `reference` so the two can be compared numerically
+export const convertToMatch = (result: MedicalTestResult, reference: MedicalTestResult): MedicalTestResult => {
+  const conversion = findConversion(reference.test);
+  if (!conversion) return result;
+  const target = detectSystem(conversion, reference.unit);
+  return target ? convertResult(result, target) : result;
+};